@@ -12,8 +12,12 @@ import Employees from "@/pages/employees";
 import Analytics from "@/pages/analytics";
 import Settings from "@/pages/settings";
 import UserManagement from "@/pages/user-management";
+import ExchangeRates from "@/pages/exchange-rates";
 import Login from "@/pages/login";
 import Register from "@/pages/register";
+import AcceptInvite from "@/pages/accept-invite";
+import ForgotPassword from "@/pages/forgot-password";
+import ResetPassword from "@/pages/reset-password";
 import { AppShell } from "@/components/layout/app-shell";
 import { AuthProvider, useAuth } from "@/hooks/useAuth";
 import ExpenseDetails from "@/pages/expense-details";
@@ -44,6 +48,9 @@ function Router() {
     <Switch>
       <Route path="/login" component={Login} />
       <Route path="/register" component={Register} />
+      <Route path="/invite/:token" component={AcceptInvite} />
+      <Route path="/forgot-password" component={ForgotPassword} />
+      <Route path="/reset-password/:token" component={ResetPassword} />
     
 
       {isAuthenticated && (
@@ -68,6 +75,7 @@ function Router() {
             <Route path="/analytics" component={() => <ProtectedRoute component={Analytics} />} />
             <Route path="/settings" component={() => <ProtectedRoute component={Settings} />} />
             <Route path="/user-management" component={() => <ProtectedRoute component={UserManagement} />} />
+            <Route path="/exchange-rates" component={() => <ProtectedRoute component={ExchangeRates} />} />
             <Route component={NotFound} />
           </Switch>
         </AppShell>
@@ -37,11 +37,11 @@ export function BudgetChart() {
     staleTime: 60000
   });
 
-  // Format data for chart
+  // Format data for chart, in the reporting currency so that projects compare
   const chartData = data?.map((item: any) => ({
     name: item.project.length > 15 ? item.project.substring(0, 12) + "..." : item.project,
-    Budget: item.budget,
-    Spent: item.spent,
+    Budget: item.reportingBudget,
+    Spent: item.reportingSpent,
     fullName: item.project
   })) || [];
 
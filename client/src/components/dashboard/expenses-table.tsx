@@ -7,6 +7,9 @@ import { Link, useLocation } from 'wouter';
 import { useMobile } from '@/hooks/use-mobile';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useAuth } from '@/hooks/useAuth';
+import { useExpensePage } from '@/hooks/use-expense-page';
+import { UserName } from '@/components/expenses/expense-history';
+import { Expense } from '@shared/schema';
 
 export default function ExpensesTable() {
   const [page, setPage] = useState(1);
@@ -16,13 +19,11 @@ export default function ExpensesTable() {
   const pageSize = 3;
   const { authenticatedFetch } = useAuth();
 
-  // Fetch expenses
-  const { data: expenses, isLoading: isLoadingExpenses } = useQuery({
-    queryKey: ['/api/expenses'],
-    queryFn: async () => {
-      const response = await authenticatedFetch("GET", "/api/expenses");
-      return await response.json();
-    },
+  // Fetch one page of expenses for the selected project
+  const { data: expensePage, isLoading: isLoadingExpenses } = useExpensePage({
+    projectId: projectFilter === 'all' ? undefined : parseInt(projectFilter),
+    page,
+    pageSize,
   });
 
   // Fetch projects for filter
@@ -38,47 +39,34 @@ export default function ExpensesTable() {
     setLocation(`/expenses/${id}`);
   };
 
-  // Get filtered expenses
-  const getFilteredExpenses = () => {
-    if (!expenses) return [];
-    
-    if (projectFilter === 'all') {
-      return expenses;
-    }
-    
-    return expenses.filter((expense: any) => 
-      expense.projectId.toString() === projectFilter
-    );
-  };
+  const currentExpenses = expensePage.items;
+  const totalExpenses = expensePage.total;
+  const totalPages = Math.ceil(totalExpenses / pageSize);
 
-  // Get expenses for current page
-  const getCurrentPageExpenses = () => {
-    const filtered = getFilteredExpenses();
-    const start = (page - 1) * pageSize;
-    const end = start + pageSize;
-    return filtered.slice(start, end);
-  };
+  const getProjectName = (projectId: number) =>
+    projects?.find((project: any) => project.id === projectId)?.name ?? 'Unknown Project';
 
-  const currentExpenses = getCurrentPageExpenses();
-  const totalExpenses = getFilteredExpenses().length;
-  const totalPages = Math.ceil(totalExpenses / pageSize);
+  const handleProjectFilterChange = (value: string) => {
+    setProjectFilter(value);
+    setPage(1);
+  };
 
   const renderStatusBadge = (status: string) => {
     return <span className={`status-badge-${status}`}>{status.charAt(0).toUpperCase() + status.slice(1)}</span>;
   };
 
   // Format currency
-  const formatCurrency = (amount: number) => {
+  const formatCurrency = (amount: number, currency = 'USD') => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency,
       maximumFractionDigits: 0,
     }).format(amount);
   };
 
   // Format date
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
+  const formatDate = (date: string | Date) => {
+    return new Date(date).toLocaleDateString('en-US', {
       year: 'numeric',
       month: 'short',
       day: 'numeric',
@@ -90,7 +78,7 @@ export default function ExpensesTable() {
       <CardHeader className="px-4 py-5 border-b border-gray-200 sm:px-6 flex justify-between items-center flex-wrap gap-3">
         <CardTitle className="text-lg font-medium">Recent Expenses</CardTitle>
         <div className="flex space-x-3">
-          <Select value={projectFilter} onValueChange={setProjectFilter}>
+          <Select value={projectFilter} onValueChange={handleProjectFilterChange}>
             <SelectTrigger className="w-[160px] text-sm">
               <SelectValue placeholder="All Projects" />
             </SelectTrigger>
@@ -181,39 +169,29 @@ export default function ExpensesTable() {
                 </tr>
               ))
             ) : currentExpenses.length > 0 ? (
-              currentExpenses.map((expense: any) => (
+              currentExpenses.map((expense: Expense) => (
                 <tr key={expense.id} className="hover:bg-gray-50">
                   <td className="px-6 py-4">
                     <div className="text-sm font-medium text-gray-900">{expense.description}</div>
-                    <div className="text-xs text-gray-500">{formatDate(expense.submittedAt)}</div>
+                    <div className="text-xs text-gray-500">{formatDate(expense.createdAt)}</div>
                   </td>
                   {!isMobile && (
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-gray-900">{expense.project?.name}</div>
+                      <div className="text-sm text-gray-900">{getProjectName(expense.projectId)}</div>
                     </td>
                   )}
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm text-gray-900">{expense.category?.name}</div>
+                    <div className="text-sm text-gray-900 capitalize">{expense.category}</div>
                   </td>
                   {!isMobile && (
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        <div className="flex-shrink-0 h-8 w-8 bg-primary-600 text-white rounded-full flex items-center justify-center">
-                          {expense.submitter?.name.charAt(0)}
-                        </div>
-                        <div className="ml-3">
-                          <div className="text-sm font-medium text-gray-900">
-                            {expense.submitter?.name}
-                          </div>
-                          <div className="text-xs text-gray-500 capitalize">
-                            {expense.submitter?.role}
-                          </div>
-                        </div>
+                      <div className="text-sm font-medium text-gray-900">
+                        <UserName userId={expense.submittedById} />
                       </div>
                     </td>
                   )}
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm text-gray-900">{formatCurrency(parseFloat(expense.amount))}</div>
+                    <div className="text-sm text-gray-900">{formatCurrency(expense.amount, expense.currency)}</div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     {renderStatusBadge(expense.status)}
@@ -1,24 +1,30 @@
-import React from "react";
+import React, { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
 import { Link } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { formatCurrency } from "@/lib/utils";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth"; 
-import { Expense, Project, User } from "@shared/schema";
+import { BulkReviewResult, Expense, Project, User } from "@shared/schema";
 
 
 export function PendingExpenses() {
   const { toast } = useToast();
   const { authenticatedFetch } = useAuth();
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [bulkFeedback, setBulkFeedback] = useState("");
+  // Why the last bulk review refused an expense, by expense ID
+  const [bulkFailures, setBulkFailures] = useState<Record<number, string>>({});
 
   // Fetch pending expenses
   const { data: expenses = [], isLoading } = useQuery<Expense[]>({
-    queryKey: ['/api/expenses?status=pending'],
+    queryKey: ['/api/expenses/status/pending'],
     queryFn: async () => {
-      const response = await authenticatedFetch("GET",`/api/expenses?status=pending`);
+      const response = await authenticatedFetch("GET",`/api/expenses/status/pending`);
       return await response.json();
     },
     staleTime: 60000
@@ -57,11 +63,65 @@ export function PendingExpenses() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/expenses?status=pending'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/expenses/status/pending'] });
       queryClient.invalidateQueries({ queryKey: ['/api/activity-logs'] });
     }
   });
 
+  // One decision for all selected expenses; the server applies it to all of them or to none
+  const bulkReviewMutation = useMutation({
+    mutationFn: async ({ status, feedback }: { status: 'approved' | 'rejected'; feedback?: string }) => {
+      const response = await authenticatedFetch("POST", "/api/expenses/bulk-review", {
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ expenseIds: expenses.filter((expense) => selectedIds.has(expense.id)).map((expense) => expense.id), status, feedback: feedback || undefined }),
+      });
+      const responseData = await response.json();
+      if (response.status === 409) {
+        const failures: Record<number, string> = {};
+        for (const result of (responseData as BulkReviewResult).results) {
+          if (!result.success) failures[result.expenseId] = result.message ?? "Cannot be reviewed";
+        }
+        setBulkFailures(failures);
+      }
+      if (!response.ok) {
+        throw new Error(responseData.message || "Could not review expenses");
+      }
+      return responseData as BulkReviewResult;
+    },
+    onSuccess: (result, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/expenses/status/pending'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/activity-logs'] });
+      setSelectedIds(new Set());
+      setBulkFeedback("");
+      setBulkFailures({});
+      toast({
+        title: status === 'approved' ? "Expenses approved" : "Expenses rejected",
+        description: `${result.results.length} expenses have been ${status}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not review expenses",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    const next = new Set(selectedIds);
+    if (checked) next.add(id);
+    else next.delete(id);
+    setSelectedIds(next);
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(expenses.map((expense) => expense.id)) : new Set());
+  };
+
   const handleApproveExpense = (id: number) => {
     updateExpenseMutation.mutate(
       { id, status: 'approved' },
@@ -128,8 +188,10 @@ export function PendingExpenses() {
     return project ? project.name : 'Unknown Project';
   };
 
-  // Show only top 3 pending expenses for dashboard
-  const displayExpenses = expenses.slice(0, 3);
+  // Everything pending is listed so that a whole batch can be selected; the list scrolls
+  const displayExpenses = expenses;
+  const allSelected = expenses.length > 0 && expenses.every((expense) => selectedIds.has(expense.id));
+  const isReviewing = updateExpenseMutation.isPending || bulkReviewMutation.isPending;
 
   return (
     <Card>
@@ -139,7 +201,41 @@ export function PendingExpenses() {
           <a className="text-sm font-medium text-primary-600 hover:text-primary-500">View all</a>
         </Link>
       </div>
-      <div className="divide-y divide-gray-200">
+      {expenses.length > 0 && (
+        <div className="px-5 py-3 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center gap-3 bg-gray-50">
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <Checkbox checked={allSelected} onCheckedChange={(checked) => toggleAll(checked === true)} />
+            <span>{selectedIds.size > 0 ? `${selectedIds.size} selected` : "Select all"}</span>
+          </label>
+          {selectedIds.size > 0 && (
+            <div className="flex flex-1 flex-col sm:flex-row gap-2 sm:justify-end">
+              <Input
+                className="sm:max-w-xs h-9"
+                placeholder="Feedback (optional)"
+                value={bulkFeedback}
+                onChange={(e) => setBulkFeedback(e.target.value)}
+                disabled={isReviewing}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => bulkReviewMutation.mutate({ status: 'rejected', feedback: bulkFeedback })}
+                disabled={isReviewing}
+              >
+                Reject selected
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => bulkReviewMutation.mutate({ status: 'approved', feedback: bulkFeedback })}
+                disabled={isReviewing}
+              >
+                Approve selected
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+      <div className="divide-y divide-gray-200 max-h-[480px] overflow-y-auto">
         {isLoading ? (
           <div className="flex justify-center p-8">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-500"></div>
@@ -153,6 +249,12 @@ export function PendingExpenses() {
             <div className="p-5" key={expense.id}>
               <div className="flex items-center justify-between">
                 <div className="flex items-center">
+                  <Checkbox
+                    className="mr-4"
+                    checked={selectedIds.has(expense.id)}
+                    onCheckedChange={(checked) => toggleSelected(expense.id, checked === true)}
+                    aria-label="Select expense"
+                  />
                   <div className="h-10 w-10 flex-shrink-0 bg-gray-100 rounded-full flex items-center justify-center">
                     <span className="text-sm font-medium text-gray-600">{getUserInitials(expense.submittedById)}</span>
                   </div>
@@ -163,8 +265,11 @@ export function PendingExpenses() {
                     </div>
                   </div>
                 </div>
-                <div className="text-sm font-medium text-gray-900">{formatCurrency(expense.amount)}</div>
+                <div className="text-sm font-medium text-gray-900">{formatCurrency(expense.amount, expense.currency)}</div>
               </div>
+              {bulkFailures[expense.id] && (
+                <div className="mt-2 text-sm text-red-600">{bulkFailures[expense.id]}</div>
+              )}
               <div className="mt-4 flex justify-between space-x-3">
                 <Link href={`/expenses/${expense.id}`} className="self-center">
                   <a className="text-sm text-primary-600 hover:underline inline-flex self-center">See details</a>
@@ -174,7 +279,7 @@ export function PendingExpenses() {
                     variant="outline"
                     size="sm"
                     onClick={() => handleRejectExpense(expense.id)}
-                    disabled={updateExpenseMutation.isPending}
+                    disabled={isReviewing}
                   >
                     Reject
                   </Button>
@@ -182,7 +287,7 @@ export function PendingExpenses() {
                     variant="default"
                     size="sm"
                     onClick={() => handleApproveExpense(expense.id)}
-                    disabled={updateExpenseMutation.isPending}
+                    disabled={isReviewing}
                   >
                     Approve
                   </Button>
@@ -1,128 +1,131 @@
-import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
+import { Link } from 'wouter';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
-import { Download } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/useAuth';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { BudgetForecast } from '@shared/schema';
+
+// How many projects the chart shows, the ones closest to their budget first
+const CHART_PROJECTS = 6;
 
 export default function ProjectBudgetChart() {
-  const [timeRange, setTimeRange] = useState('30days');
-  const { authenticatedFetch } = useAuth(); 
+  const { authenticatedFetch } = useAuth();
 
-  // Fetch projects
-  const { data: projects, isLoading } = useQuery({
-    queryKey: ['/api/projects'],
+  const { data: forecasts = [], isLoading } = useQuery<BudgetForecast[]>({
+    queryKey: ['/api/projects/budget-forecasts'],
     queryFn: async () => {
-      const response = await authenticatedFetch("GET","/api/projects");
-      return await response.json();
+      const response = await authenticatedFetch("GET", "/api/projects/budget-forecasts");
+      if (!response.ok) {
+        throw new Error("Failed to fetch budget forecasts");
+      }
+      return response.json();
     },
+    staleTime: 60000,
   });
 
-  // Format data for chart
-  const formatChartData = () => {
-    if (!projects) return [];
-
-    // Take only top 5 projects for clarity
-    return projects.slice(0, 5).map((project: any) => ({
-      name: project.name,
-      budget: parseFloat(project.totalBudget),
-      // For demo purposes, we'll calculate a random amount spent between 25-95% of budget
-      spent: parseFloat(project.totalBudget) * (0.25 + Math.random() * 0.7),
-    }));
-  };
-
-  const chartData = formatChartData();
+  const closestToBudget = [...forecasts]
+    .sort((a, b) => b.percentCommitted - a.percentCommitted)
+    .slice(0, CHART_PROJECTS);
 
-  // Format currency for tooltip
-  const formatCurrency = (value: number) => {
-    return `$${value.toLocaleString()}`;
-  };
-
-  const handleDownload = () => {
-    // In a real application, this would generate and download a report
-    alert('Report download functionality would be implemented here.');
-  };
+  const chartData = closestToBudget.map((forecast) => ({
+    name: forecast.projectName,
+    budget: forecast.budget,
+    approved: forecast.approved,
+    pending: forecast.pending,
+    currency: forecast.currency,
+  }));
 
   return (
     <Card className="lg:col-span-2">
-      <CardHeader className="px-6 py-5 flex flex-row items-center justify-between border-b">
-        <CardTitle className="text-lg font-medium">Project Budget Overview</CardTitle>
-        <div className="flex space-x-2">
-          <Select defaultValue={timeRange} onValueChange={setTimeRange}>
-            <SelectTrigger className="w-[180px]">
-              <SelectValue placeholder="Select time range" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="30days">Last 30 Days</SelectItem>
-              <SelectItem value="3months">Last 3 Months</SelectItem>
-              <SelectItem value="6months">Last 6 Months</SelectItem>
-              <SelectItem value="ytd">Year to Date</SelectItem>
-            </SelectContent>
-          </Select>
-          <Button variant="ghost" size="icon" onClick={handleDownload}>
-            <Download className="h-5 w-5" />
-          </Button>
-        </div>
+      <CardHeader className="px-6 py-5 border-b">
+        <CardTitle className="text-lg font-medium">Project Budget Forecast</CardTitle>
       </CardHeader>
       <CardContent className="p-6">
         {isLoading ? (
           <div className="h-72 flex items-center justify-center">
             <Skeleton className="h-full w-full" />
           </div>
+        ) : closestToBudget.length === 0 ? (
+          <div className="h-72 flex items-center justify-center text-gray-500">No active projects</div>
         ) : (
-          <div className="h-72">
-            <ResponsiveContainer width="100%" height="100%">
-              <BarChart
-                data={chartData}
-                margin={{
-                  top: 5,
-                  right: 30,
-                  left: 20,
-                  bottom: 5,
-                }}
-              >
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis 
-                  dataKey="name" 
-                  tick={{ fontSize: 12 }} 
-                  tickLine={{ stroke: '#E5E7EB' }}
-                  axisLine={{ stroke: '#E5E7EB' }}
-                />
-                <YAxis 
-                  tickFormatter={(value) => `$${value/1000}k`}
-                  tick={{ fontSize: 12 }}
-                  tickLine={{ stroke: '#E5E7EB' }}
-                  axisLine={{ stroke: '#E5E7EB' }}
-                />
-                <Tooltip 
-                  formatter={(value: number) => formatCurrency(value)}
-                  contentStyle={{ 
-                    backgroundColor: 'white', 
-                    border: '1px solid #E5E7EB',
-                    borderRadius: '0.375rem',
-                    boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06)'
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="h-72 lg:col-span-2">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart
+                  data={chartData}
+                  margin={{
+                    top: 5,
+                    right: 30,
+                    left: 20,
+                    bottom: 5,
                   }}
-                />
-                <Legend />
-                <Bar 
-                  dataKey="budget" 
-                  name="Total Budget" 
-                  fill="hsl(var(--primary))" 
-                  radius={[4, 4, 0, 0]}
-                  barSize={20}
-                />
-                <Bar 
-                  dataKey="spent" 
-                  name="Spent to Date" 
-                  fill="hsl(var(--secondary))" 
-                  radius={[4, 4, 0, 0]}
-                  barSize={20}
-                />
-              </BarChart>
-            </ResponsiveContainer>
+                >
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="name"
+                    tick={{ fontSize: 12 }}
+                    tickLine={{ stroke: '#E5E7EB' }}
+                    axisLine={{ stroke: '#E5E7EB' }}
+                  />
+                  <YAxis
+                    tickFormatter={(value) => `${value/1000}k`}
+                    tick={{ fontSize: 12 }}
+                    tickLine={{ stroke: '#E5E7EB' }}
+                    axisLine={{ stroke: '#E5E7EB' }}
+                  />
+                  <Tooltip
+                    formatter={(value: number, _name, item) => formatCurrency(value, item.payload.currency)}
+                    contentStyle={{
+                      backgroundColor: 'white',
+                      border: '1px solid #E5E7EB',
+                      borderRadius: '0.375rem',
+                      boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06)'
+                    }}
+                  />
+                  <Legend />
+                  <Bar
+                    dataKey="budget"
+                    name="Budget"
+                    fill="hsl(var(--primary))"
+                    radius={[4, 4, 0, 0]}
+                    barSize={20}
+                  />
+                  <Bar dataKey="approved" name="Approved" stackId="committed" fill="#10B981" barSize={20} />
+                  <Bar
+                    dataKey="pending"
+                    name="Pending"
+                    stackId="committed"
+                    fill="#F59E0B"
+                    radius={[4, 4, 0, 0]}
+                    barSize={20}
+                  />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div>
+              <div className="text-sm font-medium text-gray-500 mb-3">Projected Run-out</div>
+              <ul className="space-y-3">
+                {closestToBudget.map((forecast) => (
+                  <li key={forecast.projectId} className="flex justify-between text-sm">
+                    <Link href={`/projects/${forecast.projectId}`} className="text-primary hover:underline truncate mr-2">
+                      {forecast.projectName}
+                    </Link>
+                    {forecast.exhaustionDate === null ? (
+                      <span className="text-gray-500 whitespace-nowrap">No recent spend</span>
+                    ) : forecast.daysRemaining === 0 ? (
+                      <span className="text-red-600 font-medium whitespace-nowrap">Exhausted</span>
+                    ) : (
+                      <span className={`whitespace-nowrap ${forecast.daysRemaining! <= 30 ? 'text-red-600' : 'text-gray-700'}`}>
+                        {formatDate(forecast.exhaustionDate)}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
           </div>
         )}
       </CardContent>
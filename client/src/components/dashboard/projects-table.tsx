@@ -181,10 +181,10 @@ export function ProjectsTable() {
                         <div className="text-sm text-gray-500">{getClientContact(project.clientId)}</div>
                       </TableCell>
                       <TableCell>
-                        <div className="text-sm text-gray-900">{formatCurrency(project.budget)}</div>
+                        <div className="text-sm text-gray-900">{formatCurrency(project.budget, project.currency)}</div>
                       </TableCell>
                       <TableCell>
-                        <div className="text-sm text-gray-900">{formatCurrency(spent)}</div>
+                        <div className="text-sm text-gray-900">{formatCurrency(spent, project.currency)}</div>
                         <div className="text-sm text-gray-500">{spentPercentage}%</div>
                       </TableCell>
                       <TableCell>
@@ -2,7 +2,7 @@ import React from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Link } from "wouter";
 import { useQuery } from "@tanstack/react-query";
-import { CheckCircle, XCircle, AlertCircle, Clock, PlusCircle, RefreshCcw, UserPlus, UserX } from "lucide-react";
+import { CheckCircle, XCircle, AlertCircle, AlertTriangle, Clock, PlusCircle, RefreshCcw, Trash2, UserPlus, UserX } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { ActivityLog, User, Project, Expense, ActivityAction } from "@shared/schema";
 
@@ -29,16 +29,6 @@ export function RecentActivity() {
     staleTime: 300000
   });
 
-  // Fetch expenses for displaying details
-  const { data: expenses = [] } = useQuery<Expense[]>({
-    queryKey: ['/api/expenses'],
-    queryFn: async () => {
-      const res = await authenticatedFetch("GET", "/api/expenses");
-      return res.json();
-    },
-    staleTime: 300000
-  });
-
   // Fetch projects for displaying names
   const { data: projects = [] } = useQuery<Project[]>({
     queryKey: ['/api/projects'],
@@ -62,13 +52,6 @@ export function RecentActivity() {
     return project ? project.name : 'Unknown Project';
   };
 
-  // Get expense amount by ID
-  const getExpenseAmount = (expenseId?: number) => {
-    if (!expenseId) return null;
-    const expense = expenses.find(e => e.id === expenseId);
-    return expense ? expense.amount : null;
-  };
-
   // Format timestamp to relative time
   const formatRelativeTime = (timestamp: string) => {
     const date = new Date(timestamp);
@@ -147,6 +130,20 @@ export function RecentActivity() {
             <RefreshCcw className="h-5 w-5 text-white" />
           </div>
         );
+      case ActivityAction.PROJECT_DELETED:
+        return (
+          <div className={`${baseClasses} bg-red-500`}>
+            <Trash2 className="h-5 w-5 text-white" />
+          </div>
+        );
+
+      // Budget-related
+      case ActivityAction.BUDGET_THRESHOLD_REACHED:
+        return (
+          <div className={`${baseClasses} bg-orange-500`}>
+            <AlertTriangle className="h-5 w-5 text-white" />
+          </div>
+        );
   
       // Fallback
       default:
@@ -198,7 +195,27 @@ export function RecentActivity() {
                     {log.action === ActivityAction.EXPENSE_REJECTED && 'rejected expense of '}
                     {log.action === ActivityAction.EXPENSE_SUBMITTED && 'submitted new expense of '}
                     {log.action === ActivityAction.PROJECT_CREATED && 'created new project '}
-                    {log.action === ActivityAction.PROJECT_UPDATED && 'updated project status for '}
+                    {log.action === ActivityAction.PROJECT_UPDATED && 'updated project '}
+                    {log.action === ActivityAction.CLIENT_UPDATED && 'updated client '}
+                    {log.action === ActivityAction.CLIENT_TRANSFERRED && 'handed over client '}
+                    {log.action === ActivityAction.CLIENT_MERGED && 'merged duplicate client '}
+                    {(log.action === ActivityAction.CLIENT_UPDATED ||
+                      log.action === ActivityAction.CLIENT_TRANSFERRED ||
+                      log.action === ActivityAction.CLIENT_MERGED) && log.details && 'contactPerson' in log.details && (
+                      <Link href={`/clients/${log.details.mergedIntoId ?? log.details.id}`}>
+                        <a className="font-medium text-gray-900">{log.details.name}</a>
+                      </Link>
+                    )}
+                    {log.action === ActivityAction.BUDGET_THRESHOLD_REACHED && log.details && 'threshold' in log.details &&
+                      `pushed committed spend past ${log.details.threshold}% of the budget`}
+                    {log.action === ActivityAction.PROJECT_DELETED && log.details && (
+                      <>
+                        {'deleted project '}
+                        <span className="font-medium text-gray-900">
+                          {'name' in log.details ? log.details.name : '[Unnamed Project]'}
+                        </span>
+                      </>
+                    )}
 
                     {(log.action === ActivityAction.EXPENSE_REJECTED ||
                       log.action === ActivityAction.EXPENSE_APPROVED ||
@@ -6,6 +6,7 @@ import { useQuery } from "@tanstack/react-query";
 import { FileText, PanelTop, BarChart3, DollarSign } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { Expense, Project, ProjectBudgetComparison } from "@shared/schema";
+import { sumMoney } from "@shared/money";
 import { useDateRange } from "@/context/DateRangeContext";
 
 
@@ -106,9 +107,10 @@ export function StatsOverview() {
   
   const pendingExpenses = expensesQuery.data?.length || 0;
   
-  const totalBudget = budgetQuery.data?.reduce((sum, p) => sum + p.budget, 0) || 0;
+  // Projects budget in their own currencies, so totals use the reporting currency figures
+  const totalBudget = sumMoney(budgetQuery.data?.map((p) => p.reportingBudget) ?? []);
  
-  const totalSpent = budgetQuery.data?.reduce((sum, p) => sum + p.spent, 0) || 0;
+  const totalSpent = sumMoney(budgetQuery.data?.map((p) => p.reportingSpent) ?? []);
   
   const budgetUtilization = totalBudget > 0 
     ? Math.round((totalSpent / totalBudget) * 100) 
@@ -0,0 +1,89 @@
+import { Badge } from "@/components/ui/badge";
+import { UserName } from "@/components/expenses/expense-history";
+import { formatDate, formatStatus, getStatusColor } from "@/lib/utils";
+import { ApprovalStepStatus, ExpenseApprovalStep } from "@shared/schema";
+import { CheckIcon, Clock, MessageSquare, XIcon } from "lucide-react";
+
+// The step an expense is waiting on: the lowest pending level of the latest round, unless that round was rejected
+export function currentApprovalStep(steps: ExpenseApprovalStep[]): ExpenseApprovalStep | undefined {
+  if (steps.length === 0) return undefined;
+  const round = Math.max(...steps.map((step) => step.round));
+  const roundSteps = steps.filter((step) => step.round === round);
+  if (roundSteps.some((step) => step.status === ApprovalStepStatus.REJECTED)) return undefined;
+  return roundSteps
+    .filter((step) => step.status === ApprovalStepStatus.PENDING)
+    .sort((a, b) => a.level - b.level)[0];
+}
+
+function StepIcon({ status }: { status: string }) {
+  if (status === ApprovalStepStatus.APPROVED) {
+    return <CheckIcon className="h-4 w-4 text-green-600" />;
+  }
+  if (status === ApprovalStepStatus.REJECTED) {
+    return <XIcon className="h-4 w-4 text-red-600" />;
+  }
+  return <Clock className="h-4 w-4 text-gray-400" />;
+}
+
+interface ApprovalTimelineProps {
+  steps: ExpenseApprovalStep[];
+  // Undecided steps are only "waiting" while the expense is still pending
+  isPending: boolean;
+}
+
+export function ApprovalTimeline({ steps, isPending }: ApprovalTimelineProps) {
+  if (steps.length === 0) {
+    return <p className="text-gray-500">No approval steps recorded for this expense.</p>;
+  }
+
+  const current = isPending ? currentApprovalStep(steps) : undefined;
+  const rounds = Array.from(new Set(steps.map((step) => step.round))).sort((a, b) => b - a);
+
+  return (
+    <div className="space-y-6">
+      {rounds.map((round) => (
+        <div key={round}>
+          {rounds.length > 1 && (
+            <h3 className="text-sm font-medium text-gray-500 mb-2">Submission {round}</h3>
+          )}
+          <ol className="space-y-3">
+            {steps
+              .filter((step) => step.round === round)
+              .map((step) => (
+                <li key={step.id} className="flex items-start space-x-3">
+                  <div className="mt-0.5 rounded-full border p-1">
+                    <StepIcon status={step.status} />
+                  </div>
+                  <div className="flex-1 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-gray-900">
+                        Level {step.level} · {formatStatus(step.approverRole)} approval
+                      </span>
+                      {step.id === current?.id ? (
+                        <Badge className={getStatusColor(ApprovalStepStatus.PENDING)}>Awaiting decision</Badge>
+                      ) : step.status !== ApprovalStepStatus.PENDING ? (
+                        <Badge className={getStatusColor(step.status)}>{formatStatus(step.status)}</Badge>
+                      ) : (
+                        round !== rounds[0] && <Badge variant="outline">Superseded</Badge>
+                      )}
+                    </div>
+                    {step.reviewedById && step.reviewedAt && (
+                      <p className="text-gray-500">
+                        <UserName userId={step.reviewedById} /> · {formatDate(step.reviewedAt)}
+                      </p>
+                    )}
+                    {step.feedback && (
+                      <div className="mt-1 flex items-start text-gray-700">
+                        <MessageSquare className="h-4 w-4 text-gray-500 mr-2 mt-0.5" />
+                        <p>{step.feedback}</p>
+                      </div>
+                    )}
+                  </div>
+                </li>
+              ))}
+          </ol>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { formatCurrency } from "@/lib/utils";
+import { CategoryBudgetCheck } from "@shared/schema";
+
+interface CategoryBudgetWarningProps {
+  projectId?: number;
+  category?: string;
+  amount?: number;
+  // The expense's currency; the project's when left out
+  currency?: string;
+  // Set when editing, so the expense's current figures are not counted twice
+  expenseId?: number;
+}
+
+// Warns, without blocking, when the expense would take its category over the project's budget line
+export function CategoryBudgetWarning({ projectId, category, amount, currency, expenseId }: CategoryBudgetWarningProps) {
+  const { authenticatedFetch } = useAuth();
+  const [debouncedAmount, setDebouncedAmount] = useState(amount);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedAmount(amount), 400);
+    return () => clearTimeout(timer);
+  }, [amount]);
+
+  const ready = !!projectId && !!category && !!debouncedAmount && debouncedAmount > 0;
+
+  const { data: check } = useQuery<CategoryBudgetCheck | null>({
+    queryKey: [`/api/projects/${projectId}/category-budgets/check`, category, debouncedAmount, currency, expenseId],
+    queryFn: async () => {
+      const search = new URLSearchParams({ category: category!, amount: String(debouncedAmount) });
+      if (currency) search.set("currency", currency);
+      if (expenseId) search.set("expenseId", String(expenseId));
+      const res = await authenticatedFetch("GET", `/api/projects/${projectId}/category-budgets/check?${search}`);
+      if (!res.ok) {
+        throw new Error("Failed to check category budget");
+      }
+      return res.json();
+    },
+    enabled: ready,
+  });
+
+  if (!ready || !check || check.overBy <= 0) return null;
+
+  return (
+    <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+      <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+      <span>
+        This would take <span className="capitalize">{check.category}</span> spending to {formatCurrency(check.projected, check.currency)},{" "}
+        {formatCurrency(check.overBy, check.currency)} over its {formatCurrency(check.budget, check.currency)} budget line. You can still submit it.
+      </span>
+    </div>
+  );
+}
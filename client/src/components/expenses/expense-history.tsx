@@ -0,0 +1,109 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/hooks/useAuth";
+import { formatCurrency, formatDate, formatStatus, getStatusColor } from "@/lib/utils";
+import { ExpenseVersion, User } from "@shared/schema";
+import { MessageSquare } from "lucide-react";
+
+type TrackedField = "amount" | "currency" | "description" | "category" | "status";
+
+const TRACKED_FIELDS: { key: TrackedField; label: string }[] = [
+  { key: "amount", label: "Amount" },
+  { key: "currency", label: "Currency" },
+  { key: "description", label: "Description" },
+  { key: "category", label: "Category" },
+  { key: "status", label: "Status" },
+];
+
+function formatFieldValue(key: TrackedField, version: ExpenseVersion) {
+  if (key === "amount") return formatCurrency(version.amount, version.currency);
+  if (key === "status") return formatStatus(version.status);
+  return String(version[key]);
+}
+
+export function UserName({ userId }: { userId: number }) {
+  const { authenticatedFetch } = useAuth();
+  const { data: user } = useQuery<User>({
+    queryKey: [`/api/users/${userId}`],
+    queryFn: () => authenticatedFetch("GET", `/api/users/${userId}`).then((res) => res.json()),
+  });
+
+  return <span className="font-medium text-gray-900">{user?.name ?? "Unknown user"}</span>;
+}
+
+export function ExpenseHistory({ expenseId }: { expenseId: number }) {
+  const { authenticatedFetch } = useAuth();
+
+  const { data: versions = [], isLoading } = useQuery<ExpenseVersion[]>({
+    queryKey: [`/api/expenses/${expenseId}/versions`],
+    queryFn: async () => {
+      const res = await authenticatedFetch("GET", `/api/expenses/${expenseId}/versions`);
+      return res.json();
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="w-full h-48" />;
+  }
+
+  if (versions.length === 0) {
+    return <p className="text-gray-500">No history recorded for this expense.</p>;
+  }
+
+  // Newest first, each compared against the version before it
+  return (
+    <ol className="space-y-4">
+      {[...versions].reverse().map((version) => {
+        const previous = versions.find((candidate) => candidate.version === version.version - 1);
+        const changes = previous
+          ? TRACKED_FIELDS.filter(({ key }) => previous[key] !== version[key])
+          : [];
+
+        return (
+          <li key={version.id} className="border rounded-md p-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2 text-sm">
+                <Badge variant="outline">{formatStatus(version.changeType)}</Badge>
+                <span className="text-gray-500">by</span>
+                <UserName userId={version.changedById} />
+              </div>
+              <span className="text-sm text-gray-500">
+                Version {version.version} · {formatDate(version.createdAt)}
+              </span>
+            </div>
+
+            {previous ? (
+              changes.length > 0 && (
+                <ul className="mt-3 space-y-1 text-sm">
+                  {changes.map(({ key, label }) => (
+                    <li key={key}>
+                      <span className="text-gray-500">{label}: </span>
+                      <span className="line-through text-gray-400">{formatFieldValue(key, previous)}</span>
+                      <span className="text-gray-500"> → </span>
+                      <span className="text-gray-900">{formatFieldValue(key, version)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )
+            ) : (
+              <div className="mt-3 flex items-center space-x-2 text-sm">
+                <span className="text-gray-900">{formatCurrency(version.amount, version.currency)}</span>
+                <span className="text-gray-500">·</span>
+                <span className="capitalize text-gray-900">{version.category}</span>
+                <Badge className={getStatusColor(version.status)}>{formatStatus(version.status)}</Badge>
+              </div>
+            )}
+
+            {version.feedback && version.feedback !== previous?.feedback && (
+              <div className="mt-3 flex items-start text-sm text-gray-700">
+                <MessageSquare className="h-4 w-4 text-gray-500 mr-2 mt-0.5" />
+                <p>{version.feedback}</p>
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,198 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FileTextIcon, ReceiptIcon, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { ExpenseReceipt, RECEIPT_MAX_FILES, RECEIPT_MIME_TYPES } from "@shared/schema";
+
+type AuthenticatedFetch = ReturnType<typeof useAuth>["authenticatedFetch"];
+
+export const RECEIPT_ACCEPT = RECEIPT_MIME_TYPES.join(",");
+
+// Sends the files as multipart form data; the browser sets the multipart boundary header itself
+export async function uploadReceipts(authenticatedFetch: AuthenticatedFetch, expenseId: number, files: File[]): Promise<ExpenseReceipt[]> {
+  const body = new FormData();
+  files.forEach((file) => body.append("receipts", file));
+
+  const res = await authenticatedFetch("POST", `/api/expenses/${expenseId}/receipts`, { body });
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.message || "Failed to upload receipts");
+  }
+  return data;
+}
+
+function ReceiptPreview({ receipt, canModify, onDelete }: { receipt: ExpenseReceipt; canModify: boolean; onDelete: () => void }) {
+  const { authenticatedFetch } = useAuth();
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+
+  // Receipt files need the Authorization header, so they are fetched as blobs rather than linked directly
+  const { data: blob, isLoading, isError } = useQuery<Blob>({
+    queryKey: [`/api/receipts/${receipt.id}/file`],
+    queryFn: async () => {
+      const res = await authenticatedFetch("GET", `/api/receipts/${receipt.id}/file`);
+      if (!res.ok) throw new Error("Failed to load receipt");
+      return res.blob();
+    },
+  });
+
+  useEffect(() => {
+    if (!blob) return;
+    const url = URL.createObjectURL(blob);
+    setObjectUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [blob]);
+
+  const isPdf = receipt.mimeType === "application/pdf";
+
+  return (
+    <div className="space-y-2">
+      {isLoading ? (
+        <Skeleton className="w-full h-48" />
+      ) : isError || !objectUrl ? (
+        <div className="w-full h-48 bg-gray-100 rounded-md flex items-center justify-center text-sm text-gray-500">
+          Preview not available
+        </div>
+      ) : isPdf ? (
+        <iframe src={objectUrl} title={receipt.fileName} className="w-full h-64 rounded-md border" />
+      ) : (
+        <a href={objectUrl} target="_blank" rel="noreferrer">
+          <img src={objectUrl} alt={receipt.fileName} className="w-full max-h-64 object-contain rounded-md border bg-gray-50" />
+        </a>
+      )}
+      <div className="flex items-center justify-between text-sm">
+        <a
+          href={objectUrl ?? undefined}
+          target="_blank"
+          rel="noreferrer"
+          className="flex items-center text-primary-600 hover:text-primary-500 truncate"
+        >
+          <FileTextIcon className="h-4 w-4 mr-1 flex-shrink-0" />
+          <span className="truncate">{receipt.fileName}</span>
+        </a>
+        {canModify && (
+          <Button variant="ghost" size="sm" onClick={onDelete}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface ReceiptViewerProps {
+  expenseId: number;
+  legacyReceiptUrl?: string | null;
+  canModify: boolean;
+}
+
+export function ReceiptViewer({ expenseId, legacyReceiptUrl, canModify }: ReceiptViewerProps) {
+  const { authenticatedFetch } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: receipts = [], isLoading } = useQuery<ExpenseReceipt[]>({
+    queryKey: [`/api/expenses/${expenseId}/receipts`],
+    queryFn: async () => {
+      const res = await authenticatedFetch("GET", `/api/expenses/${expenseId}/receipts`);
+      return res.json();
+    },
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: (files: File[]) => uploadReceipts(authenticatedFetch, expenseId, files),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/expenses/${expenseId}/receipts`] });
+      toast({ title: "Receipt uploaded", description: "The receipt has been attached to this expense." });
+    },
+    onError: (error) => {
+      toast({ title: "Upload failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (receiptId: number) => {
+      const res = await authenticatedFetch("DELETE", `/api/receipts/${receiptId}`);
+      if (!res.ok) throw new Error("Failed to delete receipt");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/expenses/${expenseId}/receipts`] });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleFilesSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (files.length > 0) uploadMutation.mutate(files);
+  };
+
+  const handleDelete = (receiptId: number) => {
+    if (window.confirm("Are you sure you want to remove this receipt?")) {
+      deleteMutation.mutate(receiptId);
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="w-full h-48" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      {receipts.length > 0 ? (
+        receipts.map((receipt) => (
+          <ReceiptPreview
+            key={receipt.id}
+            receipt={receipt}
+            canModify={canModify}
+            onDelete={() => handleDelete(receipt.id)}
+          />
+        ))
+      ) : legacyReceiptUrl ? (
+        <div className="flex flex-col items-center space-y-4">
+          <div className="w-full h-48 bg-gray-100 rounded-md flex items-center justify-center">
+            <ReceiptIcon className="h-16 w-16 text-gray-400" />
+          </div>
+          <Button variant="outline" className="w-full" asChild>
+            <a href={legacyReceiptUrl} target="_blank" rel="noreferrer">
+              <FileTextIcon className="h-4 w-4 mr-2" />
+              View Receipt
+            </a>
+          </Button>
+        </div>
+      ) : (
+        <div className="flex flex-col items-center justify-center h-48 text-gray-500">
+          <ReceiptIcon className="h-12 w-12 text-gray-300 mb-2" />
+          <p>No receipt attached</p>
+        </div>
+      )}
+
+      {canModify && receipts.length < RECEIPT_MAX_FILES && (
+        <>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={RECEIPT_ACCEPT}
+            multiple
+            className="hidden"
+            onChange={handleFilesSelected}
+          />
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploadMutation.isPending}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {uploadMutation.isPending ? "Uploading..." : "Upload Receipt"}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
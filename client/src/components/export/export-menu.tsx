@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Download } from "lucide-react";
+
+type ExportFormat = "csv" | "xlsx";
+
+interface ExportMenuProps {
+  // The export endpoint, e.g. /api/expenses/export
+  url: string;
+  // Filters passed along so the file matches what is on screen; empty values are left out
+  params?: Record<string, string | number | Date | undefined | null>;
+  label?: string;
+}
+
+function fileNameFrom(res: Response, fallback: string): string {
+  const match = /filename="([^"]+)"/.exec(res.headers.get("Content-Disposition") ?? "");
+  return match ? match[1] : fallback;
+}
+
+// Exports need the Authorization header, so the file is fetched as a blob and saved through a temporary link
+export function ExportMenu({ url, params = {}, label = "Export" }: ExportMenuProps) {
+  const { authenticatedFetch } = useAuth();
+  const { toast } = useToast();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const download = async (format: ExportFormat) => {
+    const search = new URLSearchParams({ format });
+    for (const [key, value] of Object.entries(params)) {
+      if (value === undefined || value === null || value === "") continue;
+      search.set(key, value instanceof Date ? value.toISOString() : String(value));
+    }
+
+    setIsExporting(true);
+    try {
+      const res = await authenticatedFetch("GET", `${url}?${search}`);
+      if (!res.ok) {
+        const responseData = await res.json().catch(() => ({}));
+        throw new Error(responseData.message || "Export failed");
+      }
+      const objectUrl = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = objectUrl;
+      link.download = fileNameFrom(res, `export.${format}`);
+      link.click();
+      URL.revokeObjectURL(objectUrl);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Export failed",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="w-full sm:w-auto" disabled={isExporting}>
+          <Download className="h-4 w-4 mr-2" />
+          {isExporting ? "Exporting..." : label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => download("csv")}>CSV</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => download("xlsx")}>Excel (.xlsx)</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,196 @@
+import React from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery } from "@tanstack/react-query";
+import { AcceptInvitation, acceptInvitationSchema, InvitationPreview } from "@shared/schema";
+import { Link, useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { SunIcon } from "lucide-react";
+
+export function AcceptInviteForm({ token }: { token: string }) {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [showPassword, setShowPassword] = React.useState(false);
+
+  // Unknown, used, revoked and expired links all come back as an error message to show instead of the form
+  const { data: invitation, error, isLoading: isInvitationLoading } = useQuery<InvitationPreview, Error>({
+    queryKey: ['/api/invitations', token],
+    queryFn: async () => {
+      const response = await fetch(`/api/invitations/${encodeURIComponent(token)}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "This invitation cannot be used");
+      }
+      return data;
+    },
+    retry: false,
+  });
+
+  const form = useForm<AcceptInvitation>({
+    resolver: zodResolver(acceptInvitationSchema),
+    defaultValues: {
+      username: "",
+      name: "",
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  async function onSubmit(values: AcceptInvitation) {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/invitations/${encodeURIComponent(token)}/accept`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(values),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Could not create your account");
+      }
+
+      navigate('/login');
+
+      toast({
+        title: "Account created",
+        description: "Your account is ready. Sign in with your new username and password.",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Could not create your account",
+        description: error instanceof Error ? error.message : "Could not create your account",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <div className="mx-auto max-w-sm space-y-6">
+      <div className="space-y-2 text-center">
+        <div className="flex justify-center mb-4">
+          <SunIcon className="h-12 w-12 text-primary-500" />
+        </div>
+        <h1 className="text-2xl font-semibold">Accept your invitation</h1>
+        {invitation && (
+          <p className="text-gray-500 dark:text-gray-400">
+            You have been invited as {invitation.role === "admin" || invitation.role === "employee" ? "an" : "a"} {invitation.role}
+            {invitation.projectName ? ` to work on ${invitation.projectName}` : ""}. Choose how you will sign in.
+          </p>
+        )}
+      </div>
+      {isInvitationLoading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-500"></div>
+        </div>
+      ) : error || !invitation ? (
+        <div className="rounded-md bg-red-50 p-4 text-center text-sm text-red-700">
+          {error?.message ?? "This invitation cannot be used"}. Ask an admin for a new invite link.
+        </div>
+      ) : (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <Input value={invitation.email} disabled />
+            </FormItem>
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Full Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Enter your full name" {...field} disabled={isLoading} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="username"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Username</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Choose a username" {...field} disabled={isLoading} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Password</FormLabel>
+                  <FormControl>
+                    <div className="relative">
+                      <Input
+                        type={showPassword ? "text" : "password"}
+                        placeholder="Create a password"
+                        {...field}
+                        disabled={isLoading}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setShowPassword(prev => !prev)}
+                        className="absolute right-3 top-2 text-sm text-gray-500"
+                      >
+                        {showPassword ? "Hide" : "Show"}
+                      </button>
+                    </div>
+                  </FormControl>
+                  <FormDescription>
+                    At least 6 characters
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="confirmPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Confirm Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" placeholder="Confirm your password" {...field} disabled={isLoading} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? "Creating account..." : "Create Account"}
+            </Button>
+          </form>
+        </Form>
+      )}
+      <div className="mt-4 text-center text-sm">
+        Already have an account?{" "}
+        <Link href="/login" className="text-primary-600 hover:text-primary-500">
+          Sign in here
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Form, FormField, FormItem, FormLabel, FormControl, FormDescription, FormMessage } from "@/components/ui/form";
+import { Dialog, DialogHeader, DialogTitle, DialogDescription, DialogContent } from "@/components/ui/dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { cn, formatCurrency, formatDate } from "@/lib/utils";
+import { Project, budgetRevisionSchema } from "@shared/schema";
+import { CalendarIcon } from "lucide-react";
+
+const budgetRevisionFormSchema = budgetRevisionSchema.required();
+
+type BudgetRevisionFormValues = z.infer<typeof budgetRevisionFormSchema>;
+
+interface BudgetRevisionFormProps {
+  project: Project;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function BudgetRevisionForm({ project, open, onOpenChange }: BudgetRevisionFormProps) {
+  const { toast } = useToast();
+  const { authenticatedFetch } = useAuth();
+  const queryClient = useQueryClient();
+
+  const form = useForm<BudgetRevisionFormValues>({
+    resolver: zodResolver(budgetRevisionFormSchema),
+    values: {
+      budget: project.budget,
+      reason: "",
+      effectiveDate: new Date(),
+    },
+  });
+
+  const reviseMutation = useMutation({
+    mutationFn: async (data: BudgetRevisionFormValues) => {
+      const res = await authenticatedFetch("POST", `/api/projects/${project.id}/budget-revisions`, {
+        body: JSON.stringify(data),
+        headers: { "Content-Type": "application/json" },
+      });
+      const responseData = await res.json();
+      if (!res.ok) {
+        throw new Error(responseData.message || "Could not revise budget");
+      }
+      return responseData as Project;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${project.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${project.id}/budget-revisions`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/analytics/total-budget-vs-spent'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${project.id}/budget-forecast`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/projects/budget-forecasts'] });
+      toast({
+        title: "Budget revised",
+        description: "The new budget has been recorded",
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not revise budget",
+      });
+    },
+  });
+
+  const isSubmitting = reviseMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Revise Budget</DialogTitle>
+          <DialogDescription>
+            The current budget is {formatCurrency(project.budget, project.currency)}. Every revision is kept in the budget history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form className="space-y-4" onSubmit={form.handleSubmit((data) => reviseMutation.mutate(data))}>
+            <FormField
+              control={form.control}
+              name="budget"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New Budget</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={Number.isNaN(field.value) ? "" : field.value}
+                      onChange={(e) => field.onChange(parseFloat(e.target.value))}
+                      disabled={isSubmitting}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Why is the budget changing?" {...field} disabled={isSubmitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="effectiveDate"
+              render={({ field }) => (
+                <FormItem className="flex flex-col">
+                  <FormLabel>Effective Date</FormLabel>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <FormControl>
+                        <Button
+                          variant="outline"
+                          className={cn("w-full pl-3 text-left font-normal", !field.value && "text-muted-foreground")}
+                          disabled={isSubmitting}
+                        >
+                          {field.value ? formatDate(field.value) : <span>Pick a date</span>}
+                          <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                        </Button>
+                      </FormControl>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar mode="single" selected={field.value} onSelect={field.onChange} initialFocus />
+                    </PopoverContent>
+                  </Popover>
+                  <FormDescription>When the new figure takes effect.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Saving..." : "Revise Budget"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
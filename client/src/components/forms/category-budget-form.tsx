@@ -0,0 +1,121 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogHeader, DialogTitle, DialogDescription, DialogContent } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { formatCurrency } from "@/lib/utils";
+import { CategoryBudgetComparison, CategoryBudgetLine, ExpenseCategory, ExpenseCategoryType, Project } from "@shared/schema";
+import { sumMoney } from "@shared/money";
+
+const categories = Object.values(ExpenseCategory) as ExpenseCategoryType[];
+
+interface CategoryBudgetFormProps {
+  project: Project;
+  // The current breakdown, whose budgeted rows fill the form
+  breakdown: CategoryBudgetComparison[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// One amount per category; a blank amount leaves the category without a budget line
+export function CategoryBudgetForm({ project, breakdown, open, onOpenChange }: CategoryBudgetFormProps) {
+  const { toast } = useToast();
+  const { authenticatedFetch } = useAuth();
+  const queryClient = useQueryClient();
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!open) return;
+    setAmounts(Object.fromEntries(breakdown
+      .filter((row) => row.budgeted)
+      .map((row) => [row.category, String(row.budget)])));
+  }, [open, breakdown]);
+
+  const lines: CategoryBudgetLine[] = categories
+    .filter((category) => amounts[category]?.trim())
+    .map((category) => ({ category, amount: Number(amounts[category]) }));
+  const allocated = sumMoney(lines.map((line) => (Number.isFinite(line.amount) ? line.amount : 0)));
+  const isOverAllocated = allocated > project.budget;
+
+  const saveMutation = useMutation({
+    mutationFn: async (newLines: CategoryBudgetLine[]) => {
+      const res = await authenticatedFetch("POST", `/api/projects/${project.id}/category-budgets`, {
+        body: JSON.stringify({ lines: newLines }),
+        headers: { "Content-Type": "application/json" },
+      });
+      const responseData = await res.json();
+      if (!res.ok) {
+        throw new Error(responseData.message || "Could not save category budgets");
+      }
+      return responseData as CategoryBudgetComparison[];
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${project.id}/category-budgets`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/analytics/category-budget-vs-spent'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/activity-logs/project/${project.id}`] });
+      toast({
+        title: "Category budgets saved",
+        description: "The project's budget breakdown has been updated",
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not save category budgets",
+      });
+    },
+  });
+
+  const isSubmitting = saveMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Budget by Category</DialogTitle>
+          <DialogDescription>
+            Split the {formatCurrency(project.budget, project.currency)} budget across expense categories. Leave a category blank to not budget it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {categories.map((category) => (
+            <div key={category} className="grid grid-cols-3 items-center gap-3">
+              <Label htmlFor={`category-budget-${category}`} className="capitalize">{category}</Label>
+              <Input
+                id={`category-budget-${category}`}
+                className="col-span-2"
+                type="number"
+                min="1"
+                step="0.01"
+                placeholder="Not budgeted"
+                value={amounts[category] ?? ""}
+                onChange={(e) => setAmounts({ ...amounts, [category]: e.target.value })}
+                disabled={isSubmitting}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className={`text-sm ${isOverAllocated ? "text-red-600" : "text-gray-600"}`}>
+          {formatCurrency(allocated, project.currency)} of {formatCurrency(project.budget, project.currency)} allocated
+          {isOverAllocated && "; the lines cannot add up to more than the project budget"}
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={() => saveMutation.mutate(lines)} disabled={isSubmitting || isOverAllocated}>
+            {isSubmitting ? "Saving..." : "Save Budget Lines"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,6 +6,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
 import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from "@/components/ui/form";
 import { Dialog, DialogHeader, DialogTitle, DialogDescription, DialogContent } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
@@ -14,6 +15,10 @@ import debounce from "lodash.debounce";
 import { ExpenseCategory, insertExpenseSchema } from "@shared/schema";
 import Select from "react-select";
 import { useLocation } from "wouter";
+import { RECEIPT_ACCEPT, uploadReceipts } from "@/components/expenses/receipt-viewer";
+import { CategoryBudgetWarning } from "@/components/expenses/category-budget-warning";
+import { CurrencySelect } from "@/components/forms/currency-select";
+import { RECEIPT_MAX_FILES } from "@shared/schema";
   
 interface ExpenseCreateFormProps {
   open: boolean;
@@ -24,7 +29,8 @@ export function ExpenseCreateForm({ open, onOpenChange }: ExpenseCreateFormProps
   const { toast } = useToast();
   const { authenticatedFetch, user } = useAuth();
   const [, navigate] = useLocation();
-  const [projectOptions, setProjectOptions] = useState<{ label: string; value: number }[]>([]);
+  const [projectOptions, setProjectOptions] = useState<{ label: string; value: number; currency: string }[]>([]);
+  const [receiptFiles, setReceiptFiles] = useState<File[]>([]);
 
   if (!user?.id) {
     return (
@@ -55,6 +61,7 @@ export function ExpenseCreateForm({ open, onOpenChange }: ExpenseCreateFormProps
     return data.map((project: any) => ({
       label: project.name,
       value: project.id,
+      currency: project.currency,
     }));
   };
 
@@ -77,15 +84,32 @@ export function ExpenseCreateForm({ open, onOpenChange }: ExpenseCreateFormProps
       });
       const responseData = await res.json();
       // console.log('Response Data:', responseData);  // Debugging: Log the response
+      if (!res.ok) {
+        throw new Error(responseData.message || "Could not create expense");
+      }
       return responseData; // Ensure you return the entire response
     },
-    onSuccess: (data) => {
+    onSuccess: async (data) => {
       // console.log('Success Response Data:', JSON.stringify(data));
 
+      // The expense exists at this point, so a failed upload is reported but not treated as a failed submission
+      if (receiptFiles.length > 0) {
+        try {
+          await uploadReceipts(authenticatedFetch, data.id, receiptFiles);
+        } catch (error) {
+          toast({
+            variant: "destructive",
+            title: "Receipt upload failed",
+            description: error instanceof Error ? error.message : "You can attach the receipt from the expense page.",
+          });
+        }
+      }
+
       toast({
         title: "Expense created",
         description: "The expense has been submitted successfully.",
       });
+      setReceiptFiles([]);
       onOpenChange(false);
       navigate(`/expenses/${data.id}`);
     },
@@ -145,7 +169,11 @@ export function ExpenseCreateForm({ open, onOpenChange }: ExpenseCreateFormProps
                     <Select
                       onInputChange={(val) => debouncedSearch(val, () => {})}
                       options={projectOptions}
-                      onChange={(option) => field.onChange(option?.value)}
+                      onChange={(option) => {
+                        field.onChange(option?.value);
+                        // Expenses are in the project's currency unless the submitter picks another
+                        if (option) form.setValue("currency", option.currency);
+                      }}
                       isClearable
                       isSearchable
                       placeholder="Search and select project..."
@@ -156,26 +184,41 @@ export function ExpenseCreateForm({ open, onOpenChange }: ExpenseCreateFormProps
               )}
             />
 
-            {/* Amount */}
-            <FormField
-              control={form.control}
-              name="amount"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Amount</FormLabel>
-                  <FormControl>
-                  <Input
-                    type="number"
-                    step="0.01"
-                    value={field.value}
-                    onChange={(e) => field.onChange(parseFloat(e.target.value))}
-                    disabled={isSubmitting}
-                  />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            {/* Amount and the currency it was paid in */}
+            <div className="grid grid-cols-3 gap-3">
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>Amount</FormLabel>
+                    <FormControl>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={field.value}
+                      onChange={(e) => field.onChange(parseFloat(e.target.value))}
+                      disabled={isSubmitting}
+                    />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <FormControl>
+                      <CurrencySelect value={field.value} onChange={field.onChange} disabled={isSubmitting} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
 
             {/* Description */}
             <FormField
@@ -215,28 +258,27 @@ export function ExpenseCreateForm({ open, onOpenChange }: ExpenseCreateFormProps
               )}
             />
 
-            {/* Receipt URL (optional) */}
-            <FormField
-              control={form.control}
-              name="receiptUrl"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Receipt URL</FormLabel>
-                  <FormControl>
-                  <Input
-                    type="url"
-                    placeholder="http://..."
-                    {...field}
-                    value={field.value ?? ""}
-                    disabled={isSubmitting}
-                  />
-
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
+            <CategoryBudgetWarning
+              projectId={form.watch("projectId")}
+              category={form.watch("category")}
+              amount={form.watch("amount")}
+              currency={form.watch("currency")}
             />
 
+            {/* Receipt files (optional) */}
+            <div className="space-y-2">
+              <Label htmlFor="expense-receipts">Receipts</Label>
+              <Input
+                id="expense-receipts"
+                type="file"
+                accept={RECEIPT_ACCEPT}
+                multiple
+                onChange={(e) => setReceiptFiles(Array.from(e.target.files ?? []).slice(0, RECEIPT_MAX_FILES))}
+                disabled={isSubmitting}
+              />
+              <p className="text-xs text-gray-500">Images or PDFs, up to {RECEIPT_MAX_FILES} files of 10 MB each.</p>
+            </div>
+
             {/* Submit */}
             <div className="flex justify-end">
               <Button
@@ -2,7 +2,7 @@ import React from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { projectFormSchema, ProjectStatus } from "@shared/schema";
+import { projectFormSchema, ProjectStatus, REPORTING_CURRENCY } from "@shared/schema";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -31,20 +31,18 @@ import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { cn, formatDate } from "@/lib/utils";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "../ui/dialog";
+import { CurrencySelect } from "./currency-select";
 
 interface ProjectFormProps {
-  projectId?: number;
-  defaultValues?: any;
   open: boolean; // Add open prop
   onOpenChange: (open: boolean) => void;
 }
 
-export function ProjectCreateForm({ projectId, defaultValues, open, onOpenChange }: ProjectFormProps) {
+// Existing projects are changed through EditProjectForm and budget revisions
+export function ProjectCreateForm({ open, onOpenChange }: ProjectFormProps) {
   const { toast } = useToast();
   const [, navigate] = useLocation();
   const { authenticatedFetch } = useAuth();
-      
-  const isEditMode = !!projectId;
 
   // Fetch clients for the dropdown
   const { data: clients = [], isLoading: isClientsLoading } = useQuery<any[]>({
@@ -58,24 +56,29 @@ export function ProjectCreateForm({ projectId, defaultValues, open, onOpenChange
 
   const form = useForm<z.infer<typeof projectFormSchema>>({
     resolver: zodResolver(projectFormSchema),
-    defaultValues: defaultValues || {
+    defaultValues: {
       name: "",
       clientId: undefined,
       status: ProjectStatus.IN_PROGRESS,
       startDate: new Date(),
       budget: 0,
+      currency: REPORTING_CURRENCY,
     },
   });
 
   const createMutation = useMutation({
     mutationFn: async (data: z.infer<typeof projectFormSchema>) => {
-      const res = await authenticatedFetch("POST", "/api/projects", {
+      const res = await authenticatedFetch("POST", "/api/projects/create", {
         body: JSON.stringify(data),
         headers: {
           "Content-Type": "application/json",
         },
       });
-      return res.json();
+      const responseData = await res.json();
+      if (!res.ok) {
+        throw new Error(responseData.message || "Could not create project");
+      }
+      return responseData;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
@@ -83,6 +86,7 @@ export function ProjectCreateForm({ projectId, defaultValues, open, onOpenChange
         title: "Project created",
         description: "Your project has been created successfully",
       });
+      onOpenChange(false);
       navigate("/projects");
     },
     onError: (error) => {
@@ -94,51 +98,19 @@ export function ProjectCreateForm({ projectId, defaultValues, open, onOpenChange
     }
   });
 
-  const updateMutation = useMutation({
-    mutationFn: async (data: z.infer<typeof projectFormSchema>) => {
-      const res = await authenticatedFetch("PATCH", `/api/projects/${projectId}/create`, {
-        body: JSON.stringify(data),
-        headers: {
-          "Content-Type": "application/json",
-        },
-      });
-      return res.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
-      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}`] });
-      toast({
-        title: "Project updated",
-        description: "Your project has been updated successfully",
-      });
-      navigate(`/projects/${projectId}`);
-    },
-    onError: (error) => {
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: error instanceof Error ? error.message : "Could not update project",
-      });
-    }
-  });
-
-  const isSubmitting = createMutation.isPending || updateMutation.isPending;
+  const isSubmitting = createMutation.isPending;
 
   function onSubmit(values: z.infer<typeof projectFormSchema>) {
-    if (isEditMode) {
-      updateMutation.mutate(values);
-    } else {
-      createMutation.mutate(values);
-    }
+    createMutation.mutate(values);
   }
 
   return (
   <Dialog open={open} onOpenChange={onOpenChange}>
     <DialogContent className="sm:max-w-[425px]">
       <DialogHeader>
-        <DialogTitle>{isEditMode ? "Edit Project" : "Create New Project"}</DialogTitle>
+        <DialogTitle>Create New Project</DialogTitle>
         <DialogDescription>
-          {isEditMode ? "Update project details." : "Add a new project to the system."}
+          Add a new project to the system.
         </DialogDescription>
       </DialogHeader>
         <Form {...form}>
@@ -236,6 +208,23 @@ export function ProjectCreateForm({ projectId, defaultValues, open, onOpenChange
             )}
           />
 
+          <FormField
+            control={form.control}
+            name="currency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Currency</FormLabel>
+                <FormControl>
+                  <CurrencySelect value={field.value} onChange={field.onChange} disabled={isSubmitting} />
+                </FormControl>
+                <FormDescription>
+                  The budget and the project's reports use this currency. It cannot be changed later.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
           <FormField
             control={form.control}
             name="budget"
@@ -245,12 +234,12 @@ export function ProjectCreateForm({ projectId, defaultValues, open, onOpenChange
                 <FormControl>
                   <div className="relative">
                     <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                      <span className="text-gray-500 sm:text-sm">$</span>
+                      <span className="text-gray-500 sm:text-sm">{form.watch("currency")}</span>
                     </div>
                     <Input
                       type="number"
                       placeholder="0.00"
-                      className="pl-8"
+                      className="pl-14"
                       {...field}
                       onChange={(e) => field.onChange(parseFloat(e.target.value))}
                       disabled={isSubmitting}
@@ -265,40 +254,11 @@ export function ProjectCreateForm({ projectId, defaultValues, open, onOpenChange
             )}
           />
 
-          {isEditMode && (
-            <FormField
-              control={form.control}
-              name="status"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Status</FormLabel>
-                  <Select 
-                    onValueChange={field.onChange}
-                    value={field.value}
-                    disabled={isSubmitting}
-                  >
-                    <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select status" />
-                      </SelectTrigger>
-                    </FormControl>
-                    <SelectContent>
-                      <SelectItem value={ProjectStatus.IN_PROGRESS}>In Progress</SelectItem>
-                      <SelectItem value={ProjectStatus.ON_HOLD}>On Hold</SelectItem>
-                      <SelectItem value={ProjectStatus.COMPLETED}>Completed</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-          )}
-
           <div className="flex justify-end space-x-4">
             <Button
               type="button"
               variant="outline"
-              onClick={() => navigate(isEditMode ? `/projects/${projectId}` : "/projects")}
+              onClick={() => onOpenChange(false)}
               disabled={isSubmitting}
             >
               Cancel
@@ -307,10 +267,10 @@ export function ProjectCreateForm({ projectId, defaultValues, open, onOpenChange
               {isSubmitting ? (
                 <>
                   <span className="animate-spin mr-2">⚙️</span>
-                  {isEditMode ? "Updating..." : "Creating..."}
+                  Creating...
                 </>
               ) : (
-                isEditMode ? "Update Project" : "Create Project"
+                "Create Project"
               )}
             </Button>
           </div>
@@ -0,0 +1,32 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useExchangeRates } from "@/hooks/use-exchange-rates";
+
+interface CurrencySelectProps {
+  value?: string;
+  onChange: (currency: string) => void;
+  disabled?: boolean;
+}
+
+// Offers the currencies that have an exchange rate, since only those can be recorded
+export function CurrencySelect({ value, onChange, disabled }: CurrencySelectProps) {
+  const { currencies, isLoading } = useExchangeRates();
+
+  return (
+    <Select value={value} onValueChange={onChange} disabled={disabled || isLoading}>
+      <SelectTrigger>
+        <SelectValue placeholder="Currency" />
+      </SelectTrigger>
+      <SelectContent>
+        {currencies.map((code) => (
+          <SelectItem key={code} value={code}>{code}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,210 @@
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Form, FormField, FormItem, FormLabel, FormControl, FormDescription, FormMessage } from "@/components/ui/form";
+import { Dialog, DialogHeader, DialogTitle, DialogDescription, DialogContent } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { formatStatus } from "@/lib/utils";
+import { Client, User, UserRole, clientUpdateSchema } from "@shared/schema";
+
+const editClientFormSchema = clientUpdateSchema.required().extend({
+  createdById: z.number().int().positive(),
+});
+
+type EditClientFormValues = z.infer<typeof editClientFormSchema>;
+
+interface EditClientFormProps {
+  client: Client;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Edits a client's contact details and, when the owner changes, hands the client over
+export function EditClientForm({ client, open, onOpenChange }: EditClientFormProps) {
+  const { toast } = useToast();
+  const { authenticatedFetch } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: users = [], isLoading: isUsersLoading } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+    queryFn: async () => {
+      const res = await authenticatedFetch("GET", "/api/users");
+      return res.json();
+    },
+    enabled: open,
+    staleTime: 300000,
+  });
+
+  const owners = users.filter((user) => user.role !== UserRole.EMPLOYEE);
+
+  const form = useForm<EditClientFormValues>({
+    resolver: zodResolver(editClientFormSchema),
+    values: {
+      name: client.name,
+      contactPerson: client.contactPerson,
+      contactEmail: client.contactEmail,
+      contactPhone: client.contactPhone,
+      createdById: client.createdById,
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ createdById, ...details }: EditClientFormValues) => {
+      const res = await authenticatedFetch("PATCH", `/api/clients/${client.id}`, {
+        body: JSON.stringify(details),
+        headers: { "Content-Type": "application/json" },
+      });
+      let responseData = await res.json();
+      if (!res.ok) {
+        throw new Error(responseData.message || "Could not update client");
+      }
+
+      if (createdById !== client.createdById) {
+        const transferRes = await authenticatedFetch("POST", `/api/clients/${client.id}/transfer`, {
+          body: JSON.stringify({ createdById }),
+          headers: { "Content-Type": "application/json" },
+        });
+        responseData = await transferRes.json();
+        if (!transferRes.ok) {
+          throw new Error(responseData.message || "Could not change the client's owner");
+        }
+      }
+      return responseData as Client;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/clients'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/clients/${client.id}`] });
+      toast({
+        title: "Client updated",
+        description: "The client has been updated successfully",
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      // The contact details may have been saved even if the hand-over failed
+      queryClient.invalidateQueries({ queryKey: [`/api/clients/${client.id}`] });
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not update client",
+      });
+    },
+  });
+
+  const isSubmitting = saveMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Edit Client</DialogTitle>
+          <DialogDescription>Correct the client's contact details or hand it over to someone else.</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form className="space-y-4" onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))}>
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Company Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} disabled={isSubmitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="contactPerson"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Contact Person</FormLabel>
+                  <FormControl>
+                    <Input {...field} disabled={isSubmitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="contactEmail"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input type="email" {...field} disabled={isSubmitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="contactPhone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Phone</FormLabel>
+                  <FormControl>
+                    <Input {...field} disabled={isSubmitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="createdById"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Owner</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(parseInt(value))}
+                    value={field.value?.toString()}
+                    disabled={isSubmitting || isUsersLoading}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select an owner" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {owners.map((owner) => (
+                        <SelectItem key={owner.id} value={owner.id.toString()}>
+                          {owner.name} ({formatStatus(owner.role)})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>The salesperson responsible for this client.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Saving..." : "Save Changes"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,206 @@
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Form, FormField, FormItem, FormLabel, FormControl, FormMessage } from "@/components/ui/form";
+import { Dialog, DialogHeader, DialogTitle, DialogDescription, DialogContent } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { Expense, ExpenseCategory, expenseEditSchema } from "@shared/schema";
+import Select from "react-select";
+import { CategoryBudgetWarning } from "@/components/expenses/category-budget-warning";
+import { CurrencySelect } from "@/components/forms/currency-select";
+
+const editExpenseFormSchema = expenseEditSchema
+  .required({ amount: true, currency: true, description: true, category: true })
+  .omit({ receiptUrl: true });
+
+type EditExpenseFormValues = z.infer<typeof editExpenseFormSchema>;
+
+const categoryOptions = Object.entries(ExpenseCategory).map(([key, value]) => ({
+  label: key.charAt(0) + key.slice(1).toLowerCase(),
+  value,
+}));
+
+interface ExpenseEditFormProps {
+  expense: Expense;
+  // "edit" changes a pending expense in place; "resubmit" sends a rejected one back for review
+  mode: "edit" | "resubmit";
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ExpenseEditForm({ expense, mode, open, onOpenChange }: ExpenseEditFormProps) {
+  const { toast } = useToast();
+  const { authenticatedFetch } = useAuth();
+  const queryClient = useQueryClient();
+  const isResubmit = mode === "resubmit";
+
+  const form = useForm<EditExpenseFormValues>({
+    resolver: zodResolver(editExpenseFormSchema),
+    values: {
+      amount: expense.amount,
+      currency: expense.currency,
+      description: expense.description,
+      category: expense.category as EditExpenseFormValues["category"],
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: EditExpenseFormValues) => {
+      const res = isResubmit
+        ? await authenticatedFetch("POST", `/api/expenses/${expense.id}/resubmit`, {
+            body: JSON.stringify(data),
+            headers: { "Content-Type": "application/json" },
+          })
+        : await authenticatedFetch("PATCH", `/api/expenses/${expense.id}`, {
+            body: JSON.stringify(data),
+            headers: { "Content-Type": "application/json" },
+          });
+      const responseData = await res.json();
+      if (!res.ok) {
+        throw new Error(responseData.message || "Could not save expense");
+      }
+      return responseData as Expense;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/expenses/${expense.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/expenses/${expense.id}/versions`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/expenses/${expense.id}/approvals`] });
+      toast({
+        title: isResubmit ? "Expense resubmitted" : "Expense updated",
+        description: isResubmit
+          ? "The expense has been sent back for review."
+          : "Your changes have been saved.",
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not save expense",
+      });
+    },
+  });
+
+  const isSubmitting = saveMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{isResubmit ? "Resubmit Expense" : "Edit Expense"}</DialogTitle>
+          <DialogDescription>
+            {isResubmit
+              ? "Address the reviewer's feedback and send the expense for review again."
+              : "Update the expense while it is waiting for review."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isResubmit && expense.feedback && (
+          <div className="border rounded-md p-3 bg-gray-50 text-sm text-gray-700">
+            <span className="font-medium">Reviewer feedback: </span>
+            {expense.feedback}
+          </div>
+        )}
+
+        <Form {...form}>
+          <form className="space-y-4" onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))}>
+            {/* Amount and the currency it was paid in */}
+            <div className="grid grid-cols-3 gap-3">
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem className="col-span-2">
+                    <FormLabel>Amount</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        value={Number.isNaN(field.value) ? "" : field.value}
+                        onChange={(e) => field.onChange(parseFloat(e.target.value))}
+                        disabled={isSubmitting}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <FormControl>
+                      <CurrencySelect value={field.value} onChange={field.onChange} disabled={isSubmitting} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {/* Description */}
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Input placeholder="What was this expense for?" {...field} disabled={isSubmitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Category */}
+            <FormField
+              control={form.control}
+              name="category"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Category</FormLabel>
+                  <FormControl>
+                    <Select
+                      options={categoryOptions}
+                      value={categoryOptions.find((option) => option.value === field.value)}
+                      onChange={(option) => field.onChange(option?.value)}
+                      placeholder="Select category..."
+                      isDisabled={isSubmitting}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <CategoryBudgetWarning
+              projectId={expense.projectId}
+              category={form.watch("category")}
+              amount={form.watch("amount")}
+              currency={form.watch("currency")}
+              expenseId={expense.id}
+            />
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Saving..." : isResubmit ? "Resubmit Expense" : "Save Changes"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,208 @@
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Form, FormField, FormItem, FormLabel, FormControl, FormDescription, FormMessage } from "@/components/ui/form";
+import { Dialog, DialogHeader, DialogTitle, DialogDescription, DialogContent } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { cn, formatDate } from "@/lib/utils";
+import { Client, Project, projectUpdateSchema } from "@shared/schema";
+import { CalendarIcon } from "lucide-react";
+
+// Thresholds are typed as a comma-separated list and turned into numbers on submit
+const editProjectFormSchema = projectUpdateSchema.required().extend({
+  budgetAlertThresholds: z.string().regex(/^\s*(\d+\s*(,\s*\d+\s*)*)?$/, "Enter whole percentages separated by commas"),
+});
+
+type EditProjectFormValues = z.infer<typeof editProjectFormSchema>;
+
+function parseThresholds(value: string): number[] {
+  const thresholds = value.split(",").map((part) => part.trim()).filter(Boolean).map(Number);
+  return Array.from(new Set(thresholds)).sort((a, b) => a - b);
+}
+
+interface EditProjectFormProps {
+  project: Project;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Edits a project's details. The budget is changed through a budget revision instead.
+export function EditProjectForm({ project, open, onOpenChange }: EditProjectFormProps) {
+  const { toast } = useToast();
+  const { authenticatedFetch } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: clients = [], isLoading: isClientsLoading } = useQuery<Client[]>({
+    queryKey: ['/api/clients'],
+    queryFn: async () => {
+      const res = await authenticatedFetch("GET", "/api/clients");
+      return res.json();
+    },
+    enabled: open,
+    staleTime: 60000,
+  });
+
+  const form = useForm<EditProjectFormValues>({
+    resolver: zodResolver(editProjectFormSchema),
+    values: {
+      name: project.name,
+      clientId: project.clientId,
+      startDate: new Date(project.startDate),
+      budgetAlertThresholds: project.budgetAlertThresholds.join(", "),
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: EditProjectFormValues) => {
+      const res = await authenticatedFetch("PATCH", `/api/projects/${project.id}`, {
+        body: JSON.stringify({ ...data, budgetAlertThresholds: parseThresholds(data.budgetAlertThresholds) }),
+        headers: { "Content-Type": "application/json" },
+      });
+      const responseData = await res.json();
+      if (!res.ok) {
+        throw new Error(responseData.message || "Could not update project");
+      }
+      return responseData as Project;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${project.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/activity-logs/project/${project.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${project.id}/budget-forecast`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/projects/budget-forecasts'] });
+      toast({
+        title: "Project updated",
+        description: "Your project has been updated successfully",
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not update project",
+      });
+    },
+  });
+
+  const isSubmitting = updateMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Edit Project</DialogTitle>
+          <DialogDescription>Update the project's name, client, start date and budget alerts.</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form className="space-y-4" onSubmit={form.handleSubmit((data) => updateMutation.mutate(data))}>
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Project Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Enter project name" {...field} disabled={isSubmitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="clientId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Client</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(parseInt(value))}
+                    value={field.value?.toString()}
+                    disabled={isSubmitting || isClientsLoading}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a client" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {clients.map((client) => (
+                        <SelectItem key={client.id} value={client.id.toString()}>
+                          {client.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="startDate"
+              render={({ field }) => (
+                <FormItem className="flex flex-col">
+                  <FormLabel>Start Date</FormLabel>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <FormControl>
+                        <Button
+                          variant="outline"
+                          className={cn("w-full pl-3 text-left font-normal", !field.value && "text-muted-foreground")}
+                          disabled={isSubmitting}
+                        >
+                          {field.value ? formatDate(field.value) : <span>Pick a date</span>}
+                          <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                        </Button>
+                      </FormControl>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar mode="single" selected={field.value} onSelect={field.onChange} initialFocus />
+                    </PopoverContent>
+                  </Popover>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="budgetAlertThresholds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Budget Alerts (% of budget)</FormLabel>
+                  <FormControl>
+                    <Input placeholder="75, 90, 100" {...field} disabled={isSubmitting} />
+                  </FormControl>
+                  <FormDescription>
+                    Project managers are notified when approved and pending expenses reach each percentage.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Saving..." : "Save Changes"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
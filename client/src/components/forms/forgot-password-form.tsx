@@ -0,0 +1,106 @@
+import React from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { ForgotPassword, forgotPasswordSchema } from "@shared/schema";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { SunIcon } from "lucide-react";
+
+export function ForgotPasswordForm() {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = React.useState(false);
+  // The server answers the same for unknown addresses, so the page can only say where to look
+  const [sentTo, setSentTo] = React.useState<string | null>(null);
+
+  const form = useForm<ForgotPassword>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  async function onSubmit(values: ForgotPassword) {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/forgot-password", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(values),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Could not start the password reset");
+      }
+
+      setSentTo(values.email);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Could not start the password reset",
+        description: error instanceof Error ? error.message : "Could not start the password reset",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <div className="mx-auto max-w-sm space-y-6">
+      <div className="space-y-2 text-center">
+        <div className="flex justify-center mb-4">
+          <SunIcon className="h-12 w-12 text-primary-500" />
+        </div>
+        <h1 className="text-2xl font-semibold">Forgot your password?</h1>
+        <p className="text-gray-500 dark:text-gray-400">
+          Enter the email address of your account and we will send you a link to choose a new one
+        </p>
+      </div>
+      {sentTo ? (
+        <div className="rounded-md bg-green-50 p-4 text-center text-sm text-green-700">
+          If {sentTo} belongs to an account, a reset link is on its way. It works once and expires soon.
+          No email address on your account? Ask an admin to send you a link.
+        </div>
+      ) : (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input type="email" placeholder="Enter your email address" {...field} disabled={isLoading} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? "Sending..." : "Send Reset Link"}
+            </Button>
+          </form>
+        </Form>
+      )}
+      <div className="mt-4 text-center text-sm">
+        Remembered it?{" "}
+        <Link href="/login" className="text-primary-600 hover:text-primary-500">
+          Sign in here
+        </Link>
+      </div>
+    </div>
+  );
+}
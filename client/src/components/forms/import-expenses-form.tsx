@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogHeader, DialogTitle, DialogDescription, DialogContent } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { formatCurrency } from "@/lib/utils";
+import { Expense, ExpenseImportPreview, ExpenseImportRow, EXPENSE_IMPORT_MAX_ROWS } from "@shared/schema";
+
+interface ImportExpensesFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Uploads a CSV for a row-by-row preview, then submits the valid rows once the user confirms
+export function ImportExpensesForm({ open, onOpenChange }: ImportExpensesFormProps) {
+  const { toast } = useToast();
+  const { authenticatedFetch } = useAuth();
+  const queryClient = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ExpenseImportPreview | null>(null);
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) reset();
+    onOpenChange(isOpen);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async (csvFile: File) => {
+      const body = new FormData();
+      body.append("file", csvFile);
+      const res = await authenticatedFetch("POST", "/api/expenses/import/preview", { body });
+      const responseData = await res.json();
+      if (!res.ok) {
+        throw new Error(responseData.message || "Could not read the file");
+      }
+      return responseData as ExpenseImportPreview;
+    },
+    onSuccess: (data) => setPreview(data),
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not read the file",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (rows: ExpenseImportRow[]) => {
+      const res = await authenticatedFetch("POST", "/api/expenses/import", {
+        body: JSON.stringify({ rows }),
+        headers: { "Content-Type": "application/json" },
+      });
+      const responseData = await res.json();
+      if (!res.ok) {
+        throw new Error(responseData.message || "Could not import expenses");
+      }
+      return responseData as Expense[];
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/expenses/status/pending'] });
+      toast({
+        title: "Expenses imported",
+        description: `${created.length} expenses have been submitted for approval`,
+      });
+      handleOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not import expenses",
+      });
+    },
+  });
+
+  const validRows = preview?.rows.flatMap((row) => (row.expense ? [row.expense] : [])) ?? [];
+  const isBusy = previewMutation.isPending || importMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[760px]">
+        <DialogHeader>
+          <DialogTitle>Import Expenses</DialogTitle>
+          <DialogDescription>
+            Upload a CSV with Project (or Project ID), Description, Amount and Category columns, at most {EXPENSE_IMPORT_MAX_ROWS} rows. An optional Currency column overrides the project's currency.
+            Nothing is saved until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <Input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] ?? null);
+              setPreview(null);
+            }}
+            disabled={isBusy}
+          />
+          <Button
+            variant="outline"
+            onClick={() => file && previewMutation.mutate(file)}
+            disabled={!file || isBusy}
+          >
+            {previewMutation.isPending ? "Checking..." : "Check File"}
+          </Button>
+        </div>
+
+        {preview && (
+          <>
+            <div className="text-sm text-gray-600">
+              {preview.validCount} of {preview.rows.length} rows can be imported
+              {preview.errorCount > 0 && `; ${preview.errorCount} have errors and will be skipped`}.
+            </div>
+            <div className="max-h-80 overflow-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.map((row) => (
+                    <TableRow key={row.line} className={row.expense ? undefined : "bg-red-50"}>
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell className="max-w-[200px] truncate">
+                        {row.expense?.description ?? Object.values(row.values).join(", ")}
+                      </TableCell>
+                      <TableCell>{row.expense ? formatCurrency(row.expense.amount, row.expense.currency) : ""}</TableCell>
+                      <TableCell className="capitalize">{row.expense?.category}</TableCell>
+                      <TableCell>
+                        {row.expense ? (
+                          <Badge className="bg-green-100 text-green-800">Ready</Badge>
+                        ) : (
+                          <ul className="text-xs text-red-600 space-y-1">
+                            {row.errors.map((error) => <li key={error}>{error}</li>)}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} disabled={isBusy}>
+            Cancel
+          </Button>
+          <Button onClick={() => importMutation.mutate(validRows)} disabled={validRows.length === 0 || isBusy}>
+            {importMutation.isPending ? "Importing..." : `Import ${validRows.length} Expenses`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,7 +2,7 @@ import React from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { userLoginSchema } from "@shared/schema";
+import { LoginResponse, TwoFactorSetup, userLoginSchema } from "@shared/schema";
 import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -17,14 +17,39 @@ import {
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { SunIcon } from "lucide-react";
+import { TwoFactorCodeInput } from "@/components/security/two-factor-code-input";
+import { TwoFactorSetupDetails } from "@/components/security/two-factor-setup";
+import { RecoveryCodes } from "@/components/security/recovery-codes";
 
 const formSchema = userLoginSchema.extend({});
 
+type Challenge = Exclude<LoginResponse, { accessToken: string }>;
+
+// The two-factor steps use the challenge from the password step and answer with the session's tokens
+async function postTwoFactor<T>(url: string, body: Record<string, string>): Promise<T> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || "Could not verify the code");
+  }
+  return data;
+}
+
 export function LoginForm() {
-  const { login } = useAuth();
+  const { login, startSession } = useAuth();
   const { toast } = useToast();
   const [, navigate] = useLocation();
   const [isLoading, setIsLoading] = React.useState(false);
+  const [challenge, setChallenge] = React.useState<Challenge | null>(null);
+  const [setup, setSetup] = React.useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = React.useState("");
+  // Set once enrollment finishes; the session starts after the user has seen them
+  const [enrollment, setEnrollment] = React.useState<{ accessToken: string; recoveryCodes: string[] } | null>(null);
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -37,8 +62,15 @@ export function LoginForm() {
   async function onSubmit(values: z.infer<typeof formSchema>) {
     setIsLoading(true);
     try {
-      await login(values.username, values.password);
-      navigate("/");
+      const pending = await login(values.username, values.password);
+      if (!pending) {
+        navigate("/");
+        return;
+      }
+      setChallenge(pending);
+      if (pending.twoFactor === "setup") {
+        setSetup(await postTwoFactor<TwoFactorSetup>("/api/login/two-factor/setup", { challengeToken: pending.challengeToken }));
+      }
     } catch (error) {
       toast({
         variant: "destructive",
@@ -50,6 +82,80 @@ export function LoginForm() {
     }
   }
 
+  async function onCodeSubmit(event: React.FormEvent) {
+    event.preventDefault();
+    if (!challenge) return;
+
+    setIsLoading(true);
+    try {
+      const body = { challengeToken: challenge.challengeToken, code };
+      if (challenge.twoFactor === "setup") {
+        setEnrollment(await postTwoFactor("/api/login/two-factor/enable", body));
+      } else {
+        const { accessToken } = await postTwoFactor<{ accessToken: string }>("/api/login/two-factor", body);
+        startSession(accessToken);
+        navigate("/");
+      }
+    } catch (error) {
+      setCode("");
+      toast({
+        variant: "destructive",
+        title: "Verification failed",
+        description: error instanceof Error ? error.message : "Could not verify the code",
+      });
+      // A challenge that expired or ran out of tries cannot be retried; the password step starts a new one
+      if (error instanceof Error && error.message.includes("start again")) {
+        setChallenge(null);
+        setSetup(null);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function finishEnrollment() {
+    if (!enrollment) return;
+    startSession(enrollment.accessToken);
+    navigate("/");
+  }
+
+  if (enrollment) {
+    return (
+      <div className="mx-auto max-w-sm space-y-6">
+        <div className="space-y-2 text-center">
+          <h1 className="text-2xl font-semibold">Two-factor authentication is on</h1>
+        </div>
+        <RecoveryCodes codes={enrollment.recoveryCodes} />
+        <Button className="w-full" onClick={finishEnrollment}>
+          Continue
+        </Button>
+      </div>
+    );
+  }
+
+  if (challenge) {
+    const enrolling = challenge.twoFactor === "setup";
+    return (
+      <div className="mx-auto max-w-sm space-y-6">
+        <div className="space-y-2 text-center">
+          <h1 className="text-2xl font-semibold">{enrolling ? "Set up two-factor authentication" : "Two-factor authentication"}</h1>
+          <p className="text-gray-500 dark:text-gray-400">
+            {enrolling
+              ? "Your role requires a code from an authenticator app when you sign in."
+              : "Enter the six-digit code from your authenticator app."}
+          </p>
+        </div>
+        {enrolling && setup && <TwoFactorSetupDetails setup={setup} />}
+        <form onSubmit={onCodeSubmit} className="space-y-4">
+          <TwoFactorCodeInput value={code} onChange={setCode} disabled={isLoading} allowRecoveryCode={!enrolling} />
+          <Button type="submit" className="w-full" disabled={isLoading || code.trim().length < 6}>
+            {isLoading ? "Verifying..." : "Verify"}
+          </Button>
+        </form>
+      </div>
+    );
+  }
+
   return (
     <div className="mx-auto max-w-sm space-y-6">
       <div className="space-y-2 text-center">
@@ -85,7 +191,12 @@ export function LoginForm() {
             name="password"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Password</FormLabel>
+                <div className="flex items-center justify-between">
+                  <FormLabel>Password</FormLabel>
+                  <Link href="/forgot-password" className="text-sm text-primary-600 hover:text-primary-500">
+                    Forgot your password?
+                  </Link>
+                </div>
                 <FormControl>
                   <Input
                     type="password"
@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import Select from "react-select";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogHeader, DialogTitle, DialogDescription, DialogContent } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { Client } from "@shared/schema";
+
+interface MergeClientFormProps {
+  // The client that survives the merge
+  client: Client;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function MergeClientForm({ client, open, onOpenChange }: MergeClientFormProps) {
+  const { toast } = useToast();
+  const { authenticatedFetch } = useAuth();
+  const queryClient = useQueryClient();
+  const [sourceClientId, setSourceClientId] = useState<number | null>(null);
+
+  const { data: clients = [] } = useQuery<Client[]>({
+    queryKey: ['/api/clients'],
+    queryFn: async () => {
+      const res = await authenticatedFetch("GET", "/api/clients");
+      return res.json();
+    },
+    enabled: open,
+    staleTime: 60000,
+  });
+
+  const options = clients
+    // Merged and deactivated clients cannot be merged again
+    .filter((candidate) => candidate.id !== client.id && !candidate.deactivatedAt)
+    .map((candidate) => ({ label: `${candidate.name} (${candidate.contactPerson})`, value: candidate.id }));
+
+  const mergeMutation = useMutation({
+    mutationFn: async (sourceId: number) => {
+      const res = await authenticatedFetch("POST", `/api/clients/${client.id}/merge`, {
+        body: JSON.stringify({ sourceClientId: sourceId }),
+        headers: { "Content-Type": "application/json" },
+      });
+      const responseData = await res.json();
+      if (!res.ok) {
+        throw new Error(responseData.message || "Could not merge clients");
+      }
+      return responseData as Client;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/clients'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/clients/${client.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/client/${client.id}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+      toast({
+        title: "Clients merged",
+        description: `The duplicate's projects now belong to ${client.name}`,
+      });
+      setSourceClientId(null);
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not merge clients",
+      });
+    },
+  });
+
+  const handleMerge = () => {
+    const source = clients.find((candidate) => candidate.id === sourceClientId);
+    if (source && window.confirm(`Merge ${source.name} into ${client.name}? ${source.name} will be deactivated.`)) {
+      mergeMutation.mutate(source.id);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Merge Duplicate Client</DialogTitle>
+          <DialogDescription>
+            Every project of the selected client moves to {client.name}, and the duplicate is deactivated.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Select
+          options={options}
+          value={options.find((option) => option.value === sourceClientId) ?? null}
+          onChange={(option) => setSourceClientId(option?.value ?? null)}
+          placeholder="Select the duplicate client..."
+          isDisabled={mergeMutation.isPending}
+        />
+
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={mergeMutation.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleMerge} disabled={!sourceClientId || mergeMutation.isPending}>
+            {mergeMutation.isPending ? "Merging..." : "Merge Clients"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,7 +2,7 @@ import React from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { userRegisterSchema, UserRole } from "@shared/schema";
+import { userRegisterSchema } from "@shared/schema";
 import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -15,13 +15,6 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { SunIcon } from "lucide-react";
 
@@ -41,7 +34,6 @@ export function RegisterForm() {
       password: "",
       confirmPassword: "",
       name: "",
-      role: "employee",
     },
   });
 
@@ -89,7 +81,8 @@ export function RegisterForm() {
         </div>
         <h1 className="text-2xl font-semibold">Create an account</h1>
         <p className="text-gray-500 dark:text-gray-400">
-          Enter your details to create a new account
+          Enter your details to create a new account. New accounts start as employees;
+          an admin can invite you with a different role instead.
         </p>
       </div>
       <Form {...form}>
@@ -185,33 +178,6 @@ export function RegisterForm() {
               </FormItem>
             )}
           />
-          <FormField
-            control={form.control}
-            name="role"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Role</FormLabel>
-                <Select 
-                  onValueChange={field.onChange} 
-                  defaultValue={field.value}
-                  disabled={isLoading}
-                >
-                  <FormControl>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select your role" />
-                    </SelectTrigger>
-                  </FormControl>
-                  <SelectContent>
-                    <SelectItem value={UserRole.ADMIN}>Admin</SelectItem>
-                    <SelectItem value={UserRole.MANAGER}>Manager</SelectItem>
-                    <SelectItem value={UserRole.SALESPERSON}>Salesperson</SelectItem>
-                    <SelectItem value={UserRole.EMPLOYEE}>Employee</SelectItem>
-                  </SelectContent>
-                </Select>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
           <Button type="submit" className="w-full" disabled={isLoading}>
             {isLoading ? "Creating account..." : "Create Account"}
           </Button>
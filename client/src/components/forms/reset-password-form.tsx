@@ -0,0 +1,160 @@
+import React from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery } from "@tanstack/react-query";
+import { PasswordReset, passwordResetSchema } from "@shared/schema";
+import { Link, useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { SunIcon } from "lucide-react";
+
+export function ResetPasswordForm({ token }: { token: string }) {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [showPassword, setShowPassword] = React.useState(false);
+
+  // Unknown, used and expired links come back as an error message to show instead of the form
+  const { data: reset, error, isLoading: isResetLoading } = useQuery<{ expiresAt: string }, Error>({
+    queryKey: ['/api/password-reset', token],
+    queryFn: async () => {
+      const response = await fetch(`/api/password-reset/${encodeURIComponent(token)}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "This link cannot be used");
+      }
+      return data;
+    },
+    retry: false,
+  });
+
+  const form = useForm<PasswordReset>({
+    resolver: zodResolver(passwordResetSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  async function onSubmit(values: PasswordReset) {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/password-reset/${encodeURIComponent(token)}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(values),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Could not reset your password");
+      }
+
+      navigate('/login');
+
+      toast({
+        title: "Password reset",
+        description: "Sign in with your new password. Every device that was signed in has been signed out.",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Could not reset your password",
+        description: error instanceof Error ? error.message : "Could not reset your password",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <div className="mx-auto max-w-sm space-y-6">
+      <div className="space-y-2 text-center">
+        <div className="flex justify-center mb-4">
+          <SunIcon className="h-12 w-12 text-primary-500" />
+        </div>
+        <h1 className="text-2xl font-semibold">Choose a new password</h1>
+      </div>
+      {isResetLoading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-500"></div>
+        </div>
+      ) : error || !reset ? (
+        <div className="rounded-md bg-red-50 p-4 text-center text-sm text-red-700">
+          {error?.message ?? "This link cannot be used"}.{" "}
+          <Link href="/forgot-password" className="underline">
+            Ask for a new one
+          </Link>
+        </div>
+      ) : (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New Password</FormLabel>
+                  <FormControl>
+                    <div className="relative">
+                      <Input
+                        type={showPassword ? "text" : "password"}
+                        placeholder="Create a password"
+                        {...field}
+                        disabled={isLoading}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setShowPassword(prev => !prev)}
+                        className="absolute right-3 top-2 text-sm text-gray-500"
+                      >
+                        {showPassword ? "Hide" : "Show"}
+                      </button>
+                    </div>
+                  </FormControl>
+                  <FormDescription>
+                    At least 6 characters
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="confirmPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Confirm Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" placeholder="Confirm your password" {...field} disabled={isLoading} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? "Saving..." : "Reset Password"}
+            </Button>
+          </form>
+        </Form>
+      )}
+      <div className="mt-4 text-center text-sm">
+        <Link href="/login" className="text-primary-600 hover:text-primary-500">
+          Back to sign in
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import React, { useState } from "react";
 import { Sidebar } from "./sidebar";
 import { MobileNav } from "./mobile-nav";
+import { useRealtime } from "@/hooks/use-realtime";
 
 interface AppShellProps {
   children: React.ReactNode;
@@ -9,6 +10,9 @@ interface AppShellProps {
 export function AppShell({ children }: AppShellProps) {
   const [isMobileNavOpen, setIsMobileNavOpen] = useState(false);
 
+  // Keep notifications, pending expenses and activity in sync with the server
+  useRealtime();
+
   const toggleMobileNav = () => {
     setIsMobileNavOpen(!isMobileNavOpen);
   };
@@ -5,7 +5,7 @@ import { useAuth } from "@/hooks/useAuth";
 import { 
   BarChart3, SunIcon, Users, FileText, 
   Settings, ShieldCheck, LogOut, 
-  LucideIcon, PanelTop, Bell, X, Menu, Factory 
+  LucideIcon, PanelTop, Bell, X, Menu, Factory, Coins 
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
@@ -186,6 +186,13 @@ export function MobileNav({ isOpen, onToggle, onClose }: MobileNavProps) {
                     active={location === "/user-management"} 
                     onClick={onClose}
                   />
+                  <NavItem 
+                    href="/exchange-rates" 
+                    icon={Coins} 
+                    label="Exchange Rates" 
+                    active={location === "/exchange-rates"} 
+                    onClick={onClose}
+                  />
                 </div>
               </div>
             )}
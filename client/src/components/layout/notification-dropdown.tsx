@@ -1,26 +1,48 @@
 import { useState, useRef, useEffect } from 'react';
 import { Bell } from 'lucide-react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { formatDistanceToNow } from 'date-fns';
+import { useLocation } from 'wouter';
 import { useAuth } from '@/hooks/useAuth';
+import { ActivityLog } from '@shared/schema';
+import { describeNotification } from '@shared/notifications';
 
 
 export default function NotificationDropdown() {
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
-  const { authenticatedFetch, user } = useAuth(); 
+  const { authenticatedFetch, user } = useAuth();
+  const queryClient = useQueryClient();
+  const [, navigate] = useLocation();
 
-  // Fetch notifications (we're using activity logs as notifications)
-  const { data: notifications, isLoading } = useQuery({
-    queryKey: ['/api/notifications'], // Updated query key
-    enabled: isOpen && !!user, // Only fetch when dropdown is open AND user is logged in
+  // Fetch unread notifications targeted at the current user
+  const { data: notifications = [], isLoading } = useQuery<ActivityLog[]>({
+    queryKey: ['/api/notifications'],
+    enabled: !!user,
     queryFn: async () => {
-      if (!user) return []; // Don't fetch if user is null
-      const res = await authenticatedFetch("GET", `/api/notifications?userId=${user.id}`); // Use authenticatedFetch and pass userId
+      const res = await authenticatedFetch("GET", "/api/notifications");
       return await res.json();
     },
   });
 
+  const markReadMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await authenticatedFetch("POST", `/api/notifications/${id}/read`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+    },
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      await authenticatedFetch("POST", "/api/notifications/read-all");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+    },
+  });
+
   const toggleMenu = () => setIsOpen(!isOpen);
 
   // Close dropdown when clicking outside
@@ -38,24 +60,36 @@ export default function NotificationDropdown() {
   }, []);
 
   // Format notification message based on activity type
-  const formatNotification = (activity: any) => {
-    const activityTime = formatDistanceToNow(new Date(activity.createdAt), { addSuffix: true });
+  const formatNotification = (activity: ActivityLog) => {
+    const { message, link } = describeNotification(activity);
     return {
       id: activity.id,
-      message: activity.description,
-      createdAt: activityTime
+      message,
+      link,
+      createdAt: formatDistanceToNow(new Date(activity.timestamp), { addSuffix: true }),
     };
   };
 
+  const handleNotificationClick = (id: number, link: string | null) => {
+    markReadMutation.mutate(id);
+    setIsOpen(false);
+    if (link) navigate(link);
+  };
+
   return (
     <div className="ml-3 relative" ref={dropdownRef}>
       <button
         type="button"
-        className="bg-white p-1 rounded-full text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+        className="relative bg-white p-1 rounded-full text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
         onClick={toggleMenu}
       >
         <span className="sr-only">View notifications</span>
         <Bell className="h-6 w-6" />
+        {notifications.length > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs font-medium flex items-center justify-center">
+            {notifications.length > 9 ? '9+' : notifications.length}
+          </span>
+        )}
       </button>
 
       {isOpen && (
@@ -72,14 +106,19 @@ export default function NotificationDropdown() {
           <div className="max-h-80 overflow-y-auto">
             {isLoading ? (
               <div className="px-4 py-2 text-sm text-gray-500">Loading notifications...</div>
-            ) : notifications && notifications.length > 0 ? (
-              notifications.slice(0, 5).map((activity: any) => {
+            ) : notifications.length > 0 ? (
+              notifications.map((activity) => {
                 const notification = formatNotification(activity);
                 return (
-                  <div key={notification.id} className="px-4 py-2 hover:bg-gray-100 border-b">
+                  <button
+                    key={notification.id}
+                    type="button"
+                    className="block w-full text-left px-4 py-2 hover:bg-gray-100 border-b"
+                    onClick={() => handleNotificationClick(notification.id, notification.link)}
+                  >
                     <p className="text-sm text-gray-700 mb-1">{notification.message}</p>
                     <p className="text-xs text-gray-500">{notification.createdAt}</p>
-                  </div>
+                  </button>
                 );
               })
             ) : (
@@ -87,9 +126,16 @@ export default function NotificationDropdown() {
             )}
           </div>
 
-          <div className="px-4 py-2 text-sm text-center text-primary-600 hover:text-primary-800">
-            View all notifications
-          </div>
+          {notifications.length > 0 && (
+            <button
+              type="button"
+              className="block w-full px-4 py-2 text-sm text-center text-primary-600 hover:text-primary-800 disabled:opacity-50"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+            >
+              Mark all as read
+            </button>
+          )}
         </div>
       )}
     </div>
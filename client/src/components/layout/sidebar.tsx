@@ -5,7 +5,7 @@ import { useAuth } from "@/hooks/useAuth";
 import { 
   BarChart3, SunIcon, Users, FileText, 
   Settings, ShieldCheck, LogOut, 
-  LucideIcon, PanelTop, Factory 
+  LucideIcon, PanelTop, Factory, Coins 
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
@@ -115,6 +115,12 @@ export function Sidebar() {
                 label="User Management" 
                 active={location === "/user-management"} 
               />
+              <NavItem 
+                href="/exchange-rates" 
+                icon={Coins} 
+                label="Exchange Rates" 
+                active={location === "/exchange-rates"} 
+              />
             </div>
           </div>
         )}
@@ -0,0 +1,101 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/hooks/useAuth";
+import { formatCurrency, formatDate } from "@/lib/utils";
+import { BudgetForecast } from "@shared/schema";
+
+interface ProjectBudgetForecastProps {
+  projectId: number;
+}
+
+// Committed spend against the budget, the thresholds already reached and when the money runs out
+export function ProjectBudgetForecast({ projectId }: ProjectBudgetForecastProps) {
+  const { authenticatedFetch } = useAuth();
+
+  const { data: forecast, isLoading } = useQuery<BudgetForecast>({
+    queryKey: [`/api/projects/${projectId}/budget-forecast`],
+    queryFn: async () => {
+      const res = await authenticatedFetch("GET", `/api/projects/${projectId}/budget-forecast`);
+      if (!res.ok) {
+        throw new Error("Failed to fetch budget forecast");
+      }
+      return res.json();
+    },
+    staleTime: 60000,
+  });
+
+  if (isLoading || !forecast) {
+    return (
+      <Card className="mt-6">
+        <CardContent className="p-6">
+          <Skeleton className="h-24 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const reached = new Set(forecast.alerts
+    .filter((alert) => alert.budget === forecast.budget)
+    .map((alert) => alert.threshold));
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Budget Forecast</CardTitle>
+        <CardDescription>Approved and pending expenses against the budget, at the recent rate of spending</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <div className="flex justify-between text-sm mb-1">
+            <span>{formatCurrency(forecast.committed, forecast.currency)} committed of {formatCurrency(forecast.budget, forecast.currency)}</span>
+            <span className="font-medium">{Math.round(forecast.percentCommitted)}%</span>
+          </div>
+          <Progress value={Math.min(100, forecast.percentCommitted)} className="h-2" />
+          <div className="text-xs text-gray-500 mt-1">
+            {formatCurrency(forecast.approved, forecast.currency)} approved, {formatCurrency(forecast.pending, forecast.currency)} pending
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <div className="text-sm font-medium text-gray-500">Burn Rate</div>
+            <div>{formatCurrency(forecast.dailyBurnRate, forecast.currency)} per day</div>
+          </div>
+          <div>
+            <div className="text-sm font-medium text-gray-500">Projected Run-out</div>
+            {forecast.exhaustionDate === null ? (
+              <div className="text-gray-500">No recent spending</div>
+            ) : forecast.daysRemaining === 0 ? (
+              <div className="text-red-600 font-medium">Budget exhausted</div>
+            ) : (
+              <div>
+                {formatDate(forecast.exhaustionDate)}
+                <span className="text-gray-500 text-sm ml-2">({forecast.daysRemaining} days)</span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {forecast.thresholds.length > 0 && (
+          <div>
+            <div className="text-sm font-medium text-gray-500 mb-2">Alert Thresholds</div>
+            <div className="flex flex-wrap gap-2">
+              {forecast.thresholds.map((threshold) => (
+                <Badge
+                  key={threshold}
+                  variant="outline"
+                  className={reached.has(threshold) ? "border-red-200 bg-red-50 text-red-700" : undefined}
+                >
+                  {threshold}%{reached.has(threshold) && " reached"}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CategoryBudgetForm } from "@/components/forms/category-budget-form";
+import { useAuth } from "@/hooks/useAuth";
+import { formatCurrency } from "@/lib/utils";
+import { CategoryBudgetComparison, Project } from "@shared/schema";
+import { subtractMoney } from "@shared/money";
+import { PieChart } from "lucide-react";
+
+interface ProjectCategoryBudgetsProps {
+  project: Project;
+  // Whoever may edit the project may change its category lines, unless it is archived
+  canEdit: boolean;
+}
+
+// The project's budget lines by category against approved and pending spending
+export function ProjectCategoryBudgets({ project, canEdit }: ProjectCategoryBudgetsProps) {
+  const { authenticatedFetch } = useAuth();
+  const [openForm, setOpenForm] = useState(false);
+
+  const { data: breakdown = [], isLoading } = useQuery<CategoryBudgetComparison[]>({
+    queryKey: [`/api/projects/${project.id}/category-budgets`],
+    queryFn: async () => {
+      const res = await authenticatedFetch("GET", `/api/projects/${project.id}/category-budgets`);
+      if (!res.ok) {
+        throw new Error("Failed to fetch category budgets");
+      }
+      return res.json();
+    },
+    staleTime: 60000,
+  });
+
+  const chartData = breakdown.map((row) => ({
+    category: row.category.charAt(0).toUpperCase() + row.category.slice(1),
+    budget: row.budgeted ? row.budget : 0,
+    approved: row.spent,
+    pending: row.pending,
+  }));
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle>Budget by Category</CardTitle>
+          <CardDescription>Category budget lines against approved and pending expenses, in {project.currency}</CardDescription>
+        </div>
+        {canEdit && (
+          <Button variant="outline" size="sm" onClick={() => setOpenForm(true)}>
+            <PieChart className="h-4 w-4 mr-2" />
+            Edit Budget Lines
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : breakdown.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">No category budgets or expenses yet.</div>
+        ) : (
+          <div className="space-y-6">
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="category" tick={{ fontSize: 12 }} />
+                  <YAxis tickFormatter={(value) => `${value / 1000}k`} tick={{ fontSize: 12 }} />
+                  <Tooltip formatter={(value: number) => formatCurrency(value, project.currency)} />
+                  <Legend />
+                  <Bar dataKey="budget" name="Budget" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} barSize={18} />
+                  <Bar dataKey="approved" name="Approved" stackId="committed" fill="#10B981" barSize={18} />
+                  <Bar dataKey="pending" name="Pending" stackId="committed" fill="#F59E0B" radius={[4, 4, 0, 0]} barSize={18} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Budget</TableHead>
+                  <TableHead>Approved</TableHead>
+                  <TableHead>Pending</TableHead>
+                  <TableHead>Remaining</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {breakdown.map((row) => {
+                  const remaining = subtractMoney(row.budget, row.spent, row.pending);
+                  return (
+                    <TableRow key={row.category}>
+                      <TableCell className="capitalize">{row.category}</TableCell>
+                      <TableCell>{row.budgeted ? formatCurrency(row.budget, row.currency) : <span className="text-gray-400">Not budgeted</span>}</TableCell>
+                      <TableCell>{formatCurrency(row.spent, row.currency)}</TableCell>
+                      <TableCell>{formatCurrency(row.pending, row.currency)}</TableCell>
+                      <TableCell className={row.budgeted && remaining < 0 ? "text-red-600 font-medium" : undefined}>
+                        {row.budgeted ? formatCurrency(remaining, row.currency) : "-"}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      {canEdit && (
+        <CategoryBudgetForm project={project} breakdown={breakdown} open={openForm} onOpenChange={setOpenForm} />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import Select from "react-select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select as RoleSelect,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { UserName } from "@/components/expenses/expense-history";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate, formatStatus } from "@/lib/utils";
+import { ProjectAssignment, ProjectAssignmentForm, User, UserRole } from "@shared/schema";
+import { UserMinus, UserPlus } from "lucide-react";
+
+const projectRoles: ProjectAssignmentForm["projectRole"][] = [UserRole.MANAGER, UserRole.SALESPERSON, UserRole.EMPLOYEE];
+
+interface ProjectTeamProps {
+  projectId: number;
+  // Admins and managers may change the team of a project that is not archived
+  canManage: boolean;
+}
+
+export function ProjectTeam({ projectId, canManage }: ProjectTeamProps) {
+  const { authenticatedFetch } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedUserId, setSelectedUserId] = useState<number | null>(null);
+  const [projectRole, setProjectRole] = useState<ProjectAssignmentForm["projectRole"]>(UserRole.EMPLOYEE);
+
+  const { data: assignments = [], isLoading } = useQuery<ProjectAssignment[]>({
+    queryKey: [`/api/projects/${projectId}/assignments`],
+    queryFn: async () => {
+      const res = await authenticatedFetch("GET", `/api/projects/${projectId}/assignments`);
+      if (!res.ok) {
+        throw new Error("Failed to fetch project team");
+      }
+      return res.json();
+    },
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ['/api/users'],
+    queryFn: async () => {
+      const res = await authenticatedFetch("GET", "/api/users");
+      return res.json();
+    },
+    enabled: canManage,
+    staleTime: 300000,
+  });
+
+  const members = assignments.filter((assignment) => !assignment.removedAt);
+  const pastMembers = assignments.filter((assignment) => assignment.removedAt);
+  const memberIds = new Set(members.map((assignment) => assignment.userId));
+  const userOptions = users
+    .filter((user) => !memberIds.has(user.id) && user.role !== UserRole.ADMIN)
+    .map((user) => ({ label: `${user.name} (${user.username})`, value: user.id }));
+
+  const invalidateTeam = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/assignments`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/activity-logs/project/${projectId}`] });
+  };
+
+  const assignMutation = useMutation({
+    mutationFn: async (data: ProjectAssignmentForm) => {
+      const res = await authenticatedFetch("POST", `/api/projects/${projectId}/assignments`, {
+        body: JSON.stringify(data),
+        headers: { "Content-Type": "application/json" },
+      });
+      const responseData = await res.json();
+      if (!res.ok) {
+        throw new Error(responseData.message || "Could not add team member");
+      }
+      return responseData as ProjectAssignment;
+    },
+    onSuccess: () => {
+      invalidateTeam();
+      setSelectedUserId(null);
+      toast({
+        title: "Team member added",
+        description: "The user has been assigned to this project",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not add team member",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (assignmentId: number) => {
+      const res = await authenticatedFetch("DELETE", `/api/projects/${projectId}/assignments/${assignmentId}`);
+      const responseData = await res.json();
+      if (!res.ok) {
+        throw new Error(responseData.message || "Could not remove team member");
+      }
+      return responseData as ProjectAssignment;
+    },
+    onSuccess: () => {
+      invalidateTeam();
+      toast({
+        title: "Team member removed",
+        description: "The user has been removed from this project",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not remove team member",
+      });
+    },
+  });
+
+  const handleRemove = (assignmentId: number) => {
+    if (window.confirm("Remove this member from the project?")) {
+      removeMutation.mutate(assignmentId);
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="w-full h-48" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {canManage && (
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+          <div className="flex-1">
+            <Select
+              options={userOptions}
+              value={userOptions.find((option) => option.value === selectedUserId) ?? null}
+              onChange={(option) => setSelectedUserId(option?.value ?? null)}
+              placeholder="Search users..."
+              isDisabled={assignMutation.isPending}
+            />
+          </div>
+          <RoleSelect
+            value={projectRole}
+            onValueChange={(value) => setProjectRole(value as ProjectAssignmentForm["projectRole"])}
+          >
+            <SelectTrigger className="w-full sm:w-[160px]">
+              <SelectValue placeholder="Project role" />
+            </SelectTrigger>
+            <SelectContent>
+              {projectRoles.map((role) => (
+                <SelectItem key={role} value={role}>{formatStatus(role)}</SelectItem>
+              ))}
+            </SelectContent>
+          </RoleSelect>
+          <Button
+            onClick={() => selectedUserId && assignMutation.mutate({ userId: selectedUserId, projectRole })}
+            disabled={!selectedUserId || assignMutation.isPending}
+          >
+            <UserPlus className="h-4 w-4 mr-2" />
+            Add Member
+          </Button>
+        </div>
+      )}
+
+      {members.length === 0 ? (
+        <p className="text-gray-500">Nobody is assigned to this project yet.</p>
+      ) : (
+        <ul className="divide-y border rounded-md">
+          {members.map((assignment) => (
+            <li key={assignment.id} className="flex items-center justify-between p-3 text-sm">
+              <div className="flex items-center space-x-3">
+                <UserName userId={assignment.userId} />
+                {assignment.projectRole && (
+                  <Badge variant="outline">{formatStatus(assignment.projectRole)}</Badge>
+                )}
+                <span className="text-gray-500">since {formatDate(assignment.assignedAt)}</span>
+              </div>
+              {canManage && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemove(assignment.id)}
+                  disabled={removeMutation.isPending}
+                >
+                  <UserMinus className="h-4 w-4 mr-1" />
+                  Remove
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {pastMembers.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-500 mb-2">Assignment History</h3>
+          <ul className="space-y-2 text-sm">
+            {pastMembers.map((assignment) => (
+              <li key={assignment.id} className="text-gray-600">
+                <UserName userId={assignment.userId} />
+                {assignment.projectRole && ` (${formatStatus(assignment.projectRole)})`}
+                {` · ${formatDate(assignment.assignedAt)} – ${formatDate(assignment.removedAt!)}`}
+                {assignment.removedBy && (
+                  <>
+                    {" · removed by "}
+                    <UserName userId={assignment.removedBy} />
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+
+// Recovery codes are shown once, right after they are made; only their hashes are kept
+export function RecoveryCodes({ codes }: { codes: string[] }) {
+  const { toast } = useToast();
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    toast({ title: "Copied", description: "The recovery codes are on your clipboard." });
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        Keep these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator; they will not be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 rounded-md bg-gray-50 p-3 font-mono text-sm">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <Button type="button" variant="outline" size="sm" onClick={copy}>
+        Copy codes
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import React from "react";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+interface TwoFactorCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  // Offers a switch to typing one of the recovery codes instead of the six digits
+  allowRecoveryCode?: boolean;
+}
+
+export function TwoFactorCodeInput({ value, onChange, disabled, allowRecoveryCode }: TwoFactorCodeInputProps) {
+  const [useRecoveryCode, setUseRecoveryCode] = React.useState(false);
+
+  const toggle = () => {
+    setUseRecoveryCode((current) => !current);
+    onChange("");
+  };
+
+  return (
+    <div className="space-y-2">
+      {useRecoveryCode ? (
+        <Input
+          placeholder="xxxxx-xxxxx"
+          autoComplete="one-time-code"
+          value={value}
+          onChange={(event) => onChange(event.target.value)}
+          disabled={disabled}
+        />
+      ) : (
+        <InputOTP maxLength={6} value={value} onChange={onChange} disabled={disabled} autoFocus>
+          <InputOTPGroup>
+            {Array.from({ length: 6 }, (_, index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      )}
+      {allowRecoveryCode && (
+        <Button type="button" variant="link" className="h-auto p-0 text-sm" onClick={toggle} disabled={disabled}>
+          {useRecoveryCode ? "Use a code from your authenticator app" : "Use a recovery code"}
+        </Button>
+      )}
+    </div>
+  );
+}
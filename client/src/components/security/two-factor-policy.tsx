@@ -0,0 +1,89 @@
+import React from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { TwoFactorPolicy, UserRole, UserRoleType } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+
+// Which roles must enroll in two-factor; their members are walked through setup at their next sign-in
+export function TwoFactorPolicyCard() {
+  const { authenticatedFetch } = useAuth();
+  const { toast } = useToast();
+  const [roles, setRoles] = React.useState<UserRoleType[]>([]);
+
+  const { data: policy } = useQuery<TwoFactorPolicy>({
+    queryKey: ['/api/two-factor/policy'],
+    queryFn: async () => {
+      const res = await authenticatedFetch("GET", "/api/two-factor/policy");
+      if (!res.ok) {
+        throw new Error("Failed to fetch the two-factor policy");
+      }
+      return res.json();
+    },
+  });
+
+  React.useEffect(() => {
+    if (policy) setRoles(policy.roles);
+  }, [policy]);
+
+  const savePolicyMutation = useMutation({
+    mutationFn: async (values: TwoFactorPolicy) => {
+      const res = await authenticatedFetch("PUT", "/api/two-factor/policy", {
+        body: JSON.stringify(values),
+        headers: { "Content-Type": "application/json" },
+      });
+      const responseData = await res.json();
+      if (!res.ok) {
+        throw new Error(responseData.message || "Could not save the two-factor policy");
+      }
+      return responseData as TwoFactorPolicy;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(['/api/two-factor/policy'], saved);
+      toast({
+        title: "Policy saved",
+        description: saved.roles.length === 0
+          ? "Two-factor authentication is optional for everyone"
+          : "Members of the selected roles will set up two-factor at their next sign-in",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not save the two-factor policy",
+      });
+    }
+  });
+
+  const toggle = (role: UserRoleType, checked: boolean) => {
+    setRoles((current) => checked ? [...current, role] : current.filter((item) => item !== role));
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Two-Factor Authentication</CardTitle>
+        <CardDescription>
+          Require a code from an authenticator app when members of these roles sign in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap gap-6">
+        {Object.values(UserRole).map((role) => (
+          <label key={role} className="flex items-center gap-2 text-sm">
+            <Checkbox checked={roles.includes(role)} onCheckedChange={(checked) => toggle(role, checked === true)} />
+            {role.charAt(0).toUpperCase() + role.slice(1)}
+          </label>
+        ))}
+      </CardContent>
+      <CardFooter>
+        <Button onClick={() => savePolicyMutation.mutate({ roles })} disabled={!policy || savePolicyMutation.isPending}>
+          {savePolicyMutation.isPending ? "Saving..." : "Save Policy"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
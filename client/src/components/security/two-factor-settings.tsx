@@ -0,0 +1,169 @@
+import React from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { TwoFactorSetup, TwoFactorStatus } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { TwoFactorCodeInput } from "./two-factor-code-input";
+import { TwoFactorSetupDetails } from "./two-factor-setup";
+import { RecoveryCodes } from "./recovery-codes";
+
+// Codes confirm every change, so a stolen session alone cannot turn two-factor off or read new recovery codes
+type PendingAction = "enable" | "regenerate" | "disable";
+
+export function TwoFactorSettingsCard() {
+  const { authenticatedFetch } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [setup, setSetup] = React.useState<TwoFactorSetup | null>(null);
+  const [action, setAction] = React.useState<PendingAction | null>(null);
+  const [code, setCode] = React.useState("");
+  const [recoveryCodes, setRecoveryCodes] = React.useState<string[] | null>(null);
+
+  const { data: status } = useQuery<TwoFactorStatus>({
+    queryKey: ['/api/two-factor'],
+    queryFn: async () => {
+      const res = await authenticatedFetch("GET", "/api/two-factor");
+      if (!res.ok) {
+        throw new Error("Failed to fetch two-factor status");
+      }
+      return res.json();
+    },
+  });
+
+  const post = async <T,>(url: string, body: unknown, fallback: string): Promise<T> => {
+    const res = await authenticatedFetch("POST", url, {
+      body: JSON.stringify(body),
+      headers: { "Content-Type": "application/json" },
+    });
+    const responseData = await res.json();
+    if (!res.ok) {
+      throw new Error(responseData.message || fallback);
+    }
+    return responseData;
+  };
+
+  const onError = (fallback: string) => (error: unknown) => {
+    setCode("");
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+    });
+  };
+
+  const finish = () => {
+    setAction(null);
+    setSetup(null);
+    setCode("");
+    queryClient.invalidateQueries({ queryKey: ['/api/two-factor'] });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: () => post<TwoFactorSetup>("/api/two-factor/setup", {}, "Could not start the setup"),
+    onSuccess: (started) => {
+      setRecoveryCodes(null);
+      setSetup(started);
+      setAction("enable");
+    },
+    onError: onError("Could not start the setup"),
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async (pending: PendingAction) => {
+      if (pending === "disable") {
+        await post("/api/two-factor/disable", { code }, "Could not turn off two-factor authentication");
+        return null;
+      }
+      const url = pending === "enable" ? "/api/two-factor/enable" : "/api/two-factor/recovery-codes";
+      const { recoveryCodes } = await post<{ recoveryCodes: string[] }>(url, { code }, "That code is not valid");
+      return recoveryCodes;
+    },
+    onSuccess: (codes, pending) => {
+      setRecoveryCodes(codes);
+      finish();
+      toast({
+        title: pending === "disable" ? "Two-factor turned off" : pending === "enable" ? "Two-factor turned on" : "Recovery codes replaced",
+        description: pending === "disable"
+          ? "Signing in needs only your password again."
+          : "Save the recovery codes shown below.",
+      });
+    },
+    onError: onError("That code is not valid"),
+  });
+
+  const start = (pending: PendingAction) => {
+    setRecoveryCodes(null);
+    setCode("");
+    setAction(pending);
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Two-Factor Authentication
+          {status && (
+            <Badge variant={status.enabled ? "default" : "secondary"}>{status.enabled ? "On" : "Off"}</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Ask for a code from an authenticator app after your password when you sign in.
+          {status?.required && " Your role requires it."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {recoveryCodes && <RecoveryCodes codes={recoveryCodes} />}
+
+        {action ? (
+          <form
+            className="space-y-4"
+            onSubmit={(event) => {
+              event.preventDefault();
+              confirmMutation.mutate(action);
+            }}
+          >
+            {setup && <TwoFactorSetupDetails setup={setup} />}
+            {action !== "enable" && (
+              <p className="text-sm text-gray-600">Enter a code from your authenticator app, or a recovery code, to confirm.</p>
+            )}
+            <TwoFactorCodeInput
+              value={code}
+              onChange={setCode}
+              disabled={confirmMutation.isPending}
+              allowRecoveryCode={action !== "enable"}
+            />
+            <div className="flex gap-2">
+              <Button type="submit" disabled={confirmMutation.isPending || code.trim().length < 6}>
+                {confirmMutation.isPending ? "Verifying..." : "Confirm"}
+              </Button>
+              <Button type="button" variant="outline" onClick={finish}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : status?.enabled ? (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="mr-auto text-sm text-gray-600">
+              {status.recoveryCodesRemaining} recovery {status.recoveryCodesRemaining === 1 ? "code" : "codes"} left
+            </span>
+            <Button variant="outline" onClick={() => start("regenerate")}>
+              New Recovery Codes
+            </Button>
+            {!status.required && (
+              <Button variant="outline" className="text-red-600" onClick={() => start("disable")}>
+                Turn Off
+              </Button>
+            )}
+          </div>
+        ) : (
+          <Button onClick={() => setupMutation.mutate()} disabled={!status || setupMutation.isPending}>
+            Set Up Two-Factor
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,20 @@
+import { TwoFactorSetup } from "@shared/schema";
+
+// The otpauth link opens an installed authenticator app; the key is for typing in by hand
+export function TwoFactorSetupDetails({ setup }: { setup: TwoFactorSetup }) {
+  return (
+    <div className="space-y-2 text-sm">
+      <p className="text-gray-600">
+        Add SolarFund to an authenticator app such as Google Authenticator, 1Password or Authy, then enter the six-digit code it shows.
+      </p>
+      <p>
+        <a href={setup.otpauthUri} className="text-primary-600 hover:text-primary-500">
+          Open in authenticator app
+        </a>
+      </p>
+      <p className="text-gray-600">
+        Or enter this key: <code className="break-all rounded bg-gray-50 px-1 font-mono">{setup.secret}</code>
+      </p>
+    </div>
+  );
+}
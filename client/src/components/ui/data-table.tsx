@@ -2,12 +2,29 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { useMobile } from '@/hooks/use-mobile';
 import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowDown, ArrowUp } from 'lucide-react';
 
 interface Column<T> {
   header: string;
   accessorKey: string;
   cell?: (row: T) => React.ReactNode;
   hideOnMobile?: boolean;
+  // Set on columns the server can sort by
+  sortKey?: string;
+}
+
+// When given, data is already the current page and the server does the paging
+interface ServerPagination {
+  page: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+}
+
+interface ServerSort {
+  sortBy: string;
+  sortOrder: 'asc' | 'desc';
+  onSortChange: (sortBy: string, sortOrder: 'asc' | 'desc') => void;
 }
 
 interface DataTableProps<T> {
@@ -18,6 +35,8 @@ interface DataTableProps<T> {
   keyField: string;
   emptyMessage?: string;
   pageSize?: number;
+  pagination?: ServerPagination;
+  sort?: ServerSort;
 }
 
 export function DataTable<T extends Record<string, any>>({
@@ -27,25 +46,40 @@ export function DataTable<T extends Record<string, any>>({
   onRowClick,
   keyField,
   emptyMessage = 'No data found',
-  pageSize = 10
+  pageSize: clientPageSize = 10,
+  pagination,
+  sort
 }: DataTableProps<T>) {
-  const [page, setPage] = useState(1);
+  const [clientPage, setClientPage] = useState(1);
   const isMobile = useMobile();
   
   const visibleColumns = isMobile
     ? columns.filter(column => !column.hideOnMobile)
     : columns;
 
+  const page = pagination ? pagination.page : clientPage;
+  const setPage = pagination ? pagination.onPageChange : setClientPage;
+  const pageSize = pagination ? pagination.pageSize : clientPageSize;
+  const totalRows = pagination ? pagination.total : data?.length ?? 0;
+
   // Get data for current page
   const getCurrentPageData = () => {
     if (!data) return [];
+    if (pagination) return data;
     const start = (page - 1) * pageSize;
     const end = start + pageSize;
     return data.slice(start, end);
   };
 
   const currentData = getCurrentPageData();
-  const totalPages = data ? Math.ceil(data.length / pageSize) : 0;
+  const totalPages = Math.ceil(totalRows / pageSize);
+
+  // Clicking the sorted column flips the order; another column starts descending
+  const handleSort = (sortKey: string) => {
+    if (!sort) return;
+    const sortOrder = sort.sortBy === sortKey && sort.sortOrder === 'desc' ? 'asc' : 'desc';
+    sort.onSortChange(sortKey, sortOrder);
+  };
 
   return (
     <div className="overflow-hidden">
@@ -59,7 +93,22 @@ export function DataTable<T extends Record<string, any>>({
                   scope="col" 
                   className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
                 >
-                  {column.header}
+                  {sort && column.sortKey ? (
+                    <button
+                      type="button"
+                      className="inline-flex items-center uppercase tracking-wider hover:text-gray-700"
+                      onClick={() => handleSort(column.sortKey!)}
+                    >
+                      {column.header}
+                      {sort.sortBy === column.sortKey && (
+                        sort.sortOrder === 'asc'
+                          ? <ArrowUp className="h-3 w-3 ml-1" />
+                          : <ArrowDown className="h-3 w-3 ml-1" />
+                      )}
+                    </button>
+                  ) : (
+                    column.header
+                  )}
                 </th>
               ))}
             </tr>
@@ -113,16 +162,16 @@ export function DataTable<T extends Record<string, any>>({
           </tbody>
         </table>
       </div>
-      {data && data.length > pageSize && (
+      {totalRows > pageSize && (
         <div className="bg-gray-50 px-4 py-3 border-t border-gray-200 sm:px-6">
           <nav className="flex items-center justify-between" aria-label="Pagination">
             <div className="hidden sm:block">
               <p className="text-sm text-gray-700">
                 Showing <span className="font-medium">{currentData.length > 0 ? (page - 1) * pageSize + 1 : 0}</span> to{' '}
                 <span className="font-medium">
-                  {Math.min(page * pageSize, data.length)}
+                  {Math.min(page * pageSize, totalRows)}
                 </span>{' '}
-                of <span className="font-medium">{data.length}</span> results
+                of <span className="font-medium">{totalRows}</span> results
               </p>
             </div>
             <div className="flex-1 flex justify-between sm:justify-end">
@@ -139,7 +188,7 @@ export function DataTable<T extends Record<string, any>>({
                 size="sm"
                 className="ml-3"
                 onClick={() => setPage(page + 1)}
-                disabled={page === totalPages}
+                disabled={page >= totalPages}
               >
                 Next
               </Button>
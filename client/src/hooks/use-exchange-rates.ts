@@ -0,0 +1,34 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { ExchangeRate, REPORTING_CURRENCY } from "@shared/schema";
+import { roundMoney } from "@shared/money";
+
+// The admin-maintained exchange rates, with the currencies money can be recorded in and a
+// converter that mirrors the server's. convert returns null when a currency has no rate.
+export function useExchangeRates() {
+  const { authenticatedFetch } = useAuth();
+
+  const query = useQuery<ExchangeRate[]>({
+    queryKey: ['/api/exchange-rates'],
+    queryFn: async () => {
+      const res = await authenticatedFetch("GET", "/api/exchange-rates");
+      if (!res.ok) {
+        throw new Error("Failed to fetch exchange rates");
+      }
+      return res.json();
+    },
+    staleTime: 5 * 60000,
+  });
+
+  const rates = query.data ?? [];
+  const table = new Map<string, number>(rates.map((rate) => [rate.currency, rate.rate]));
+  table.set(REPORTING_CURRENCY, 1);
+
+  const convert = (amount: number, from: string, to: string): number | null => {
+    const fromRate = table.get(from);
+    const toRate = table.get(to);
+    return fromRate === undefined || toRate === undefined ? null : roundMoney((amount * fromRate) / toRate);
+  };
+
+  return { ...query, rates, currencies: Array.from(table.keys()).sort(), convert };
+}
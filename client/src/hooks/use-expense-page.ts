@@ -0,0 +1,41 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { ExpensePage, ExpenseQueryParams, REPORTING_CURRENCY } from "@shared/schema";
+
+const EMPTY_PAGE: ExpensePage = { items: [], total: 0, totalAmount: 0, totalCurrency: REPORTING_CURRENCY, page: 1, pageSize: 0 };
+
+function toSearchParams(params: ExpenseQueryParams): URLSearchParams {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null || value === "") continue;
+    search.set(key, value instanceof Date ? value.toISOString() : String(value));
+  }
+  return search;
+}
+
+// Fetches one page of expenses from the server. Project listings go through the project route,
+// which checks access to the project, but share the ['/api/expenses'] key prefix so that every
+// invalidation of expenses refreshes them too.
+export function useExpensePage(params: ExpenseQueryParams, options: { enabled?: boolean } = {}) {
+  const { authenticatedFetch } = useAuth();
+  const { projectId, ...filters } = params;
+
+  const query = useQuery<ExpensePage>({
+    queryKey: ['/api/expenses', params],
+    queryFn: async () => {
+      const path = projectId ? `/api/expenses/project/${projectId}` : "/api/expenses";
+      const search = toSearchParams(filters).toString();
+      const res = await authenticatedFetch("GET", search ? `${path}?${search}` : path);
+      const responseData = await res.json();
+      if (!res.ok) {
+        throw new Error(responseData.message || "Failed to fetch expenses");
+      }
+      return responseData;
+    },
+    placeholderData: keepPreviousData,
+    enabled: options.enabled ?? true,
+    staleTime: 60000,
+  });
+
+  return { ...query, data: query.data ?? EMPTY_PAGE };
+}
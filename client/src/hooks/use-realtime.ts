@@ -0,0 +1,108 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { ActivityAction, Expense, RealtimeEvent } from "@shared/schema";
+
+const RECONNECT_DELAY_MS = 5000;
+
+const EXPENSE_ACTIONS: ActivityAction[] = [
+  ActivityAction.EXPENSE_SUBMITTED,
+  ActivityAction.EXPENSE_UPDATED,
+  ActivityAction.EXPENSE_APPROVED,
+  ActivityAction.EXPENSE_REJECTED,
+];
+
+const TEAM_ACTIONS: ActivityAction[] = [
+  ActivityAction.USER_ASSIGNED,
+  ActivityAction.USER_REMOVED,
+];
+
+// Listens on the server's /ws socket and refreshes the queries an event makes stale
+export function useRealtime() {
+  const { user, ensureAccessToken, refreshAccessToken } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!user) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+    // Set when the server turned the access token away, which it also does once the session is revoked
+    let tokenRefused = false;
+
+    const handleEvent = (event: RealtimeEvent) => {
+      if (event.type === "notification") {
+        queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+      } else {
+        queryClient.invalidateQueries({ queryKey: ['/api/activity-logs'] });
+        if (event.log.projectId) {
+          queryClient.invalidateQueries({ queryKey: [`/api/activity-logs/project/${event.log.projectId}`] });
+        }
+      }
+
+      if (EXPENSE_ACTIONS.includes(event.log.action)) {
+        queryClient.invalidateQueries({ queryKey: ['/api/expenses/status/pending'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
+
+        // Expense log details are the expense itself, so an open details page can refresh too
+        const expenseId = (event.log.details as Expense | null)?.id;
+        if (expenseId) {
+          queryClient.invalidateQueries({ queryKey: [`/api/expenses/${expenseId}`] });
+          queryClient.invalidateQueries({ queryKey: [`/api/expenses/${expenseId}/approvals`] });
+          queryClient.invalidateQueries({ queryKey: [`/api/expenses/${expenseId}/versions`] });
+        }
+      }
+
+      // Expenses move the committed spend, and a threshold alert means it has moved
+      if (EXPENSE_ACTIONS.includes(event.log.action) || event.log.action === ActivityAction.BUDGET_THRESHOLD_REACHED) {
+        queryClient.invalidateQueries({ queryKey: ['/api/projects/budget-forecasts'] });
+        if (event.log.projectId) {
+          queryClient.invalidateQueries({ queryKey: [`/api/projects/${event.log.projectId}/budget-forecast`] });
+          queryClient.invalidateQueries({ queryKey: [`/api/projects/${event.log.projectId}/category-budgets`] });
+        }
+      }
+
+      // Joining or leaving a team changes which projects the user can see
+      if (TEAM_ACTIONS.includes(event.log.action)) {
+        queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+        if (event.log.projectId) {
+          queryClient.invalidateQueries({ queryKey: [`/api/projects/${event.log.projectId}/assignments`] });
+        }
+      }
+    };
+
+    const connect = async () => {
+      const accessToken = tokenRefused ? await refreshAccessToken() : await ensureAccessToken();
+      if (stopped || !accessToken) return;
+
+      const protocol = window.location.protocol === "https:" ? "wss" : "ws";
+      socket = new WebSocket(`${protocol}://${window.location.host}/ws?token=${encodeURIComponent(accessToken)}`);
+
+      socket.onmessage = (message) => {
+        try {
+          handleEvent(JSON.parse(message.data) as RealtimeEvent);
+        } catch (error) {
+          console.error("Invalid realtime message:", error);
+        }
+      };
+
+      // The server closes the socket when the access token expires or its session ends, so reconnect
+      // with a fresh one; a session that has ended cannot refresh, and the user is signed out
+      socket.onclose = (event) => {
+        tokenRefused = event.code === 1008;
+        if (!stopped) {
+          reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+        }
+      };
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [user?.id]);
+}
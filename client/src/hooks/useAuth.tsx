@@ -1,17 +1,24 @@
 import React, { createContext, useState, useContext, useEffect } from "react";
 import { jwtDecode } from "jwt-decode";
-import { User, UserRoleType } from "@shared/schema";
+import { LoginResponse, User, UserRoleType } from "@shared/schema";
 import { useLocation } from "wouter";
 import { DecodedToken } from "utils/jwt";
 
 
+// What the access token says about the signed-in user; the rest of the profile comes from /api/profile
+type AuthUser = Pick<User, "id" | "username" | "name" | "role">;
+
 interface AuthContextType {
-  user: User | null;
+  user: AuthUser | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (username: string, password: string) => Promise<void>;
+  // Resolves to the two-factor challenge when the password alone does not finish the sign-in
+  login: (username: string, password: string) => Promise<Exclude<LoginResponse, { accessToken: string }> | null>;
+  startSession: (accessToken: string) => void; // Signs in with a token from a completed two-factor step
   logout: () => Promise<void>;
   getAccessToken: () => string | null;
+  ensureAccessToken: () => Promise<string | null>; // Returns a valid access token, refreshing it if needed
+  refreshAccessToken: () => Promise<string | null>; // Always refreshes; a session that has ended signs the user out
   authenticatedFetch: (method: string, url: string, options?: RequestInit) => Promise<Response>;
   isTokenExpired: (token: string | null) => boolean; // Add isTokenExpired function
 }
@@ -20,15 +27,18 @@ const AuthContext = createContext<AuthContextType>({
   user: null,
   isAuthenticated: false,
   isLoading: true,
-  login: async () => {},
+  login: async () => null,
+  startSession: () => {},
   logout: async () => {},
   getAccessToken: () => null,
+  ensureAccessToken: async () => null,
+  refreshAccessToken: async () => null,
   authenticatedFetch: async () => { throw new Error("authenticatedFetch not implemented"); },
   isTokenExpired: (token) => false // Default implementation for isTokenExpired
 });
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshingToken, setIsRefreshingToken] = useState(false);  
   const [, navigate] = useLocation();
@@ -89,16 +99,20 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const authenticatedFetch = async (method: string, url: string, options: RequestInit = {}): Promise<Response> => {
-    let accessToken = getAccessToken();
+  const ensureAccessToken = async (): Promise<string | null> => {
+    const accessToken = getAccessToken();
+    if (accessToken && !isTokenExpired(accessToken)) {
+      return accessToken;
+    }
 
-    if (!accessToken || isTokenExpired(accessToken)) {
-      console.log("Access token expired or not present, attempting to refresh...");
-      
-      accessToken = await refreshAccessToken();
-      if (!accessToken) {
-        throw new Error("Token refresh failed");
-      }
+    console.log("Access token expired or not present, attempting to refresh...");
+    return refreshAccessToken();
+  };
+
+  const authenticatedFetch = async (method: string, url: string, options: RequestInit = {}): Promise<Response> => {
+    let accessToken = await ensureAccessToken();
+    if (!accessToken) {
+      throw new Error("Token refresh failed");
     }
 
     const authOptions: RequestInit = {
@@ -160,6 +174,18 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     checkAuthStatus();
   }, []);
 
+  const startSession = (accessToken: string) => {
+    localStorage.setItem('access_token', accessToken);
+
+    const decoded = jwtDecode<DecodedToken>(accessToken);
+    setUser({
+      id: decoded.id,
+      username: decoded.username,
+      name: decoded.name,
+      role: decoded.role,
+    });
+  };
+
   const login = async (username: string, password: string) => {
     try {
       const response = await fetch("/api/login", {
@@ -169,22 +195,18 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         credentials: "include",
       });
 
-      const data = await response.json();
+      const data: LoginResponse & { message?: string } = await response.json();
 
       if (!response.ok) {
         throw new Error(data.message || "Login failed");
       }
 
-      const accessToken = data.accessToken;
-      localStorage.setItem('access_token', accessToken);
+      if ("twoFactor" in data) {
+        return data;
+      }
 
-      const decoded = jwtDecode<DecodedToken>(accessToken);
-      setUser({
-        id: decoded.id,
-        username: decoded.username,
-        name: decoded.name,
-        role: decoded.role,
-      });
+      startSession(data.accessToken);
+      return null;
     } catch (error) {
       throw new Error("Login failed. Please check your credentials.");
     }
@@ -216,8 +238,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         isAuthenticated: !!user,
         isLoading,
         login,
+        startSession,
         logout,
         getAccessToken,
+        ensureAccessToken,
+        refreshAccessToken,
         authenticatedFetch,
         isTokenExpired,
       }}
@@ -1,15 +1,14 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { formatMoney } from "@shared/money";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
-export function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-  }).format(amount);
+// Amounts without a currency are in the reporting currency
+export function formatCurrency(amount: number, currency = 'USD'): string {
+  return formatMoney(amount, currency);
 }
 
 export function formatDate(date: Date | string): string {
@@ -31,17 +31,21 @@ import {
   ResponsiveContainer 
 } from "recharts";
 import { useAuth } from "@/hooks/useAuth";
-import { EmployeeSpending, ExpenseApprovalRate, MonthlySpending, ProjectBudgetComparison, SpendingCategory } from "@shared/schema";
+import { ExportMenu } from "@/components/export/export-menu";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useExchangeRates } from "@/hooks/use-exchange-rates";
+import { CategoryBudgetComparison, EmployeeSpending, ExpenseApprovalRate, MonthlySpending, ProjectBudgetComparison, REPORTING_CURRENCY, SpendingCategory } from "@shared/schema";
+import { subtractMoney, sumMoney } from "@shared/money";
 
 // Custom tooltip for charts
-const CustomTooltip = ({ active, payload, label }: any) => {
+const CustomTooltip = ({ active, payload, label, currency }: any) => {
   if (active && payload && payload.length) {
     return (
       <div className="bg-white p-4 shadow-md rounded-md border">
         <p className="font-semibold">{label}</p>
         {payload.map((entry: any, index: number) => (
           <p key={`item-${index}`} style={{ color: entry.color || entry.fill }}>
-            {entry.name}: {formatCurrency(entry.value)}
+            {entry.name}: {formatCurrency(entry.value, currency)}
           </p>
         ))}
       </div>
@@ -54,13 +58,16 @@ const COLORS = ['#10B981', '#0EA5E9', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899'
 
 export default function Analytics() {
   const [timeframe, setTimeframe] = useState("90");
+  // Money on this page is converted into this currency
+  const [currency, setCurrency] = useState(REPORTING_CURRENCY);
   const { authenticatedFetch }= useAuth() 
+  const { currencies } = useExchangeRates();
 
   // Fetch budget vs spent data
   const { data: budgetVsSpent = [], isLoading: isBudgetLoading, error: budgetError } = useQuery<ProjectBudgetComparison[]>({
-    queryKey: ['/api/analytics/total-budget-vs-spent'], 
+    queryKey: ['/api/analytics/total-budget-vs-spent', currency], 
     queryFn: async () => {
-      const res = await authenticatedFetch("GET", '/api/analytics/total-budget-vs-spent');
+      const res = await authenticatedFetch("GET", `/api/analytics/total-budget-vs-spent?currency=${currency}`);
       if (!res.ok) {
         throw new Error(`Failed to fetch data from /api/analytics/total-budget-vs-spent`);
       }
@@ -69,11 +76,24 @@ export default function Analytics() {
     staleTime: 60000,
   });
 
+  // Fetch category budget lines against their spending
+  const { data: categoryBudgets = [], isLoading: isCategoryBudgetLoading } = useQuery<CategoryBudgetComparison[]>({
+    queryKey: ['/api/analytics/category-budget-vs-spent', currency],
+    queryFn: async () => {
+      const res = await authenticatedFetch("GET", `/api/analytics/category-budget-vs-spent?currency=${currency}`);
+      if (!res.ok) {
+        throw new Error(`Failed to fetch data from /api/analytics/category-budget-vs-spent`);
+      }
+      return await res.json();
+    },
+    staleTime: 60000,
+  });
+
   // Fetch monthly spending trends
   const { data: monthlySpending = [], isLoading: isMonthlyLoading, error: monthlyError } = useQuery<MonthlySpending[]>({
-    queryKey: ['/api/analytics/monthly-spending-trends'], 
+    queryKey: ['/api/analytics/monthly-spending-trends', currency], 
     queryFn: async () => {
-      const res = await authenticatedFetch("GET", '/api/analytics/monthly-spending-trends');
+      const res = await authenticatedFetch("GET", `/api/analytics/monthly-spending-trends?currency=${currency}`);
       if (!res.ok) {
         throw new Error(`Failed to fetch data from /api/analytics/monthly-spending-trends`);
       }
@@ -84,9 +104,9 @@ export default function Analytics() {
 
   // Fetch spending by category
   const { data: spendingByCategory = [], isLoading: isCategoryLoading, error: categoryError } = useQuery<SpendingCategory[]>({
-    queryKey: ['/api/analytics/spending-by-category'], 
+    queryKey: ['/api/analytics/spending-by-category', currency], 
     queryFn: async () => {
-      const res = await authenticatedFetch("GET", '/api/analytics/spending-by-category');
+      const res = await authenticatedFetch("GET", `/api/analytics/spending-by-category?currency=${currency}`);
       if (!res.ok) {
         throw new Error(`Failed to fetch data from /api/analytics/spending-by-category`);
       }
@@ -111,9 +131,9 @@ export default function Analytics() {
 
   // Fetch spending by employee
   const { data: employeeSpending = [], isLoading: isEmployeeLoading, error: employeeError } = useQuery<EmployeeSpending[]>({
-    queryKey: ['/api/analytics/spending-by-employee'], 
+    queryKey: ['/api/analytics/spending-by-employee', currency], 
     queryFn: async () => {
-      const res = await authenticatedFetch("GET", '/api/analytics/spending-by-employee');
+      const res = await authenticatedFetch("GET", `/api/analytics/spending-by-employee?currency=${currency}`);
       if (!res.ok) {
         throw new Error(`Failed to fetch data from /api/analytics/spending-by-employee`);
       }
@@ -123,16 +143,20 @@ export default function Analytics() {
   });
 
   // Calculate total amounts
-  const totalBudget = budgetVsSpent.reduce((sum: number, project: any) => sum + project.budget, 0);
-  const totalSpent = budgetVsSpent.reduce((sum: number, project: any) => sum + project.spent, 0);
-  const totalRemaining = totalBudget - totalSpent;
+  const totalBudget = sumMoney(budgetVsSpent.map((project) => project.reportingBudget));
+  const totalSpent = sumMoney(budgetVsSpent.map((project) => project.reportingSpent));
+  const totalRemaining = subtractMoney(totalBudget, totalSpent);
 
   // Format categories data for pie chart
-  const categoryData = spendingByCategory.map((item: any, index: number) => ({
+  const categoryData = spendingByCategory.map((item, index) => ({
     name: item.category.charAt(0).toUpperCase() + item.category.slice(1),
     value: item.amount,
+    original: item.original,
     color: COLORS[index % COLORS.length]
   }));
+  // The amounts behind the converted totals, shown when any were spent in another currency
+  const hasForeignSpending = spendingByCategory.some((item) =>
+    item.original.some((money) => money.currency !== currency));
 
   // Format approval rates for pie chart
   const approvalRateData = approvalRates?.map((rate) => ({
@@ -157,11 +181,26 @@ export default function Analytics() {
       color: COLORS[index % COLORS.length]
     }));
 
+  // Only categories with a budget line, the most used first
+  const budgetedCategories = categoryBudgets
+    .filter((row) => row.budgeted)
+    .sort((a, b) => (b.spent + b.pending) / b.budget - (a.spent + a.pending) / a.budget);
+
   return (
     <div className="py-6 px-4 sm:px-6 lg:px-8">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between pb-6">
         <h1 className="text-2xl font-semibold text-gray-900">Analytics Dashboard</h1>
-        <div className="mt-3 sm:mt-0">
+        <div className="mt-3 sm:mt-0 flex flex-col sm:flex-row gap-3">
+          <Select value={currency} onValueChange={setCurrency}>
+            <SelectTrigger className="w-full sm:w-[120px]">
+              <SelectValue placeholder="Currency" />
+            </SelectTrigger>
+            <SelectContent>
+              {currencies.map((code) => (
+                <SelectItem key={code} value={code}>{code}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           <Select
             value={timeframe}
             onValueChange={setTimeframe}
@@ -187,7 +226,7 @@ export default function Analytics() {
             <CardTitle className="text-sm font-medium text-gray-500">Total Budget</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{formatCurrency(totalBudget)}</div>
+            <div className="text-2xl font-bold">{formatCurrency(totalBudget, currency)}</div>
           </CardContent>
         </Card>
         <Card className="bg-white">
@@ -195,7 +234,7 @@ export default function Analytics() {
             <CardTitle className="text-sm font-medium text-gray-500">Total Spent</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{formatCurrency(totalSpent)}</div>
+            <div className="text-2xl font-bold">{formatCurrency(totalSpent, currency)}</div>
             <div className="text-sm text-gray-500 mt-1">
               {((totalSpent / totalBudget) * 100).toFixed(1)}% of total budget
             </div>
@@ -206,7 +245,7 @@ export default function Analytics() {
             <CardTitle className="text-sm font-medium text-gray-500">Remaining Budget</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{formatCurrency(totalRemaining)}</div>
+            <div className="text-2xl font-bold">{formatCurrency(totalRemaining, currency)}</div>
             <div className="text-sm text-gray-500 mt-1">
               {((totalRemaining / totalBudget) * 100).toFixed(1)}% remaining
             </div>
@@ -217,11 +256,14 @@ export default function Analytics() {
       {/* Budget vs. Spent Chart & Monthly Spending Trends */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
         <Card>
-          <CardHeader>
-            <CardTitle>Budget vs. Spent by Project</CardTitle>
-            <CardDescription>
-              Comparison of allocated budget and actual spending across projects
-            </CardDescription>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>Budget vs. Spent by Project</CardTitle>
+              <CardDescription>
+                Comparison of allocated budget and actual spending across projects, in {currency}
+              </CardDescription>
+            </div>
+            <ExportMenu url="/api/analytics/total-budget-vs-spent/export" params={{ currency }} />
           </CardHeader>
           <CardContent>
             <div className="h-80">
@@ -238,8 +280,8 @@ export default function Analytics() {
                   <BarChart
                     data={budgetVsSpent.map(item => ({
                       name: item.project.length > 15 ? item.project.substring(0, 15) + "..." : item.project,
-                      Budget: item.budget,
-                      Spent: item.spent,
+                      Budget: item.reportingBudget,
+                      Spent: item.reportingSpent,
                       fullName: item.project
                     }))}
                     margin={{ top: 20, right: 30, left: 20, bottom: 80 }}
@@ -253,10 +295,10 @@ export default function Analytics() {
                       tick={{ fontSize: 12 }}
                     />
                     <YAxis 
-                      tickFormatter={(value) => `$${value / 1000}k`}
+                      tickFormatter={(value) => `${value / 1000}k`}
                       tick={{ fontSize: 12 }}
                     />
-                    <Tooltip content={<CustomTooltip />} />
+                    <Tooltip content={<CustomTooltip currency={currency} />} />
                     <Legend
                       verticalAlign="top"
                       align="center"
@@ -275,11 +317,14 @@ export default function Analytics() {
         </Card>
 
         <Card>
-          <CardHeader>
-            <CardTitle>Monthly Spending Trends</CardTitle>
-            <CardDescription>
-              Spending trends across different expense categories
-            </CardDescription>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>Monthly Spending Trends</CardTitle>
+              <CardDescription>
+                Spending trends across different expense categories
+              </CardDescription>
+            </div>
+            <ExportMenu url="/api/analytics/monthly-spending-trends/export" params={{ currency }} />
           </CardHeader>
           <CardContent>
             <div className="h-80">
@@ -300,10 +345,10 @@ export default function Analytics() {
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis dataKey="month" tick={{ fontSize: 12 }} />
                     <YAxis 
-                      tickFormatter={(value) => `$${value / 1000}k`}
+                      tickFormatter={(value) => `${value / 1000}k`}
                       tick={{ fontSize: 12 }}
                     />
-                    <Tooltip content={<CustomTooltip />} />
+                    <Tooltip content={<CustomTooltip currency={currency} />} />
                     <Legend />
                     <Line 
                       type="monotone" 
@@ -343,11 +388,14 @@ export default function Analytics() {
       {/* Spending by Category & Expense Approval Rates */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
         <Card>
-          <CardHeader>
-            <CardTitle>Spending by Category</CardTitle>
-            <CardDescription>
-              Distribution of expenses across different categories
-            </CardDescription>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>Spending by Category</CardTitle>
+              <CardDescription>
+                Distribution of expenses across different categories
+              </CardDescription>
+            </div>
+            <ExportMenu url="/api/analytics/spending-by-category/export" params={{ currency }} />
           </CardHeader>
           <CardContent>
             <div className="h-80">
@@ -376,21 +424,34 @@ export default function Analytics() {
                         <Cell key={`cell-${index}`} fill={entry.color} />
                       ))}
                     </Pie>
-                    <Tooltip content={<CustomTooltip />} />
+                    <Tooltip content={<CustomTooltip currency={currency} />} />
                     <Legend />
                   </PieChart>
                 </ResponsiveContainer>
               )}
             </div>
+            {hasForeignSpending && (
+              <ul className="mt-4 space-y-1 text-sm text-gray-600">
+                {categoryData.map((item) => (
+                  <li key={item.name}>
+                    <span className="font-medium">{item.name}:</span>{" "}
+                    {item.original.map((money) => formatCurrency(money.amount, money.currency)).join(" + ")}
+                  </li>
+                ))}
+              </ul>
+            )}
           </CardContent>
         </Card>
 
         <Card>
-          <CardHeader>
-            <CardTitle>Expense Approval Rates</CardTitle>
-            <CardDescription>
-              Distribution of expense approval statuses
-            </CardDescription>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>Expense Approval Rates</CardTitle>
+              <CardDescription>
+                Distribution of expense approval statuses
+              </CardDescription>
+            </div>
+            <ExportMenu url="/api/analytics/expense-approval-rates/export" />
           </CardHeader>
           <CardContent>
             <div className="h-80">
@@ -428,13 +489,68 @@ export default function Analytics() {
         </Card>
       </div>
 
+      {/* Category Budgets, most used first */}
+      <Card className="mb-6">
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Budget vs. Actual by Category</CardTitle>
+            <CardDescription>
+              Project budget lines by expense category against approved and pending expenses, in each project's currency
+            </CardDescription>
+          </div>
+          <ExportMenu url="/api/analytics/category-budget-vs-spent/export" params={{ currency }} />
+        </CardHeader>
+        <CardContent>
+          {isCategoryBudgetLoading ? (
+            <div className="h-32 w-full flex items-center justify-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
+            </div>
+          ) : budgetedCategories.length === 0 ? (
+            <div className="py-8 text-center text-gray-500">No project has category budgets yet</div>
+          ) : (
+            <div className="max-h-96 overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Project</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Budget</TableHead>
+                    <TableHead>Approved</TableHead>
+                    <TableHead>Pending</TableHead>
+                    <TableHead>Used</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {budgetedCategories.map((row) => {
+                    const used = Math.round(((row.spent + row.pending) / row.budget) * 100);
+                    return (
+                      <TableRow key={`${row.projectId}-${row.category}`}>
+                        <TableCell>{row.project}</TableCell>
+                        <TableCell className="capitalize">{row.category}</TableCell>
+                        <TableCell>{formatCurrency(row.budget, row.currency)}</TableCell>
+                        <TableCell>{formatCurrency(row.spent, row.currency)}</TableCell>
+                        <TableCell>{formatCurrency(row.pending, row.currency)}</TableCell>
+                        <TableCell className={used > 100 ? "text-red-600 font-medium" : undefined}>{used}%</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Top Employees by Spending */}
       <Card>
-        <CardHeader>
-          <CardTitle>Top Employees by Spending</CardTitle>
-          <CardDescription>
-            Employees with the highest approved expenses
-          </CardDescription>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Top Employees by Spending</CardTitle>
+            <CardDescription>
+              Employees with the highest approved expenses
+            </CardDescription>
+          </div>
+          <ExportMenu url="/api/analytics/spending-by-employee/export" params={{ currency }} />
         </CardHeader>
         <CardContent>
           <div className="h-80">
@@ -456,7 +572,7 @@ export default function Analytics() {
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis 
                     type="number" 
-                    tickFormatter={(value) => `$${value / 1000}k`}
+                    tickFormatter={(value) => `${value / 1000}k`}
                     tick={{ fontSize: 12 }}
                   />
                   <YAxis 
@@ -465,7 +581,7 @@ export default function Analytics() {
                     tick={{ fontSize: 12 }}
                     width={80}
                   />
-                  <Tooltip content={<CustomTooltip />} />
+                  <Tooltip content={<CustomTooltip currency={currency} />} />
                   <Legend />
                   <Bar 
                     dataKey="amount" 
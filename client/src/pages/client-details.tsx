@@ -1,7 +1,7 @@
 // pages/client-details.tsx
 
 import React, { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useParams, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -26,8 +26,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Progress } from "@/components/ui/progress";
 import { formatCurrency, formatDate, getStatusColor, formatStatus, calculatePercentage } from "@/lib/utils";
 import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
 import { Client, Project, ProjectBudgetComparison } from "@shared/schema";
-import { Edit, ArrowLeft, Search, PanelTop } from "lucide-react";
+import { Edit, ArrowLeft, Search, PanelTop, Merge, Power } from "lucide-react";
+import { EditClientForm } from "@/components/forms/edit-client-form";
+import { MergeClientForm } from "@/components/forms/merge-client-form";
+import { UserName } from "@/components/expenses/expense-history";
 
 export default function ClientDetails() {
   const { id } = useParams<{ id: string }>();
@@ -37,9 +41,13 @@ export default function ClientDetails() {
 
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
+  const [openEditForm, setOpenEditForm] = useState(false);
+  const [openMergeForm, setOpenMergeForm] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   // Fetch client details
-  const { data: client, isLoading: isClientLoading, error: clientError } = useQuery({
+  const { data: client, isLoading: isClientLoading, error: clientError } = useQuery<Client>({
     queryKey: [`/api/clients/${clientId}`],
     queryFn: async () => {
       const res = await authenticatedFetch("GET", `/api/clients/${clientId}`);
@@ -71,7 +79,49 @@ export default function ClientDetails() {
     staleTime: 60000
   });
 
-  const canEditClient = user && (user.role === "admin" || user.role === "manager");
+  // Deactivate or reactivate the client
+  const activationMutation = useMutation({
+    mutationFn: async (activate: boolean) => {
+      const res = await authenticatedFetch("POST", `/api/clients/${clientId}/${activate ? "reactivate" : "deactivate"}`);
+      const responseData = await res.json();
+      if (!res.ok) {
+        throw new Error(responseData.message || "Could not update client");
+      }
+      return responseData as Client;
+    },
+    onSuccess: (updatedClient) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/clients'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/clients/${clientId}`] });
+      toast({
+        title: updatedClient.deactivatedAt ? "Client deactivated" : "Client reactivated",
+        description: updatedClient.deactivatedAt
+          ? "The client no longer takes new projects"
+          : "The client can take new projects again",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not update client",
+      });
+    },
+  });
+
+  const handleActivation = (activate: boolean) => {
+    const message = activate
+      ? "Reactivate this client?"
+      : "Deactivate this client? Its projects are kept, but it will not take new ones.";
+    if (window.confirm(message)) {
+      activationMutation.mutate(activate);
+    }
+  };
+
+  // Reviewers manage every client; salespeople the clients they own
+  const canEditClient = user && client && !client.mergedIntoId && (user.role === "admin" || user.role === "manager" ||
+    (user.role === "salesperson" && client.createdById === user.id));
+
+  const canMergeClient = user && client && !client.deactivatedAt && (user.role === "admin" || user.role === "manager");
 
   const filteredProjects = projects.filter(project => {
     const matchesSearch = project.name.toLowerCase().includes(searchTerm.toLowerCase());
@@ -130,7 +180,19 @@ export default function ClientDetails() {
       </Button>
 
       <div className="mb-6">
-        <h1 className="text-2xl font-semibold text-gray-900">{client.name}</h1>
+        <div className="flex items-center space-x-3">
+          <h1 className="text-2xl font-semibold text-gray-900">{client.name}</h1>
+          {client.deactivatedAt && <Badge variant="outline">Deactivated</Badge>}
+        </div>
+        {client.mergedIntoId && (
+          <p className="text-gray-500 mt-1">
+            This client was merged into{" "}
+            <Button variant="link" className="p-0 h-auto" onClick={() => navigate(`/clients/${client.mergedIntoId}`)}>
+              another client
+            </Button>
+            .
+          </p>
+        )}
       </div>
 
       <div className="grid grid-cols-1 gap-6 mb-6">
@@ -138,15 +200,37 @@ export default function ClientDetails() {
           <CardHeader>
             <div className="flex items-center justify-between"> {/* Flex container for title and button */}
               <CardTitle>Client Information</CardTitle>
-              {canEditClient && (
-                <Button
-                  variant="outline"
-                  onClick={() => navigate(`/clients/${clientId}/edit`)}
-                >
-                  <Edit className="h-4 w-4 mr-2" />
-                  Edit Client
-                </Button>
-              )}
+              <div className="flex space-x-2">
+                {canMergeClient && (
+                  <>
+                    <Button variant="outline" onClick={() => setOpenMergeForm(true)}>
+                      <Merge className="h-4 w-4 mr-2" />
+                      Merge Duplicate
+                    </Button>
+                    <MergeClientForm client={client} open={openMergeForm} onOpenChange={setOpenMergeForm} />
+                  </>
+                )}
+                {canEditClient && (
+                  <>
+                    <Button
+                      variant="outline"
+                      onClick={() => handleActivation(!!client.deactivatedAt)}
+                      disabled={activationMutation.isPending}
+                    >
+                      <Power className="h-4 w-4 mr-2" />
+                      {client.deactivatedAt ? "Reactivate" : "Deactivate"}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => setOpenEditForm(true)}
+                    >
+                      <Edit className="h-4 w-4 mr-2" />
+                      Edit Client
+                    </Button>
+                    <EditClientForm client={client} open={openEditForm} onOpenChange={setOpenEditForm} />
+                  </>
+                )}
+              </div>
             </div>
           </CardHeader>
           <CardContent>
@@ -156,6 +240,11 @@ export default function ClientDetails() {
                 <div>{client.contactPerson}</div>
               </div>
 
+              <div>
+                <div className="text-sm font-medium text-gray-500">Owner</div>
+                <div><UserName userId={client.createdById} /></div>
+              </div>
+
               {client.contactEmail && (
                 <div>
                   <div className="text-sm font-medium text-gray-500">Email</div>
@@ -259,9 +348,9 @@ export default function ClientDetails() {
                               </div>
                             </div>
                           </TableCell>
-                          <TableCell>{formatCurrency(project.budget)}</TableCell>
+                          <TableCell>{formatCurrency(project.budget, project.currency)}</TableCell>
                           <TableCell>
-                            <div>{formatCurrency(spent)}</div>
+                            <div>{formatCurrency(spent, project.currency)}</div>
                             <div className="text-sm text-muted-foreground">
                               {percentage}% used
                             </div>
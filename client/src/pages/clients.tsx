@@ -44,8 +44,12 @@ import { Client, insertClientSchema } from "@shared/schema";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
-import { Plus, Search, Users, Mail, Phone } from "lucide-react";
+import { Plus, Search, Users, Mail, Phone, Edit, Merge } from "lucide-react";
 import { ClientCreateForm } from "@/components/forms/create-client-form";
+import { EditClientForm } from "@/components/forms/edit-client-form";
+import { MergeClientForm } from "@/components/forms/merge-client-form";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 
 
 const formSchema = insertClientSchema.extend({
@@ -59,12 +63,15 @@ export default function Clients() {
   const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState("");
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [editingClient, setEditingClient] = useState<Client | null>(null);
+  const [mergingClient, setMergingClient] = useState<Client | null>(null);
+  const [showInactive, setShowInactive] = useState(false);
 
   // Fetch clients
   const { data: clients = [], isLoading, error: clientsError } = useQuery<Client[]>({
-    queryKey: ['/api/clients'],
+    queryKey: ['/api/clients', { includeInactive: showInactive }],
     queryFn: async () => {
-      const res = await authenticatedFetch("GET", '/api/clients');
+      const res = await authenticatedFetch("GET", showInactive ? '/api/clients?includeInactive=true' : '/api/clients');
       if (!res.ok) {
         throw new Error(`Failed to fetch clients: ${res.statusText}`);
       }
@@ -132,6 +139,11 @@ export default function Clients() {
   // Check if user can create clients
   const canCreateClient = user && (user.role === "admin" || user.role === "manager" || user.role === "salesperson");
 
+  // Reviewers edit and merge any client; salespeople edit the clients they own
+  const isReviewer = user && (user.role === "admin" || user.role === "manager");
+  const canEditClient = (client: Client) =>
+    !client.mergedIntoId && (isReviewer || (user?.role === "salesperson" && client.createdById === user.id));
+
   return (
     <div className="py-6 px-4 sm:px-6 lg:px-8">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between pb-6">
@@ -162,8 +174,8 @@ export default function Clients() {
           <CardDescription>
             View and manage your client list.
           </CardDescription>
-          <div className="mt-4">
-            <div className="relative rounded-md">
+          <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-3">
+            <div className="relative rounded-md flex-1">
               <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                 <Search className="h-4 w-4 text-gray-400" />
               </div>
@@ -175,6 +187,10 @@ export default function Clients() {
                 onChange={(e) => setSearchTerm(e.target.value)}
               />
             </div>
+            <label className="flex items-center space-x-2 text-sm text-gray-600">
+              <Checkbox checked={showInactive} onCheckedChange={(checked) => setShowInactive(checked === true)} />
+              <span>Show deactivated</span>
+            </label>
           </div>
         </CardHeader>
         <CardContent>
@@ -212,6 +228,9 @@ export default function Clients() {
                             <Users className="h-5 w-5" />
                           </div>
                           <div className="font-medium">{client.name}</div>
+                          {client.deactivatedAt && (
+                            <Badge variant="outline">{client.mergedIntoId ? "Merged" : "Deactivated"}</Badge>
+                          )}
                         </div>
                       </TableCell>
                       <TableCell>{client.contactPerson}</TableCell>
@@ -236,6 +255,16 @@ export default function Clients() {
                         </div>
                       </TableCell>                      
                       <TableCell className="text-right">
+                        {canEditClient(client) && (
+                          <Button variant="ghost" size="sm" onClick={() => setEditingClient(client)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {isReviewer && !client.deactivatedAt && (
+                          <Button variant="ghost" size="sm" onClick={() => setMergingClient(client)}>
+                            <Merge className="h-4 w-4" />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
@@ -257,6 +286,21 @@ export default function Clients() {
           </div>
         </CardFooter>
       </Card>
+
+      {editingClient && (
+        <EditClientForm
+          client={editingClient}
+          open={!!editingClient}
+          onOpenChange={(open) => !open && setEditingClient(null)}
+        />
+      )}
+      {mergingClient && (
+        <MergeClientForm
+          client={mergingClient}
+          open={!!mergingClient}
+          onOpenChange={(open) => !open && setMergingClient(null)}
+        />
+      )}
     </div>
   );
 }
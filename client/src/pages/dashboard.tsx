@@ -2,6 +2,7 @@ import React, { useState } from "react";
 import { StatsOverview } from "@/components/dashboard/stats-overview";
 import { BudgetChart } from "@/components/dashboard/budget-chart";
 import { SpendingTrendsChart } from "@/components/dashboard/spending-trends-chart";
+import ProjectBudgetChart from "@/components/dashboard/project-budget-chart";
 import { ProjectsTable } from "@/components/dashboard/projects-table";
 import { PendingExpenses } from "@/components/dashboard/pending-expenses";
 import { RecentActivity } from "@/components/dashboard/recent-activity";
@@ -81,6 +82,11 @@ export default function Dashboard() {
         <SpendingTrendsChart />
       </div>
 
+      {/* Budget Forecast */}
+      <div className="mt-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <ProjectBudgetChart />
+      </div>
+
       {/* Projects Table */}
       <ProjectsTable />
 
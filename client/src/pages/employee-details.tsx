@@ -326,9 +326,9 @@ export default function EmployeeDetails(){
                                 {getClientContact(project.clientId)}
                               </div>
                             </TableCell>
-                            <TableCell>{formatCurrency(project.budget)}</TableCell>
+                            <TableCell>{formatCurrency(project.budget, project.currency)}</TableCell>
                             <TableCell>
-                              <div>{formatCurrency(spent)}</div>
+                              <div>{formatCurrency(spent, project.currency)}</div>
                               <div className="text-sm text-muted-foreground">
                                 {percentage}% used
                               </div>
@@ -451,7 +451,7 @@ export default function EmployeeDetails(){
                           </TableCell>
                           <TableCell>{getProjectName(expense.projectId)}</TableCell>
                           <TableCell className="capitalize">{expense.category}</TableCell>
-                          <TableCell>{formatCurrency(expense.amount)}</TableCell>
+                          <TableCell>{formatCurrency(expense.amount, expense.currency)}</TableCell>
                           <TableCell>
                             <Badge className={getStatusColor(expense.status)}>
                               {formatStatus(expense.status)}
@@ -64,11 +64,11 @@ export default function Employees() {
         users.map(async (user) => {
           if (user.role === "admin") return;
   
-          const res = await authenticatedFetch("GET", `/api/expenses/user/${user.id}`);
+          // The listing's total converts every currency into the reporting currency
+          const res = await authenticatedFetch("GET", `/api/expenses?submittedById=${user.id}&pageSize=1`);
           if (res.ok) {
-            const expenses = await res.json();
-            const total = expenses.reduce((sum: number, expense: any) => sum + expense.amount, 0);
-            result[user.id] = total;
+            const expensePage = await res.json();
+            result[user.id] = expensePage.totalAmount;
           } else {
             result[user.id] = 0;
           }
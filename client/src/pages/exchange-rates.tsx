@@ -0,0 +1,239 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useExchangeRates } from "@/hooks/use-exchange-rates";
+import { formatDate } from "@/lib/utils";
+import { ExchangeRate, ExchangeRateForm, exchangeRateFormSchema, REPORTING_CURRENCY } from "@shared/schema";
+import { Trash2Icon, Upload } from "lucide-react";
+
+// Converted figures change with the rates, so everything that reports money is refreshed
+function invalidateConvertedData(queryClient: ReturnType<typeof useQueryClient>) {
+  queryClient.invalidateQueries({ queryKey: ['/api/exchange-rates'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/analytics/total-budget-vs-spent'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/analytics/category-budget-vs-spent'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/analytics/monthly-spending-trends'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/analytics/spending-by-category'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/analytics/spending-by-employee'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/projects/budget-forecasts'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
+}
+
+// Admins keep the rates that convert project and expense currencies into the reporting currency
+export default function ExchangeRates() {
+  const { toast } = useToast();
+  const { authenticatedFetch } = useAuth();
+  const queryClient = useQueryClient();
+  const { rates, isLoading } = useExchangeRates();
+  const [file, setFile] = useState<File | null>(null);
+
+  const form = useForm<ExchangeRateForm>({
+    resolver: zodResolver(exchangeRateFormSchema),
+    defaultValues: { currency: "", rate: undefined },
+  });
+
+  const onError = (fallback: string) => (error: unknown) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: ExchangeRateForm) => {
+      const res = await authenticatedFetch("POST", "/api/exchange-rates", {
+        body: JSON.stringify(data),
+        headers: { "Content-Type": "application/json" },
+      });
+      const responseData = await res.json();
+      if (!res.ok) {
+        throw new Error(responseData.message || "Could not save the exchange rate");
+      }
+      return responseData as ExchangeRate;
+    },
+    onSuccess: (rate) => {
+      invalidateConvertedData(queryClient);
+      toast({ title: "Exchange rate saved", description: `1 ${rate.currency} = ${rate.rate} ${REPORTING_CURRENCY}` });
+      form.reset({ currency: "", rate: undefined });
+    },
+    onError: onError("Could not save the exchange rate"),
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (csvFile: File) => {
+      const body = new FormData();
+      body.append("file", csvFile);
+      const res = await authenticatedFetch("POST", "/api/exchange-rates/import", { body });
+      const responseData = await res.json();
+      if (!res.ok) {
+        throw new Error(responseData.message || "Could not import exchange rates");
+      }
+      return responseData as ExchangeRate[];
+    },
+    onSuccess: (saved) => {
+      invalidateConvertedData(queryClient);
+      toast({ title: "Exchange rates imported", description: `${saved.length} rates have been saved` });
+      setFile(null);
+    },
+    onError: onError("Could not import exchange rates"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (currency: string) => {
+      const res = await authenticatedFetch("DELETE", `/api/exchange-rates/${currency}`);
+      if (!res.ok) {
+        const responseData = await res.json();
+        throw new Error(responseData.message || "Could not remove the exchange rate");
+      }
+    },
+    onSuccess: () => {
+      invalidateConvertedData(queryClient);
+      toast({ title: "Exchange rate removed" });
+    },
+    onError: onError("Could not remove the exchange rate"),
+  });
+
+  const isBusy = saveMutation.isPending || importMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <div className="py-6 px-4 sm:px-6 lg:px-8 space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold text-gray-900">Exchange Rates</h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Each rate is the value of one unit of the currency in {REPORTING_CURRENCY}, the reporting currency.
+          Projects and expenses can only use currencies listed here.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Add or Update a Rate</CardTitle>
+            <CardDescription>Saving a currency that is already listed replaces its rate.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="grid grid-cols-3 gap-3 items-end">
+                <FormField
+                  control={form.control}
+                  name="currency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Currency</FormLabel>
+                      <FormControl>
+                        <Input placeholder="EUR" maxLength={3} {...field} disabled={isBusy} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="rate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Rate</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="any"
+                          placeholder="1.08"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(parseFloat(e.target.value))}
+                          disabled={isBusy}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" disabled={isBusy}>
+                  {saveMutation.isPending ? "Saving..." : "Save Rate"}
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Upload Rates</CardTitle>
+            <CardDescription>
+              A CSV with Currency and Rate columns. Every row is checked first; one bad row saves nothing.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex items-center gap-3">
+            <Input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              disabled={isBusy}
+            />
+            <Button onClick={() => file && importMutation.mutate(file)} disabled={!file || isBusy}>
+              <Upload className="h-4 w-4 mr-2" />
+              {importMutation.isPending ? "Uploading..." : "Upload"}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Current Rates</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : rates.length === 0 ? (
+            <div className="py-8 text-center text-gray-500">
+              No exchange rates yet, so everything is recorded in {REPORTING_CURRENCY}.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Currency</TableHead>
+                  <TableHead>Rate</TableHead>
+                  <TableHead>Updated</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.map((rate) => (
+                  <TableRow key={rate.currency}>
+                    <TableCell className="font-medium">{rate.currency}</TableCell>
+                    <TableCell>1 {rate.currency} = {rate.rate} {REPORTING_CURRENCY}</TableCell>
+                    <TableCell>{formatDate(rate.updatedAt)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          if (window.confirm(`Remove the ${rate.currency} exchange rate?`)) {
+                            deleteMutation.mutate(rate.currency);
+                          }
+                        }}
+                        disabled={isBusy}
+                      >
+                        <Trash2Icon className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
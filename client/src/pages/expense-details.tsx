@@ -8,11 +8,16 @@ import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
-import { CheckIcon, XIcon, ReceiptIcon, FileTextIcon, InfoIcon, DollarSign, Tag, Calendar, MessageSquare, Edit, ArrowLeft } from 'lucide-react';
+import { CheckIcon, XIcon, InfoIcon, DollarSign, Tag, Calendar, MessageSquare, Edit, ArrowLeft, RotateCcw, Undo2 } from 'lucide-react';
 import { Textarea } from '@/components/ui/textarea';
-import { Expense, Project, User } from '../../../shared/schema';
+import { Expense, ExpenseApprovalStep, Project, User } from '../../../shared/schema';
 import { Separator } from '@radix-ui/react-select';
-import { formatDate, formatStatus, getStatusColor } from '@/lib/utils';
+import { formatCurrency, formatDate, formatStatus, getStatusColor } from '@/lib/utils';
+import { useExchangeRates } from '@/hooks/use-exchange-rates';
+import { ReceiptViewer } from '@/components/expenses/receipt-viewer';
+import { ExpenseHistory } from '@/components/expenses/expense-history';
+import { ExpenseEditForm } from '@/components/forms/edit-expense-form';
+import { ApprovalTimeline, currentApprovalStep } from '@/components/expenses/approval-timeline';
 
 export default function ExpenseDetails() {
   const { id } = useParams<{ id: string }>();
@@ -26,6 +31,7 @@ export default function ExpenseDetails() {
   
   const [activeTab, setActiveTab] = useState('details');
   const [reviewNotes, setReviewNotes] = useState('');
+  const [editMode, setEditMode] = useState<'edit' | 'resubmit' | null>(null);
 
   // Fetch expense details
   const { data: expense, isLoading } = useQuery<Expense>({
@@ -65,17 +71,21 @@ export default function ExpenseDetails() {
   });
 
 
-  // Check if user can approve/reject expenses
-  const canReviewExpense = user && (user.role === 'admin' || user.role === 'manager');
+  // Fetch the approval chain of the expense
+  const { data: approvalSteps = [] } = useQuery<ExpenseApprovalStep[]>({
+    queryKey: [`/api/expenses/${expenseId}/approvals`],
+    enabled: !!expense,
+    queryFn: () => authenticatedFetch('GET', `/api/expenses/${expenseId}/approvals`).then(res => res.json()),
+  });
 
-  // Format currency
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      maximumFractionDigits: 0,
-    }).format(amount);
-  };
+  // Expenses paid in another currency are also shown in the project's, at today's rate
+  const { convert } = useExchangeRates();
+  const convertedAmount = expense && project ? convert(expense.amount, expense.currency, project.currency) : null;
+
+  // Check if user can decide the approval step the expense is waiting on; never their own expense
+  const currentStep = expense?.status === 'pending' ? currentApprovalStep(approvalSteps) : undefined;
+  const canReviewExpense = !!user && !!currentStep && user.id !== expense?.submittedById
+    && (user.role === 'admin' || user.role === currentStep.approverRole);
 
   // Go back to expenses list
   const handleBack = () => {
@@ -88,28 +98,37 @@ export default function ExpenseDetails() {
      const response = await authenticatedFetch('PATCH', `/api/expenses/${expenseId}/status`, {
         body: JSON.stringify({
           status: 'approved',
-          notes: reviewNotes
+          feedback: reviewNotes
         }),
         headers: {
           "Content-Type": "application/json"
         }
       });
-      return response.json();
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to approve expense');
+      }
+      return data as Expense;
     },
-    onSuccess: () => {
+    onSuccess: (updatedExpense) => {
       queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
       queryClient.invalidateQueries({ queryKey: [`/api/expenses/${expenseId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/expenses/${expenseId}/approvals`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/expenses/${expenseId}/versions`] });
       setActiveTab("details");
+      setReviewNotes('');
       toast({
         title: 'Success',
-        description: 'Expense approved successfully',
+        description: updatedExpense.status === 'approved'
+          ? 'Expense approved successfully'
+          : 'Approval recorded; the expense has moved to the next approval level',
       });
     },
     onError: (error) => {
       console.error('Error approving expense:', error);
       toast({
         title: 'Error',
-        description: 'Failed to approve expense',
+        description: error.message,
         variant: 'destructive',
       });
     },
@@ -121,18 +140,25 @@ export default function ExpenseDetails() {
       const response = await authenticatedFetch('PATCH', `/api/expenses/${expenseId}/status`, {
         body: JSON.stringify({
           status: 'rejected',
-          notes: reviewNotes
+          feedback: reviewNotes
         }),
         headers: {
           "Content-Type": "application/json"
         }
       });
-      return response.json();
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to reject expense');
+      }
+      return data as Expense;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
       queryClient.invalidateQueries({ queryKey: [`/api/expenses/${expenseId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/expenses/${expenseId}/approvals`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/expenses/${expenseId}/versions`] });
       setActiveTab("details");
+      setReviewNotes('');
       toast({
         title: 'Success',
         description: 'Expense rejected successfully',
@@ -142,12 +168,48 @@ export default function ExpenseDetails() {
       console.error('Error rejecting expense:', error);
       toast({
         title: 'Error',
-        description: 'Failed to reject expense',
+        description: error.message,
         variant: 'destructive',
       });
     },
   });
 
+  // Withdraw expense mutation
+  const withdrawExpense = useMutation({
+    mutationFn: async () => {
+      const response = await authenticatedFetch('POST', `/api/expenses/${expenseId}/withdraw`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to withdraw expense');
+      }
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/expenses'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/expenses/${expenseId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/expenses/${expenseId}/versions`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/expenses/${expenseId}/approvals`] });
+      toast({
+        title: 'Success',
+        description: 'Expense withdrawn successfully',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Handle withdraw button click
+  const handleWithdraw = () => {
+    if (window.confirm('Are you sure you want to withdraw this expense? It will no longer be reviewed.')) {
+      withdrawExpense.mutate();
+    }
+  };
+
   // Handle approve button click
   const handleApprove = () => {
     if (window.confirm('Are you sure you want to approve this expense?')) {
@@ -164,7 +226,11 @@ export default function ExpenseDetails() {
 
   const isAdmin = user && (user.role === "admin" || user.role === "manager");
   const isOwner = user && expense && user.id === expense.submittedById;
-  const canEdit = (isOwner && expense?.status === "pending") || (isAdmin && expense?.status === "pending");
+  // Only the submitter may change an expense: edit or withdraw it while pending, resubmit it once rejected
+  const canEdit = isOwner && expense?.status === "pending";
+  const canResubmit = isOwner && expense?.status === "rejected";
+  // Receipts are fixed once the expense is decided, since the decision was made on them
+  const canModifyReceipts = (isAdmin || isOwner) && expense?.status === "pending";
 
   if (isLoading) {
     return (
@@ -219,14 +285,30 @@ export default function ExpenseDetails() {
           </div>
           <div className="flex space-x-3">
             {canEdit && (
-              <Button 
-                variant="outline"
-                onClick={() => navigate(`/expenses/${expenseId}/edit`)}
-              >
-                <Edit className="h-4 w-4 mr-2" />
-                Edit
+              <>
+                <Button 
+                  variant="outline"
+                  onClick={handleWithdraw}
+                  disabled={withdrawExpense.isPending}
+                >
+                  <Undo2 className="h-4 w-4 mr-2" />
+                  Withdraw
+                </Button>
+                <Button 
+                  variant="outline"
+                  onClick={() => setEditMode('edit')}
+                >
+                  <Edit className="h-4 w-4 mr-2" />
+                  Edit
+                </Button>
+              </>
+            )}
+            {canResubmit && (
+              <Button onClick={() => setEditMode('resubmit')}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Edit &amp; Resubmit
               </Button>
-            )}          
+            )}
           </div>
         </div>
       </div>
@@ -236,14 +318,13 @@ export default function ExpenseDetails() {
         <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:p-0">
           <Tabs value={activeTab} onValueChange={setActiveTab}>   
             
-          {canReviewExpense && expense.status === 'pending' && (
-            <TabsList className="mb-6 grid grid-cols-2 sm:grid-cols-2">
+            <TabsList className="mb-6">
               <TabsTrigger value="details">Details</TabsTrigger>
-              {expense?.status === 'pending' && (
+              <TabsTrigger value="history">History</TabsTrigger>
+              {canReviewExpense && (
                 <TabsTrigger value="review">Review</TabsTrigger>
               )}
             </TabsList>
-          )}
 
             <TabsContent value="details">
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -263,8 +344,13 @@ export default function ExpenseDetails() {
                         <h3 className="text-sm font-medium text-gray-500 mb-1">Amount</h3>
                         <div className="flex items-center text-xl font-semibold">
                           <DollarSign className="h-5 w-5 text-gray-500 mr-1" />
-                          {formatCurrency(expense.amount)}
+                          {formatCurrency(expense.amount, expense.currency)}
                         </div>
+                        {project && project.currency !== expense.currency && convertedAmount !== null && (
+                          <p className="text-sm text-gray-500 mt-1">
+                            About {formatCurrency(convertedAmount, project.currency)} in the project's currency
+                          </p>
+                        )}
                       </div>
                       
                       <div>
@@ -356,7 +442,7 @@ export default function ExpenseDetails() {
                         
                         <div>
                           <h3 className="text-sm font-medium text-gray-500 mb-1">Project Budget</h3>
-                          <div className="font-medium">{formatCurrency(project.budget)}</div>
+                          <div className="font-medium">{formatCurrency(project.budget, project.currency)}</div>
                         </div>
                         
                         <div>
@@ -387,29 +473,46 @@ export default function ExpenseDetails() {
                     <CardTitle className="text-lg font-medium">Receipt</CardTitle>
                   </CardHeader>
                   <CardContent>
-                    {expense.receiptUrl ? (
-                      <div className="flex flex-col items-center space-y-4">
-                        <div className="w-full h-48 bg-gray-100 rounded-md flex items-center justify-center">
-                          <ReceiptIcon className="h-16 w-16 text-gray-400" />
-                        </div>
-                        <Button variant="outline" className="w-full">
-                          <FileTextIcon className="h-4 w-4 mr-2" />
-                          View Receipt
-                        </Button>
-                      </div>
-                    ) : (
-                      <div className="flex flex-col items-center justify-center h-48 text-gray-500">
-                        <ReceiptIcon className="h-12 w-12 text-gray-300 mb-2" />
-                        <p>No receipt attached</p>
-                      </div>
-                    )}
+                    <ReceiptViewer
+                      expenseId={expense.id}
+                      legacyReceiptUrl={expense.receiptUrl}
+                      canModify={!!canModifyReceipts}
+                    />
                   </CardContent>
                 </Card>     
               </div>
+
+              <div className="lg:col-span-3">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg font-medium">Approval Timeline</CardTitle>
+                    <CardDescription>
+                      Each sign-off this expense needs, in order
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ApprovalTimeline steps={approvalSteps} isPending={expense.status === 'pending'} />
+                  </CardContent>
+                </Card>
+              </div>
             </div>
             </TabsContent>
 
-            {canReviewExpense && expense.status === 'pending' && (
+            <TabsContent value="history">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg font-medium">Change History</CardTitle>
+                  <CardDescription>
+                    Every submission, edit and review of this expense
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ExpenseHistory expenseId={expense.id} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            {canReviewExpense && currentStep && (
               <TabsContent value="review">
                 <Card>
                   <CardHeader>
@@ -429,7 +532,9 @@ export default function ExpenseDetails() {
                             <h3 className="text-sm font-medium text-amber-800">Review Information</h3>
                             <div className="mt-2 text-sm text-amber-700">
                               <ul className="list-disc pl-5 space-y-1">
-                                <li>Once approved, the expense amount will be deducted from the project budget</li>
+                                <li>You are deciding level {currentStep.level} of {approvalSteps.filter((step) => step.round === currentStep.round).length} ({formatStatus(currentStep.approverRole)} approval)</li>
+                                <li>A rejection ends the approval chain; an approval passes the expense to the next level, if there is one</li>
+                                <li>Once fully approved, the expense amount will be deducted from the project budget</li>
                                 <li>Approved expenses cannot be modified</li>
                                 <li>All decisions are recorded in the activity log</li>
                               </ul>
@@ -475,6 +580,15 @@ export default function ExpenseDetails() {
           </Tabs>
         </div>
       </div>
+
+      {editMode && (
+        <ExpenseEditForm
+          expense={expense}
+          mode={editMode}
+          open={!!editMode}
+          onOpenChange={(open) => !open && setEditMode(null)}
+        />
+      )}
         
     </div>
  
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
@@ -11,32 +11,43 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { DataTable } from "@/components/ui/data-table";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { formatCurrency, formatDate, getStatusColor, formatStatus } from "@/lib/utils";
 import { useAuth } from "@/hooks/useAuth";
-import { Plus, Search, FileText } from "lucide-react";
-import { Expense, Project } from '../../../shared/schema';
+import { useExpensePage } from "@/hooks/use-expense-page";
+import { useExchangeRates } from "@/hooks/use-exchange-rates";
+import { Plus, Search, FileText, Upload } from "lucide-react";
+import { Expense, ExpenseCategory, ExpenseQueryParams, ExpenseStatus, Project } from '../../../shared/schema';
 import { ExpenseCreateForm } from "@/components/forms/create-expense-form";
+import { ExportMenu } from "@/components/export/export-menu";
+import { ImportExpensesForm } from "@/components/forms/import-expenses-form";
 
+const PAGE_SIZE = 20;
+const SEARCH_DELAY_MS = 300;
 
 export default function Expenses() {
   const [, navigate] = useLocation();
   const { user } = useAuth();
   const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
   const [categoryFilter, setCategoryFilter] = useState("all");
+  const [projectFilter, setProjectFilter] = useState("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [currencyFilter, setCurrencyFilter] = useState("all");
+  const [minAmount, setMinAmount] = useState("");
+  const [maxAmount, setMaxAmount] = useState("");
+  const [sortBy, setSortBy] = useState<NonNullable<ExpenseQueryParams["sortBy"]>>("createdAt");
+  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
+  const [page, setPage] = useState(1);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   
   const { authenticatedFetch } = useAuth();
+  const { currencies } = useExchangeRates();
       
 
   // Get status from URL query if available
@@ -49,15 +60,36 @@ export default function Expenses() {
     }
   }, [statusParam]);
 
-  // Fetch expenses
-  const { data: expenses = [], isLoading } = useQuery<Expense[]>({
-    queryKey: ['/api/expenses'],
-    queryFn: async () => {
-      const res = await authenticatedFetch("GET", "/api/expenses");
-      return res.json();
-    },
-    staleTime: 60000
-  });
+  // Only search once the user stops typing
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  // Any change of filter or sort starts again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedSearch, statusFilter, categoryFilter, projectFilter, fromDate, toDate, currencyFilter, minAmount, maxAmount, sortBy, sortOrder]);
+
+  // The same filters drive the listing and the export
+  const filters: ExpenseQueryParams = {
+    search: debouncedSearch || undefined,
+    status: statusFilter === "all" ? undefined : statusFilter as ExpenseQueryParams["status"],
+    category: categoryFilter === "all" ? undefined : categoryFilter as ExpenseQueryParams["category"],
+    projectId: projectFilter === "all" ? undefined : parseInt(projectFilter),
+    from: fromDate ? new Date(`${fromDate}T00:00:00`) : undefined,
+    // The whole of the last day counts
+    to: toDate ? new Date(`${toDate}T23:59:59.999`) : undefined,
+    // Amounts are only compared within one currency, so they count once a currency is chosen
+    currency: currencyFilter === "all" ? undefined : currencyFilter,
+    minAmount: currencyFilter !== "all" && minAmount ? parseFloat(minAmount) : undefined,
+    maxAmount: currencyFilter !== "all" && maxAmount ? parseFloat(maxAmount) : undefined,
+    sortBy,
+    sortOrder,
+  };
+
+  // Fetch one page of expenses; filtering, sorting and paging happen on the server
+  const { data: expensePage, isLoading, error } = useExpensePage({ ...filters, page, pageSize: PAGE_SIZE });
 
   // Fetch projects for expense project names
   const { data: projects = [] } = useQuery<Project[]>({
@@ -69,14 +101,6 @@ export default function Expenses() {
     staleTime: 300000
   });
 
-  // Filter expenses based on search, status, and category
-  const filteredExpenses = expenses.filter(expense => {
-    const matchesSearch = expense.description.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === "all" || expense.status === statusFilter;
-    const matchesCategory = categoryFilter === "all" || expense.category === categoryFilter;
-    return matchesSearch && matchesStatus && matchesCategory;
-  });
-
   // Get project name by ID
   const getProjectName = (projectId: number) => {
     const project = projects.find(p => p.id === projectId);
@@ -86,14 +110,69 @@ export default function Expenses() {
   // Check if user can create an expense
   const canCreateExpense = user
 
-  // Get unique categories from expenses for filter
-  const categories = [...new Set(expenses.map(e => e.category))];
+  const hasFilters = !!debouncedSearch || statusFilter !== "all" || categoryFilter !== "all" || projectFilter !== "all" ||
+    !!fromDate || !!toDate || currencyFilter !== "all";
+
+  const columns = [
+    {
+      header: "Description",
+      accessorKey: "description",
+      sortKey: "description",
+      cell: (expense: Expense) => (
+        <div className="flex items-center space-x-3">
+          <div className="h-9 w-9 flex-shrink-0 bg-blue-100 text-blue-600 rounded-md flex items-center justify-center">
+            <FileText className="h-5 w-5" />
+          </div>
+          <div className="truncate max-w-xs">
+            {expense.description}
+          </div>
+        </div>
+      ),
+    },
+    {
+      header: "Project",
+      accessorKey: "projectId",
+      hideOnMobile: true,
+      cell: (expense: Expense) => getProjectName(expense.projectId),
+    },
+    {
+      header: "Category",
+      accessorKey: "category",
+      sortKey: "category",
+      hideOnMobile: true,
+      cell: (expense: Expense) => <span className="capitalize">{expense.category}</span>,
+    },
+    {
+      header: "Amount",
+      accessorKey: "amount",
+      sortKey: "amount",
+      cell: (expense: Expense) => formatCurrency(expense.amount, expense.currency),
+    },
+    {
+      header: "Status",
+      accessorKey: "status",
+      sortKey: "status",
+      cell: (expense: Expense) => (
+        <Badge className={getStatusColor(expense.status)}>
+          {formatStatus(expense.status)}
+        </Badge>
+      ),
+    },
+    {
+      header: "Date",
+      accessorKey: "createdAt",
+      sortKey: "createdAt",
+      hideOnMobile: true,
+      cell: (expense: Expense) => formatDate(expense.createdAt),
+    },
+  ];
 
   return (
     <div className="py-6 px-4 sm:px-6 lg:px-8">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between pb-6">
         <h1 className="text-2xl font-semibold text-gray-900">Expenses</h1>
-        <div className="mt-3 sm:mt-0">
+        <div className="mt-3 sm:mt-0 flex flex-col sm:flex-row gap-3">
+          <ExportMenu url="/api/expenses/export" params={filters} />
           {canCreateExpense && (
             <>
               <Button 
@@ -108,6 +187,20 @@ export default function Expenses() {
                 open={isCreateDialogOpen}
                 onOpenChange={setIsCreateDialogOpen} 
               />            
+
+              <Button
+                variant="outline"
+                onClick={() => setIsImportDialogOpen(true)}
+                className="w-full sm:w-auto"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Import CSV
+              </Button>
+
+              <ImportExpensesForm
+                open={isImportDialogOpen}
+                onOpenChange={setIsImportDialogOpen}
+              />
             </>
           )}
         </div>
@@ -141,9 +234,9 @@ export default function Expenses() {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Statuses</SelectItem>
-                <SelectItem value="pending">Pending</SelectItem>
-                <SelectItem value="approved">Approved</SelectItem>
-                <SelectItem value="rejected">Rejected</SelectItem>
+                {Object.values(ExpenseStatus).map(status => (
+                  <SelectItem key={status} value={status}>{formatStatus(status)}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
             <Select
@@ -155,81 +248,80 @@ export default function Expenses() {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Categories</SelectItem>
-                {categories.map(category => (
+                {Object.values(ExpenseCategory).map(category => (
                   <SelectItem key={category} value={category} className="capitalize">
                     {category.charAt(0).toUpperCase() + category.slice(1)}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
+            <Select
+              value={projectFilter}
+              onValueChange={setProjectFilter}
+            >
+              <SelectTrigger className="w-full sm:w-[180px]">
+                <SelectValue placeholder="Filter by project" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Projects</SelectItem>
+                {projects.map(project => (
+                  <SelectItem key={project.id} value={project.id.toString()}>{project.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-col sm:flex-row mt-3 gap-3">
+            <Input type="date" aria-label="From date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            <Input type="date" aria-label="To date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            <Select value={currencyFilter} onValueChange={setCurrencyFilter}>
+              <SelectTrigger className="w-full sm:w-[180px]">
+                <SelectValue placeholder="Filter by currency" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Currencies</SelectItem>
+                {currencies.map((code) => (
+                  <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number" min="0" step="0.01" value={minAmount} onChange={(e) => setMinAmount(e.target.value)}
+              disabled={currencyFilter === "all"} placeholder={currencyFilter === "all" ? "Choose a currency for amounts" : `Min amount (${currencyFilter})`}
+            />
+            <Input
+              type="number" min="0" step="0.01" value={maxAmount} onChange={(e) => setMaxAmount(e.target.value)}
+              disabled={currencyFilter === "all"} placeholder={currencyFilter === "all" ? "Choose a currency for amounts" : `Max amount (${currencyFilter})`}
+            />
           </div>
         </CardHeader>
         <CardContent>
-          {isLoading ? (
-            <div className="flex justify-center py-12">
-              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
-            </div>
-          ) : filteredExpenses.length === 0 ? (
-            <div className="text-center py-12 text-gray-500">
-              {searchTerm || statusFilter !== "all" || categoryFilter !== "all" 
-                ? "No expenses match your filters" 
-                : "No expenses available"}
+          {error ? (
+            <div className="text-center py-12 text-red-500">
+              {error.message}
             </div>
           ) : (
-            <div className="overflow-x-auto">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>Description</TableHead>
-                    <TableHead>Project</TableHead>
-                    <TableHead>Category</TableHead>
-                    <TableHead>Amount</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead>Date</TableHead>
-                    <TableHead></TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {filteredExpenses.map((expense) => (
-                    <TableRow key={expense.id}>
-                      <TableCell>
-                        <div className="flex items-center space-x-3">
-                          <div className="h-9 w-9 flex-shrink-0 bg-blue-100 text-blue-600 rounded-md flex items-center justify-center">
-                            <FileText className="h-5 w-5" />
-                          </div>
-                          <div className="truncate max-w-xs">
-                            {expense.description}
-                          </div>
-                        </div>
-                      </TableCell>
-                      <TableCell>{getProjectName(expense.projectId)}</TableCell>
-                      <TableCell className="capitalize">{expense.category}</TableCell>
-                      <TableCell>{formatCurrency(expense.amount)}</TableCell>
-                      <TableCell>
-                        <Badge className={getStatusColor(expense.status)}>
-                          {formatStatus(expense.status)}
-                        </Badge>
-                      </TableCell>
-                      <TableCell>{formatDate(expense.createdAt)}</TableCell>
-                      <TableCell>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => navigate(`/expenses/${expense.id}`)}
-                        >
-                          View
-                        </Button>
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </div>
+            <DataTable
+              columns={columns}
+              data={expensePage.items}
+              isLoading={isLoading}
+              keyField="id"
+              onRowClick={(expense) => navigate(`/expenses/${expense.id}`)}
+              emptyMessage={hasFilters ? "No expenses match your filters" : "No expenses available"}
+              pagination={{ page, pageSize: PAGE_SIZE, total: expensePage.total, onPageChange: setPage }}
+              sort={{
+                sortBy,
+                sortOrder,
+                onSortChange: (newSortBy, newSortOrder) => {
+                  setSortBy(newSortBy as typeof sortBy);
+                  setSortOrder(newSortOrder);
+                },
+              }}
+            />
           )}
         </CardContent>
         <CardFooter className="flex justify-between">
           <div className="text-sm text-muted-foreground">
-            Showing {filteredExpenses.length} of {expenses.length} expenses
+            {expensePage.total} expenses totalling {formatCurrency(expensePage.totalAmount, expensePage.totalCurrency)}
           </div>
         </CardFooter>
       </Card>
@@ -0,0 +1,24 @@
+import React from "react";
+import { ForgotPasswordForm } from "@/components/forms/forgot-password-form";
+import { useAuth } from "@/hooks/useAuth";
+import { useLocation } from "wouter";
+
+export default function ForgotPassword() {
+  const { isAuthenticated } = useAuth();
+  const [, navigate] = useLocation();
+
+  // Redirect if already logged in
+  React.useEffect(() => {
+    if (isAuthenticated) {
+      navigate("/");
+    }
+  }, [isAuthenticated, navigate]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <ForgotPasswordForm />
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useParams, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
@@ -30,13 +30,14 @@ import {
 import { formatCurrency, formatDate, getStatusColor, formatStatus, calculatePercentage } from "@/lib/utils";
 import { queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
-import { Project, Expense, ActivityLog, Client, ProjectBudgetComparison, ActivityLogDetails } from "@shared/schema";
+import { Project, Expense, ActivityLog, Client, ProjectBudgetComparison, ActivityLogDetails, ProjectBudgetRevision } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { 
   Edit, Plus, Calendar, DollarSign, Users, 
   Clock, BarChart, FileText,
   Search,
-  ArrowLeft
+  ArrowLeft,
+  Archive, ArchiveRestore, Trash2
 } from "lucide-react";
 import {
   Select,
@@ -45,8 +46,18 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { ProjectStatus } from "@shared/schema";
+import { ExpenseCategory, ExpenseQueryParams, ProjectStatus } from "@shared/schema";
+import { subtractMoney } from "@shared/money";
 import { Input } from "@/components/ui/input";
+import { EditProjectForm } from "@/components/forms/edit-project-form";
+import { BudgetRevisionForm } from "@/components/forms/budget-revision-form";
+import { UserName } from "@/components/expenses/expense-history";
+import { ProjectTeam } from "@/components/projects/project-team";
+import { ProjectBudgetForecast } from "@/components/projects/budget-forecast";
+import { ProjectCategoryBudgets } from "@/components/projects/category-budgets";
+import { useExpensePage } from "@/hooks/use-expense-page";
+
+const EXPENSES_PAGE_SIZE = 20;
 
 export default function ProjectDetails() {
   const { id } = useParams<{ id: string }>();
@@ -59,9 +70,22 @@ export default function ProjectDetails() {
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
   const [categoryFilter, setCategoryFilter] = useState("all");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [expensesPage, setExpensesPage] = useState(1);
+  const [openEditForm, setOpenEditForm] = useState(false);
+  const [openBudgetForm, setOpenBudgetForm] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  useEffect(() => {
+    setExpensesPage(1);
+  }, [debouncedSearch, statusFilter, categoryFilter]);
 
   // Fetch project details
-  const { data: project, isLoading: isProjectLoading } = useQuery({
+  const { data: project, isLoading: isProjectLoading } = useQuery<Project>({
     queryKey: [`/api/projects/${projectId}`],
     queryFn: async () => {
       const res = await authenticatedFetch("GET", `/api/projects/${projectId}`);
@@ -70,15 +94,22 @@ export default function ProjectDetails() {
     staleTime: 60000
   });
 
-  // Fetch project expenses
-  const { data: expenses = [], isLoading: isExpensesLoading } = useQuery<Expense[]>({
-    queryKey: [`/api/expenses/project/${projectId}`],
-    queryFn: async () => {
-     const res = await authenticatedFetch("GET", `/api/expenses/project/${projectId}`);
-      return res.json();
-    },
-    staleTime: 60000
-  });
+  // Expense counts and totals per status come from the server, one summary query per status
+  const { data: allExpenses, isLoading: isExpensesLoading } = useExpensePage({ projectId, pageSize: 5 });
+  const { data: pendingExpenses } = useExpensePage({ projectId, status: "pending", pageSize: 1 });
+  const { data: approvedExpenses } = useExpensePage({ projectId, status: "approved", pageSize: 1 });
+  const { data: rejectedExpenses } = useExpensePage({ projectId, status: "rejected", pageSize: 1 });
+
+  // The expenses tab is filtered and paged on the server
+  const { data: expensePage, isLoading: isExpensePageLoading } = useExpensePage({
+    projectId,
+    search: debouncedSearch || undefined,
+    status: statusFilter === "all" ? undefined : statusFilter as ExpenseQueryParams["status"],
+    category: categoryFilter === "all" ? undefined : categoryFilter as ExpenseQueryParams["category"],
+    page: expensesPage,
+    pageSize: EXPENSES_PAGE_SIZE,
+  }, { enabled: activeTab === "expenses" });
+  const expensePageCount = Math.ceil(expensePage.total / EXPENSES_PAGE_SIZE);
 
   // Fetch client data
   const { data: client, isLoading: isClientLoading } = useQuery<Client>({
@@ -104,6 +135,19 @@ export default function ProjectDetails() {
     staleTime: 60000
   });
 
+  // Fetch the project's budget history
+  const { data: budgetRevisions = [] } = useQuery<ProjectBudgetRevision[]>({
+    queryKey: [`/api/projects/${projectId}/budget-revisions`],
+    queryFn: async () => {
+      const res = await authenticatedFetch("GET", `/api/projects/${projectId}/budget-revisions`);
+      if (!res.ok) {
+        throw new Error("Failed to fetch budget revisions");
+      }
+      return res.json();
+    },
+    staleTime: 60000
+  });
+
   // Get budget vs spent data for this project
   const { data: budgetVsSpent = [] } = useQuery<ProjectBudgetComparison[]>({
     queryKey: ['/api/analytics/total-budget-vs-spent'],
@@ -146,6 +190,77 @@ export default function ProjectDetails() {
     }
   });
 
+  // Archive or restore the project
+  const archiveMutation = useMutation({
+    mutationFn: async (archive: boolean) => {
+      const res = await authenticatedFetch('POST', `/api/projects/${projectId}/${archive ? "archive" : "unarchive"}`);
+      const responseData = await res.json();
+      if (!res.ok) {
+        throw new Error(responseData.message || "Could not update project");
+      }
+      return responseData as Project;
+    },
+    onSuccess: (updatedProject) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+      toast({
+        title: updatedProject.archivedAt ? "Project archived" : "Project restored",
+        description: updatedProject.archivedAt
+          ? "The project no longer accepts new expenses"
+          : "The project is active again",
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not update project",
+      });
+    }
+  });
+
+  // Delete the project; the server refuses while it has expenses
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await authenticatedFetch('DELETE', `/api/projects/${projectId}`);
+      const responseData = await res.json();
+      if (!res.ok) {
+        throw new Error(responseData.message || "Could not delete project");
+      }
+      return responseData as Project;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+      toast({
+        title: "Project deleted",
+        description: "The project has been deleted",
+      });
+      navigate("/projects");
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not delete project",
+      });
+    }
+  });
+
+  const handleArchive = (archive: boolean) => {
+    const message = archive
+      ? 'Archive this project? It will be hidden from project lists and stop accepting expenses.'
+      : 'Restore this project?';
+    if (window.confirm(message)) {
+      archiveMutation.mutate(archive);
+    }
+  };
+
+  const handleDelete = () => {
+    if (window.confirm('Are you sure you want to delete this project? This cannot be undone.')) {
+      deleteMutation.mutate();
+    }
+  };
+
   // Handle status change
   const handleStatusChange = (status: string) => {
     updateStatusMutation.mutate(status);
@@ -162,15 +277,13 @@ export default function ProjectDetails() {
     (user.role === "salesperson" && project?.createdById === user.id));
 
   // Check if user can add expenses
-  const canAddExpenses = user && (user.role !== "admin");
+  const canAddExpenses = user && (user.role !== "admin") && !project?.archivedAt;
 
   // Check if user can change status
   const canChangeStatus = user && (user.role === "admin" || user.role === "manager");
 
-  // Group expenses by status
-  const pendingExpenses = expenses.filter((e: Expense) => e.status === "pending");
-  const approvedExpenses = expenses.filter((e: Expense) => e.status === "approved");
-  const rejectedExpenses = expenses.filter((e: Expense) => e.status === "rejected");
+  // Only admins delete, and only projects without expenses; others get archived
+  const canDeleteProject = user && user.role === "admin" && !isExpensesLoading && allExpenses.total === 0;
 
   // Loading state
   if (isProjectLoading) {
@@ -212,7 +325,7 @@ export default function ProjectDetails() {
     }  
     if ("amount" in details && "description" in details) {
       // ExpenseLogDetails
-      return `Expense of ${formatCurrency(details.amount)} for ${details.description}`;
+      return `Expense of ${formatCurrency(details.amount, details.currency)} for ${details.description}`;
     }  
     if ("name" in details && "status" in details) {
       // ProjectLogDetails
@@ -221,15 +334,6 @@ export default function ProjectDetails() {
     return "Unknown details format";
   };
 
-  const categories = Array.from(new Set(expenses.map((e) => e.category))); // unique categories
-
-  const filteredExpenses = expenses.filter((expense) => {
-    const matchesSearch = expense.description.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === "all" || expense.status === statusFilter;
-    const matchesCategory = categoryFilter === "all" || expense.category === categoryFilter;
-    return matchesSearch && matchesStatus && matchesCategory;
-  });
-
   return (
     <div className="py-6 px-4 sm:px-6 lg:px-8">
       <Button 
@@ -247,6 +351,7 @@ export default function ProjectDetails() {
             <Badge className={getStatusColor(project.status)}>
               {formatStatus(project.status)}
             </Badge>
+            {project.archivedAt && <Badge variant="outline">Archived</Badge>}
           </div>
           <p className="text-gray-500 mt-1">
             Started on {formatDate(project.startDate)}
@@ -270,12 +375,40 @@ export default function ProjectDetails() {
             </Select>
           )}
           {canEditProject && (
-            <Button 
+            <>
+              <Button 
+                variant="outline"
+                onClick={() => setOpenEditForm(true)}
+              >
+                <Edit className="h-4 w-4 mr-2" />
+                Edit Project
+              </Button>
+              <EditProjectForm project={project} open={openEditForm} onOpenChange={setOpenEditForm} />
+              <BudgetRevisionForm project={project} open={openBudgetForm} onOpenChange={setOpenBudgetForm} />
+            </>
+          )}
+          {canChangeStatus && (
+            <Button
               variant="outline"
-              onClick={() => navigate(`/projects/${projectId}/edit`)}
+              onClick={() => handleArchive(!project.archivedAt)}
+              disabled={archiveMutation.isPending}
+            >
+              {project.archivedAt ? (
+                <ArchiveRestore className="h-4 w-4 mr-2" />
+              ) : (
+                <Archive className="h-4 w-4 mr-2" />
+              )}
+              {project.archivedAt ? "Unarchive" : "Archive"}
+            </Button>
+          )}
+          {canDeleteProject && (
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={deleteMutation.isPending}
             >
-              <Edit className="h-4 w-4 mr-2" />
-              Edit Project
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
             </Button>
           )}
           {canAddExpenses && (
@@ -295,7 +428,7 @@ export default function ProjectDetails() {
             <CardTitle className="text-sm font-medium text-gray-500">Total Budget</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{formatCurrency(budget)}</div>
+            <div className="text-2xl font-bold">{formatCurrency(budget, project.currency)}</div>
           </CardContent>
         </Card>
         <Card>
@@ -303,7 +436,7 @@ export default function ProjectDetails() {
             <CardTitle className="text-sm font-medium text-gray-500">Spent So Far</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{formatCurrency(spent)}</div>
+            <div className="text-2xl font-bold">{formatCurrency(spent, project.currency)}</div>
             <div className="text-sm text-gray-500 mt-1">{spentPercentage}% of budget</div>
           </CardContent>
         </Card>
@@ -312,16 +445,17 @@ export default function ProjectDetails() {
             <CardTitle className="text-sm font-medium text-gray-500">Remaining Budget</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{formatCurrency(budget - spent)}</div>
+            <div className="text-2xl font-bold">{formatCurrency(subtractMoney(budget, spent), project.currency)}</div>
             <Progress value={spentPercentage} className="mt-2" />
           </CardContent>
         </Card>
       </div>
 
       <Tabs defaultValue="overview" value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid grid-cols-3 sm:grid-cols-3">
+        <TabsList className="grid grid-cols-4 sm:grid-cols-4">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="expenses">Expenses</TabsTrigger>
+          <TabsTrigger value="team">Team</TabsTrigger>
           <TabsTrigger value="activity">Activity</TabsTrigger>
         </TabsList>
 
@@ -352,7 +486,7 @@ export default function ProjectDetails() {
                   <div className="text-sm font-medium text-gray-500">Budget</div>
                   <div className="mt-1 flex items-center">
                     <DollarSign className="h-4 w-4 text-gray-400 mr-1" />
-                    <span>{formatCurrency(budget)}</span>
+                    <span>{formatCurrency(budget, project.currency)}</span>
                   </div>
                 </div>
                 <div>
@@ -360,7 +494,7 @@ export default function ProjectDetails() {
                   <div className="mt-1">
                     <Progress value={spentPercentage} className="mt-2" />
                     <div className="text-sm text-gray-500 mt-1">
-                      {formatCurrency(spent)} spent ({spentPercentage}% of total budget)
+                      {formatCurrency(spent, project.currency)} spent ({spentPercentage}% of total budget)
                     </div>
                   </div>
                 </div>
@@ -427,6 +561,56 @@ export default function ProjectDetails() {
             </Card>
           </div>
 
+          <ProjectBudgetForecast projectId={project.id} />
+
+          <ProjectCategoryBudgets project={project} canEdit={!!canEditProject && !project.archivedAt} />
+
+          <Card className="mt-6">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <div>
+                <CardTitle>Budget History</CardTitle>
+                <CardDescription>Every change to the project's budget</CardDescription>
+              </div>
+              {canEditProject && !project.archivedAt && (
+                <Button variant="outline" size="sm" onClick={() => setOpenBudgetForm(true)}>
+                  <DollarSign className="h-4 w-4 mr-2" />
+                  Revise Budget
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent>
+              {budgetRevisions.length === 0 ? (
+                <div className="text-center py-4 text-gray-500">No budget revisions recorded.</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Effective</TableHead>
+                      <TableHead>Budget</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead>Revised By</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[...budgetRevisions].reverse().map((revision) => (
+                      <TableRow key={revision.id}>
+                        <TableCell>{formatDate(revision.effectiveDate)}</TableCell>
+                        <TableCell>
+                          {revision.previousBudget !== null && (
+                            <span className="line-through text-gray-400 mr-2">{formatCurrency(revision.previousBudget, project.currency)}</span>
+                          )}
+                          {formatCurrency(revision.newBudget, project.currency)}
+                        </TableCell>
+                        <TableCell>{revision.reason}</TableCell>
+                        <TableCell><UserName userId={revision.revisedById} /></TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
           <Card className="mt-6">
             <CardHeader>
               <CardTitle>Expense Summary</CardTitle>
@@ -438,7 +622,7 @@ export default function ProjectDetails() {
                   <div className="h-4 bg-gray-200 rounded w-full"></div>
                   <div className="h-4 bg-gray-200 rounded w-full"></div>
                 </div>
-              ) : expenses.length === 0 ? (
+              ) : allExpenses.total === 0 ? (
                 <div className="text-center py-8 text-gray-500">
                   No expenses have been submitted for this project yet.
                 </div>
@@ -447,23 +631,23 @@ export default function ProjectDetails() {
                   <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
                     <div className="bg-yellow-50 p-4 rounded-lg">
                       <div className="text-yellow-600 font-medium">Pending</div>
-                      <div className="text-2xl font-bold mt-1">{pendingExpenses.length}</div>
+                      <div className="text-2xl font-bold mt-1">{pendingExpenses.total}</div>
                       <div className="text-sm text-gray-500 mt-1">
-                        {formatCurrency(pendingExpenses.reduce((sum: number, e: Expense) => sum + e.amount, 0))}
+                        {formatCurrency(pendingExpenses.totalAmount, pendingExpenses.totalCurrency)}
                       </div>
                     </div>
                     <div className="bg-green-50 p-4 rounded-lg">
                       <div className="text-green-600 font-medium">Approved</div>
-                      <div className="text-2xl font-bold mt-1">{approvedExpenses.length}</div>
+                      <div className="text-2xl font-bold mt-1">{approvedExpenses.total}</div>
                       <div className="text-sm text-gray-500 mt-1">
-                       {formatCurrency(approvedExpenses.reduce((sum: number, e: Expense) => sum + e.amount, 0))}
+                       {formatCurrency(approvedExpenses.totalAmount, approvedExpenses.totalCurrency)}
                       </div>
                     </div>
                     <div className="bg-red-50 p-4 rounded-lg">
                       <div className="text-red-600 font-medium">Rejected</div>
-                      <div className="text-2xl font-bold mt-1">{rejectedExpenses.length}</div>
+                      <div className="text-2xl font-bold mt-1">{rejectedExpenses.total}</div>
                       <div className="text-sm text-gray-500 mt-1">
-                        {formatCurrency(rejectedExpenses.reduce((sum: number, e: Expense) => sum + e.amount, 0))}
+                        {formatCurrency(rejectedExpenses.totalAmount, rejectedExpenses.totalCurrency)}
                       </div>
                     </div>
                   </div>
@@ -482,7 +666,7 @@ export default function ProjectDetails() {
                           </TableRow>
                         </TableHeader>
                         <TableBody>
-                          {expenses.slice(0, 5).map((expense) => (
+                          {allExpenses.items.map((expense) => (
                             <TableRow 
                               key={expense.id}
                               className="cursor-pointer hover:bg-gray-50"
@@ -490,7 +674,7 @@ export default function ProjectDetails() {
                             >
                               <TableCell>{expense.description}</TableCell>
                               <TableCell className="capitalize">{expense.category}</TableCell>
-                              <TableCell>{formatCurrency(expense.amount)}</TableCell>
+                              <TableCell>{formatCurrency(expense.amount, expense.currency)}</TableCell>
                               <TableCell>
                                 <Badge className={getStatusColor(expense.status)}>
                                   {formatStatus(expense.status)}
@@ -503,7 +687,7 @@ export default function ProjectDetails() {
                       </Table>
                     </div>
                     
-                    {expenses.length > 5 && (
+                    {allExpenses.total > allExpenses.items.length && (
                       <div className="text-center mt-4">
                         <Button 
                           variant="outline"
@@ -562,8 +746,7 @@ export default function ProjectDetails() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Categories</SelectItem>
-                  {/* Assuming you have a 'categories' array */}
-                  {categories.map(category => (
+                  {Object.values(ExpenseCategory).map(category => (
                     <SelectItem key={category} value={category} className="capitalize">
                       {category.charAt(0).toUpperCase() + category.slice(1)}
                     </SelectItem>
@@ -580,14 +763,16 @@ export default function ProjectDetails() {
               )}
             </CardHeader>
             <CardContent>
-              {isExpensesLoading ? (
+              {isExpensePageLoading ? (
                 <div className="animate-pulse space-y-3">
                   <div className="h-4 bg-gray-200 rounded w-full"></div>
                   <div className="h-4 bg-gray-200 rounded w-full"></div>
                 </div>
-              ) : filteredExpenses.length === 0 ? (
+              ) : expensePage.items.length === 0 ? (
                 <div className="text-center py-8 text-gray-500">
-                  No expenses have been submitted for this project yet.
+                  {debouncedSearch || statusFilter !== "all" || categoryFilter !== "all"
+                    ? "No expenses match your filters."
+                    : "No expenses have been submitted for this project yet."}
                 </div>
               ) : (
                 <div className="overflow-x-auto">
@@ -604,15 +789,14 @@ export default function ProjectDetails() {
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {filteredExpenses.map((expense: Expense) => (
+                      {expensePage.items.map((expense: Expense) => (
                         <TableRow key={expense.id}>
                           <TableCell>{expense.description}</TableCell>
                           <TableCell className="capitalize">{expense.category}</TableCell>
                           <TableCell>
-                            {/* In a real app, fetch the user name */}
-                            User #{expense.submittedById}
+                            <UserName userId={expense.submittedById} />
                           </TableCell>
-                          <TableCell>{formatCurrency(expense.amount)}</TableCell>
+                          <TableCell>{formatCurrency(expense.amount, expense.currency)}</TableCell>
                           <TableCell>
                             <Badge className={getStatusColor(expense.status)}>
                               {formatStatus(expense.status)}
@@ -632,12 +816,50 @@ export default function ProjectDetails() {
                       ))}
                     </TableBody>
                   </Table>
+                  <div className="flex items-center justify-between mt-4">
+                    <p className="text-sm text-gray-500">
+                      {expensePage.total} expenses totalling {formatCurrency(expensePage.totalAmount, expensePage.totalCurrency)}
+                    </p>
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setExpensesPage(expensesPage - 1)}
+                        disabled={expensesPage <= 1}
+                      >
+                        Previous
+                      </Button>
+                      <span className="text-sm text-gray-500">
+                        Page {expensesPage} of {Math.max(expensePageCount, 1)}
+                      </span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setExpensesPage(expensesPage + 1)}
+                        disabled={expensesPage >= expensePageCount}
+                      >
+                        Next
+                      </Button>
+                    </div>
+                  </div>
                 </div>
               )}
             </CardContent>
           </Card>
         </TabsContent>
 
+        <TabsContent value="team" className="mt-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Project Team</CardTitle>
+              <CardDescription>People assigned to this project and their project roles</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ProjectTeam projectId={projectId} canManage={!!canChangeStatus && !project.archivedAt} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="activity" className="mt-6">
           <Card>
             <CardHeader>
@@ -27,6 +27,7 @@ import { useAuth } from "@/hooks/useAuth";
 import { Plus, Search, PanelTop } from "lucide-react";
 import { Client, Project, ProjectBudgetComparison } from "@shared/schema";
 import { ProjectCreateForm } from "@/components/forms/create-project-form";
+import { ExportMenu } from "@/components/export/export-menu";
 
 
 export default function Projects() {
@@ -37,11 +38,14 @@ export default function Projects() {
   const { authenticatedFetch } = useAuth();
     const [openProjectForm, setOpenProjectForm] = useState(false);
 
+  // Archived projects are only fetched when the archived filter is chosen
+  const showArchived = statusFilter === "archived";
+
   // Fetch projects
   const { data: projects = [], isLoading } = useQuery<Project[]>({
-    queryKey: ['/api/projects'],
+    queryKey: ['/api/projects', { includeArchived: showArchived }],
     queryFn: async () => {
-      const res = await authenticatedFetch("GET", "/api/projects");
+      const res = await authenticatedFetch("GET", showArchived ? "/api/projects?includeArchived=true" : "/api/projects");
       return res.json();
     },
     staleTime: 60000
@@ -70,7 +74,9 @@ export default function Projects() {
   // Filter projects based on search term and status
   const filteredProjects = projects.filter(project => {
     const matchesSearch = project.name.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesStatus = statusFilter === "all" || project.status === statusFilter;
+    const matchesStatus = showArchived
+      ? !!project.archivedAt
+      : statusFilter === "all" || project.status === statusFilter;
     return matchesSearch && matchesStatus;
   });
 
@@ -99,7 +105,8 @@ export default function Projects() {
     <div className="py-6 px-4 sm:px-6 lg:px-8">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between pb-6">
         <h1 className="text-2xl font-semibold text-gray-900">Projects</h1>
-        <div className="mt-3 sm:mt-0">
+        <div className="mt-3 sm:mt-0 flex flex-col sm:flex-row gap-3">
+          <ExportMenu url="/api/projects/export" params={{ search: searchTerm, status: statusFilter }} />
           {canCreateProject && (
             <>
               <Button 
@@ -151,6 +158,7 @@ export default function Projects() {
                 <SelectItem value="in_progress">In Progress</SelectItem>
                 <SelectItem value="on_hold">On Hold</SelectItem>
                 <SelectItem value="completed">Completed</SelectItem>
+                <SelectItem value="archived">Archived</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -209,9 +217,9 @@ export default function Projects() {
                             {getClientContact(project.clientId)}
                           </div>
                         </TableCell>
-                        <TableCell>{formatCurrency(project.budget)}</TableCell>
+                        <TableCell>{formatCurrency(project.budget, project.currency)}</TableCell>
                         <TableCell>
-                          <div>{formatCurrency(spent)}</div>
+                          <div>{formatCurrency(spent, project.currency)}</div>
                           <div className="text-sm text-muted-foreground">
                             {percentage}% used
                           </div>
@@ -0,0 +1,25 @@
+import React from "react";
+import { ResetPasswordForm } from "@/components/forms/reset-password-form";
+import { useAuth } from "@/hooks/useAuth";
+import { useLocation, useParams } from "wouter";
+
+export default function ResetPassword() {
+  const { token } = useParams<{ token: string }>();
+  const { isAuthenticated } = useAuth();
+  const [, navigate] = useLocation();
+
+  // Redirect if already logged in; signed-in users change their password in Settings
+  React.useEffect(() => {
+    if (isAuthenticated) {
+      navigate("/");
+    }
+  }, [isAuthenticated, navigate]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <ResetPasswordForm token={token} />
+      </div>
+    </div>
+  );
+}
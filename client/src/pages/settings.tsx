@@ -1,7 +1,7 @@
 import React from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
 import {
   Card,
   CardContent,
@@ -30,59 +30,88 @@ import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
-import { UserCircle, Bell, Shield, Settings as SettingsIcon } from "lucide-react";
-
-const profileFormSchema = z.object({
-  name: z.string().min(2, { message: "Name must be at least 2 characters." }),
-  email: z.string().email({ message: "Please enter a valid email address." }),
-});
-
-const notificationsFormSchema = z.object({
-  emailNotifications: z.boolean().default(true),
-  newExpenseSubmission: z.boolean().default(true),
-  expenseStatusChange: z.boolean().default(true),
-  projectStatusChange: z.boolean().default(true),
-  dailySummary: z.boolean().default(false),
-});
-
-const securityFormSchema = z.object({
-  currentPassword: z.string().min(1, { message: "Current password is required." }),
-  newPassword: z.string().min(6, { message: "Password must be at least 6 characters." }),
-  confirmPassword: z.string().min(6),
-}).refine(data => data.newPassword === data.confirmPassword, {
-  message: "Passwords don't match",
-  path: ["confirmPassword"],
-});
+import { Badge } from "@/components/ui/badge";
+import { UserCircle, Bell, Shield, Monitor, Settings as SettingsIcon } from "lucide-react";
+import { TwoFactorSettingsCard } from "@/components/security/two-factor-settings";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NotificationPreferences,
+  PasswordChange,
+  ProfileUpdate,
+  SessionSummary,
+  User,
+  notificationPreferencesSchema,
+  passwordChangeSchema,
+  profileUpdateSchema,
+} from "@shared/schema";
+
+// A readable name for a session's device; the full user agent is shown on hover
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+  const browser = ["Edg", "Firefox", "Chrome", "Safari"].find((name) => userAgent.includes(`${name}/`));
+  const system = ["Windows", "Android", "iPhone", "iPad", "Mac OS", "Linux"].find((name) => userAgent.includes(name));
+  if (!browser && !system) return userAgent.slice(0, 40);
+  return [browser === "Edg" ? "Edge" : browser, system === "Mac OS" ? "macOS" : system].filter(Boolean).join(" on ");
+}
 
 export default function Settings() {
-  const { user } = useAuth();
+  const { user, authenticatedFetch } = useAuth();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [activeTab, setActiveTab] = React.useState("profile");
 
+  const { data: profile } = useQuery<User>({
+    queryKey: ['/api/profile'],
+    queryFn: async () => {
+      const res = await authenticatedFetch("GET", "/api/profile");
+      if (!res.ok) {
+        throw new Error("Failed to fetch profile");
+      }
+      return res.json();
+    },
+  });
+
+  const { data: preferences } = useQuery<NotificationPreferences>({
+    queryKey: ['/api/notifications/preferences'],
+    queryFn: async () => {
+      const res = await authenticatedFetch("GET", "/api/notifications/preferences");
+      if (!res.ok) {
+        throw new Error("Failed to fetch notification preferences");
+      }
+      return res.json();
+    },
+  });
+
+  const { data: sessions = [] } = useQuery<SessionSummary[]>({
+    queryKey: ['/api/sessions'],
+    queryFn: async () => {
+      const res = await authenticatedFetch("GET", "/api/sessions");
+      if (!res.ok) {
+        throw new Error("Failed to fetch sessions");
+      }
+      return res.json();
+    },
+    enabled: activeTab === "security",
+  });
+
   // Profile form
-  const profileForm = useForm<z.infer<typeof profileFormSchema>>({
-    resolver: zodResolver(profileFormSchema),
+  const profileForm = useForm<ProfileUpdate>({
+    resolver: zodResolver(profileUpdateSchema),
     defaultValues: {
       name: user?.name || "",
-      email: "", // In a real app, this would be populated from the user data
+      email: "",
     },
   });
 
   // Notifications form
-  const notificationsForm = useForm<z.infer<typeof notificationsFormSchema>>({
-    resolver: zodResolver(notificationsFormSchema),
-    defaultValues: {
-      emailNotifications: true,
-      newExpenseSubmission: true,
-      expenseStatusChange: true,
-      projectStatusChange: true,
-      dailySummary: false,
-    },
+  const notificationsForm = useForm<NotificationPreferences>({
+    resolver: zodResolver(notificationPreferencesSchema),
+    defaultValues: DEFAULT_NOTIFICATION_PREFERENCES,
   });
 
   // Security form
-  const securityForm = useForm<z.infer<typeof securityFormSchema>>({
-    resolver: zodResolver(securityFormSchema),
+  const securityForm = useForm<PasswordChange>({
+    resolver: zodResolver(passwordChangeSchema),
     defaultValues: {
       currentPassword: "",
       newPassword: "",
@@ -90,31 +119,107 @@ export default function Settings() {
     },
   });
 
-  // Form submission handlers
-  function onProfileSubmit(values: z.infer<typeof profileFormSchema>) {
+  // The forms start from what is saved once it has loaded
+  React.useEffect(() => {
+    if (profile) profileForm.reset({ name: profile.name, email: profile.email ?? "" });
+  }, [profile]);
+
+  React.useEffect(() => {
+    if (preferences) notificationsForm.reset(preferences);
+  }, [preferences]);
+
+  const onError = (fallback: string) => (error: unknown) => {
     toast({
-      title: "Profile updated",
-      description: "Your profile information has been updated.",
+      variant: "destructive",
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
     });
-  }
+  };
 
-  function onNotificationsSubmit(values: z.infer<typeof notificationsFormSchema>) {
-    toast({
-      title: "Notification preferences saved",
-      description: "Your notification settings have been updated.",
+  // Sends the body as JSON and returns the parsed response, throwing the server's message on failure
+  const send = async <T,>(method: string, url: string, body: unknown, fallback: string): Promise<T> => {
+    const res = await authenticatedFetch(method, url, {
+      body: JSON.stringify(body),
+      headers: { "Content-Type": "application/json" },
     });
+    const responseData = await res.json();
+    if (!res.ok) {
+      throw new Error(responseData.message || fallback);
+    }
+    return responseData;
+  };
+
+  const profileMutation = useMutation({
+    mutationFn: (values: ProfileUpdate) => send<User>("PATCH", "/api/profile", values, "Could not update your profile"),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['/api/profile'], updated);
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      toast({
+        title: "Profile updated",
+        description: "Your profile information has been updated.",
+      });
+    },
+    onError: onError("Could not update your profile"),
+  });
+
+  const notificationsMutation = useMutation({
+    mutationFn: (values: NotificationPreferences) =>
+      send<NotificationPreferences>("PUT", "/api/notifications/preferences", values, "Could not save your notification settings"),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(['/api/notifications/preferences'], saved);
+      toast({
+        title: "Notification preferences saved",
+        description: "Your notification settings have been updated.",
+      });
+    },
+    onError: onError("Could not save your notification settings"),
+  });
+
+  const securityMutation = useMutation({
+    mutationFn: (values: PasswordChange) => send("POST", "/api/profile/password", values, "Could not change your password"),
+    onSuccess: () => {
+      toast({
+        title: "Password changed",
+        description: "Your password has been successfully updated.",
+      });
+      securityForm.reset({
+        currentPassword: "",
+        newPassword: "",
+        confirmPassword: "",
+      });
+    },
+    onError: onError("Could not change your password"),
+  });
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      const res = await authenticatedFetch("DELETE", `/api/sessions/${sessionId}`);
+      if (!res.ok) {
+        const responseData = await res.json();
+        throw new Error(responseData.message || "Could not sign out that device");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions'] });
+      toast({
+        title: "Session ended",
+        description: "That device has been signed out.",
+      });
+    },
+    onError: onError("Could not sign out that device"),
+  });
+
+  // Form submission handlers
+  function onProfileSubmit(values: ProfileUpdate) {
+    profileMutation.mutate(values);
   }
 
-  function onSecuritySubmit(values: z.infer<typeof securityFormSchema>) {
-    toast({
-      title: "Password changed",
-      description: "Your password has been successfully updated.",
-    });
-    securityForm.reset({
-      currentPassword: "",
-      newPassword: "",
-      confirmPassword: "",
-    });
+  function onNotificationsSubmit(values: NotificationPreferences) {
+    notificationsMutation.mutate(values);
+  }
+
+  function onSecuritySubmit(values: PasswordChange) {
+    securityMutation.mutate(values);
   }
 
   return (
@@ -194,7 +299,7 @@ export default function Settings() {
                       )}
                     />
 
-                    <Button type="submit">Update Profile</Button>
+                    <Button type="submit" disabled={profileMutation.isPending}>Update Profile</Button>
                   </form>
                 </Form>
               </CardContent>
@@ -220,7 +325,7 @@ export default function Settings() {
                           <div className="space-y-0.5">
                             <FormLabel className="text-base">Email Notifications</FormLabel>
                             <FormDescription>
-                              Receive notifications via email.
+                              Also send the notifications you choose below to the email address on your profile.
                             </FormDescription>
                           </div>
                           <FormControl>
@@ -233,7 +338,7 @@ export default function Settings() {
                       )}
                     />
 
-                    <div className="pl-4 space-y-4">
+                    <div className="space-y-4">
                       <FormField
                         control={notificationsForm.control}
                         name="newExpenseSubmission"
@@ -249,7 +354,6 @@ export default function Settings() {
                               <Switch
                                 checked={field.value}
                                 onCheckedChange={field.onChange}
-                                disabled={!notificationsForm.watch("emailNotifications")}
                               />
                             </FormControl>
                           </FormItem>
@@ -271,7 +375,6 @@ export default function Settings() {
                               <Switch
                                 checked={field.value}
                                 onCheckedChange={field.onChange}
-                                disabled={!notificationsForm.watch("emailNotifications")}
                               />
                             </FormControl>
                           </FormItem>
@@ -293,7 +396,6 @@ export default function Settings() {
                               <Switch
                                 checked={field.value}
                                 onCheckedChange={field.onChange}
-                                disabled={!notificationsForm.watch("emailNotifications")}
                               />
                             </FormControl>
                           </FormItem>
@@ -308,14 +410,13 @@ export default function Settings() {
                             <div className="space-y-0.5">
                               <FormLabel>Daily Summary</FormLabel>
                               <FormDescription>
-                                Receive a daily summary of all activity.
+                                Receive a morning email listing the past day's notifications you have not read.
                               </FormDescription>
                             </div>
                             <FormControl>
                               <Switch
                                 checked={field.value}
                                 onCheckedChange={field.onChange}
-                                disabled={!notificationsForm.watch("emailNotifications")}
                               />
                             </FormControl>
                           </FormItem>
@@ -323,7 +424,7 @@ export default function Settings() {
                       />
                     </div>
 
-                    <Button type="submit">Save Notification Settings</Button>
+                    <Button type="submit" disabled={notificationsMutation.isPending}>Save Notification Settings</Button>
                   </form>
                 </Form>
               </CardContent>
@@ -386,11 +487,54 @@ export default function Settings() {
                       )}
                     />
 
-                    <Button type="submit">Update Password</Button>
+                    <Button type="submit" disabled={securityMutation.isPending}>Update Password</Button>
                   </form>
                 </Form>
               </CardContent>
             </Card>
+
+            <TwoFactorSettingsCard />
+
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle>Sessions</CardTitle>
+                <CardDescription>
+                  The devices signed in to your account. Sign out any you do not recognise; a signed-out device loses access within a few minutes.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {sessions.length === 0 ? (
+                  <p className="text-sm text-gray-500">No active sessions.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-200">
+                    {sessions.map((session) => (
+                      <li key={session.id} className="flex items-center justify-between py-3">
+                        <div className="flex items-center space-x-3">
+                          <Monitor className="h-5 w-5 text-gray-400" />
+                          <div>
+                            <div className="flex items-center gap-2 text-sm font-medium" title={session.userAgent ?? undefined}>
+                              {describeDevice(session.userAgent)}
+                              {session.current && <Badge variant="secondary">This device</Badge>}
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              {session.ipAddress ?? "Unknown address"} · Signed in {new Date(session.createdAt).toLocaleString()} · Last active {new Date(session.lastUsedAt).toLocaleString()}
+                            </div>
+                          </div>
+                        </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => revokeSessionMutation.mutate(session.id)}
+                          disabled={revokeSessionMutation.isPending}
+                        >
+                          Sign out
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
           </TabsContent>
         </Tabs>
       </div>
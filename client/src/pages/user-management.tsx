@@ -47,13 +47,13 @@ import {
 } from "@/components/ui/form";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
-import { userRegisterSchema, UserRole } from "@shared/schema";
+import { Invitation, InvitationForm, invitationFormSchema, invitationStatus, InvitationStatus, Project, UserRole } from "@shared/schema";
 import { queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { getInitials } from "@/lib/utils";
-import { Plus, Search, MoreVertical, UserPlus, PencilIcon, Trash2Icon, CheckCircle, XCircle, AlertCircle } from "lucide-react";
+import { Plus, Search, MoreVertical, UserPlus, PencilIcon, Trash2Icon, CheckCircle, XCircle, AlertCircle, Copy, LogOut, KeyRound, Mail } from "lucide-react";
+import { TwoFactorPolicyCard } from "@/components/security/two-factor-policy";
 
 interface User {
   id: number;
@@ -62,13 +62,20 @@ interface User {
   role: string;
 }
 
-const formSchema = userRegisterSchema;
+// The list leaves out token hashes
+type InvitationRow = Omit<Invitation, "tokenHash">;
+
+const NO_PROJECT = "none";
 
 export default function UserManagement() {
   const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState("");
   const [roleFilter, setRoleFilter] = useState("all");
-  const [isCreateUserOpen, setIsCreateUserOpen] = useState(false);
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+  // The link for the invitation just created; the server cannot show it again
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+  // A reset link for someone without an email address on file, for the admin to pass on
+  const [resetLink, setResetLink] = useState<{ name: string; url: string } | null>(null);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [isConfirmDeleteOpen, setIsConfirmDeleteOpen] = useState(false);
   const { authenticatedFetch } = useAuth();
@@ -83,6 +90,24 @@ export default function UserManagement() {
     staleTime: 60000
   });
 
+  const { data: invitations = [] } = useQuery<InvitationRow[]>({
+    queryKey: ['/api/invitations'],
+    queryFn: async () => {
+      const res = await authenticatedFetch("GET", "/api/invitations");
+      return res.json();
+    },
+  });
+  const pendingInvitations = invitations.filter((invitation) => invitationStatus(invitation) === InvitationStatus.PENDING);
+
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ['/api/projects'],
+    queryFn: async () => {
+      const res = await authenticatedFetch("GET", "/api/projects");
+      return res.json();
+    },
+    enabled: isInviteOpen,
+  });
+
   // Filter users based on search term and role
   const filteredUsers = users.filter(user => {
     const matchesSearch = 
@@ -92,47 +117,172 @@ export default function UserManagement() {
     return matchesSearch && matchesRole;
   });
 
-  // Create user form
-  const form = useForm<z.infer<typeof formSchema>>({
-    resolver: zodResolver(formSchema),
+  // Invite user form
+  const form = useForm<InvitationForm>({
+    resolver: zodResolver(invitationFormSchema),
     defaultValues: {
-      username: "",
-      password: "",
-      confirmPassword: "",
-      name: "",
-      role: "employee",
+      email: "",
+      role: UserRole.EMPLOYEE,
+      projectId: undefined,
     },
   });
+  const invitedRole = form.watch("role");
 
-  // Create user mutation
-  const createUserMutation = useMutation({
-    mutationFn: async (data: z.infer<typeof formSchema>) => {
-      const res = await authenticatedFetch("POST", "/api/register", {
+  // Invite user mutation
+  const inviteMutation = useMutation({
+    mutationFn: async (data: InvitationForm) => {
+      const res = await authenticatedFetch("POST", "/api/invitations", {
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify(data),
       });
-      return res.json();
+      const responseData = await res.json();
+      if (!res.ok) {
+        throw new Error(responseData.message || "Could not create the invitation");
+      }
+      return responseData as { invitation: InvitationRow; token: string };
+    },
+    onSuccess: ({ token }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/invitations'] });
+      setInviteLink(`${window.location.origin}/invite/${token}`);
+      form.reset();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not create the invitation",
+      });
+    }
+  });
+
+  const revokeInvitationMutation = useMutation({
+    mutationFn: async (invitationId: number) => {
+      const res = await authenticatedFetch("DELETE", `/api/invitations/${invitationId}`, {});
+      if (!res.ok) {
+        const responseData = await res.json();
+        throw new Error(responseData.message || "Could not revoke the invitation");
+      }
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/invitations'] });
       toast({
-        title: "User created",
-        description: "New user has been created successfully",
+        title: "Invitation revoked",
+        description: "The invite link no longer works",
       });
-      setIsCreateUserOpen(false);
-      form.reset();
     },
     onError: (error) => {
       toast({
         variant: "destructive",
         title: "Error",
-        description: error instanceof Error ? error.message : "Could not create user",
+        description: error instanceof Error ? error.message : "Could not revoke the invitation",
       });
     }
   });
 
+  const signOutEverywhereMutation = useMutation({
+    mutationFn: async (user: User) => {
+      const res = await authenticatedFetch("DELETE", `/api/users/${user.id}/sessions`, {});
+      const responseData = await res.json();
+      if (!res.ok) {
+        throw new Error(responseData.message || "Could not sign the user out");
+      }
+      return { user, revoked: responseData.revoked as number };
+    },
+    onSuccess: ({ user, revoked }) => {
+      toast({
+        title: "Signed out everywhere",
+        description: `${user.name} was signed out of ${revoked} ${revoked === 1 ? "session" : "sessions"}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not sign the user out",
+      });
+    }
+  });
+
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (user: User) => {
+      const res = await authenticatedFetch("DELETE", `/api/users/${user.id}/two-factor`, {});
+      const responseData = await res.json();
+      if (!res.ok) {
+        throw new Error(responseData.message || "Could not reset two-factor authentication");
+      }
+      return user;
+    },
+    onSuccess: (user) => {
+      toast({
+        title: "Two-factor reset",
+        description: `${user.name} can sign in with a password and set up a new authenticator`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not reset two-factor authentication",
+      });
+    }
+  });
+
+  const sendPasswordResetMutation = useMutation({
+    mutationFn: async (user: User) => {
+      const res = await authenticatedFetch("POST", `/api/users/${user.id}/password-reset`, {});
+      const responseData = await res.json();
+      if (!res.ok) {
+        throw new Error(responseData.message || "Could not send a password reset link");
+      }
+      return { user, result: responseData as { emailed: true } | { emailed: false; token: string } };
+    },
+    onSuccess: ({ user, result }) => {
+      if (result.emailed) {
+        toast({
+          title: "Reset link sent",
+          description: `${user.name} will get an email with a link to choose a new password`,
+        });
+      } else {
+        setResetLink({ name: user.name, url: `${window.location.origin}/reset-password/${result.token}` });
+      }
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not send a password reset link",
+      });
+    }
+  });
+
+  const copyResetLink = async () => {
+    if (!resetLink) return;
+    await navigator.clipboard.writeText(resetLink.url);
+    toast({
+      title: "Link copied",
+      description: `Send it to ${resetLink.name}`,
+    });
+  };
+
+  const handleInviteOpenChange = (open: boolean) => {
+    setIsInviteOpen(open);
+    if (!open) {
+      setInviteLink(null);
+      form.reset();
+    }
+  };
+
+  const copyInviteLink = async () => {
+    if (!inviteLink) return;
+    await navigator.clipboard.writeText(inviteLink);
+    toast({
+      title: "Link copied",
+      description: "Send it to the person you invited",
+    });
+  };
+
   // Delete user mutation
   const deleteUserMutation = useMutation({
     mutationFn: async (userId: number) => {
@@ -158,8 +308,8 @@ export default function UserManagement() {
     }
   });
 
-  const onSubmit = (values: z.infer<typeof formSchema>) => {
-    createUserMutation.mutate(values);
+  const onSubmit = (values: InvitationForm) => {
+    inviteMutation.mutate(values);
   };
 
   const handleDeleteUser = () => {
@@ -189,72 +339,52 @@ export default function UserManagement() {
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between pb-6">
         <h1 className="text-2xl font-semibold text-gray-900">User Management</h1>
         <div className="mt-3 sm:mt-0">
-          <Dialog open={isCreateUserOpen} onOpenChange={setIsCreateUserOpen}>
+          <Dialog open={isInviteOpen} onOpenChange={handleInviteOpenChange}>
             <DialogTrigger asChild>
               <Button className="w-full sm:w-auto">
                 <UserPlus className="h-4 w-4 mr-2" />
-                Add User
+                Invite User
               </Button>
             </DialogTrigger>
             <DialogContent className="sm:max-w-md">
               <DialogHeader>
-                <DialogTitle>Create New User</DialogTitle>
+                <DialogTitle>Invite a User</DialogTitle>
                 <DialogDescription>
-                  Add a new user to the system. They will receive login credentials.
+                  The invite link lets one person choose a username and password. It works once and expires after a few days.
                 </DialogDescription>
               </DialogHeader>
+              {inviteLink ? (
+                <div className="space-y-4">
+                  <p className="text-sm text-gray-600">
+                    Copy this link now and send it to them. It will not be shown again.
+                  </p>
+                  <div className="flex gap-2">
+                    <Input readOnly value={inviteLink} onFocus={(e) => e.target.select()} />
+                    <Button type="button" variant="outline" size="icon" onClick={copyInviteLink}>
+                      <Copy className="h-4 w-4" />
+                      <span className="sr-only">Copy link</span>
+                    </Button>
+                  </div>
+                  <DialogFooter className="mt-6">
+                    <Button type="button" variant="outline" onClick={() => setInviteLink(null)}>
+                      Invite Someone Else
+                    </Button>
+                    <Button type="button" onClick={() => handleInviteOpenChange(false)}>
+                      Done
+                    </Button>
+                  </DialogFooter>
+                </div>
+              ) : (
               <Form {...form}>
                 <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
                   <FormField
                     control={form.control}
-                    name="name"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Full Name</FormLabel>
-                        <FormControl>
-                          <Input placeholder="Enter full name" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="username"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Username</FormLabel>
-                        <FormControl>
-                          <Input placeholder="Enter a username" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="password"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Password</FormLabel>
-                        <FormControl>
-                          <Input type="password" placeholder="Enter a password" {...field} />
-                        </FormControl>
-                        <FormDescription>
-                          Must be at least 6 characters.
-                        </FormDescription>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="confirmPassword"
+                    name="email"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Confirm Password</FormLabel>
+                        <FormLabel>Email</FormLabel>
                         <FormControl>
-                          <Input type="password" placeholder="Confirm password" {...field} />
+                          <Input type="email" placeholder="name@example.com" {...field} />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
@@ -266,9 +396,12 @@ export default function UserManagement() {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>Role</FormLabel>
-                        <Select 
-                          onValueChange={field.onChange} 
-                          defaultValue={field.value}
+                        <Select
+                          onValueChange={(value) => {
+                            field.onChange(value);
+                            if (value === UserRole.ADMIN) form.setValue("projectId", undefined);
+                          }}
+                          value={field.value}
                         >
                           <FormControl>
                             <SelectTrigger>
@@ -289,24 +422,56 @@ export default function UserManagement() {
                       </FormItem>
                     )}
                   />
+                  {invitedRole !== UserRole.ADMIN && (
+                    <FormField
+                      control={form.control}
+                      name="projectId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Project</FormLabel>
+                          <Select
+                            onValueChange={(value) => field.onChange(value === NO_PROJECT ? undefined : Number(value))}
+                            value={field.value === undefined ? NO_PROJECT : String(field.value)}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="No project" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value={NO_PROJECT}>No project</SelectItem>
+                              {projects.filter((project) => !project.archivedAt).map((project) => (
+                                <SelectItem key={project.id} value={String(project.id)}>{project.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormDescription>
+                            Optional. They join this project's team when they accept.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
                   <DialogFooter className="mt-6">
                     <Button
                       type="button"
                       variant="outline"
-                      onClick={() => setIsCreateUserOpen(false)}
-                      disabled={createUserMutation.isPending}
+                      onClick={() => handleInviteOpenChange(false)}
+                      disabled={inviteMutation.isPending}
                     >
                       Cancel
                     </Button>
                     <Button 
                       type="submit"
-                      disabled={createUserMutation.isPending}
+                      disabled={inviteMutation.isPending}
                     >
-                      {createUserMutation.isPending ? 'Creating...' : 'Create User'}
+                      {inviteMutation.isPending ? 'Creating...' : 'Create Invite Link'}
                     </Button>
                   </DialogFooter>
                 </form>
               </Form>
+              )}
             </DialogContent>
           </Dialog>
 
@@ -446,6 +611,18 @@ export default function UserManagement() {
                               <PencilIcon className="h-4 w-4 mr-2" />
                               Edit
                             </DropdownMenuItem>                            
+                            <DropdownMenuItem onClick={() => signOutEverywhereMutation.mutate(user)}>
+                              <LogOut className="h-4 w-4 mr-2" />
+                              Sign Out Everywhere
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => sendPasswordResetMutation.mutate(user)}>
+                              <Mail className="h-4 w-4 mr-2" />
+                              Send Password Reset
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => resetTwoFactorMutation.mutate(user)}>
+                              <KeyRound className="h-4 w-4 mr-2" />
+                              Reset Two-Factor
+                            </DropdownMenuItem>
                             <DropdownMenuSeparator />
                             <DropdownMenuItem
                               className="text-red-600"
@@ -473,6 +650,81 @@ export default function UserManagement() {
           </div>
         </CardFooter>
       </Card>
+
+      {pendingInvitations.length > 0 && (
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Pending Invitations</CardTitle>
+            <CardDescription>
+              Invite links that have not been used yet. Revoke one to stop it working.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pendingInvitations.map((invitation) => (
+                    <TableRow key={invitation.id}>
+                      <TableCell>{invitation.email}</TableCell>
+                      <TableCell>
+                        <Badge className={getRoleBadgeColor(invitation.role)}>
+                          {invitation.role.charAt(0).toUpperCase() + invitation.role.slice(1)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{new Date(invitation.expiresAt).toLocaleDateString()}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600"
+                          onClick={() => revokeInvitationMutation.mutate(invitation.id)}
+                          disabled={revokeInvitationMutation.isPending}
+                        >
+                          <XCircle className="h-4 w-4 mr-2" />
+                          Revoke
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <TwoFactorPolicyCard />
+
+      <Dialog open={resetLink !== null} onOpenChange={(open) => !open && setResetLink(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Password Reset Link</DialogTitle>
+            <DialogDescription>
+              {resetLink?.name} has no email address on file. Copy this link now and send it to them; it works once and will not be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input readOnly value={resetLink?.url ?? ""} onFocus={(e) => e.target.select()} />
+            <Button type="button" variant="outline" size="icon" onClick={copyResetLink}>
+              <Copy className="h-4 w-4" />
+              <span className="sr-only">Copy link</span>
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button type="button" onClick={() => setResetLink(null)}>
+              Done
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,40 @@
+-- Moves every money column from double precision to an exact decimal, rounding existing values to
+-- the cent on the way, so amounts that drifted (0.30000000000000004) are stored as 0.30 again.
+-- Exchange rates are ratios rather than money and stay as they are.
+--
+-- This is a hand-written script, not a drizzle-kit migration, so there is no journal. To upgrade an
+-- existing database:
+--   1. psql "$DATABASE_URL" -f migrations/0000_exact_money.sql
+--   2. npm run db:push
+-- Push then finds nothing left to change for the columns below and creates any table the database
+-- does not have yet, already with numeric columns. The tables that newer releases added are altered
+-- only IF EXISTS, so the script also runs against a database from before they were introduced.
+
+BEGIN;
+
+ALTER TABLE projects
+  ALTER COLUMN budget SET DATA TYPE numeric(14, 2) USING round(budget::numeric, 2);
+
+ALTER TABLE IF EXISTS project_budget_alerts
+  ALTER COLUMN budget SET DATA TYPE numeric(14, 2) USING round(budget::numeric, 2),
+  ALTER COLUMN committed SET DATA TYPE numeric(14, 2) USING round(committed::numeric, 2);
+
+ALTER TABLE IF EXISTS project_category_budgets
+  ALTER COLUMN amount SET DATA TYPE numeric(14, 2) USING round(amount::numeric, 2);
+
+ALTER TABLE IF EXISTS project_budget_revisions
+  ALTER COLUMN previous_budget SET DATA TYPE numeric(14, 2) USING round(previous_budget::numeric, 2),
+  ALTER COLUMN new_budget SET DATA TYPE numeric(14, 2) USING round(new_budget::numeric, 2);
+
+ALTER TABLE expenses
+  ALTER COLUMN amount SET DATA TYPE numeric(14, 2) USING round(amount::numeric, 2);
+
+ALTER TABLE IF EXISTS expense_versions
+  ALTER COLUMN amount SET DATA TYPE numeric(14, 2) USING round(amount::numeric, 2);
+
+ALTER TABLE IF EXISTS approval_rules
+  ALTER COLUMN min_amount DROP DEFAULT,
+  ALTER COLUMN min_amount SET DATA TYPE numeric(14, 2) USING round(min_amount::numeric, 2),
+  ALTER COLUMN min_amount SET DEFAULT 0;
+
+COMMIT;
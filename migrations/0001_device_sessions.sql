@@ -0,0 +1,9 @@
+-- Sessions become one row per signed-in device, keyed by a random id and holding only a hash of
+-- the current refresh token. The old one-row-per-user table cannot be carried over, so run this
+-- once before `npm run db:push`, which then creates the new table. Everyone signs in again.
+
+BEGIN;
+
+DROP TABLE IF EXISTS session_token;
+
+COMMIT;
@@ -0,0 +1,1288 @@
+import { describe, it, before, after, mock, type Mock } from "node:test";
+import assert from "node:assert/strict";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import type { Router } from "express";
+import { createHash } from "crypto";
+import { once } from "events";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES, ExpenseCategory, ExpenseStatus, ProjectStatus, UserRole, UserRoleType,
+  type EmployeeSpending, type ExpenseApprovalRate, type MonthlySpending, type ProjectBudgetComparison, type SpendingCategory,
+} from "@shared/schema";
+import { addMoney, subtractMoney } from "@shared/money";
+import { timeStep, totpCode } from "./totp";
+
+// The suite boots the real app on the in-memory store with its own token secrets, so it needs no
+// database, .env or network. Both are read when the app's modules load, so those are imported in before().
+process.env.STORAGE = "memory";
+process.env.NODE_ENV = "test";
+process.env.MY_JWT_SECRET ??= "api-test-access-secret";
+process.env.MY_REFRESH_TOKEN_SECRET ??= "api-test-refresh-secret";
+// Mail is kept as files in a directory of its own, where the tests read the links back
+process.env.MAIL_TRANSPORT = "file";
+process.env.MAIL_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "api-test-mail-"));
+
+// The app logs every request and each token check; the test report is read instead
+for (const method of ["log", "warn", "error"] as const) mock.method(console, method, () => {});
+
+type ApiResponse = { status: number; body: any; headers: Headers };
+type RequestOptions = { token?: string; cookie?: string; body?: unknown; userAgent?: string };
+type Session = { id: number; name: string; role: UserRoleType; token: string; cookie: string };
+
+const ANY: UserRoleType[] = [];
+const REVIEWERS: UserRoleType[] = [UserRole.ADMIN, UserRole.MANAGER];
+const SELLERS: UserRoleType[] = [UserRole.ADMIN, UserRole.MANAGER, UserRole.SALESPERSON];
+const ADMIN: UserRoleType[] = [UserRole.ADMIN];
+
+// Every authenticated route with the roles authMiddleware lets through; [] means any signed-in user
+const protectedRoutes: [method: string, path: string, roles: UserRoleType[]][] = [
+  ["GET", "/users/:id", ANY],
+  ["GET", "/users", ANY],
+  ["POST", "/users", ADMIN],
+  ["DELETE", "/users/:id", ADMIN],
+  ["GET", "/users/:id/sessions", ADMIN],
+  ["DELETE", "/users/:id/sessions", ADMIN],
+  ["GET", "/sessions", ANY],
+  ["DELETE", "/sessions/:id", ANY],
+  ["DELETE", "/users/:id/two-factor", ADMIN],
+  ["POST", "/users/:id/password-reset", ADMIN],
+  ["GET", "/two-factor", ANY],
+  ["POST", "/two-factor/setup", ANY],
+  ["POST", "/two-factor/enable", ANY],
+  ["POST", "/two-factor/recovery-codes", ANY],
+  ["POST", "/two-factor/disable", ANY],
+  ["GET", "/two-factor/policy", ADMIN],
+  ["PUT", "/two-factor/policy", ADMIN],
+  ["GET", "/invitations", ADMIN],
+  ["POST", "/invitations", ADMIN],
+  ["DELETE", "/invitations/:id", ADMIN],
+  ["GET", "/profile", ANY],
+  ["PATCH", "/profile", ANY],
+  ["POST", "/profile/password", ANY],
+  ["GET", "/clients/:id", ANY],
+  ["GET", "/clients", REVIEWERS],
+  ["GET", "/clients/salesperson/:salesPersonId", SELLERS],
+  ["POST", "/clients/create", SELLERS],
+  ["PATCH", "/clients/:id", SELLERS],
+  ["POST", "/clients/:id/transfer", SELLERS],
+  ["POST", "/clients/:id/deactivate", SELLERS],
+  ["POST", "/clients/:id/reactivate", SELLERS],
+  ["POST", "/clients/:id/merge", REVIEWERS],
+  ["GET", "/projects/export", ANY],
+  ["GET", "/projects/budget-forecasts", ANY],
+  ["GET", "/projects/:id", ANY],
+  ["GET", "/projects", ANY],
+  ["GET", "/projects/user/:userId", ANY],
+  ["GET", "/projects/client/:clientId", ANY],
+  ["POST", "/projects/create", SELLERS],
+  ["PATCH", "/projects/:id/status", REVIEWERS],
+  ["PATCH", "/projects/:id", SELLERS],
+  ["GET", "/projects/:id/budget-revisions", ANY],
+  ["GET", "/projects/:id/budget-forecast", ANY],
+  ["POST", "/projects/:id/budget-revisions", SELLERS],
+  ["GET", "/projects/:id/category-budgets", ANY],
+  ["POST", "/projects/:id/category-budgets", SELLERS],
+  ["GET", "/projects/:id/category-budgets/check", ANY],
+  ["POST", "/projects/:id/archive", REVIEWERS],
+  ["POST", "/projects/:id/unarchive", REVIEWERS],
+  ["DELETE", "/projects/:id", ADMIN],
+  ["GET", "/projects/:id/assignments", ANY],
+  ["POST", "/projects/:id/assignments", REVIEWERS],
+  ["DELETE", "/projects/:id/assignments/:assignmentId", REVIEWERS],
+  ["GET", "/projects/assigned/:userId", ANY],
+  ["GET", "/expenses/export", ANY],
+  ["GET", "/expenses/:id", ANY],
+  ["GET", "/expenses", ANY],
+  ["GET", "/expenses/project/:projectId", ANY],
+  ["GET", "/expenses/user/:userId", ANY],
+  ["GET", "/expenses/status/:status", REVIEWERS],
+  ["POST", "/expenses/create", ANY],
+  ["POST", "/expenses/import/preview", ANY],
+  ["POST", "/expenses/import", ANY],
+  ["PATCH", "/expenses/:id/status", REVIEWERS],
+  ["POST", "/expenses/bulk-review", REVIEWERS],
+  ["GET", "/expenses/:id/approvals", ANY],
+  ["PATCH", "/expenses/:id", ANY],
+  ["POST", "/expenses/:id/resubmit", ANY],
+  ["POST", "/expenses/:id/withdraw", ANY],
+  ["GET", "/expenses/:id/versions", ANY],
+  ["GET", "/approval-rules", REVIEWERS],
+  ["POST", "/approval-rules", ADMIN],
+  ["DELETE", "/approval-rules/:id", ADMIN],
+  ["GET", "/exchange-rates", ANY],
+  ["POST", "/exchange-rates", ADMIN],
+  ["POST", "/exchange-rates/import", ADMIN],
+  ["DELETE", "/exchange-rates/:currency", ADMIN],
+  ["GET", "/expenses/:id/receipts", ANY],
+  ["POST", "/expenses/:id/receipts", ANY],
+  ["GET", "/receipts/:id/file", ANY],
+  ["DELETE", "/receipts/:id", ANY],
+  ["GET", "/activity-logs/:id", ANY],
+  ["GET", "/activity-logs", REVIEWERS],
+  ["GET", "/activity-logs/project/:projectId", ANY],
+  ["GET", "/activity-logs/user/:userId", ANY],
+  ["POST", "/activity-logs", REVIEWERS],
+  ["GET", "/notifications", ANY],
+  ["POST", "/notifications/read-all", ANY],
+  ["POST", "/notifications/:id/read", ANY],
+  ["GET", "/notifications/preferences", ANY],
+  ["PUT", "/notifications/preferences", ANY],
+  ["GET", "/analytics/total-budget-vs-spent", REVIEWERS],
+  ["GET", "/analytics/category-budget-vs-spent", REVIEWERS],
+  ["GET", "/analytics/monthly-spending-trends", REVIEWERS],
+  ["GET", "/analytics/spending-by-category", REVIEWERS],
+  ["GET", "/analytics/expense-approval-rates", REVIEWERS],
+  ["GET", "/analytics/spending-by-employee", REVIEWERS],
+  ["GET", "/analytics/:dataset/export", REVIEWERS],
+];
+
+const publicRoutes = [
+  ["POST", "/register"], ["POST", "/login"], ["POST", "/refresh"], ["POST", "/logout"],
+  ["POST", "/login/two-factor"], ["POST", "/login/two-factor/setup"], ["POST", "/login/two-factor/enable"],
+  ["GET", "/invitations/:token"], ["POST", "/invitations/:token/accept"],
+  ["POST", "/forgot-password"], ["GET", "/password-reset/:token"], ["POST", "/password-reset/:token"],
+];
+
+// Unique per run, like the storage contract, so nothing clashes with the seeded demo data
+const suffix = Date.now().toString(36);
+
+let server: Server;
+let baseUrl: string;
+let router: Router;
+// Created straight in the store, as the first admin of a real deployment would be; it invites everyone else
+let rootAdmin: Session;
+
+async function api(method: string, path: string, { token, cookie, body, userAgent }: RequestOptions = {}): Promise<ApiResponse> {
+  const headers: Record<string, string> = {};
+  if (userAgent) headers["User-Agent"] = userAgent;
+  if (token) headers.Authorization = `Bearer ${token}`;
+  if (cookie) headers.Cookie = cookie;
+  if (body !== undefined) headers["Content-Type"] = "application/json";
+
+  const res = await fetch(`${baseUrl}/api${path}`, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await res.text();
+  const isJson = res.headers.get("content-type")?.includes("application/json");
+  return { status: res.status, body: isJson && text ? JSON.parse(text) : text, headers: res.headers };
+}
+
+function refreshCookie(res: ApiResponse): string {
+  const cookie = res.headers.getSetCookie().find((header) => header.startsWith("refreshToken="));
+  return cookie ? cookie.split(";")[0] : "";
+}
+
+async function logIn(username: string, password: string, userAgent?: string): Promise<ApiResponse> {
+  const login = await api("POST", "/login", { body: { username, password }, userAgent });
+  assert.equal(login.status, 200, login.body.message);
+  return login;
+}
+
+async function invite(email: string, role: UserRoleType, projectId?: number): Promise<string> {
+  const res = await api("POST", "/invitations", { token: rootAdmin.token, body: { email, role, projectId } });
+  assert.equal(res.status, 201, res.body.message);
+  return res.body.token;
+}
+
+// Joins the way every new user does: an admin's invitation, accepted, then a normal sign-in
+async function signUp(role: UserRoleType, label: string = role): Promise<Session> {
+  const username = `${label}-${suffix}`;
+  const name = `API ${label} ${suffix}`;
+  const password = "secret-password";
+  const token = await invite(`${username}@example.com`, role);
+  const accepted = await api("POST", `/invitations/${token}/accept`, { body: { username, name, password, confirmPassword: password } });
+  assert.equal(accepted.status, 201, accepted.body.message);
+
+  const login = await logIn(username, password);
+  return { id: accepted.body.id, name, role, token: login.body.accessToken, cookie: refreshCookie(login) };
+}
+
+// Every email to the address so far, newest first
+function mailTo(email: string): string[] {
+  return fs.readdirSync(process.env.MAIL_DIR!)
+    .sort()
+    .reverse()
+    .map((file) => fs.readFileSync(path.join(process.env.MAIL_DIR!, file), "utf8"))
+    .filter((message) => message.includes(`\r\nTo: ${email}\r\n`));
+}
+
+// The reset token from the newest email to the address; forgot-password sends it in the background, so this waits for it
+async function mailedResetToken(email: string): Promise<string> {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const link = mailTo(email)[0]?.match(/\/reset-password\/([\w-]+)/);
+    if (link) return link[1];
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  assert.fail(`No reset email for ${email}`);
+}
+
+// Public registration is switched by the environment on each request
+async function withPublicRegistration<T>(run: () => Promise<T>): Promise<T> {
+  process.env.PUBLIC_REGISTRATION = "true";
+  try {
+    return await run();
+  } finally {
+    delete process.env.PUBLIC_REGISTRATION;
+  }
+}
+
+// Fills route parameters with values that only have to get past the router
+function examplePath(path: string): string {
+  return path.replace(/:status\b/, ExpenseStatus.PENDING).replace(/:currency\b/, "EUR").replace(/:\w+/g, "1");
+}
+
+before(async () => {
+  const { createApp } = await import("./app");
+  router = (await import("./routes/routes")).default;
+  server = createApp().listen(0, "127.0.0.1");
+  await new Promise<void>((resolve) => server.once("listening", resolve));
+  (await import("./realtime")).setupRealtime(server);
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const { storage } = await import("./storage");
+  const { hashPassword } = await import("../utils/session");
+  const username = `root-${suffix}`;
+  const admin = await storage.createUser({ username, name: "API Root", role: UserRole.ADMIN, password: await hashPassword("root-password") });
+  const login = await logIn(username, "root-password");
+  rootAdmin = { id: admin.id, name: admin.name, role: UserRole.ADMIN, token: login.body.accessToken, cookie: refreshCookie(login) };
+});
+
+after(async () => {
+  await new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve())));
+  fs.rmSync(process.env.MAIL_DIR!, { recursive: true, force: true });
+});
+
+describe("auth", () => {
+  const username = `auth-${suffix}`;
+  const password = "first-password";
+
+  it("refuses self-registration unless it is switched on", async () => {
+    const res = await api("POST", "/register", {
+      body: { username, name: "Auth Test", password, confirmPassword: password },
+    });
+    assert.equal(res.status, 403);
+    assert.equal(res.body.message, "Registration is by invitation only");
+  });
+
+  it("registers an employee, whatever role is asked for, without returning the password", async () => {
+    const res = await withPublicRegistration(() => api("POST", "/register", {
+      body: { username, name: "Auth Test", role: UserRole.ADMIN, password, confirmPassword: password },
+    }));
+    assert.equal(res.status, 201);
+    assert.equal(res.body.username, username);
+    assert.equal(res.body.role, UserRole.EMPLOYEE);
+    assert.equal(res.body.password, undefined);
+  });
+
+  it("refuses a taken username", async () => {
+    const res = await withPublicRegistration(() => api("POST", "/register", {
+      body: { username, name: "Auth Twin", password, confirmPassword: password },
+    }));
+    assert.equal(res.status, 400);
+    assert.equal(res.body.message, "Username already exists");
+  });
+
+  it("refuses a wrong password", async () => {
+    const res = await api("POST", "/login", { body: { username, password: "not-the-password" } });
+    assert.equal(res.status, 401);
+    assert.equal(refreshCookie(res), "");
+  });
+
+  it("logs in, refreshes and logs out with the refresh cookie", async () => {
+    const login = await api("POST", "/login", { body: { username, password } });
+    assert.equal(login.status, 200);
+    assert.ok(login.body.accessToken);
+    const cookie = refreshCookie(login);
+    assert.match(cookie, /^refreshToken=.+/);
+
+    const me = await api("GET", "/users", { token: login.body.accessToken });
+    assert.equal(me.status, 200);
+
+    const refreshed = await api("POST", "/refresh", { cookie });
+    assert.equal(refreshed.status, 200);
+    assert.ok(refreshed.body.accessToken);
+    const rotated = refreshCookie(refreshed);
+    assert.match(rotated, /^refreshToken=.+/);
+
+    const logout = await api("POST", "/logout", { cookie: rotated });
+    assert.equal(logout.status, 200);
+    assert.match(logout.headers.getSetCookie().join(), /refreshToken=;/);
+
+    const afterLogout = await api("POST", "/refresh", { cookie: rotated });
+    assert.equal(afterLogout.status, 403);
+  });
+
+  it("refuses a refresh without a cookie", async () => {
+    const res = await api("POST", "/refresh");
+    assert.equal(res.status, 403);
+  });
+
+  it("refuses missing and forged access tokens", async () => {
+    const missing = await api("GET", "/projects");
+    assert.equal(missing.status, 401);
+
+    const forged = await api("GET", "/projects", { token: "not.a.token" });
+    assert.equal(forged.status, 403);
+    assert.equal(forged.body.message, "Invalid or expired access token");
+  });
+});
+
+describe("sessions", () => {
+  let user: Session;
+  let other: Session;
+  const username = () => `sessions-user-${suffix}`;
+
+  before(async () => {
+    user = await signUp(UserRole.EMPLOYEE, "sessions-user");
+    other = await signUp(UserRole.EMPLOYEE, "sessions-other");
+  });
+
+  it("keeps each device signed in on its own", async () => {
+    const laptop = await logIn(username(), "secret-password", "Laptop Browser");
+    const phone = await logIn(username(), "secret-password", "Phone Browser");
+
+    const laptopRefresh = await api("POST", "/refresh", { cookie: refreshCookie(laptop), userAgent: "Laptop Browser" });
+    assert.equal(laptopRefresh.status, 200, laptopRefresh.body.message);
+    assert.equal((await api("POST", "/refresh", { cookie: refreshCookie(phone), userAgent: "Phone Browser" })).status, 200);
+
+    const sessions = await api("GET", "/sessions", { token: laptopRefresh.body.accessToken });
+    assert.equal(sessions.status, 200);
+    const agents = sessions.body.map((session: any) => session.userAgent);
+    assert.ok(agents.includes("Laptop Browser"));
+    assert.ok(agents.includes("Phone Browser"));
+    assert.equal(sessions.body.filter((session: any) => session.current).length, 1);
+    assert.equal(sessions.body.find((session: any) => session.current).userAgent, "Laptop Browser");
+    assert.ok(sessions.body.every((session: any) => session.tokenHash === undefined));
+  });
+
+  it("revokes the session when an old refresh token comes back", async () => {
+    const login = await logIn(username(), "secret-password", "Stolen Browser");
+    const original = refreshCookie(login);
+    const rotated = await api("POST", "/refresh", { cookie: original, userAgent: "Stolen Browser" });
+    assert.equal(rotated.status, 200);
+
+    const replayed = await api("POST", "/refresh", { cookie: original, userAgent: "Stolen Browser" });
+    assert.equal(replayed.status, 403);
+    assert.match(replayed.body.message, /reuse detected/);
+
+    // The rightful holder's newer token stops working too
+    assert.equal((await api("POST", "/refresh", { cookie: refreshCookie(rotated), userAgent: "Stolen Browser" })).status, 403);
+    const sessions = await api("GET", "/sessions", { token: user.token });
+    assert.ok(!sessions.body.some((session: any) => session.userAgent === "Stolen Browser"));
+  });
+
+  it("lets users end their own sessions only", async () => {
+    const login = await logIn(username(), "secret-password", "Old Tablet");
+    const sessions = await api("GET", "/sessions", { token: user.token });
+    const tablet = sessions.body.find((session: any) => session.userAgent === "Old Tablet");
+
+    assert.equal((await api("DELETE", `/sessions/${tablet.id}`, { token: other.token })).status, 403);
+    assert.equal((await api("DELETE", "/sessions/not-a-session", { token: user.token })).status, 404);
+    assert.equal((await api("DELETE", `/sessions/${tablet.id}`, { token: user.token })).status, 204);
+    assert.equal((await api("DELETE", `/sessions/${tablet.id}`, { token: user.token })).status, 400);
+    assert.equal((await api("POST", "/refresh", { cookie: refreshCookie(login) })).status, 403);
+  });
+
+  it("turns away the access token and closes the sockets of an ended session", async () => {
+    const { WebSocket } = await import("ws");
+    const { accessToken } = (await logIn(username(), "secret-password", "Revoked Browser")).body;
+    const connect = () => new WebSocket(`${baseUrl.replace("http", "ws")}/ws?token=${encodeURIComponent(accessToken)}`);
+
+    const socket = connect();
+    await once(socket, "open");
+    const closed = once(socket, "close");
+    // Also gives the server time to finish registering the socket
+    const sessions = await api("GET", "/sessions", { token: accessToken });
+    assert.equal(sessions.status, 200);
+    const current = sessions.body.find((session: any) => session.current);
+    assert.equal((await api("DELETE", `/sessions/${current.id}`, { token: user.token })).status, 204);
+
+    const [code, reason] = await closed;
+    assert.equal(code, 1008);
+    assert.equal(reason.toString(), "Session ended");
+    const refused = await api("GET", "/sessions", { token: accessToken });
+    assert.equal(refused.status, 401);
+    assert.equal(refused.body.message, "Your session has ended; sign in again");
+    const [lateCode, lateReason] = await once(connect(), "close");
+    assert.equal(lateCode, 1008);
+    assert.equal(lateReason.toString(), "Invalid or expired access token");
+  });
+
+  it("lets admins sign a user out everywhere", async () => {
+    const listed = await api("GET", `/users/${other.id}/sessions`, { token: rootAdmin.token });
+    assert.equal(listed.status, 200);
+    assert.equal(listed.body.length, 1);
+
+    const revoked = await api("DELETE", `/users/${other.id}/sessions`, { token: rootAdmin.token });
+    assert.equal(revoked.status, 200, revoked.body.message);
+    assert.equal(revoked.body.revoked, 1);
+    assert.equal((await api("POST", "/refresh", { cookie: other.cookie })).status, 403);
+    assert.equal((await api("GET", "/sessions", { token: other.token })).status, 401);
+    assert.deepEqual((await api("GET", `/users/${other.id}/sessions`, { token: rootAdmin.token })).body, []);
+    assert.equal((await api("DELETE", "/users/999999/sessions", { token: rootAdmin.token })).status, 404);
+  });
+});
+
+describe("two-factor", () => {
+  let user: Session;
+  let secret: string;
+  let recoveryCodes: string[];
+  const username = () => `two-factor-user-${suffix}`;
+  // Each 30-second step is accepted once; the server also takes the next step, so enrolling on this one leaves that one for signing in
+  const codeFor = (offset: number) => totpCode(secret, timeStep() + offset);
+
+  // A user of their own with two-factor on, for the tests that lock the user out
+  const enrolled = async (label: string) => {
+    const session = await signUp(UserRole.EMPLOYEE, label);
+    const setup = await api("POST", "/two-factor/setup", { token: session.token });
+    const enabled = await api("POST", "/two-factor/enable", { token: session.token, body: { code: totpCode(setup.body.secret, timeStep()) } });
+    assert.equal(enabled.status, 200, enabled.body.message);
+    return { session, username: `${label}-${suffix}`, recoveryCodes: enabled.body.recoveryCodes as string[] };
+  };
+
+  before(async () => {
+    user = await signUp(UserRole.EMPLOYEE, "two-factor-user");
+  });
+
+  it("turns on with a code from the new secret", async () => {
+    const setup = await api("POST", "/two-factor/setup", { token: user.token });
+    assert.equal(setup.status, 200, setup.body.message);
+    secret = setup.body.secret;
+    assert.match(setup.body.otpauthUri, /^otpauth:\/\/totp\//);
+
+    assert.equal((await api("POST", "/two-factor/enable", { token: user.token, body: { code: "000000" } })).status, 400);
+    const enabled = await api("POST", "/two-factor/enable", { token: user.token, body: { code: codeFor(0) } });
+    assert.equal(enabled.status, 200, enabled.body.message);
+    recoveryCodes = enabled.body.recoveryCodes;
+    assert.equal(recoveryCodes.length, 10);
+
+    const status = await api("GET", "/two-factor", { token: user.token });
+    assert.deepEqual(status.body, { enabled: true, required: false, recoveryCodesRemaining: 10 });
+  });
+
+  it("asks for a code after the password and accepts each code once", async () => {
+    const login = await api("POST", "/login", { body: { username: username(), password: "secret-password" } });
+    assert.equal(login.status, 200);
+    assert.equal(login.body.twoFactor, "required");
+    assert.equal(login.body.accessToken, undefined);
+    assert.equal(refreshCookie(login), "");
+
+    const code = codeFor(1);
+    const verified = await api("POST", "/login/two-factor", { body: { challengeToken: login.body.challengeToken, code } });
+    assert.equal(verified.status, 200, verified.body.message);
+    assert.ok(verified.body.accessToken);
+    assert.ok(refreshCookie(verified));
+
+    const replayed = await api("POST", "/login/two-factor", { body: { challengeToken: login.body.challengeToken, code } });
+    assert.equal(replayed.status, 401);
+    assert.equal(replayed.body.message, "The sign-in has expired; start again");
+    const forged = await api("POST", "/login/two-factor", { body: { challengeToken: "not-a-challenge", code: codeFor(1) } });
+    assert.equal(forged.status, 401);
+  });
+
+  it("accepts each recovery code once", async () => {
+    const first = await api("POST", "/login", { body: { username: username(), password: "secret-password" } });
+    const used = await api("POST", "/login/two-factor", { body: { challengeToken: first.body.challengeToken, code: recoveryCodes[0] } });
+    assert.equal(used.status, 200, used.body.message);
+
+    const second = await api("POST", "/login", { body: { username: username(), password: "secret-password" } });
+    const reused = await api("POST", "/login/two-factor", { body: { challengeToken: second.body.challengeToken, code: recoveryCodes[0] } });
+    assert.equal(reused.status, 401);
+    assert.equal((await api("GET", "/two-factor", { token: user.token })).body.recoveryCodesRemaining, 9);
+  });
+
+  it("limits the codes tried for each sign-in and locks the user out after too many", async () => {
+    const { session, username, recoveryCodes } = await enrolled("two-factor-locked");
+    const signIn = async () => (await api("POST", "/login", { body: { username, password: "secret-password" } })).body.challengeToken;
+    const tryCode = (challengeToken: string, code: string) => api("POST", "/login/two-factor", { body: { challengeToken, code } });
+
+    const first = await signIn();
+    for (let attempt = 0; attempt < 5; attempt++) {
+      assert.equal((await tryCode(first, "00000-00000")).body.message, "That code is not valid");
+    }
+    const exhausted = await tryCode(first, recoveryCodes[2]);
+    assert.equal(exhausted.status, 401);
+    assert.equal(exhausted.body.message, "Too many codes were tried; start again");
+
+    const second = await signIn();
+    for (let attempt = 0; attempt < 5; attempt++) {
+      assert.equal((await tryCode(second, "00000-00000")).status, 401);
+    }
+    const lockedOut = await tryCode(await signIn(), recoveryCodes[2]);
+    assert.equal(lockedOut.status, 401);
+    assert.equal(lockedOut.body.message, "Too many wrong codes; try again in 15 minutes");
+    assert.equal((await api("GET", "/two-factor", { token: session.token })).body.recoveryCodesRemaining, 10);
+  });
+
+  it("counts wrong codes for the settings towards the same lockout", async () => {
+    const { session, recoveryCodes } = await enrolled("two-factor-settings");
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const wrong = await api("POST", "/two-factor/recovery-codes", { token: session.token, body: { code: "00000-00000" } });
+      assert.equal(wrong.body.message, "That code is not valid");
+    }
+
+    const lockedOut = await api("POST", "/two-factor/disable", { token: session.token, body: { code: recoveryCodes[0] } });
+    assert.equal(lockedOut.status, 400);
+    assert.equal(lockedOut.body.message, "Too many wrong codes; try again in 15 minutes");
+    assert.deepEqual((await api("GET", "/two-factor", { token: session.token })).body, { enabled: true, required: false, recoveryCodesRemaining: 10 });
+  });
+
+  it("walks members of a required role through setup at sign-in", async () => {
+    const manager = await signUp(UserRole.MANAGER, "two-factor-manager");
+    const policy = await api("PUT", "/two-factor/policy", { token: rootAdmin.token, body: { roles: [UserRole.MANAGER] } });
+    assert.equal(policy.status, 200, policy.body.message);
+    try {
+      const login = await api("POST", "/login", { body: { username: `two-factor-manager-${suffix}`, password: "secret-password" } });
+      assert.equal(login.body.twoFactor, "setup");
+      const { challengeToken } = login.body;
+
+      const setup = await api("POST", "/login/two-factor/setup", { body: { challengeToken } });
+      assert.equal(setup.status, 200, setup.body.message);
+      const enabled = await api("POST", "/login/two-factor/enable", {
+        body: { challengeToken, code: totpCode(setup.body.secret, timeStep()) },
+      });
+      assert.equal(enabled.status, 200, enabled.body.message);
+      assert.ok(enabled.body.accessToken);
+      assert.equal(enabled.body.recoveryCodes.length, 10);
+
+      const refused = await api("POST", "/two-factor/disable", { token: enabled.body.accessToken, body: { code: enabled.body.recoveryCodes[0] } });
+      assert.equal(refused.status, 400);
+      assert.equal(refused.body.message, "Your role requires two-factor authentication");
+
+      assert.equal((await api("DELETE", `/users/${manager.id}/two-factor`, { token: rootAdmin.token })).status, 200);
+      const afterReset = await api("POST", "/login", { body: { username: `two-factor-manager-${suffix}`, password: "secret-password" } });
+      assert.equal(afterReset.body.twoFactor, "setup");
+    } finally {
+      await api("PUT", "/two-factor/policy", { token: rootAdmin.token, body: { roles: [] } });
+    }
+  });
+
+  it("turns off with a code when the role allows it", async () => {
+    const disabled = await api("POST", "/two-factor/disable", { token: user.token, body: { code: recoveryCodes[1] } });
+    assert.equal(disabled.status, 200, disabled.body.message);
+    const login = await api("POST", "/login", { body: { username: username(), password: "secret-password" } });
+    assert.ok(login.body.accessToken);
+  });
+});
+
+describe("password reset", () => {
+  let user: Session;
+  const username = () => `reset-user-${suffix}`;
+  const email = () => `${username()}@example.com`;
+
+  before(async () => {
+    user = await signUp(UserRole.EMPLOYEE, "reset-user");
+  });
+
+  it("answers the same for addresses without an account", async () => {
+    const unknown = await api("POST", "/forgot-password", { body: { email: `nobody-${suffix}@example.com` } });
+    const known = await api("POST", "/forgot-password", { body: { email: email() } });
+    assert.equal(unknown.status, 202);
+    assert.deepEqual(known.body, unknown.body);
+    assert.equal((await api("POST", "/forgot-password", { body: { email: "not-an-address" } })).status, 400);
+  });
+
+  it("sets a new password once and signs out every device", async () => {
+    await api("POST", "/forgot-password", { body: { email: email() } });
+    const token = await mailedResetToken(email());
+    const otherDevice = await logIn(username(), "secret-password", "Other Browser");
+
+    assert.equal((await api("GET", `/password-reset/${token}`)).status, 200);
+    const mismatched = await api("POST", `/password-reset/${token}`, { body: { password: "new-password", confirmPassword: "other" } });
+    assert.equal(mismatched.status, 400);
+
+    const reset = await api("POST", `/password-reset/${token}`, { body: { password: "new-password", confirmPassword: "new-password" } });
+    assert.equal(reset.status, 200, reset.body.message);
+    assert.equal((await api("POST", "/refresh", { cookie: user.cookie })).status, 403);
+    assert.equal((await api("POST", "/refresh", { cookie: refreshCookie(otherDevice), userAgent: "Other Browser" })).status, 403);
+    assert.equal((await api("POST", "/login", { body: { username: username(), password: "secret-password" } })).status, 401);
+    await logIn(username(), "new-password");
+
+    const reused = await api("POST", `/password-reset/${token}`, { body: { password: "third-password", confirmPassword: "third-password" } });
+    assert.equal(reused.status, 410);
+    assert.equal(reused.body.message, "This link has already been used");
+    assert.equal((await api("GET", "/password-reset/not-a-token")).status, 404);
+  });
+
+  it("lets admins send a reset link, or hand it over without an email address", async () => {
+    const emailed = await api("POST", `/users/${user.id}/password-reset`, { token: rootAdmin.token });
+    assert.equal(emailed.status, 201, emailed.body.message);
+    assert.deepEqual(emailed.body, { emailed: true });
+    assert.equal((await api("GET", `/password-reset/${await mailedResetToken(email())}`)).status, 200);
+
+    const handedOver = await api("POST", `/users/${rootAdmin.id}/password-reset`, { token: rootAdmin.token });
+    assert.equal(handedOver.status, 201, handedOver.body.message);
+    assert.equal(handedOver.body.emailed, false);
+    assert.equal((await api("GET", `/password-reset/${handedOver.body.token}`)).status, 200);
+    assert.equal((await api("POST", "/users/999999/password-reset", { token: rootAdmin.token })).status, 404);
+  });
+});
+
+describe("invitations", () => {
+  const password = "invited-password";
+  let projectId: number;
+
+  function account(label: string) {
+    return { username: `invited-${label}-${suffix}`, name: `Invited ${label}`, password, confirmPassword: password };
+  }
+
+  before(async () => {
+    const client = await api("POST", "/clients/create", {
+      token: rootAdmin.token,
+      body: { name: `Invite Client ${suffix}`, contactPerson: "I. Vite", contactEmail: "invite@example.com", contactPhone: "1", createdById: rootAdmin.id },
+    });
+    assert.equal(client.status, 201, client.body.message);
+    const project = await api("POST", "/projects/create", {
+      token: rootAdmin.token,
+      body: { name: `Invite Project ${suffix}`, clientId: client.body.id, status: "in_progress", startDate: new Date().toISOString(), budget: 1000 },
+    });
+    assert.equal(project.status, 201, project.body.message);
+    projectId = project.body.id;
+  });
+
+  it("keeps invitation tokens out of the request log", async () => {
+    const token = await invite(`logged-${suffix}@example.com`, UserRole.EMPLOYEE);
+    assert.equal((await api("GET", `/invitations/${token}`)).status, 200);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const logged = (console.log as unknown as Mock<typeof console.log>).mock.calls.map((call) => call.arguments.join(" ")).join("\n");
+    assert.match(logged, /POST \/api\/invitations 201/);
+    assert.match(logged, /GET \/api\/invitations\/\[redacted\] 200/);
+    assert.ok(!logged.includes(token));
+  });
+
+  it("creates the invited account with its role, email and project, once", async () => {
+    const email = `Invited-Manager-${suffix}@Example.com`;
+    const token = await invite(email, UserRole.MANAGER, projectId);
+
+    const preview = await api("GET", `/invitations/${token}`);
+    assert.equal(preview.status, 200);
+    assert.equal(preview.body.email, email.toLowerCase());
+    assert.equal(preview.body.role, UserRole.MANAGER);
+    assert.equal(preview.body.projectName, `Invite Project ${suffix}`);
+
+    const listed = await api("GET", "/invitations", { token: rootAdmin.token });
+    const invitation = listed.body.find((row: any) => row.email === email.toLowerCase());
+    assert.ok(invitation);
+    assert.equal(invitation.tokenHash, undefined);
+
+    // The role in the body is ignored; the invitation decides it
+    const accepted = await api("POST", `/invitations/${token}/accept`, { body: { ...account("manager"), role: UserRole.ADMIN } });
+    assert.equal(accepted.status, 201, accepted.body.message);
+    assert.equal(accepted.body.role, UserRole.MANAGER);
+    assert.equal(accepted.body.email, email.toLowerCase());
+    assert.equal(accepted.body.password, undefined);
+
+    const login = await logIn(account("manager").username, password);
+    const team = await api("GET", `/projects/${projectId}/assignments`, { token: login.body.accessToken });
+    assert.equal(team.status, 200, team.body.message);
+    const membership = team.body.find((row: any) => row.userId === accepted.body.id);
+    assert.equal(membership?.projectRole, UserRole.MANAGER);
+    assert.equal(membership?.assignedBy, rootAdmin.id);
+
+    const again = await api("POST", `/invitations/${token}/accept`, { body: account("manager-again") });
+    assert.equal(again.status, 410);
+    assert.equal(again.body.message, "This invitation has already been used");
+    assert.equal((await api("GET", `/invitations/${token}`)).status, 410);
+  });
+
+  it("keeps the invitation when the account is refused", async () => {
+    const token = await invite(`invited-retry-${suffix}@example.com`, UserRole.EMPLOYEE);
+
+    const mismatch = await api("POST", `/invitations/${token}/accept`, { body: { ...account("retry"), confirmPassword: "other-password" } });
+    assert.equal(mismatch.status, 400);
+    const taken = await api("POST", `/invitations/${token}/accept`, { body: { ...account("retry"), username: `root-${suffix}` } });
+    assert.equal(taken.status, 400);
+    assert.equal(taken.body.message, "Username already exists");
+
+    const accepted = await api("POST", `/invitations/${token}/accept`, { body: account("retry") });
+    assert.equal(accepted.status, 201, accepted.body.message);
+    assert.equal(accepted.body.role, UserRole.EMPLOYEE);
+  });
+
+  it("refuses revoked, expired and unknown links", async () => {
+    const token = await invite(`invited-revoked-${suffix}@example.com`, UserRole.SALESPERSON);
+    const listed = await api("GET", "/invitations", { token: rootAdmin.token });
+    const { id } = listed.body.find((row: any) => row.email === `invited-revoked-${suffix}@example.com`);
+    assert.equal((await api("DELETE", `/invitations/${id}`, { token: rootAdmin.token })).status, 204);
+    assert.equal((await api("DELETE", `/invitations/${id}`, { token: rootAdmin.token })).status, 400);
+    const revoked = await api("POST", `/invitations/${token}/accept`, { body: account("revoked") });
+    assert.equal(revoked.status, 410);
+    assert.equal(revoked.body.message, "This invitation has been withdrawn");
+
+    const { storage } = await import("./storage");
+    const expiredToken = `expired-${suffix}`;
+    await storage.createInvitation({
+      tokenHash: createHash("sha256").update(expiredToken).digest("hex"),
+      email: `invited-expired-${suffix}@example.com`,
+      role: UserRole.EMPLOYEE,
+      invitedById: rootAdmin.id,
+      expiresAt: new Date(Date.now() - 1000),
+    });
+    const expired = await api("POST", `/invitations/${expiredToken}/accept`, { body: account("expired") });
+    assert.equal(expired.status, 410);
+    assert.equal(expired.body.message, "This invitation has expired");
+
+    assert.equal((await api("GET", "/invitations/not-a-token")).status, 404);
+    assert.equal((await api("POST", "/invitations/not-a-token/accept", { body: account("unknown") })).status, 404);
+  });
+
+  it("refuses invitations for a known email or an admin on a project", async () => {
+    const known = await api("POST", "/invitations", {
+      token: rootAdmin.token,
+      body: { email: `invited-retry-${suffix}@example.com`, role: UserRole.EMPLOYEE },
+    });
+    assert.equal(known.status, 400);
+    assert.equal(known.body.message, "Someone with that email address already has an account");
+
+    const admin = await api("POST", "/invitations", {
+      token: rootAdmin.token,
+      body: { email: `invited-admin-${suffix}@example.com`, role: UserRole.ADMIN, projectId },
+    });
+    assert.equal(admin.status, 400);
+  });
+});
+
+describe("route roles", () => {
+  const sessions = new Map<UserRoleType, Session>();
+
+  before(async () => {
+    for (const role of Object.values(UserRole)) {
+      sessions.set(role, await signUp(role, `roles-${role}`));
+    }
+  });
+
+  it("lists every route the router serves", () => {
+    const served = router.stack
+      .filter((layer) => layer.route)
+      .flatMap((layer) => Object.keys((layer.route as any).methods).map((method) => `${method.toUpperCase()} ${layer.route!.path}`));
+    const listed = [...protectedRoutes, ...publicRoutes].map(([method, path]) => `${method} ${path}`);
+    assert.deepEqual([...served].sort(), [...listed].sort());
+  });
+
+  for (const [method, path, roles] of protectedRoutes) {
+    it(`${method} ${path} needs ${roles.length > 0 ? roles.join(" or ") : "any signed-in user"}`, async () => {
+      const url = examplePath(path);
+      const anonymous = await api(method, url);
+      assert.equal(anonymous.status, 401);
+
+      for (const role of Object.values(UserRole)) {
+        if (roles.length === 0 || roles.includes(role)) continue;
+        const res = await api(method, url, { token: sessions.get(role)!.token });
+        assert.equal(res.status, 403, `${role} should be refused`);
+        assert.equal(res.body.message, "Forbidden: insufficient permissions");
+      }
+    });
+  }
+});
+
+describe("expense workflow", () => {
+  let admin: Session;
+  let manager: Session;
+  let employee: Session;
+  let outsider: Session;
+  let projectId: number;
+
+  async function submit(amount: number, description: string, session = employee) {
+    const res = await api("POST", "/expenses/create", {
+      token: session.token,
+      body: { projectId, amount, description, category: ExpenseCategory.EQUIPMENT, status: ExpenseStatus.PENDING },
+    });
+    assert.equal(res.status, 201, res.body.message);
+    return res.body;
+  }
+
+  before(async () => {
+    admin = await signUp(UserRole.ADMIN, "flow-admin");
+    manager = await signUp(UserRole.MANAGER, "flow-manager");
+    employee = await signUp(UserRole.EMPLOYEE, "flow-employee");
+    outsider = await signUp(UserRole.EMPLOYEE, "flow-outsider");
+
+    const client = await api("POST", "/clients/create", {
+      token: manager.token,
+      body: { name: `Flow Client ${suffix}`, contactPerson: "F. Low", contactEmail: "flow@example.com", contactPhone: "1", createdById: manager.id },
+    });
+    assert.equal(client.status, 201, client.body.message);
+
+    const project = await api("POST", "/projects/create", {
+      token: manager.token,
+      body: { name: `Flow Project ${suffix}`, clientId: client.body.id, status: "in_progress", startDate: new Date().toISOString(), budget: 10000 },
+    });
+    assert.equal(project.status, 201, project.body.message);
+    projectId = project.body.id;
+
+    const assignment = await api("POST", `/projects/${projectId}/assignments`, {
+      token: manager.token,
+      body: { userId: employee.id, projectRole: UserRole.EMPLOYEE },
+    });
+    assert.equal(assignment.status, 201, assignment.body.message);
+  });
+
+  it("only accepts expenses for projects the user can see", async () => {
+    const res = await api("POST", "/expenses/create", {
+      token: outsider.token,
+      body: { projectId, amount: 10, description: "Not mine", category: ExpenseCategory.EQUIPMENT, status: ExpenseStatus.PENDING },
+    });
+    assert.equal(res.status, 403);
+    assert.equal((await api("GET", `/projects/${projectId}`, { token: outsider.token })).status, 403);
+  });
+
+  it("refuses amounts and projects the schemas do not allow", async () => {
+    for (const amount of [-500, 0, 0.001, "abc"]) {
+      const res = await api("POST", "/expenses/create", {
+        token: employee.token,
+        body: { projectId, amount, description: "Odd amount", category: ExpenseCategory.EQUIPMENT },
+      });
+      assert.equal(res.status, 400, `amount ${amount}`);
+    }
+    const unknownCategory = await api("POST", "/expenses/create", {
+      token: employee.token,
+      body: { projectId, amount: 10, description: "Odd category", category: "snacks" },
+    });
+    assert.equal(unknownCategory.status, 400);
+
+    const project = { name: `Invalid Project ${suffix}`, clientId: 1, status: ProjectStatus.IN_PROGRESS, startDate: new Date().toISOString(), budget: 100 };
+    for (const invalid of [{ budget: 0.123 }, { startDate: "garbage" }, { status: "whatever" }, { name: "" }]) {
+      const res = await api("POST", "/projects/create", { token: manager.token, body: { ...project, ...invalid } });
+      assert.equal(res.status, 400, JSON.stringify(invalid));
+    }
+  });
+
+  it("checks project status changes", async () => {
+    const unknown = await api("PATCH", `/projects/${projectId}/status`, { token: manager.token, body: { status: "whatever" } });
+    assert.equal(unknown.status, 400);
+    const missing = await api("PATCH", "/projects/999999/status", { token: manager.token, body: { status: ProjectStatus.ON_HOLD } });
+    assert.equal(missing.status, 404);
+    assert.equal((await api("GET", `/projects/${projectId}`, { token: manager.token })).body.status, ProjectStatus.IN_PROGRESS);
+  });
+
+  it("submits every expense as pending, whatever the body says", async () => {
+    const res = await api("POST", "/expenses/create", {
+      token: employee.token,
+      body: {
+        projectId, amount: 15, description: "Self-approved", category: ExpenseCategory.EQUIPMENT,
+        status: ExpenseStatus.APPROVED, reviewedById: employee.id, feedback: "Fine by me", submittedById: manager.id,
+      },
+    });
+    assert.equal(res.status, 201, res.body.message);
+    assert.equal(res.body.status, ExpenseStatus.PENDING);
+    assert.equal(res.body.submittedById, employee.id);
+    assert.equal(res.body.reviewedById, null);
+    assert.equal(res.body.feedback, null);
+  });
+
+  it("approves a pending expense", async () => {
+    const expense = await submit(120.5, "Drill");
+    assert.equal(expense.status, ExpenseStatus.PENDING);
+    assert.equal(expense.submittedById, employee.id);
+
+    const selfReview = await api("PATCH", `/expenses/${expense.id}/status`, { token: employee.token, body: { status: ExpenseStatus.APPROVED } });
+    assert.equal(selfReview.status, 403);
+
+    const approved = await api("PATCH", `/expenses/${expense.id}/status`, { token: manager.token, body: { status: ExpenseStatus.APPROVED } });
+    assert.equal(approved.status, 200, approved.body.message);
+    assert.equal(approved.body.status, ExpenseStatus.APPROVED);
+    assert.equal(approved.body.reviewedById, manager.id);
+
+    const again = await api("PATCH", `/expenses/${expense.id}/status`, { token: manager.token, body: { status: ExpenseStatus.REJECTED } });
+    assert.equal(again.status, 403);
+    const receipts = await api("POST", `/expenses/${expense.id}/receipts`, { token: manager.token });
+    assert.equal(receipts.status, 403);
+    assert.equal(receipts.body.message, "Forbidden: you cannot change the receipts of this expense");
+    const edit = await api("PATCH", `/expenses/${expense.id}`, { token: employee.token, body: { amount: 1 } });
+    assert.equal(edit.status, 400);
+    assert.equal(edit.body.message, "Only pending expenses can be edited");
+  });
+
+  it("does not let reviewers decide their own expenses", async () => {
+    const expense = await submit(60, "Own drill", manager);
+    const own = await api("PATCH", `/expenses/${expense.id}/status`, { token: manager.token, body: { status: ExpenseStatus.APPROVED } });
+    assert.equal(own.status, 403);
+    const bulk = await api("POST", "/expenses/bulk-review", { token: manager.token, body: { expenseIds: [expense.id], status: ExpenseStatus.APPROVED } });
+    assert.equal(bulk.status, 409);
+
+    const rejected = await api("PATCH", `/expenses/${expense.id}/status`, { token: admin.token, body: { status: ExpenseStatus.REJECTED, feedback: "Not this one" } });
+    assert.equal(rejected.status, 200, rejected.body.message);
+    assert.equal(rejected.body.reviewedById, admin.id);
+  });
+
+  it("rejects, resubmits and withdraws an expense", async () => {
+    const expense = await submit(80, "Ladder");
+
+    const othersEdit = await api("PATCH", `/expenses/${expense.id}`, { token: manager.token, body: { amount: 1 } });
+    assert.equal(othersEdit.status, 403);
+    const edited = await api("PATCH", `/expenses/${expense.id}`, { token: employee.token, body: { amount: 85 } });
+    assert.equal(edited.status, 200, edited.body.message);
+    assert.equal(edited.body.amount, 85);
+
+    const rejected = await api("PATCH", `/expenses/${expense.id}/status`, {
+      token: manager.token,
+      body: { status: ExpenseStatus.REJECTED, feedback: "Missing receipt" },
+    });
+    assert.equal(rejected.status, 200, rejected.body.message);
+    assert.equal(rejected.body.status, ExpenseStatus.REJECTED);
+    assert.equal(rejected.body.feedback, "Missing receipt");
+
+    const withdrawRejected = await api("POST", `/expenses/${expense.id}/withdraw`, { token: employee.token });
+    assert.equal(withdrawRejected.status, 400);
+
+    const resubmitted = await api("POST", `/expenses/${expense.id}/resubmit`, { token: employee.token, body: { description: "Ladder, receipt attached" } });
+    assert.equal(resubmitted.status, 200, resubmitted.body.message);
+    assert.equal(resubmitted.body.status, ExpenseStatus.PENDING);
+    assert.equal(resubmitted.body.feedback, null);
+
+    const withdrawn = await api("POST", `/expenses/${expense.id}/withdraw`, { token: employee.token });
+    assert.equal(withdrawn.status, 200, withdrawn.body.message);
+    assert.equal(withdrawn.body.status, ExpenseStatus.WITHDRAWN);
+
+    const versions = await api("GET", `/expenses/${expense.id}/versions`, { token: employee.token });
+    assert.equal(versions.status, 200);
+    assert.deepEqual(
+      versions.body.map((version: { changeType: string }) => version.changeType),
+      ["submitted", "edited", "reviewed", "resubmitted", "withdrawn"],
+    );
+  });
+
+  it("walks a large expense through every approval level", async () => {
+    for (const [level, approverRole, minAmount] of [[1, UserRole.MANAGER, 0], [2, UserRole.ADMIN, 1000]] as const) {
+      const rule = await api("POST", "/approval-rules", { token: admin.token, body: { projectId, level, approverRole, minAmount } });
+      assert.equal(rule.status, 201, rule.body.message);
+    }
+
+    const expense = await submit(1500, "Generator");
+    const steps = await api("GET", `/expenses/${expense.id}/approvals`, { token: employee.token });
+    assert.deepEqual(steps.body.map((step: { approverRole: string }) => step.approverRole), [UserRole.MANAGER, UserRole.ADMIN]);
+
+    const first = await api("PATCH", `/expenses/${expense.id}/status`, { token: manager.token, body: { status: ExpenseStatus.APPROVED } });
+    assert.equal(first.status, 200, first.body.message);
+    assert.equal(first.body.status, ExpenseStatus.PENDING);
+
+    const managerAgain = await api("PATCH", `/expenses/${expense.id}/status`, { token: manager.token, body: { status: ExpenseStatus.APPROVED } });
+    assert.equal(managerAgain.status, 403);
+
+    const second = await api("PATCH", `/expenses/${expense.id}/status`, { token: admin.token, body: { status: ExpenseStatus.APPROVED } });
+    assert.equal(second.status, 200, second.body.message);
+    assert.equal(second.body.status, ExpenseStatus.APPROVED);
+  });
+
+  it("lists expenses by status for reviewers", async () => {
+    const res = await api("GET", `/expenses/status/${ExpenseStatus.APPROVED}`, { token: manager.token });
+    assert.equal(res.status, 200);
+    const mine = res.body.filter((expense: { projectId: number }) => expense.projectId === projectId);
+    assert.deepEqual(mine.map((expense: { amount: number }) => expense.amount).sort(), [120.5, 1500]);
+  });
+
+  it("shows employees only their own expenses", async () => {
+    const own = await api("GET", "/expenses", { token: employee.token });
+    assert.equal(own.status, 200);
+    assert.ok(own.body.items.length > 0);
+    assert.ok(own.body.items.every((expense: { submittedById: number }) => expense.submittedById === employee.id));
+
+    const others = await api("GET", "/expenses", { token: outsider.token });
+    assert.equal(others.body.total, 0);
+  });
+});
+
+describe("settings", () => {
+  let user: Session;
+  let other: Session;
+
+  before(async () => {
+    user = await signUp(UserRole.EMPLOYEE, "settings-user");
+    other = await signUp(UserRole.EMPLOYEE, "settings-other");
+  });
+
+  it("updates the signed-in user's profile", async () => {
+    const before = await api("GET", "/profile", { token: user.token });
+    assert.equal(before.status, 200);
+    assert.equal(before.body.id, user.id);
+    assert.equal(before.body.email, `settings-user-${suffix}@example.com`);
+
+    const email = `Settings-${suffix}@Example.com`;
+    const updated = await api("PATCH", "/profile", { token: user.token, body: { name: "Settings User", email } });
+    assert.equal(updated.status, 200, updated.body.message);
+    assert.equal(updated.body.name, "Settings User");
+    assert.equal(updated.body.email, email.toLowerCase());
+    assert.equal(updated.body.password, undefined);
+    assert.equal((await api("GET", "/profile", { token: user.token })).body.email, email.toLowerCase());
+
+    const taken = await api("PATCH", "/profile", { token: other.token, body: { name: "Settings Other", email } });
+    assert.equal(taken.status, 400);
+    assert.equal(taken.body.message, "That email address is already in use");
+
+    const invalid = await api("PATCH", "/profile", { token: user.token, body: { name: "Settings User", email: "not-an-email" } });
+    assert.equal(invalid.status, 400);
+  });
+
+  it("changes the password only with the current one", async () => {
+    const wrong = await api("POST", "/profile/password", {
+      token: user.token,
+      body: { currentPassword: "not-the-password", newPassword: "changed-password", confirmPassword: "changed-password" },
+    });
+    assert.equal(wrong.status, 400);
+    assert.equal(wrong.body.message, "Current password is incorrect");
+
+    const mismatch = await api("POST", "/profile/password", {
+      token: user.token,
+      body: { currentPassword: "secret-password", newPassword: "changed-password", confirmPassword: "other-password" },
+    });
+    assert.equal(mismatch.status, 400);
+
+    const username = `settings-user-${suffix}`;
+    const otherDevice = await logIn(username, "secret-password");
+    const changed = await api("POST", "/profile/password", {
+      token: user.token,
+      body: { currentPassword: "secret-password", newPassword: "changed-password", confirmPassword: "changed-password" },
+    });
+    assert.equal(changed.status, 200, changed.body.message);
+    assert.equal((await api("GET", "/sessions", { token: otherDevice.body.accessToken })).status, 401);
+    assert.equal((await api("GET", "/sessions", { token: user.token })).status, 200);
+
+    assert.equal((await api("POST", "/login", { body: { username, password: "secret-password" } })).status, 401);
+    assert.equal((await api("POST", "/login", { body: { username, password: "changed-password" } })).status, 200);
+  });
+
+  it("saves notification preferences", async () => {
+    const defaults = await api("GET", "/notifications/preferences", { token: user.token });
+    assert.deepEqual(defaults.body, DEFAULT_NOTIFICATION_PREFERENCES);
+
+    const preferences = { ...DEFAULT_NOTIFICATION_PREFERENCES, projectStatusChange: false, dailySummary: true };
+    const saved = await api("PUT", "/notifications/preferences", { token: user.token, body: preferences });
+    assert.equal(saved.status, 200, saved.body.message);
+    assert.deepEqual(saved.body, preferences);
+    assert.deepEqual((await api("GET", "/notifications/preferences", { token: user.token })).body, preferences);
+    assert.deepEqual((await api("GET", "/notifications/preferences", { token: other.token })).body, DEFAULT_NOTIFICATION_PREFERENCES);
+
+    const partial = await api("PUT", "/notifications/preferences", { token: user.token, body: { dailySummary: false } });
+    assert.equal(partial.status, 400);
+  });
+});
+
+describe("notification preferences", () => {
+  let manager: Session;
+  let quietManager: Session;
+  let employee: Session;
+  let quietEmployee: Session;
+  let projectId: number;
+
+  const notified = async (session: Session, predicate: (log: { action: string; details: any }) => boolean) =>
+    (await api("GET", "/notifications", { token: session.token })).body.some(predicate);
+  const silence = async (session: Session, changes: Partial<typeof DEFAULT_NOTIFICATION_PREFERENCES>) => {
+    const res = await api("PUT", "/notifications/preferences", { token: session.token, body: { ...DEFAULT_NOTIFICATION_PREFERENCES, ...changes } });
+    assert.equal(res.status, 200, res.body.message);
+  };
+  const submit = async (session: Session, description: string) => {
+    const res = await api("POST", "/expenses/create", {
+      token: session.token,
+      body: { projectId, amount: 10, description, category: ExpenseCategory.OTHER, status: ExpenseStatus.PENDING },
+    });
+    assert.equal(res.status, 201, res.body.message);
+    return res.body;
+  };
+
+  before(async () => {
+    manager = await signUp(UserRole.MANAGER, "prefs-manager");
+    quietManager = await signUp(UserRole.MANAGER, "prefs-quiet-manager");
+    employee = await signUp(UserRole.EMPLOYEE, "prefs-employee");
+    quietEmployee = await signUp(UserRole.EMPLOYEE, "prefs-quiet-employee");
+
+    const client = await api("POST", "/clients/create", {
+      token: manager.token,
+      body: { name: `Prefs Client ${suffix}`, contactPerson: "P. Refs", contactEmail: "prefs@example.com", contactPhone: "1", createdById: manager.id },
+    });
+    const project = await api("POST", "/projects/create", {
+      token: manager.token,
+      body: { name: `Prefs Project ${suffix}`, clientId: client.body.id, status: ProjectStatus.IN_PROGRESS, startDate: new Date().toISOString(), budget: 1000 },
+    });
+    projectId = project.body.id;
+    for (const member of [manager, quietManager, employee, quietEmployee]) {
+      const assignment = await api("POST", `/projects/${projectId}/assignments`, {
+        token: manager.token,
+        body: { userId: member.id, projectRole: member.role },
+      });
+      assert.equal(assignment.status, 201, assignment.body.message);
+    }
+  });
+
+  it("keeps new submissions from managers who switched them off", async () => {
+    await silence(quietManager, { newExpenseSubmission: false });
+    const expense = await submit(employee, "Submitted");
+    assert.ok(await notified(manager, (log) => log.details?.id === expense.id));
+    assert.ok(!(await notified(quietManager, (log) => log.details?.id === expense.id)));
+  });
+
+  it("keeps review decisions from submitters who switched them off", async () => {
+    await silence(quietEmployee, { expenseStatusChange: false });
+    const loud = await submit(employee, "Loud");
+    const quiet = await submit(quietEmployee, "Quiet");
+    for (const expense of [loud, quiet]) {
+      const res = await api("PATCH", `/expenses/${expense.id}/status`, { token: manager.token, body: { status: ExpenseStatus.APPROVED } });
+      assert.equal(res.status, 200, res.body.message);
+    }
+    assert.ok(await notified(employee, (log) => log.details?.id === loud.id && log.action === "expense_approved"));
+    assert.ok(!(await notified(quietEmployee, (log) => log.details?.id === quiet.id && log.action === "expense_approved")));
+  });
+
+  it("tells the team about project status changes unless they switched them off", async () => {
+    await silence(quietEmployee, { projectStatusChange: false });
+    const res = await api("PATCH", `/projects/${projectId}/status`, { token: quietManager.token, body: { status: ProjectStatus.ON_HOLD } });
+    assert.equal(res.status, 200, res.body.message);
+
+    const isStatusChange = (log: { action: string; details: any }) =>
+      log.action === "project_updated" && log.details?.id === projectId && log.details?.status === ProjectStatus.ON_HOLD;
+    assert.ok(await notified(employee, isStatusChange));
+    assert.ok(await notified(manager, isStatusChange));
+    assert.ok(!(await notified(quietEmployee, isStatusChange)));
+  });
+
+  it("emails notifications to those who want them and still shows them to the rest", async () => {
+    const { auditEvents } = await import("./audit");
+    const { mailNotification } = await import("./notificationMail");
+    const sending: Promise<void>[] = [];
+    const listener = (activity: Parameters<typeof mailNotification>[0]) => void sending.push(mailNotification(activity));
+
+    await silence(manager, {});
+    await silence(quietManager, { emailNotifications: false });
+    auditEvents.on("recorded", listener);
+    try {
+      const expense = await submit(employee, "Emailed");
+      await Promise.all(sending);
+
+      assert.ok(await notified(quietManager, (log) => log.details?.id === expense.id));
+      assert.equal(mailTo(`prefs-quiet-manager-${suffix}@example.com`).length, 0);
+      const [mail] = mailTo(`prefs-manager-${suffix}@example.com`);
+      assert.match(mail, /\r\nSubject: New expense of \$10\.00 is waiting for review\r\n/);
+      assert.ok(mail.includes(`/expenses/${expense.id}`));
+    } finally {
+      auditEvents.off("recorded", listener);
+    }
+  });
+
+  it("mails a daily summary of the unread notifications to those who asked for one", async () => {
+    const { sendDailySummaries } = await import("./notificationMail");
+    await silence(manager, { dailySummary: true });
+    const expense = await submit(employee, "Summarised");
+    const before = mailTo(`prefs-manager-${suffix}@example.com`).length;
+
+    assert.ok((await sendDailySummaries()) >= 1);
+    const summaries = mailTo(`prefs-manager-${suffix}@example.com`);
+    assert.equal(summaries.length, before + 1);
+    assert.match(summaries[0], /\r\nSubject: Your SolarFund summary: \d+ unread notifications?\r\n/);
+    assert.ok(summaries[0].includes(`/expenses/${expense.id}`));
+    assert.equal(mailTo(`prefs-employee-${suffix}@example.com`).length, 0);
+
+    await api("POST", "/notifications/read-all", { token: manager.token });
+    const afterReading = mailTo(`prefs-manager-${suffix}@example.com`).length;
+    await sendDailySummaries();
+    assert.equal(mailTo(`prefs-manager-${suffix}@example.com`).length, afterReading);
+  });
+});
+
+describe("analytics", () => {
+  let manager: Session;
+  let employee: Session;
+  let projectName: string;
+  let projectId: number;
+  let baseline: { byCategory: SpendingCategory[]; rates: ExpenseApprovalRate[]; trends: MonthlySpending[] };
+
+  const month = new Date().toLocaleString("en-US", { month: "short" });
+  const get = async <T>(path: string): Promise<T> => {
+    const res = await api("GET", `/analytics/${path}`, { token: manager.token });
+    assert.equal(res.status, 200, res.body.message);
+    return res.body;
+  };
+  const snapshot = async () => ({
+    byCategory: await get<SpendingCategory[]>("spending-by-category"),
+    rates: await get<ExpenseApprovalRate[]>("expense-approval-rates"),
+    trends: await get<MonthlySpending[]>("monthly-spending-trends"),
+  });
+  const categoryTotal = (rows: SpendingCategory[], category: string) => rows.find((row) => row.category === category)?.amount ?? 0;
+  const rateCount = (rows: ExpenseApprovalRate[], status: string) => rows.find((row) => row.status === status)?.count ?? 0;
+  const trend = (rows: MonthlySpending[]) => rows.find((row) => row.month === month) ?? { equipment: 0, labor: 0, transport: 0 };
+
+  before(async () => {
+    manager = await signUp(UserRole.MANAGER, "stats-manager");
+    employee = await signUp(UserRole.EMPLOYEE, "stats-employee");
+    baseline = await snapshot();
+
+    const client = await api("POST", "/clients/create", {
+      token: manager.token,
+      body: { name: `Stats Client ${suffix}`, contactPerson: "S. Tats", contactEmail: "stats@example.com", contactPhone: "1", createdById: manager.id },
+    });
+    projectName = `Stats Project ${suffix}`;
+    const project = await api("POST", "/projects/create", {
+      token: manager.token,
+      body: { name: projectName, clientId: client.body.id, status: "in_progress", startDate: new Date().toISOString(), budget: 1000 },
+    });
+    projectId = project.body.id;
+    await api("POST", `/projects/${projectId}/assignments`, { token: manager.token, body: { userId: employee.id, projectRole: UserRole.EMPLOYEE } });
+
+    const seeded: [amount: number, category: string, decision?: string][] = [
+      [19.99, ExpenseCategory.LABOR, ExpenseStatus.APPROVED],
+      [0.1, ExpenseCategory.LABOR, ExpenseStatus.APPROVED],
+      [0.2, ExpenseCategory.TRANSPORT, ExpenseStatus.APPROVED],
+      [50, ExpenseCategory.TRANSPORT, ExpenseStatus.REJECTED],
+      [30, ExpenseCategory.LABOR],
+    ];
+    for (const [amount, category, decision] of seeded) {
+      const expense = await api("POST", "/expenses/create", {
+        token: employee.token,
+        body: { projectId, amount, description: "Analytics", category, status: ExpenseStatus.PENDING },
+      });
+      assert.equal(expense.status, 201, expense.body.message);
+      if (decision) {
+        const reviewed = await api("PATCH", `/expenses/${expense.body.id}/status`, { token: manager.token, body: { status: decision } });
+        assert.equal(reviewed.status, 200, reviewed.body.message);
+      }
+    }
+  });
+
+  it("compares the project's budget with its approved spending", async () => {
+    const rows = await get<ProjectBudgetComparison[]>("total-budget-vs-spent");
+    const row = rows.find((comparison) => comparison.project === projectName);
+    assert.equal(row?.budget, 1000);
+    assert.equal(row?.spent, 20.29);
+  });
+
+  it("breaks the project down by category, keeping pending spending apart", async () => {
+    const rows = await get<{ projectId: number; category: string; spent: number; pending: number }[]>("category-budget-vs-spent");
+    const labor = rows.find((row) => row.projectId === projectId && row.category === ExpenseCategory.LABOR);
+    assert.equal(labor?.spent, 20.09);
+    assert.equal(labor?.pending, 30);
+  });
+
+  it("totals approved spending by employee and category", async () => {
+    const employees = await get<EmployeeSpending[]>("spending-by-employee");
+    assert.equal(employees.find((row) => row.employeeId === employee.id)?.amount, 20.29);
+
+    const byCategory = await get<SpendingCategory[]>("spending-by-category");
+    assert.equal(
+      categoryTotal(byCategory, ExpenseCategory.LABOR),
+      addMoney(categoryTotal(baseline.byCategory, ExpenseCategory.LABOR), 20.09),
+    );
+    assert.equal(
+      categoryTotal(byCategory, ExpenseCategory.TRANSPORT),
+      addMoney(categoryTotal(baseline.byCategory, ExpenseCategory.TRANSPORT), 0.2),
+    );
+  });
+
+  it("counts every decision in the approval rates and monthly trend", async () => {
+    const { rates, trends } = await snapshot();
+    assert.equal(rateCount(rates, "Approved") - rateCount(baseline.rates, "Approved"), 3);
+    assert.equal(rateCount(rates, "Rejected") - rateCount(baseline.rates, "Rejected"), 1);
+    assert.equal(rateCount(rates, "Pending") - rateCount(baseline.rates, "Pending"), 1);
+
+    assert.equal(subtractMoney(trend(trends).labor, trend(baseline.trends).labor), 50.09);
+    assert.equal(subtractMoney(trend(trends).transport, trend(baseline.trends).transport), 50.2);
+  });
+
+  it("refuses an unknown reporting currency", async () => {
+    const res = await api("GET", "/analytics/spending-by-employee?currency=XXX", { token: manager.token });
+    assert.equal(res.status, 400);
+  });
+});
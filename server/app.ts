@@ -0,0 +1,77 @@
+// server/app.ts
+
+import express, { type Express, type Request, Response, NextFunction } from "express";
+import routes from "./routes/routes";
+import { log } from "./vite";
+import cookieParser from "cookie-parser";
+
+// Response fields that hand out credentials: invitation and reset tokens, session tokens and
+// two-factor secrets. They are left out of the request log.
+const SECRET_FIELDS = new Set(["token", "accessToken", "challengeToken", "secret", "otpauthUri", "recoveryCodes"]);
+
+function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactSecrets);
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [key, SECRET_FIELDS.has(key) ? "[redacted]" : redactSecrets(field)]),
+    );
+  }
+  return value;
+}
+
+// Invitation and reset links carry their token in the path
+function redactPath(path: string): string {
+  return path.replace(/^(\/api\/(?:invitations|password-reset)\/)(?!\d+(?:\/|$))[^/]+/, "$1[redacted]");
+}
+
+// Builds the API without listening or serving the client, so the server and the API tests
+// boot the same app
+export function createApp(): Express {
+  const app = express();
+  app.use(express.json());
+  app.use(cookieParser());
+  app.use(express.urlencoded({ extended: false }));
+
+  // Logging middleware
+  app.use((req, res, next) => {
+    const start = Date.now();
+    const path = redactPath(req.path);
+    let capturedJsonResponse: Record<string, any> | undefined = undefined;
+
+    const originalResJson = res.json;
+    res.json = function (bodyJson, ...args) {
+      capturedJsonResponse = bodyJson;
+      return originalResJson.apply(res, [bodyJson, ...args]);
+    };
+
+    res.on("finish", () => {
+      const duration = Date.now() - start;
+      if (path.startsWith("/api")) {
+        let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
+        if (capturedJsonResponse) {
+          logLine += ` :: ${JSON.stringify(redactSecrets(capturedJsonResponse))}`;
+        }
+
+        if (logLine.length > 180) {
+          logLine = logLine.slice(0, 179) + "…";
+        }
+
+        log(logLine);
+      }
+    });
+
+    next();
+  });
+
+  app.use('/api', routes);
+
+  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
+    const status = err.status || err.statusCode || 500;
+    const message = err.message || "Internal Server Error";
+
+    res.status(status).json({ message });
+    throw err;
+  });
+
+  return app;
+}
@@ -0,0 +1,208 @@
+// server/audit.ts
+
+import { EventEmitter } from "events";
+import {
+  ActivityAction,
+  ActivityLog,
+  Client,
+  Expense,
+  ExpenseStatus,
+  InsertActivityLog,
+  NotificationPreferences,
+  NotificationTopic,
+  NotificationTopicType,
+  Project,
+  ProjectAssignment,
+  ProjectBudgetAlert,
+  User,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  wantsNotification,
+} from "@shared/schema";
+
+// An activity log entry plus the users who should be notified about it. topicFor names the
+// preference a target can switch the notification off with; targets without one always get it.
+export type AuditEntry = {
+  log: InsertActivityLog;
+  targetUserIds: number[];
+  topicFor?: (userId: number) => NotificationTopicType | undefined;
+};
+
+// An audit entry after it has been written, with the id and timestamp assigned by storage
+export type RecordedActivity = {
+  log: ActivityLog;
+  targetUserIds: number[];
+};
+
+// Storage emits "recorded" once an audit entry is committed, so listeners never see rolled-back work
+export const auditEvents = new EventEmitter<{ recorded: [RecordedActivity] }>();
+
+// Turns the row produced by a mutation into the audit entry describing it.
+// Storage runs the builder and writes the entry in the same transaction as the mutation.
+export type AuditBuilder<T> = (record: T) => AuditEntry;
+
+// Nobody is notified about their own actions, and each target is notified once
+function entry(log: InsertActivityLog, targetUserIds: number[] = [], topicFor?: AuditEntry["topicFor"]): AuditEntry {
+  return {
+    log,
+    targetUserIds: Array.from(new Set(targetUserIds)).filter((id) => id !== log.userId),
+    topicFor,
+  };
+}
+
+// The submitter hears how their expense is doing; anyone else is told about work to review
+function expenseTopic(expense: Expense): AuditEntry["topicFor"] {
+  return (userId) => userId === expense.submittedById ? NotificationTopic.EXPENSE_STATUS_CHANGE : NotificationTopic.NEW_EXPENSE_SUBMISSION;
+}
+
+// The targets that still want the notification; storage writes and pushes only these.
+// Users missing from preferences have never saved theirs and get the defaults.
+export function notifiedUserIds(entry: AuditEntry, preferences: Map<number, NotificationPreferences>): number[] {
+  return entry.targetUserIds.filter((userId) => {
+    const topic = entry.topicFor?.(userId);
+    return !topic || wantsNotification(preferences.get(userId) ?? DEFAULT_NOTIFICATION_PREFERENCES, topic);
+  });
+}
+
+export const audit = {
+  // Notifies the project's managers that there is a new expense to review
+  expenseSubmitted(projectManagerIds: number[]): AuditBuilder<Expense> {
+    return (expense) => entry({
+      userId: expense.submittedById,
+      projectId: expense.projectId,
+      action: ActivityAction.EXPENSE_SUBMITTED,
+      details: expense,
+    }, projectManagerIds, expenseTopic(expense));
+  },
+
+  // Notifies the submitter about the review decision
+  expenseReviewed(reviewerId: number): AuditBuilder<Expense> {
+    return (expense) => entry({
+      userId: reviewerId,
+      projectId: expense.projectId,
+      action:
+        expense.status === ExpenseStatus.APPROVED ? ActivityAction.EXPENSE_APPROVED :
+        expense.status === ExpenseStatus.REJECTED ? ActivityAction.EXPENSE_REJECTED :
+        ActivityAction.EXPENSE_UPDATED,
+      details: expense,
+    }, [expense.submittedById], expenseTopic(expense));
+  },
+
+  // Notifies the given users (usually the project's managers) that a submitter changed an expense
+  expenseUpdated(actorId: number, targetUserIds: number[]): AuditBuilder<Expense> {
+    return (expense) => entry({
+      userId: actorId,
+      projectId: expense.projectId,
+      action: ActivityAction.EXPENSE_UPDATED,
+      details: expense,
+    }, targetUserIds, expenseTopic(expense));
+  },
+
+  // Tells the submitter their expense passed a step, and the next approvers that it is their turn
+  expenseApprovalAdvanced(reviewerId: number, nextApproverIds: number[]): AuditBuilder<Expense> {
+    return (expense) => entry({
+      userId: reviewerId,
+      projectId: expense.projectId,
+      action: ActivityAction.EXPENSE_UPDATED,
+      details: expense,
+    }, [expense.submittedById, ...nextApproverIds], expenseTopic(expense));
+  },
+
+  projectCreated(): AuditBuilder<Project> {
+    return (project) => entry({
+      userId: project.createdById,
+      projectId: project.id,
+      action: ActivityAction.PROJECT_CREATED,
+      details: project,
+    });
+  },
+
+  projectUpdated(actorId: number): AuditBuilder<Project> {
+    return (project) => entry({
+      userId: actorId,
+      projectId: project.id,
+      action: ActivityAction.PROJECT_UPDATED,
+      details: project,
+    });
+  },
+
+  // Notifies the project's team that it was put on hold, resumed or completed
+  projectStatusChanged(actorId: number, teamIds: number[]): AuditBuilder<Project> {
+    return (project) => entry({
+      userId: actorId,
+      projectId: project.id,
+      action: ActivityAction.PROJECT_UPDATED,
+      details: project,
+    }, teamIds, () => NotificationTopic.PROJECT_STATUS_CHANGE);
+  },
+
+  // The project row is gone, so the log keeps only a copy of it
+  projectDeleted(actorId: number): AuditBuilder<Project> {
+    return (project) => entry({
+      userId: actorId,
+      projectId: null,
+      action: ActivityAction.PROJECT_DELETED,
+      details: project,
+    });
+  },
+
+  // Clients belong to no project. The owner hears about changes made by someone else.
+  clientUpdated(actorId: number): AuditBuilder<Client> {
+    return (client) => entry({
+      userId: actorId,
+      projectId: null,
+      action: ActivityAction.CLIENT_UPDATED,
+      details: client,
+    }, [client.createdById]);
+  },
+
+  // Notifies both the previous and the new owner
+  clientTransferred(actorId: number, previousOwnerId: number): AuditBuilder<Client> {
+    return (client) => entry({
+      userId: actorId,
+      projectId: null,
+      action: ActivityAction.CLIENT_TRANSFERRED,
+      details: client,
+    }, [previousOwnerId, client.createdById]);
+  },
+
+  // Records the retired duplicate, whose mergedIntoId names the surviving client
+  clientMerged(actorId: number, source: Client): AuditBuilder<Client> {
+    return (target) => entry({
+      userId: actorId,
+      projectId: null,
+      action: ActivityAction.CLIENT_MERGED,
+      details: { ...source, mergedIntoId: target.id },
+    }, [source.createdById, target.createdById]);
+  },
+
+  // Warns the project's managers that committed spend has reached a threshold of the budget.
+  // The actor is whoever's change pushed it over.
+  budgetThresholdReached(actorId: number, project: Project, projectManagerIds: number[]): AuditBuilder<ProjectBudgetAlert> {
+    return (alert) => entry({
+      userId: actorId,
+      projectId: alert.projectId,
+      action: ActivityAction.BUDGET_THRESHOLD_REACHED,
+      details: { ...alert, projectName: project.name },
+    }, projectManagerIds);
+  },
+
+  // Notifies the user who was added to the project
+  userAssigned(actorId: number, assignee: User): AuditBuilder<ProjectAssignment> {
+    return (assignment) => entry({
+      userId: actorId,
+      projectId: assignment.projectId,
+      action: ActivityAction.USER_ASSIGNED,
+      details: assignee,
+    }, [assignment.userId]);
+  },
+
+  // Notifies the user who was taken off the project
+  userRemoved(actorId: number, member: User): AuditBuilder<ProjectAssignment> {
+    return (assignment) => entry({
+      userId: actorId,
+      projectId: assignment.projectId,
+      action: ActivityAction.USER_REMOVED,
+      details: member,
+    }, [assignment.userId]);
+  },
+};
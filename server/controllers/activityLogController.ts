@@ -2,6 +2,8 @@
 
 import { Request, Response } from "express";
 import { activityLogService } from "../services/activityLogService";
+import { AuthenticatedRequest } from "../middleware/authMiddleware";
+import { policy } from "../policy";
 
 export const activityLogController = {
   async getActivityLog(req: Request, res: Response) {
@@ -30,11 +32,11 @@ export const activityLogController = {
     }
   },
 
-  async getActivityLogsByProject(req: Request, res: Response) {
+  async getActivityLogsByProject(req: AuthenticatedRequest, res: Response) {
     try {
       const projectId = parseInt(req.params.projectId, 10);
       const logs = await activityLogService.getActivityLogsByProject(projectId);
-      res.json(logs);
+      res.json(await policy.filterActivityLogs(req.user!, logs));
     } catch (err: any) {
       console.error(err);
       res.status(500).json({ message: "Failed to get activity logs by project" });
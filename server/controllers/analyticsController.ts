@@ -2,12 +2,27 @@
 
 import { Request, Response } from "express";
 import { analyticsService } from "../services/analyticsService";
+import { currencyService } from "../services/currencyService";
+
+// ?currency= picks the currency figures are converted into. A bad code is answered here with a 400
+// and undefined is returned.
+async function reportingCurrency(req: Request, res: Response): Promise<string | undefined> {
+  try {
+    return await currencyService.resolveReportingCurrency(req.query.currency);
+  } catch (err: any) {
+    res.status(400).json({ message: err.message });
+    return undefined;
+  }
+}
 
 export const analyticsController = {
   async getTotalBudgetVsSpent(req: Request, res: Response) {
+    const currency = await reportingCurrency(req, res);
+    if (!currency) return;
+
     try {
       const dateRange = req.query.dateRange as string | undefined;
-      const data = await analyticsService.getTotalBudgetVsSpent(dateRange);
+      const data = await analyticsService.getTotalBudgetVsSpent(dateRange, currency);
       res.json(data);
     } catch (err: any) {
       console.error(err);
@@ -15,9 +30,25 @@ export const analyticsController = {
     }
   },
 
+  async getCategoryBudgetVsSpent(req: Request, res: Response) {
+    const currency = await reportingCurrency(req, res);
+    if (!currency) return;
+
+    try {
+      const data = await analyticsService.getCategoryBudgetVsSpent(currency);
+      res.json(data);
+    } catch (err: any) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to get category budget vs spent data" });
+    }
+  },
+
   async getMonthlySpendingTrends(req: Request, res: Response) {
+    const currency = await reportingCurrency(req, res);
+    if (!currency) return;
+
     try {
-      const data = await analyticsService.getMonthlySpendingTrends();
+      const data = await analyticsService.getMonthlySpendingTrends(currency);
       res.json(data);
     } catch (err: any) {
       console.error(err);
@@ -26,8 +57,11 @@ export const analyticsController = {
   },
 
   async getSpendingByCategory(req: Request, res: Response) {
+    const currency = await reportingCurrency(req, res);
+    if (!currency) return;
+
     try {
-      const data = await analyticsService.getSpendingByCategory();
+      const data = await analyticsService.getSpendingByCategory(currency);
       res.json(data);
     } catch (err: any) {
       console.error(err);
@@ -46,12 +80,15 @@ export const analyticsController = {
   },
 
   async getSpendingByEmployee(req: Request, res: Response) {
+    const currency = await reportingCurrency(req, res);
+    if (!currency) return;
+
     try {
-      const data = await analyticsService.getSpendingByEmployee();
+      const data = await analyticsService.getSpendingByEmployee(currency);
       res.json(data);
     } catch (err: any) {
       console.error(err);
       res.status(500).json({ message: "Failed to get spending by employee data" });
     }
   },
-};
\ No newline at end of file
+};
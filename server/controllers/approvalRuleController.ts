@@ -0,0 +1,40 @@
+// server/controllers/approvalRuleController.ts
+
+import { Response } from "express";
+import { approvalPolicyService } from "../services/approvalPolicyService";
+import { approvalRuleFormSchema } from "@shared/schema";
+import { AuthenticatedRequest } from "../middleware/authMiddleware";
+
+export const approvalRuleController = {
+  async getApprovalRules(req: AuthenticatedRequest, res: Response) {
+    try {
+      const rules = await approvalPolicyService.getApprovalRules();
+      res.json(rules);
+    } catch (err: any) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to get approval rules" });
+    }
+  },
+
+  async createApprovalRule(req: AuthenticatedRequest, res: Response) {
+    try {
+      const parsed = approvalRuleFormSchema.parse(req.body);
+      const newRule = await approvalPolicyService.createApprovalRule({ ...parsed, createdById: req.user!.id });
+      res.status(201).json(newRule);
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
+  async deleteApprovalRule(req: AuthenticatedRequest, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      await approvalPolicyService.deleteApprovalRule(id);
+      res.status(204).send();
+    } catch (err: any) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to delete approval rule" });
+    }
+  },
+};
@@ -1,10 +1,29 @@
 import { Request, Response } from "express";
 import { authService } from "../services/authService";
+import { SessionDevice, twoFactorLoginSchema } from "@shared/schema";
 
 const REFRESH_TOKEN_EXPIRY_DAYS = parseInt(process.env.REFRESH_TOKEN_EXPIRY_DAYS || "7", 10);
 
+// Shown in the user's session list so they can tell their devices apart
+function deviceOf(req: Request): SessionDevice {
+  return { userAgent: req.get("user-agent") ?? null, ipAddress: req.ip ?? null };
+}
+
+function setRefreshCookie(res: Response, refreshToken: string) {
+  res.cookie("refreshToken", refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    maxAge: REFRESH_TOKEN_EXPIRY_DAYS * 24 * 60 * 60 * 1000,
+  });
+}
+
 export const authController = {
   async register(req: Request, res: Response) {
+    if (!authService.isPublicRegistrationEnabled()) {
+      return res.status(403).json({ message: "Registration is by invitation only" });
+    }
+
     try {
       const user = await authService.register(req.body);
      
@@ -16,30 +35,63 @@ export const authController = {
 
   async login(req: Request, res: Response) {
     try {
-      const { accessToken, refreshToken } = await authService.login(req.body);
-      res.cookie("refreshToken", refreshToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === "production",
-        sameSite: "strict",
-        maxAge: 1000 * 60 * 60 * 24 * 7,
-      });
+      const result = await authService.login(req.body, deviceOf(req));
+      if ("twoFactor" in result) {
+        // No tokens yet: the client asks for the code, or for enrollment, and continues with the challenge
+        return res.json(result);
+      }
+      setRefreshCookie(res, result.refreshToken);
+      res.json({ accessToken: result.accessToken });
+    } catch (err: any) {
+      res.status(401).json({ message: err.message });
+    }
+  },
+
+  async loginTwoFactor(req: Request, res: Response) {
+    const parsed = twoFactorLoginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    try {
+      const { accessToken, refreshToken } = await authService.completeTwoFactorLogin(parsed.data, deviceOf(req));
+      setRefreshCookie(res, refreshToken);
       res.json({ accessToken });
     } catch (err: any) {
       res.status(401).json({ message: err.message });
     }
   },
 
+  async beginTwoFactorSetup(req: Request, res: Response) {
+    try {
+      const setup = await authService.beginTwoFactorSetupAtLogin(String(req.body?.challengeToken ?? ""));
+      res.json(setup);
+    } catch (err: any) {
+      res.status(401).json({ message: err.message });
+    }
+  },
+
+  async enableTwoFactor(req: Request, res: Response) {
+    const parsed = twoFactorLoginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    try {
+      const { accessToken, refreshToken, recoveryCodes } = await authService.enableTwoFactorAtLogin(parsed.data, deviceOf(req));
+      setRefreshCookie(res, refreshToken);
+      res.json({ accessToken, recoveryCodes });
+    } catch (err: any) {
+      res.status(401).json({ message: err.message });
+    }
+  },
+
   async refresh(req: Request, res: Response) {
     try {
-      const { accessToken, refreshToken } = await authService.refresh(req.cookies.refreshToken);
+      const { accessToken, refreshToken } = await authService.refresh(req.cookies.refreshToken, deviceOf(req));
 
       // Set the new refresh token in an HTTP-only cookie
-      res.cookie("refreshToken", refreshToken, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === "production", // Only set secure in production
-        sameSite: "strict", // Or 'lax' depending on your needs
-        expires: new Date(Date.now() + REFRESH_TOKEN_EXPIRY_DAYS * 24 * 60 * 60 * 1000),
-      });
+      setRefreshCookie(res, refreshToken);
 
       res.json({ accessToken });
     } catch (err: any) {
@@ -2,7 +2,9 @@
 
 import { Request, Response } from "express";
 import { clientService } from "../services/clientService";
-import { insertClientSchema } from "@shared/schema";
+import { clientMergeSchema, clientTransferSchema, clientUpdateSchema, insertClientSchema } from "@shared/schema";
+import { AuthenticatedRequest } from "../middleware/authMiddleware";
+import { policy } from "../policy";
 
 export const clientController = {
   async getClient(req: Request, res: Response) {
@@ -23,7 +25,8 @@ export const clientController = {
 
   async getClients(req: Request, res: Response) {
     try {
-      const clients = await clientService.getClients();
+      const includeInactive = req.query.includeInactive === "true";
+      const clients = await clientService.getClients(includeInactive);
       res.json(clients);
     } catch (err: any) {
       console.error(err);
@@ -42,10 +45,11 @@ export const clientController = {
     }
   },
 
-  async createClient(req: Request, res: Response) {
+  async createClient(req: AuthenticatedRequest, res: Response) {
     try {
- 
-      const parsed = insertClientSchema.parse(req.body); 
+      // Salespeople own the clients they create; reviewers may create clients on someone's behalf
+      const body = policy.isReviewer(req.user!) ? req.body : { ...req.body, createdById: req.user!.id };
+      const parsed = insertClientSchema.parse(body);
       const newClient = await clientService.createClient(parsed);
       res.status(201).json(newClient);
     } catch (err: any) {
@@ -53,4 +57,108 @@ export const clientController = {
       res.status(400).json({ message: err.message });
     }
   },
+
+  async updateClient(req: AuthenticatedRequest, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const client = await clientService.getClient(id);
+
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      if (!policy.canManageClient(req.user!, client)) {
+        return res.status(403).json({ message: "Forbidden: you cannot edit this client" });
+      }
+
+      const changes = clientUpdateSchema.parse(req.body);
+      const updatedClient = await clientService.updateClient(client, changes, req.user!.id);
+      res.json(updatedClient);
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
+  async transferClient(req: AuthenticatedRequest, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const client = await clientService.getClient(id);
+
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      if (!policy.canManageClient(req.user!, client)) {
+        return res.status(403).json({ message: "Forbidden: you cannot edit this client" });
+      }
+
+      const { createdById } = clientTransferSchema.parse(req.body);
+      const updatedClient = await clientService.transferClient(client, createdById, req.user!.id);
+      res.json(updatedClient);
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
+  async deactivateClient(req: AuthenticatedRequest, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const client = await clientService.getClient(id);
+
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      if (!policy.canManageClient(req.user!, client)) {
+        return res.status(403).json({ message: "Forbidden: you cannot edit this client" });
+      }
+
+      const updatedClient = await clientService.deactivateClient(client, req.user!.id);
+      res.json(updatedClient);
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
+  async reactivateClient(req: AuthenticatedRequest, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const client = await clientService.getClient(id);
+
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      if (!policy.canManageClient(req.user!, client)) {
+        return res.status(403).json({ message: "Forbidden: you cannot edit this client" });
+      }
+
+      const updatedClient = await clientService.reactivateClient(client, req.user!.id);
+      res.json(updatedClient);
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
+  // Merges the client in the body into the client in the route
+  async mergeClient(req: AuthenticatedRequest, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const { sourceClientId } = clientMergeSchema.parse(req.body);
+      const [target, source] = await Promise.all([
+        clientService.getClient(id),
+        clientService.getClient(sourceClientId),
+      ]);
+
+      if (!target || !source) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+
+      const mergedClient = await clientService.mergeClients(source, target, req.user!.id);
+      res.json(mergedClient);
+    } catch (err: any) {
+      console.error(err);
+      res.status(err.status ?? 400).json({ message: err.message });
+    }
+  },
 };
\ No newline at end of file
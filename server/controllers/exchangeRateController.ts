@@ -0,0 +1,56 @@
+// server/controllers/exchangeRateController.ts
+
+import { Response } from "express";
+import { currencyService } from "../services/currencyService";
+import { exchangeRateFormSchema } from "@shared/schema";
+import { AuthenticatedRequest } from "../middleware/authMiddleware";
+
+export const exchangeRateController = {
+  async getExchangeRates(req: AuthenticatedRequest, res: Response) {
+    try {
+      const rates = await currencyService.getExchangeRates();
+      res.json(rates);
+    } catch (err: any) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to get exchange rates" });
+    }
+  },
+
+  async saveExchangeRate(req: AuthenticatedRequest, res: Response) {
+    try {
+      const parsed = exchangeRateFormSchema.parse(req.body);
+      const rate = await currencyService.saveExchangeRate(parsed, req.user!.id);
+      res.json(rate);
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
+  async importExchangeRates(req: AuthenticatedRequest, res: Response) {
+    if (!req.file) {
+      return res.status(400).json({ message: 'Upload one CSV file in the "file" field' });
+    }
+
+    try {
+      const rates = await currencyService.importExchangeRates(req.file.buffer.toString("utf8"), req.user!.id);
+      res.json(rates);
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
+  async deleteExchangeRate(req: AuthenticatedRequest, res: Response) {
+    try {
+      const rate = await currencyService.deleteExchangeRate(req.params.currency.toUpperCase());
+      if (!rate) {
+        return res.status(404).json({ message: "Exchange rate not found" });
+      }
+      res.status(204).send();
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+};
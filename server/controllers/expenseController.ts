@@ -2,7 +2,11 @@
 
 import { Request, Response } from "express";
 import { expenseService } from "../services/expenseService";
-import { ExpenseStatusType } from "@shared/schema";
+import { ExpenseStatus, ExpenseStatusType, bulkReviewSchema, expenseFormSchema, expenseEditSchema, expenseImportSchema, expenseQuerySchema } from "@shared/schema";
+import { AuthenticatedRequest } from "../middleware/authMiddleware";
+import { policy } from "../policy";
+import { projectService } from "../services/projectService";
+import { expenseImportService } from "../services/expenseImportService";
 
 export const expenseController = {
   async getExpense(req: Request, res: Response) {
@@ -21,21 +25,30 @@ export const expenseController = {
     }
   },
 
-  async getExpenses(req: Request, res: Response) {
+  async getExpenses(req: AuthenticatedRequest, res: Response) {
+    const parsed = expenseQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
     try {
-      const expenses = await expenseService.getExpenses();
-      res.json(expenses);
+      const page = await expenseService.queryExpenses(req.user!, parsed.data);
+      res.json(page);
     } catch (err: any) {
       console.error(err);
       res.status(500).json({ message: "Failed to get expenses" });
     }
   },
 
-  async getExpensesByProject(req: Request, res: Response) {
+  async getExpensesByProject(req: AuthenticatedRequest, res: Response) {
+    const parsed = expenseQuerySchema.safeParse({ ...req.query, projectId: req.params.projectId });
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
     try {
-      const projectId = parseInt(req.params.projectId, 10);
-      const expenses = await expenseService.getExpensesByProject(projectId);
-      res.json(expenses);
+      const page = await expenseService.queryExpenses(req.user!, parsed.data);
+      res.json(page);
     } catch (err: any) {
       console.error(err);
       res.status(500).json({ message: "Failed to get expenses by project" });
@@ -65,9 +78,35 @@ export const expenseController = {
     }
   },
 
-  async createExpense(req: Request, res: Response) {
+  async createExpense(req: AuthenticatedRequest, res: Response) {
+    const parsed = expenseFormSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
     try {
-      const newExpense = await expenseService.createExpense(req.body);
+      const project = await projectService.getProject(parsed.data.projectId);
+
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (!(await policy.canViewProject(req.user!, project))) {
+        return res.status(403).json({ message: "Forbidden: you cannot view this project" });
+      }
+      if (project.archivedAt) {
+        return res.status(400).json({ message: "Archived projects do not accept new expenses" });
+      }
+
+      // Expenses are always submitted by the authenticated user, in the project's currency unless another is given,
+      // and start pending like imported ones: only the approval chain decides them
+      const newExpense = await expenseService.createExpense({
+        ...parsed.data,
+        currency: parsed.data.currency || project.currency,
+        status: ExpenseStatus.PENDING,
+        submittedById: req.user!.id,
+        reviewedById: null,
+        feedback: null,
+      });
       res.status(201).json(newExpense);
     } catch (err: any) {
       console.error(err);
@@ -75,15 +114,181 @@ export const expenseController = {
     }
   },
 
-  async updateExpenseStatus(req: Request, res: Response) {
+  // Nothing is written here; the client shows the preview and sends back the rows to import
+  async previewImport(req: AuthenticatedRequest, res: Response) {
+    if (!req.file) {
+      return res.status(400).json({ message: 'Upload one CSV file in the "file" field' });
+    }
+
+    try {
+      const preview = await expenseImportService.previewImport(req.user!, req.file.buffer.toString("utf8"));
+      res.json(preview);
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
+  async importExpenses(req: AuthenticatedRequest, res: Response) {
+    const parsed = expenseImportSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      const row = typeof issue.path[1] === "number" ? `Row ${issue.path[1] + 1}: ` : "";
+      return res.status(400).json({ message: row + issue.message });
+    }
+
+    try {
+      // Imported expenses are always submitted by the authenticated user
+      const created = await expenseImportService.importExpenses(req.user!, parsed.data.rows);
+      res.status(201).json(created);
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
+  async updateExpenseStatus(req: AuthenticatedRequest, res: Response) {
     try {
       const id = parseInt(req.params.id, 10);
-      const { status, reviewedById, feedback } = req.body;
-      const updatedExpense = await expenseService.updateExpenseStatus(id, status, reviewedById, feedback);
+      const { status, feedback } = req.body;
+      const expense = await expenseService.getExpense(id);
+
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      if (!(await expenseService.canReviewExpense(req.user!, expense))) {
+        return res.status(403).json({ message: "Forbidden: you cannot review the current approval step" });
+      }
+
+      // The reviewer is always the authenticated user, never a value from the body
+      const updatedExpense = await expenseService.reviewExpense(expense, status, req.user!, feedback);
       res.json(updatedExpense);
     } catch (err: any) {
       console.error(err);
-      res.status(400).json({ message: err.message });
+      res.status(err.status ?? 400).json({ message: err.message });
+    }
+  },
+
+  // 200 when every expense was reviewed; 409 with the per-expense reasons when none were
+  async bulkReviewExpenses(req: AuthenticatedRequest, res: Response) {
+    const parsed = bulkReviewSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    try {
+      const { expenseIds, status, feedback } = parsed.data;
+      // The reviewer is always the authenticated user, never a value from the body
+      const result = await expenseService.bulkReviewExpenses(expenseIds, status, req.user!, feedback);
+      if (!result.applied) {
+        return res.status(409).json({ message: "Some expenses cannot be reviewed, so none were changed", ...result });
+      }
+      res.json(result);
+    } catch (err: any) {
+      console.error(err);
+      res.status(err.status ?? 400).json({ message: err.message });
+    }
+  },
+
+  async editExpense(req: AuthenticatedRequest, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const expense = await expenseService.getExpense(id);
+
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      if (expense.submittedById !== req.user!.id) {
+        return res.status(403).json({ message: "Forbidden: only the submitter can edit this expense" });
+      }
+
+      const changes = expenseEditSchema.parse(req.body);
+      const updatedExpense = await expenseService.editExpense(expense, req.user!.id, changes);
+      res.json(updatedExpense);
+    } catch (err: any) {
+      console.error(err);
+      res.status(err.status ?? 400).json({ message: err.message });
+    }
+  },
+
+  async resubmitExpense(req: AuthenticatedRequest, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const expense = await expenseService.getExpense(id);
+
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      if (expense.submittedById !== req.user!.id) {
+        return res.status(403).json({ message: "Forbidden: only the submitter can resubmit this expense" });
+      }
+
+      const changes = expenseEditSchema.parse(req.body ?? {});
+      const updatedExpense = await expenseService.resubmitExpense(expense, req.user!.id, changes);
+      res.json(updatedExpense);
+    } catch (err: any) {
+      console.error(err);
+      res.status(err.status ?? 400).json({ message: err.message });
+    }
+  },
+
+  async withdrawExpense(req: AuthenticatedRequest, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const expense = await expenseService.getExpense(id);
+
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      if (expense.submittedById !== req.user!.id) {
+        return res.status(403).json({ message: "Forbidden: only the submitter can withdraw this expense" });
+      }
+
+      const updatedExpense = await expenseService.withdrawExpense(expense, req.user!.id);
+      res.json(updatedExpense);
+    } catch (err: any) {
+      console.error(err);
+      res.status(err.status ?? 400).json({ message: err.message });
+    }
+  },
+
+  async getExpenseVersions(req: AuthenticatedRequest, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const expense = await expenseService.getExpense(id);
+
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      if (!(await policy.canViewExpense(req.user!, expense))) {
+        return res.status(403).json({ message: "Forbidden: you cannot view this expense" });
+      }
+
+      const versions = await expenseService.getExpenseVersions(id);
+      res.json(versions);
+    } catch (err: any) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to get expense history" });
+    }
+  },
+
+  async getApprovalSteps(req: AuthenticatedRequest, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const expense = await expenseService.getExpense(id);
+
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      if (!(await policy.canViewExpense(req.user!, expense))) {
+        return res.status(403).json({ message: "Forbidden: you cannot view this expense" });
+      }
+
+      const steps = await expenseService.getApprovalSteps(expense);
+      res.json(steps);
+    } catch (err: any) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to get approval steps" });
     }
   },
-};
\ No newline at end of file
+};
@@ -0,0 +1,85 @@
+// server/controllers/exportController.ts
+
+import { Response } from "express";
+import { expenseQuerySchema } from "@shared/schema";
+import { AuthenticatedRequest } from "../middleware/authMiddleware";
+import { parseExportFormat, sendExport } from "../export";
+import {
+  analyticsExports,
+  expenseExportColumns,
+  exportService,
+  projectExportColumns,
+} from "../services/exportService";
+import { currencyService } from "../services/currencyService";
+
+// Once streaming has started the status line is gone, so a failure can only cut the download short
+function failExport(res: Response, err: unknown, message: string) {
+  console.error(err);
+  if (res.headersSent) {
+    res.destroy();
+  } else {
+    res.status(500).json({ message });
+  }
+}
+
+export const exportController = {
+  async exportExpenses(req: AuthenticatedRequest, res: Response) {
+    const format = parseExportFormat(req.query.format);
+    if (!format) {
+      return res.status(400).json({ message: "format must be csv or xlsx" });
+    }
+    // Same filters and sort as the expense listing; paging is ignored
+    const parsed = expenseQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    try {
+      await sendExport(res, format, "expenses", expenseExportColumns, exportService.expenseRows(req.user!, parsed.data));
+    } catch (err: any) {
+      failExport(res, err, "Failed to export expenses");
+    }
+  },
+
+  async exportProjects(req: AuthenticatedRequest, res: Response) {
+    const format = parseExportFormat(req.query.format);
+    if (!format) {
+      return res.status(400).json({ message: "format must be csv or xlsx" });
+    }
+
+    try {
+      const rows = await exportService.projectRows(req.user!, {
+        search: req.query.search as string | undefined,
+        status: req.query.status as string | undefined,
+        dateRange: req.query.dateRange as string | undefined,
+      });
+      await sendExport(res, format, "projects", projectExportColumns, [rows]);
+    } catch (err: any) {
+      failExport(res, err, "Failed to export projects");
+    }
+  },
+
+  async exportAnalytics(req: AuthenticatedRequest, res: Response) {
+    const format = parseExportFormat(req.query.format);
+    if (!format) {
+      return res.status(400).json({ message: "format must be csv or xlsx" });
+    }
+    const dataset = analyticsExports[req.params.dataset];
+    if (!dataset) {
+      return res.status(404).json({ message: "Unknown analytics dataset" });
+    }
+    let currency: string;
+    try {
+      currency = await currencyService.resolveReportingCurrency(req.query.currency);
+    } catch (err: any) {
+      return res.status(400).json({ message: err.message });
+    }
+
+    try {
+      const rows = await dataset.load({ dateRange: req.query.dateRange as string | undefined, currency });
+      await sendExport(res, format, dataset.filename, dataset.columns, [rows]);
+    } catch (err: any) {
+      failExport(res, err, "Failed to export analytics");
+    }
+  },
+};
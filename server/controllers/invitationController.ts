@@ -0,0 +1,106 @@
+// server/controllers/invitationController.ts
+
+import { Request, Response } from "express";
+import { invitationService } from "../services/invitationService";
+import { AuthenticatedRequest } from "../middleware/authMiddleware";
+import { acceptInvitationSchema, Invitation, invitationFormSchema, invitationStatus, InvitationStatus } from "@shared/schema";
+
+// Links that were used, revoked or have run out are gone for good, which 410 says better than 404
+function invalidInvitationMessage(invitation: Invitation): string | undefined {
+  switch (invitationStatus(invitation)) {
+    case InvitationStatus.ACCEPTED:
+      return "This invitation has already been used";
+    case InvitationStatus.REVOKED:
+      return "This invitation has been withdrawn";
+    case InvitationStatus.EXPIRED:
+      return "This invitation has expired";
+  }
+}
+
+export const invitationController = {
+  async getInvitations(req: AuthenticatedRequest, res: Response) {
+    try {
+      const invitations = await invitationService.getInvitations();
+      res.json(invitations);
+    } catch (err: any) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to get invitations" });
+    }
+  },
+
+  async createInvitation(req: AuthenticatedRequest, res: Response) {
+    const parsed = invitationFormSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    try {
+      const { invitation: { tokenHash, ...invitation }, token } = await invitationService.createInvitation(parsed.data, req.user!.id);
+      res.status(201).json({ invitation, token });
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
+  async revokeInvitation(req: AuthenticatedRequest, res: Response) {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      return res.status(400).json({ message: "Invalid invitation ID" });
+    }
+
+    try {
+      const invitation = await invitationService.getInvitation(id);
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      await invitationService.revokeInvitation(id);
+      res.status(204).send();
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
+  // Public: what the invite link is for, so the page can show it before the account is made
+  async getInvitationPreview(req: Request, res: Response) {
+    try {
+      const invitation = await invitationService.getInvitationByToken(req.params.token);
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      const invalid = invalidInvitationMessage(invitation);
+      if (invalid) {
+        return res.status(410).json({ message: invalid });
+      }
+      res.json(await invitationService.getPreview(invitation));
+    } catch (err: any) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to get invitation" });
+    }
+  },
+
+  // Public: creates the account; the new user then signs in as usual
+  async acceptInvitation(req: Request, res: Response) {
+    const parsed = acceptInvitationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    try {
+      const invitation = await invitationService.getInvitationByToken(req.params.token);
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      const invalid = invalidInvitationMessage(invitation);
+      if (invalid) {
+        return res.status(410).json({ message: invalid });
+      }
+      const user = await invitationService.acceptInvitation(invitation, parsed.data);
+      res.status(201).json(user);
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+};
@@ -1,19 +1,71 @@
 // server/controllers/notificationController.ts
-import { Request, Response } from 'express';
+import { Response } from 'express';
 import { notificationService } from '../services/notificationService';
+import { AuthenticatedRequest } from '../middleware/authMiddleware';
+import { notificationPreferencesSchema } from '@shared/schema';
 
 export const notificationController = {
-  async getUnreadNotifications(req: Request, res: Response) {
+  async getUnreadNotifications(req: AuthenticatedRequest, res: Response) {
     try {
-      const userId = parseInt(req.query.userId as string); 
-      if (isNaN(userId)) {
-        return res.status(400).json({ message: "Invalid userId" });
-      }
-      const notifications = await notificationService.getUnreadNotifications(userId);
+      const notifications = await notificationService.getUnreadNotifications(req.user!.id);
       res.json(notifications);
     } catch (error: any) {
       console.error("Error fetching unread notifications:", error);
       res.status(500).json({ message: "Failed to fetch unread notifications" });
     }
-  }
-};
\ No newline at end of file
+  },
+
+  async markNotificationRead(req: AuthenticatedRequest, res: Response) {
+    try {
+      const activityLogId = parseInt(req.params.id, 10);
+      if (isNaN(activityLogId)) {
+        return res.status(400).json({ message: "Invalid notification ID" });
+      }
+
+      const marked = await notificationService.markNotificationRead(req.user!.id, activityLogId);
+      if (!marked) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+
+      res.json({ message: "Notification marked as read" });
+    } catch (error: any) {
+      console.error("Error marking notification as read:", error);
+      res.status(500).json({ message: "Failed to mark notification as read" });
+    }
+  },
+
+  async markAllNotificationsRead(req: AuthenticatedRequest, res: Response) {
+    try {
+      await notificationService.markAllNotificationsRead(req.user!.id);
+      res.json({ message: "All notifications marked as read" });
+    } catch (error: any) {
+      console.error("Error marking all notifications as read:", error);
+      res.status(500).json({ message: "Failed to mark notifications as read" });
+    }
+  },
+
+  async getPreferences(req: AuthenticatedRequest, res: Response) {
+    try {
+      const preferences = await notificationService.getPreferences(req.user!.id);
+      res.json(preferences);
+    } catch (error: any) {
+      console.error("Error fetching notification preferences:", error);
+      res.status(500).json({ message: "Failed to fetch notification preferences" });
+    }
+  },
+
+  async savePreferences(req: AuthenticatedRequest, res: Response) {
+    const parsed = notificationPreferencesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    try {
+      const preferences = await notificationService.savePreferences(req.user!.id, parsed.data);
+      res.json(preferences);
+    } catch (error: any) {
+      console.error("Error saving notification preferences:", error);
+      res.status(400).json({ message: error.message });
+    }
+  },
+};
@@ -0,0 +1,91 @@
+// server/controllers/passwordResetController.ts
+
+import { Request, Response } from "express";
+import { passwordResetService } from "../services/passwordResetService";
+import { userService } from "../services/userService";
+import { AuthenticatedRequest } from "../middleware/authMiddleware";
+import { forgotPasswordSchema, passwordResetSchema, PasswordResetToken } from "@shared/schema";
+
+// As with invitations, a used or expired link is gone for good, which 410 says better than 404
+function invalidResetMessage(resetToken: PasswordResetToken): string | undefined {
+  if (resetToken.usedAt) return "This link has already been used";
+  if (new Date(resetToken.expiresAt) <= new Date()) return "This link has expired";
+}
+
+export const passwordResetController = {
+  // Public: always the same answer, whether or not the address belongs to anyone
+  async forgotPassword(req: Request, res: Response) {
+    const parsed = forgotPasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    try {
+      await passwordResetService.requestReset(parsed.data.email);
+      res.status(202).json({ message: "If that address belongs to an account, a reset link is on its way" });
+    } catch (err: any) {
+      console.error(err);
+      res.status(500).json({ message: "Could not start the password reset" });
+    }
+  },
+
+  // Public: lets the reset page say the link is no good before the user types a new password
+  async getReset(req: Request, res: Response) {
+    try {
+      const resetToken = await passwordResetService.getTokenByValue(req.params.token);
+      if (!resetToken) {
+        return res.status(404).json({ message: "Reset link not found" });
+      }
+      const invalid = invalidResetMessage(resetToken);
+      if (invalid) {
+        return res.status(410).json({ message: invalid });
+      }
+      res.json({ expiresAt: resetToken.expiresAt });
+    } catch (err: any) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to get reset link" });
+    }
+  },
+
+  // Public: sets the new password and signs the user out everywhere; they then sign in as usual
+  async resetPassword(req: Request, res: Response) {
+    const parsed = passwordResetSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    try {
+      const resetToken = await passwordResetService.getTokenByValue(req.params.token);
+      if (!resetToken) {
+        return res.status(404).json({ message: "Reset link not found" });
+      }
+      const invalid = invalidResetMessage(resetToken);
+      if (invalid) {
+        return res.status(410).json({ message: invalid });
+      }
+      await passwordResetService.resetPassword(resetToken, parsed.data.password);
+      res.json({ message: "Password reset" });
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
+  async sendResetLink(req: AuthenticatedRequest, res: Response) {
+    try {
+      const user = await userService.getUser(parseInt(req.params.id, 10));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const admin = await userService.getUser(req.user!.id);
+      if (!admin) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const result = await passwordResetService.sendResetLink(user, admin);
+      res.status(201).json(result);
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+};
@@ -2,7 +2,14 @@
 
 import { Request, Response } from "express";
 import { projectService } from "../services/projectService";
-import { UserRoleType } from "@shared/schema";
+import { clientService } from "../services/clientService";
+import { userService } from "../services/userService";
+import { budgetService } from "../services/budgetService";
+import { AuthenticatedRequest } from "../middleware/authMiddleware";
+import { policy } from "../policy";
+import {
+  budgetRevisionSchema, categoryBudgetCheckSchema, categoryBudgetsSchema, projectAssignmentFormSchema, projectFormSchema, projectStatusUpdateSchema, projectUpdateSchema,
+} from "@shared/schema";
 
 export const projectController = {
   async getProject(req: Request, res: Response) {
@@ -21,43 +28,67 @@ export const projectController = {
     }
   },
 
-  async getProjects(req: Request, res: Response) {
+  async getProjects(req: AuthenticatedRequest, res: Response) {
     try {
       const dateRange = req.query.dateRange as string | undefined;
-      const projects = await projectService.getProjects(dateRange);
-      res.json(projects);
+      const includeArchived = req.query.includeArchived === "true";
+      const projects = await projectService.getProjects(dateRange, includeArchived);
+      res.json(await policy.filterProjects(req.user!, projects));
     } catch (err: any) {
       console.error(err);
       res.status(500).json({ message: "Failed to get projects" });
     }
   },
 
-  async getProjectsByUser(req: Request, res: Response) {
+  async getProjectsByUser(req: AuthenticatedRequest, res: Response) {
     try {
       const userId = parseInt(req.params.userId, 10);
-      const userRole = req.query.userRole as UserRoleType; // Assuming userRole is passed as a query parameter
-      const projects = await projectService.getProjectsByUser(userId, userRole);
-      res.json(projects);
+      // The user's own role decides what they own, not a role the caller passes in
+      const user = await userService.getUser(userId);
+
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const projects = await projectService.getProjectsByUser(userId, user.role);
+      res.json(await policy.filterProjects(req.user!, projects));
     } catch (err: any) {
       console.error(err);
       res.status(500).json({ message: "Failed to get projects by user" });
     }
   },
 
-  async getProjectsByClient(req: Request, res: Response) {
+  async getProjectsByClient(req: AuthenticatedRequest, res: Response) {
     try {
       const clientId = parseInt(req.params.clientId, 10);
       const projects = await projectService.getProjectsByClient(clientId);
-      res.json(projects);
+      res.json(await policy.filterProjects(req.user!, projects));
     } catch (err: any) {
       console.error(err);
       res.status(500).json({ message: "Failed to get projects by client" });
     }
   },
 
-  async createProject(req: Request, res: Response) {
+  async createProject(req: AuthenticatedRequest, res: Response) {
+    const parsed = projectFormSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
     try {
-      const newProject = await projectService.createProject(req.body);
+      const client = await clientService.getClient(parsed.data.clientId);
+
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      if (!(await policy.canViewClient(req.user!, client))) {
+        return res.status(403).json({ message: "Forbidden: you cannot view this client" });
+      }
+      if (client.deactivatedAt) {
+        return res.status(400).json({ message: "Deactivated clients cannot take new projects" });
+      }
+
+      const newProject = await projectService.createProject({ ...parsed.data, createdById: req.user!.id });
       res.status(201).json(newProject);
     } catch (err: any) {
       console.error(err);
@@ -65,11 +96,198 @@ export const projectController = {
     }
   },
 
-  async updateProjectStatus(req: Request, res: Response) {
+  async updateProjectStatus(req: AuthenticatedRequest, res: Response) {
+    const parsed = projectStatusUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    try {
+      const id = parseInt(req.params.id, 10);
+      const project = await projectService.getProject(id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const updatedProject = await projectService.updateProjectStatus(id, parsed.data.status, req.user!.id);
+      res.json(updatedProject);
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
+  async updateProject(req: AuthenticatedRequest, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const project = await projectService.getProject(id);
+
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (!policy.canManageProject(req.user!, project)) {
+        return res.status(403).json({ message: "Forbidden: you cannot edit this project" });
+      }
+
+      const changes = projectUpdateSchema.parse(req.body);
+
+      // Moving a project to another client needs the same access to that client as creating it there
+      if (changes.clientId !== undefined && changes.clientId !== project.clientId) {
+        const client = await clientService.getClient(changes.clientId);
+        if (!client) {
+          return res.status(404).json({ message: "Client not found" });
+        }
+        if (!(await policy.canViewClient(req.user!, client))) {
+          return res.status(403).json({ message: "Forbidden: you cannot view this client" });
+        }
+        if (client.deactivatedAt) {
+          return res.status(400).json({ message: "Deactivated clients cannot take new projects" });
+        }
+      }
+
+      const updatedProject = await projectService.updateProject(id, changes, req.user!.id);
+      res.json(updatedProject);
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
+  async getBudgetRevisions(req: Request, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const revisions = await projectService.getBudgetRevisions(id);
+      res.json(revisions);
+    } catch (err: any) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to get budget revisions" });
+    }
+  },
+
+  async getBudgetForecast(req: Request, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const project = await projectService.getProject(id);
+
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      res.json(await projectService.getBudgetForecast(project));
+    } catch (err: any) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to get budget forecast" });
+    }
+  },
+
+  async getBudgetForecasts(req: AuthenticatedRequest, res: Response) {
+    try {
+      const projects = await policy.filterProjects(req.user!, await projectService.getProjects());
+      res.json(await projectService.getBudgetForecasts(projects));
+    } catch (err: any) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to get budget forecasts" });
+    }
+  },
+
+  async reviseBudget(req: AuthenticatedRequest, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const project = await projectService.getProject(id);
+
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (!policy.canManageProject(req.user!, project)) {
+        return res.status(403).json({ message: "Forbidden: you cannot edit this project" });
+      }
+
+      const revision = budgetRevisionSchema.parse(req.body);
+      const updatedProject = await projectService.reviseBudget(project, revision, req.user!.id);
+      res.status(201).json(updatedProject);
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
+  async getCategoryBudgets(req: Request, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      res.json(await budgetService.getCategoryBreakdown(id));
+    } catch (err: any) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to get category budgets" });
+    }
+  },
+
+  async setCategoryBudgets(req: AuthenticatedRequest, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const project = await projectService.getProject(id);
+
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (!policy.canManageProject(req.user!, project)) {
+        return res.status(403).json({ message: "Forbidden: you cannot edit this project" });
+      }
+
+      const { lines } = categoryBudgetsSchema.parse(req.body);
+      res.json(await budgetService.setCategoryBudgets(project, lines, req.user!.id));
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
+  // Lets the expense forms warn before an expense pushes its category line over budget
+  async checkCategoryBudget(req: Request, res: Response) {
+    const parsed = categoryBudgetCheckSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    try {
+      const id = parseInt(req.params.id, 10);
+      const project = await projectService.getProject(id);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      res.json(await budgetService.checkCategoryBudget(project, parsed.data));
+    } catch (err: any) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to check category budget" });
+    }
+  },
+
+  async archiveProject(req: AuthenticatedRequest, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const project = await projectService.getProject(id);
+
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const updatedProject = await projectService.archiveProject(project, req.user!.id);
+      res.json(updatedProject);
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
+  async unarchiveProject(req: AuthenticatedRequest, res: Response) {
     try {
       const id = parseInt(req.params.id, 10);
-      const status = req.body.status as string; // Assuming status is passed in the request body
-      const updatedProject = await projectService.updateProjectStatus(id, status);
+      const project = await projectService.getProject(id);
+
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const updatedProject = await projectService.unarchiveProject(project, req.user!.id);
       res.json(updatedProject);
     } catch (err: any) {
       console.error(err);
@@ -77,6 +295,26 @@ export const projectController = {
     }
   },
 
+  async deleteProject(req: AuthenticatedRequest, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const project = await projectService.getProject(id);
+
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      if (await projectService.hasExpenses(id)) {
+        return res.status(409).json({ message: "This project has expenses and cannot be deleted. Archive it instead." });
+      }
+
+      const deletedProject = await projectService.deleteProject(id, req.user!.id);
+      res.json(deletedProject);
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
   // Project Assignments table 
   async getAssignedProjects(req: Request, res: Response) {
     try {
@@ -93,4 +331,51 @@ export const projectController = {
       res.status(500).json({ message: "Failed to fetch assigned projects" });
     }
   },
-};
\ No newline at end of file
+
+  async getProjectAssignments(req: Request, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const assignments = await projectService.getProjectAssignments(id);
+      res.json(assignments);
+    } catch (err: any) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to get project team" });
+    }
+  },
+
+  async assignUser(req: AuthenticatedRequest, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const project = await projectService.getProject(id);
+
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const form = projectAssignmentFormSchema.parse(req.body);
+      const assignment = await projectService.assignUser(project, form, req.user!.id);
+      res.status(201).json(assignment);
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
+  async removeAssignment(req: AuthenticatedRequest, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const assignmentId = parseInt(req.params.assignmentId, 10);
+      const assignment = await projectService.getProjectAssignment(assignmentId);
+
+      if (!assignment || assignment.projectId !== id) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+
+      const removed = await projectService.removeAssignment(assignment, req.user!.id);
+      res.json(removed);
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+};
@@ -0,0 +1,118 @@
+// server/controllers/receiptController.ts
+
+import { Response } from "express";
+import { receiptService } from "../services/receiptService";
+import { expenseService } from "../services/expenseService";
+import { AuthenticatedRequest } from "../middleware/authMiddleware";
+import { policy } from "../policy";
+
+export const receiptController = {
+  async getReceipts(req: AuthenticatedRequest, res: Response) {
+    try {
+      const expenseId = parseInt(req.params.id, 10);
+      const expense = await expenseService.getExpense(expenseId);
+
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      if (!(await policy.canViewExpense(req.user!, expense))) {
+        return res.status(403).json({ message: "Forbidden: you cannot view this expense" });
+      }
+
+      const receipts = await receiptService.getReceipts(expenseId);
+      res.json(receipts);
+    } catch (err: any) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to get receipts" });
+    }
+  },
+
+  async uploadReceipts(req: AuthenticatedRequest, res: Response) {
+    try {
+      const expenseId = parseInt(req.params.id, 10);
+      const expense = await expenseService.getExpense(expenseId);
+
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      if (!policy.canModifyExpense(req.user!, expense)) {
+        return res.status(403).json({ message: "Forbidden: you cannot change the receipts of this expense" });
+      }
+
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+      const receipts = await receiptService.uploadReceipts(
+        expenseId,
+        req.user!.id,
+        files.map((file) => ({ originalName: file.originalname, buffer: file.buffer })),
+      );
+      res.status(201).json(receipts);
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
+  async getReceiptFile(req: AuthenticatedRequest, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const receipt = await receiptService.getReceipt(id);
+      const expense = receipt && await expenseService.getExpense(receipt.expenseId);
+
+      if (!receipt || !expense) {
+        return res.status(404).json({ message: "Receipt not found" });
+      }
+      if (!(await policy.canViewExpense(req.user!, expense))) {
+        return res.status(403).json({ message: "Forbidden: you cannot view this expense" });
+      }
+
+      const stream = await receiptService.openReceipt(receipt);
+      res.setHeader("Content-Type", receipt.mimeType);
+      res.setHeader("Content-Length", receipt.size);
+      res.setHeader("Content-Disposition", `inline; filename="${encodeURIComponent(receipt.fileName)}"`);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Cache-Control", "private, no-store");
+      // Reading can still fail once the file is open. Before the first byte that is an error response;
+      // after it the only thing left to do is to cut the download off.
+      stream.on("error", (err: NodeJS.ErrnoException) => {
+        console.error(err);
+        if (res.headersSent) {
+          res.destroy(err);
+          return;
+        }
+        for (const header of ["Content-Type", "Content-Length", "Content-Disposition"]) res.removeHeader(header);
+        if (err.code === "ENOENT") {
+          res.status(404).json({ message: "Receipt file not found" });
+        } else {
+          res.status(500).json({ message: "Failed to get receipt file" });
+        }
+      });
+      // A client that goes away must not leave the file open
+      res.on("close", () => stream.destroy());
+      stream.pipe(res);
+    } catch (err: any) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to get receipt file" });
+    }
+  },
+
+  async deleteReceipt(req: AuthenticatedRequest, res: Response) {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const receipt = await receiptService.getReceipt(id);
+      const expense = receipt && await expenseService.getExpense(receipt.expenseId);
+
+      if (!receipt || !expense) {
+        return res.status(404).json({ message: "Receipt not found" });
+      }
+      if (!policy.canModifyExpense(req.user!, expense)) {
+        return res.status(403).json({ message: "Forbidden: you cannot change the receipts of this expense" });
+      }
+
+      await receiptService.deleteReceipt(receipt);
+      res.json({ message: "Receipt deleted" });
+    } catch (err: any) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to delete receipt" });
+    }
+  },
+};
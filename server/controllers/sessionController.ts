@@ -0,0 +1,66 @@
+// server/controllers/sessionController.ts
+
+import { Response } from "express";
+import { sessionService } from "../services/sessionService";
+import { userService } from "../services/userService";
+import { AuthenticatedRequest } from "../middleware/authMiddleware";
+import { policy } from "../policy";
+
+export const sessionController = {
+  async getSessions(req: AuthenticatedRequest, res: Response) {
+    try {
+      const sessions = await sessionService.getSessions(req.user!.id, req.user!.sessionId);
+      res.json(sessions);
+    } catch (err: any) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to get sessions" });
+    }
+  },
+
+  async revokeSession(req: AuthenticatedRequest, res: Response) {
+    try {
+      const session = await sessionService.getSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (!policy.canRevokeSession(req.user!, session)) {
+        return res.status(403).json({ message: "Forbidden: you cannot end this session" });
+      }
+      await sessionService.revokeSession(session.id);
+      res.status(204).send();
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
+  async getUserSessions(req: AuthenticatedRequest, res: Response) {
+    try {
+      const userId = parseInt(req.params.id, 10);
+      const user = await userService.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const sessions = await sessionService.getSessions(userId, req.user!.sessionId);
+      res.json(sessions);
+    } catch (err: any) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to get sessions" });
+    }
+  },
+
+  async revokeUserSessions(req: AuthenticatedRequest, res: Response) {
+    try {
+      const userId = parseInt(req.params.id, 10);
+      const user = await userService.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const revoked = await sessionService.revokeUserSessions(userId);
+      res.json({ revoked });
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+};
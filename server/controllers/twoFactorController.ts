@@ -0,0 +1,118 @@
+// server/controllers/twoFactorController.ts
+
+import { Response } from "express";
+import { twoFactorService } from "../services/twoFactorService";
+import { userService } from "../services/userService";
+import { AuthenticatedRequest } from "../middleware/authMiddleware";
+import { twoFactorCodeSchema, twoFactorPolicySchema } from "@shared/schema";
+
+export const twoFactorController = {
+  async getStatus(req: AuthenticatedRequest, res: Response) {
+    try {
+      const status = await twoFactorService.getStatus(req.user!);
+      res.json(status);
+    } catch (err: any) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to get two-factor status" });
+    }
+  },
+
+  async beginSetup(req: AuthenticatedRequest, res: Response) {
+    try {
+      const user = await userService.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const setup = await twoFactorService.beginSetup(user);
+      res.json(setup);
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
+  async enable(req: AuthenticatedRequest, res: Response) {
+    const parsed = twoFactorCodeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    try {
+      const recoveryCodes = await twoFactorService.enable(req.user!.id, parsed.data.code);
+      res.json({ recoveryCodes });
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
+  async regenerateRecoveryCodes(req: AuthenticatedRequest, res: Response) {
+    const parsed = twoFactorCodeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    try {
+      const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(req.user!.id, parsed.data.code);
+      res.json({ recoveryCodes });
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
+  async disable(req: AuthenticatedRequest, res: Response) {
+    const parsed = twoFactorCodeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    try {
+      await twoFactorService.disable(req.user!, parsed.data.code);
+      res.json({ message: "Two-factor authentication turned off" });
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
+  async resetUser(req: AuthenticatedRequest, res: Response) {
+    try {
+      const userId = parseInt(req.params.id, 10);
+      const user = await userService.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      await twoFactorService.reset(userId);
+      res.json({ message: "Two-factor authentication reset" });
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
+  async getPolicy(req: AuthenticatedRequest, res: Response) {
+    try {
+      const roles = await twoFactorService.getRequiredRoles();
+      res.json({ roles });
+    } catch (err: any) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to get the two-factor policy" });
+    }
+  },
+
+  async setPolicy(req: AuthenticatedRequest, res: Response) {
+    const parsed = twoFactorPolicySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    try {
+      const roles = await twoFactorService.setRequiredRoles(parsed.data.roles, req.user!.id);
+      res.json({ roles });
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+};
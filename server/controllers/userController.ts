@@ -3,6 +3,8 @@
 import { Request, Response } from "express";
 import { userService } from "../services/userService";
 import { AuthenticatedRequest } from "server/middleware/authMiddleware";
+import { policy } from "../policy";
+import { passwordChangeSchema, profileUpdateSchema } from "@shared/schema";
 
 export const userController = {
   async getUser(req: Request, res: Response) {
@@ -46,8 +48,8 @@ export const userController = {
     const userIdToDelete = parseInt(id);
     const authUser = req.user!;
 
-    if (authUser.role !== "admin" && authUser.id !== userIdToDelete) {
-      return res.status(403).json({ message: "Forbidden: You can only delete your own account." });
+    if (!policy.canDeleteUser(authUser, userIdToDelete)) {
+      return res.status(403).json({ message: "Forbidden: you cannot delete this user" });
     }
 
     try {
@@ -58,4 +60,49 @@ export const userController = {
       res.status(500).json({ message: "Internal server error" });
     }
   },
+
+  async getProfile(req: AuthenticatedRequest, res: Response) {
+    try {
+      const user = await userService.getUser(req.user!.id);
+
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json(user);
+    } catch (err: any) {
+      console.error(err);
+      res.status(500).json({ message: "Failed to get profile" });
+    }
+  },
+
+  async updateProfile(req: AuthenticatedRequest, res: Response) {
+    const parsed = profileUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    try {
+      const user = await userService.updateProfile(req.user!.id, parsed.data);
+      res.json(user);
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
+
+  async changePassword(req: AuthenticatedRequest, res: Response) {
+    const parsed = passwordChangeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
+    }
+
+    try {
+      await userService.changePassword(req.user!.id, req.user!.sessionId, parsed.data);
+      res.json({ message: "Password changed" });
+    } catch (err: any) {
+      console.error(err);
+      res.status(400).json({ message: err.message });
+    }
+  },
 };
\ No newline at end of file
@@ -0,0 +1,43 @@
+// server/csvReader.ts
+
+import { parseString } from "@fast-csv/parse";
+
+// One data row of a CSV file, keyed by its header cells. line is the row number as a spreadsheet
+// shows it: the header is row 1 and blank lines are not counted.
+export type CsvRecord = {
+  line: number;
+  values: Record<string, string>;
+};
+
+// Reads a CSV with a header line. Blank lines are skipped; a file with more than maxRows
+// data lines is refused rather than read halfway.
+export function readCsv(text: string, maxRows: number): Promise<CsvRecord[]> {
+  return new Promise((resolve, reject) => {
+    const records: CsvRecord[] = [];
+    // The header is row 1
+    let line = 1;
+
+    const stream = parseString<Record<string, string>, Record<string, string>>(text.replace(/^\uFEFF/, ""), {
+      headers: (headers) => headers.map((header) => header?.trim()),
+      ignoreEmpty: true,
+      trim: true,
+      strictColumnHandling: true,
+    })
+      .on("data", (values: Record<string, string>) => {
+        line++;
+        if (records.length === maxRows) {
+          stream.destroy();
+          reject(new Error(`Import at most ${maxRows} rows at a time`));
+          return;
+        }
+        records.push({ line, values });
+      })
+      .on("data-invalid", () => {
+        line++;
+        stream.destroy();
+        reject(new Error(`Row ${line} does not have the same number of columns as the header`));
+      })
+      .on("error", (err) => reject(new Error(`The file is not valid CSV: ${err.message}`)))
+      .on("end", () => resolve(records));
+  });
+}
@@ -0,0 +1,74 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { ExpenseCategory, ExpenseStatus, Project, UserRole, expenseQuerySchema } from "@shared/schema";
+import { sumMoney } from "@shared/money";
+import { convert, rateTable, sumConverted } from "./currency";
+import { MemStorage } from "./storage";
+
+describe("currency conversion", () => {
+  const rates = rateTable([{ currency: "EUR", rate: 1.1, updatedById: 1, updatedAt: new Date() }]);
+
+  it("rounds each conversion to the cent", () => {
+    assert.equal(convert(10.05, "EUR", "USD", rates), 11.06);
+    assert.equal(convert(11.06, "USD", "EUR", rates), 10.05);
+  });
+
+  it("totals exactly the converted amounts", () => {
+    const amounts = Array.from({ length: 7 }, () => ({ amount: 10.05, currency: "EUR" }));
+    const converted = amounts.map(({ amount, currency }) => convert(amount, currency, "USD", rates));
+    assert.equal(sumConverted(amounts, "USD", rates), sumMoney(converted));
+    assert.equal(sumConverted(amounts, "USD", rates), 77.42);
+  });
+});
+
+describe("analytics totals", () => {
+  const storage = new MemStorage();
+  let project: Project;
+
+  before(async () => {
+    const user = await storage.createUser({ username: "money", password: "x", name: "Money Test", role: UserRole.ADMIN });
+    const client = await storage.createClient({
+      name: "Cents Ltd", contactPerson: "C. Ents", contactEmail: "c@example.com", contactPhone: "1", createdById: user.id,
+    });
+    project = await storage.createProject({
+      name: "Reconciliation", clientId: client.id, status: "in_progress", startDate: new Date(), budget: 100, createdById: user.id,
+    });
+    await storage.saveExchangeRates([{ currency: "EUR", rate: 1.1, updatedById: user.id }]);
+
+    const amounts = [...Array<number>(10).fill(0.1), 0.2, 19.99, 19.99, 19.99];
+    for (const amount of amounts) {
+      await storage.createExpense({
+        projectId: project.id, amount, description: "Fuel", category: ExpenseCategory.TRANSPORT,
+        status: ExpenseStatus.APPROVED, submittedById: user.id,
+      });
+    }
+    for (let i = 0; i < 3; i++) {
+      await storage.createExpense({
+        projectId: project.id, amount: 10.05, currency: "EUR", description: "Tolls", category: ExpenseCategory.TRANSPORT,
+        status: ExpenseStatus.APPROVED, submittedById: user.id,
+      });
+    }
+  });
+
+  // 10 x 0.10 + 0.20 + 3 x 19.99 = 61.17, plus 3 x 10.05 EUR at 1.1 = 3 x 11.06 = 33.18
+  const expectedSpent = 94.35;
+
+  it("reconciles project spending to the cent", async () => {
+    const comparison = (await storage.getTotalBudgetVsSpent()).find((row) => row.project === project.name);
+    assert.equal(comparison?.spent, expectedSpent);
+    assert.equal(comparison?.reportingSpent, expectedSpent);
+    assert.equal((await storage.getApprovedSpendByProject()).get(project.id), expectedSpent);
+  });
+
+  it("reconciles the expense listing total with the project's spending", async () => {
+    const page = await storage.queryExpenses(expenseQuerySchema.parse({ projectId: project.id }), null);
+    assert.equal(page.total, 17);
+    assert.equal(page.totalAmount, expectedSpent);
+  });
+
+  it("reconciles the category breakdown with the project's spending", async () => {
+    const categories = await storage.getCategoryBudgetVsSpent(project.id);
+    assert.equal(categories.length, 1);
+    assert.equal(categories[0].spent, expectedSpent);
+  });
+});
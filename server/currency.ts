@@ -0,0 +1,31 @@
+// server/currency.ts
+
+import { CurrencyAmount, ExchangeRate, REPORTING_CURRENCY } from "@shared/schema";
+import { roundMoney, sumMoney } from "@shared/money";
+
+// Value of one unit of each currency in REPORTING_CURRENCY
+export type RateTable = Map<string, number>;
+
+export function rateTable(rates: ExchangeRate[]): RateTable {
+  const table: RateTable = new Map(rates.map((rate) => [rate.currency, rate.rate]));
+  table.set(REPORTING_CURRENCY, 1);
+  return table;
+}
+
+// Converts through the reporting currency. A currency without a rate is an error rather than a
+// silent 1:1, since a wrong total is worse than none. The result is rounded to the cent, so a
+// converted total is always the exact sum of the converted amounts it lists.
+export function convert(amount: number, from: string, to: string, rates: RateTable): number {
+  if (from === to) return amount;
+  const fromRate = rates.get(from);
+  const toRate = rates.get(to);
+  if (fromRate === undefined || toRate === undefined) {
+    throw new Error(`No exchange rate for ${fromRate === undefined ? from : to}`);
+  }
+  return roundMoney((amount * fromRate) / toRate);
+}
+
+// Adds up amounts in mixed currencies into one
+export function sumConverted(amounts: CurrencyAmount[], to: string, rates: RateTable): number {
+  return sumMoney(amounts.map(({ amount, currency }) => convert(amount, currency, to, rates)));
+}
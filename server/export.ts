@@ -0,0 +1,84 @@
+// server/export.ts
+
+import ExcelJS from "exceljs";
+import type { Response } from "express";
+
+export type ExportFormat = "csv" | "xlsx";
+
+type CellValue = string | number | Date | null | undefined;
+
+// One spreadsheet column: its header and how to read the cell from a row
+export type ExportColumn<T> = {
+  header: string;
+  value: (row: T) => CellValue;
+  width?: number;
+};
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+export function parseExportFormat(value: unknown): ExportFormat | null {
+  return value === "csv" || value === "xlsx" ? value : null;
+}
+
+function csvCell(value: CellValue): string {
+  if (value === null || value === undefined) return "";
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  // Spreadsheets run cells starting with these characters as formulas
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine(values: CellValue[]): string {
+  return values.map(csvCell).join(",") + "\r\n";
+}
+
+// Resolves once the response can take more data, so large exports never pile up in memory
+function write(res: Response, chunk: string): Promise<void> {
+  return new Promise((resolve) => {
+    if (res.write(chunk)) resolve();
+    else res.once("drain", () => resolve());
+  });
+}
+
+// Streams rows to the response as a CSV or XLSX download. Rows arrive in batches so callers
+// can page through storage instead of loading everything first.
+export async function sendExport<T>(
+  res: Response,
+  format: ExportFormat,
+  filename: string,
+  columns: ExportColumn<T>[],
+  batches: AsyncIterable<T[]> | Iterable<T[]>,
+): Promise<void> {
+  res.setHeader("Content-Type", CONTENT_TYPES[format]);
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}.${format}"`);
+
+  if (format === "csv") {
+    // A byte order mark so Excel reads the file as UTF-8
+    await write(res, "\uFEFF" + csvLine(columns.map((column) => column.header)));
+    for await (const batch of batches) {
+      for (const row of batch) {
+        await write(res, csvLine(columns.map((column) => column.value(row))));
+      }
+    }
+    res.end();
+    return;
+  }
+
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: true });
+  const sheet = workbook.addWorksheet(filename.slice(0, 31));
+  sheet.columns = columns.map((column) => ({ header: column.header, width: column.width ?? 18 }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.getRow(1).commit();
+  for await (const batch of batches) {
+    for (const row of batch) {
+      sheet.addRow(columns.map((column) => column.value(row) ?? null)).commit();
+    }
+  }
+  sheet.commit();
+  await workbook.commit();
+}
@@ -1,64 +1,11 @@
-import express, { type Request, Response, NextFunction } from "express";
-import routes  from "./routes/routes";
+import { createApp } from "./app";
 import { setupVite, serveStatic, log } from "./vite";
-import cookieParser from "cookie-parser";
-import fs from "fs";
-import path from "path";
-import { fileURLToPath } from "url";
-
-// ✅ Fix for __dirname in ESM
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
-
-const app = express();
-app.use(express.json());
-app.use(cookieParser());
-app.use(express.urlencoded({ extended: false }));
-
-// Logging middleware
-app.use((req, res, next) => {
-  const start = Date.now();
-  const path = req.path;
-  let capturedJsonResponse: Record<string, any> | undefined = undefined;
-
-  const originalResJson = res.json;
-  res.json = function (bodyJson, ...args) {
-    capturedJsonResponse = bodyJson;
-    return originalResJson.apply(res, [bodyJson, ...args]);
-  };
-
-  res.on("finish", () => {
-    const duration = Date.now() - start;
-    if (path.startsWith("/api")) {
-      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
-      }
-
-      if (logLine.length > 180) {
-        logLine = logLine.slice(0, 179) + "…";
-      }
-
-      log(logLine);
-    }
-  });
-
-  next();
-});
+import { setupRealtime } from "./realtime";
+import { setupNotificationMail } from "./notificationMail";
 
+const app = createApp();
 
 (async () => {
-  app.use('/api', routes);
-
-  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
-    const status = err.status || err.statusCode || 500;
-    const message = err.message || "Internal Server Error";
-
-    res.status(status).json({ message });
-    throw err;
-  });
-
   if (app.get("env") === "development") {
     await setupVite(app, null);    
   } else {
@@ -66,11 +13,14 @@ app.use((req, res, next) => {
   }
 
   const port = 5000;
-  app.listen({
+  const server = app.listen({
     port,
     host: "0.0.0.0",
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
   });
-})();
\ No newline at end of file
+
+  setupRealtime(server);
+  setupNotificationMail();
+})();
@@ -0,0 +1,132 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import net from "net";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import { FileMailTransport, SmtpMailTransport, createMailTransport, formatMessage } from "./mailer";
+
+const from = "SolarFund <no-reply@solarfund.test>";
+const message = { to: "ana@example.com", subject: "Réinitialiser", text: "Hello\n.hidden line\nBye" };
+
+// Plays the server side of an SMTP conversation and keeps what the client sent
+async function withSmtpServer(
+  reply: (command: string) => string,
+  run: (port: number, commands: string[], data: string[]) => Promise<void>,
+) {
+  const commands: string[] = [];
+  const data: string[] = [];
+  const sockets = new Set<net.Socket>();
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    let buffer = "";
+    let inData = false;
+    socket.write("220 test ESMTP\r\n");
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+      for (;;) {
+        if (inData) {
+          const end = buffer.indexOf("\r\n.\r\n");
+          if (end === -1) return;
+          data.push(buffer.slice(0, end + 2));
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write("250 queued\r\n");
+          continue;
+        }
+        const end = buffer.indexOf("\r\n");
+        if (end === -1) return;
+        const command = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        commands.push(command);
+        const answer = reply(command);
+        if (answer.startsWith("354")) inData = true;
+        socket.write(answer);
+        if (command === "QUIT") socket.end();
+      }
+    });
+  });
+  server.listen(0, "127.0.0.1");
+  await new Promise<void>((resolve) => server.once("listening", resolve));
+  try {
+    await run((server.address() as AddressInfo).port, commands, data);
+  } finally {
+    // A client that gives up halfway may leave its connection open
+    for (const socket of sockets) socket.destroy();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+}
+
+const acceptAll = (command: string) => {
+  const verb = command.split(" ")[0];
+  if (verb === "EHLO") return "250-test\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n";
+  if (verb === "STARTTLS") return "502 not implemented\r\n";
+  if (verb === "AUTH") return "235 ok\r\n";
+  if (verb === "DATA") return "354 go ahead\r\n";
+  if (verb === "QUIT") return "221 bye\r\n";
+  return "250 ok\r\n";
+};
+
+describe("mailer", () => {
+  it("writes a plain-text message with encoded non-ASCII headers", () => {
+    const formatted = formatMessage(from, message, new Date("2026-01-02T03:04:05Z"));
+    assert.match(formatted, /^From: SolarFund <no-reply@solarfund\.test>\r\nTo: ana@example\.com\r\n/);
+    assert.match(formatted, /\r\nSubject: =\?UTF-8\?B\?UsOpaW5pdGlhbGlzZXI=\?=\r\n/);
+    assert.match(formatted, /\r\nDate: Fri, 02 Jan 2026 03:04:05 GMT\r\n/);
+    assert.match(formatted, /\r\nMessage-ID: <[0-9a-f-]+@solarfund\.test>\r\n/);
+    assert.ok(formatted.endsWith("\r\n\r\nHello\r\n.hidden line\r\nBye\r\n"));
+  });
+
+  it("keeps each message as an .eml file", async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "mailer-test-"));
+    try {
+      await new FileMailTransport(from, directory).send(message);
+      const files = fs.readdirSync(directory);
+      assert.equal(files.length, 1);
+      assert.ok(files[0].endsWith(".eml"));
+      assert.match(fs.readFileSync(path.join(directory, files[0]), "utf8"), /To: ana@example\.com/);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("delivers over SMTP", async () => {
+    await withSmtpServer(acceptAll, async (port, commands, data) => {
+      await new SmtpMailTransport(from, { host: "127.0.0.1", port, secure: false }).send(message);
+
+      assert.ok(!commands.some((command) => command.startsWith("AUTH")));
+      assert.ok(commands.some((command) => command.startsWith("MAIL FROM:<no-reply@solarfund.test>")));
+      assert.ok(commands.includes("RCPT TO:<ana@example.com>"));
+      assert.equal(data.length, 1);
+      assert.match(data[0], /\r\nHello\r\n\.\.hidden line\r\nBye\r\n$/);
+    });
+  });
+
+  it("will not send credentials to a server that does not offer STARTTLS", async () => {
+    await withSmtpServer(acceptAll, async (port, commands, data) => {
+      const transport = new SmtpMailTransport(from, { host: "127.0.0.1", port, secure: false, user: "mailer", password: "s3cret" });
+      await assert.rejects(transport.send(message));
+
+      assert.ok(commands.includes("STARTTLS"));
+      assert.ok(!commands.some((command) => command.startsWith("AUTH")));
+      assert.equal(data.length, 0);
+    });
+  });
+
+  it("reports a refused recipient", async () => {
+    const refuseRecipient = (command: string) => (command.startsWith("RCPT") ? "550 no such user\r\n" : acceptAll(command));
+    await withSmtpServer(refuseRecipient, async (port) => {
+      const transport = new SmtpMailTransport(from, { host: "127.0.0.1", port, secure: false });
+      await assert.rejects(transport.send(message), /no such user/);
+    });
+  });
+
+  it("picks the transport from the environment", () => {
+    assert.equal(createMailTransport({}).constructor.name, "ConsoleMailTransport");
+    assert.equal(createMailTransport({ MAIL_TRANSPORT: "file" }).constructor.name, "FileMailTransport");
+    assert.equal(createMailTransport({ MAIL_TRANSPORT: "smtp", SMTP_HOST: "mail.test" }).constructor.name, "SmtpMailTransport");
+    assert.throws(() => createMailTransport({ MAIL_TRANSPORT: "smtp" }), /SMTP_HOST/);
+    assert.throws(() => createMailTransport({ MAIL_TRANSPORT: "pigeon" }), /Unknown MAIL_TRANSPORT/);
+  });
+});
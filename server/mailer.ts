@@ -0,0 +1,126 @@
+// server/mailer.ts
+
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import nodemailer, { type Transporter } from "nodemailer";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Where outgoing mail goes. MAIL_TRANSPORT picks one: "smtp" for a real server, or "file" and
+// "console" (the default) for local development, where nothing should leave the machine.
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// The address part of "Name <address>", or the whole value when there are no brackets
+function addressOf(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+// Headers may only hold ASCII, so anything else goes in as a MIME encoded word
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+// A plain-text RFC 5322 message with CRLF line endings
+export function formatMessage(from: string, message: MailMessage, date = new Date()): string {
+  const domain = addressOf(from).split("@")[1] || "localhost";
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: 8bit",
+  ];
+  return `${headers.join("\r\n")}\r\n\r\n${message.text.replace(/\r?\n/g, "\r\n")}\r\n`;
+}
+
+// Prints each message to the server log
+export class ConsoleMailTransport implements MailTransport {
+  constructor(private readonly from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`Mail to ${message.to}:\n${formatMessage(this.from, message)}`);
+  }
+}
+
+// Writes each message as an .eml file, which mail clients open as they would a received message
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly from: string, private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID()}.eml`;
+    await fs.promises.writeFile(path.join(this.directory, fileName), formatMessage(this.from, message), { flag: "wx" });
+  }
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // true for implicit TLS (usually port 465); otherwise the connection is upgraded with STARTTLS
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+// Delivers through an SMTP server with nodemailer. With credentials, STARTTLS is required: a server,
+// or someone in between, that does not offer it gets an error rather than the password in the clear.
+export class SmtpMailTransport implements MailTransport {
+  private readonly transporter: Transporter;
+
+  constructor(private readonly from: string, { host, port, secure, user, password }: SmtpOptions) {
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure,
+      requireTLS: !secure && user !== undefined,
+      auth: user !== undefined ? { user, pass: password ?? "" } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, to: message.to, subject: message.subject, text: message.text });
+  }
+}
+
+// Links in emails need the address users reach the app at, which the server cannot tell on its own
+export function appUrl(path: string): string {
+  return `${(process.env.APP_URL || "http://localhost:5000").replace(/\/+$/, "")}${path}`;
+}
+
+export function createMailTransport(env: NodeJS.ProcessEnv = process.env): MailTransport {
+  const from = env.MAIL_FROM || "SolarFund <no-reply@localhost>";
+  switch (env.MAIL_TRANSPORT || "console") {
+    case "smtp": {
+      if (!env.SMTP_HOST) {
+        throw new Error("MAIL_TRANSPORT=smtp needs SMTP_HOST");
+      }
+      const secure = env.SMTP_SECURE === "true";
+      return new SmtpMailTransport(from, {
+        host: env.SMTP_HOST,
+        port: parseInt(env.SMTP_PORT || (secure ? "465" : "587"), 10),
+        secure,
+        user: env.SMTP_USER || undefined,
+        password: env.SMTP_PASSWORD || undefined,
+      });
+    }
+    case "file":
+      return new FileMailTransport(from, env.MAIL_DIR || path.resolve(process.cwd(), "uploads", "mail"));
+    case "console":
+      return new ConsoleMailTransport(from);
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${env.MAIL_TRANSPORT}"; use smtp, file or console`);
+  }
+}
+
+export const mailer: MailTransport = createMailTransport();
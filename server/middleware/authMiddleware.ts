@@ -3,6 +3,7 @@ import { UserRoleType } from "../../shared/schema";
 import jwt from "jsonwebtoken";
 import dotenv from "dotenv";
 import { DecodedToken } from "utils/jwt";
+import { sessionService } from "../services/sessionService";
 
 dotenv.config();
 
@@ -11,6 +12,7 @@ export interface AuthenticatedRequest extends Request {
   user?: {
     id: number;
     role: UserRoleType;
+    sessionId: string;
   };
 }
 
@@ -39,9 +41,17 @@ export const authMiddleware = (allowedRoles: UserRoleType[] = []) => {
       const decoded = jwt.verify(token, JWT_SECRET) as DecodedToken;
 
       console.log(`✅ [AUTH] Token verified for userId: ${decoded.id}, role: ${decoded.role}`);
+
+      // A revoked or deleted session takes its access tokens with it
+      if (!(await sessionService.getActiveSession(decoded.sid, decoded.id))) {
+        console.warn(`❌ [AUTH] Session ${decoded.sid} of user ${decoded.id} has ended; refusing ${req.method} ${path}`);
+        return res.status(401).json({ message: "Your session has ended; sign in again" });
+      }
+
       req.user = {
         id: decoded.id,
         role: decoded.role,
+        sessionId: decoded.sid,
       };
 
       // Authorization check
@@ -0,0 +1,67 @@
+import { Response, NextFunction } from "express";
+import { AuthenticatedRequest } from "./authMiddleware";
+import { Actor, policy } from "../policy";
+import { storage } from "../storage";
+
+// Loads the record named by a route parameter and lets the request through only if the policy allows it.
+// Every denial has the same shape: 404 when the record does not exist, 403 when it is not the user's to see
+// (or, for changes, to change).
+function requireAccess<T>(
+  param: string,
+  resource: string,
+  load: (id: number) => Promise<T | undefined>,
+  allowed: (actor: Actor, record: T) => boolean | Promise<boolean>,
+  action = "view",
+) {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params[param], 10);
+      const record = Number.isNaN(id) ? undefined : await load(id);
+
+      if (!record) {
+        return res.status(404).json({ message: `${resource.charAt(0).toUpperCase()}${resource.slice(1)} not found` });
+      }
+      if (!(await allowed(req.user!, record))) {
+        return res.status(403).json({ message: `Forbidden: you cannot ${action} this ${resource}` });
+      }
+
+      next();
+    } catch (err) {
+      console.error(err);
+      res.status(500).json({ message: `Failed to check access to ${resource}` });
+    }
+  };
+}
+
+export const requireProjectAccess = (param = "projectId") =>
+  requireAccess(param, "project", (id) => storage.getProject(id), (actor, project) => policy.canViewProject(actor, project));
+
+export const requireClientAccess = (param = "clientId") =>
+  requireAccess(param, "client", (id) => storage.getClient(id), (actor, client) => policy.canViewClient(actor, client));
+
+export const requireExpenseAccess = (param = "id") =>
+  requireAccess(param, "expense", (id) => storage.getExpense(id), (actor, expense) => policy.canViewExpense(actor, expense));
+
+// Runs before the receipt upload is parsed, so no file is read in for a user who may not attach it
+export const requireReceiptChangeAccess = (param = "id") =>
+  requireAccess(
+    param,
+    "expense",
+    (id) => storage.getExpense(id),
+    (actor, expense) => policy.canModifyExpense(actor, expense),
+    "change the receipts of",
+  );
+
+export const requireActivityLogAccess = (param = "id") =>
+  requireAccess(param, "activity log", (id) => storage.getActivityLog(id), (actor, log) => policy.canViewActivityLog(actor, log));
+
+// For per-user listings such as /expenses/user/:userId
+export const requireSelfOrReviewer = (param = "userId") => {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const userId = parseInt(req.params[param], 10);
+    if (!policy.canViewUserRecords(req.user!, userId)) {
+      return res.status(403).json({ message: "Forbidden: you cannot view another user's records" });
+    }
+    next();
+  };
+};
@@ -0,0 +1,49 @@
+import { Request, Response, NextFunction } from "express";
+import multer from "multer";
+import { EXPENSE_IMPORT_MAX_BYTES, RECEIPT_MAX_BYTES, RECEIPT_MAX_FILES } from "../../shared/schema";
+
+// Receipts are held in memory so their contents can be checked before anything is written to the store
+const receiptParser = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: RECEIPT_MAX_BYTES, files: RECEIPT_MAX_FILES },
+}).array("receipts", RECEIPT_MAX_FILES);
+
+export const receiptUpload = (req: Request, res: Response, next: NextFunction) => {
+  receiptParser(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      const message = err.code === "LIMIT_FILE_SIZE"
+        ? `Each receipt must be at most ${RECEIPT_MAX_BYTES / (1024 * 1024)} MB`
+        : err.code === "LIMIT_FILE_COUNT" || err.code === "LIMIT_UNEXPECTED_FILE"
+          ? `Upload at most ${RECEIPT_MAX_FILES} receipts in the "receipts" field`
+          : err.message;
+      return res.status(400).json({ message });
+    }
+    if (err) {
+      return next(err);
+    }
+    next();
+  });
+};
+
+// Expense imports are a single CSV file in the "file" field, read straight from memory
+const importParser = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: EXPENSE_IMPORT_MAX_BYTES, files: 1 },
+}).single("file");
+
+export const csvUpload = (req: Request, res: Response, next: NextFunction) => {
+  importParser(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      const message = err.code === "LIMIT_FILE_SIZE"
+        ? `The import file must be at most ${EXPENSE_IMPORT_MAX_BYTES / 1024} KB`
+        : err.code === "LIMIT_FILE_COUNT" || err.code === "LIMIT_UNEXPECTED_FILE"
+          ? 'Upload one CSV file in the "file" field'
+          : err.message;
+      return res.status(400).json({ message });
+    }
+    if (err) {
+      return next(err);
+    }
+    next();
+  });
+};
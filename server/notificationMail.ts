@@ -0,0 +1,98 @@
+// server/notificationMail.ts
+
+import { ActivityLog, User } from "@shared/schema";
+import { describeNotification } from "@shared/notifications";
+import { auditEvents, RecordedActivity } from "./audit";
+import { appUrl, mailer } from "./mailer";
+import { storage } from "./storage";
+
+// The hour, in server time, when the daily summaries go out
+const DAILY_SUMMARY_HOUR = parseInt(process.env.DAILY_SUMMARY_HOUR || "8", 10);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function notificationText(activity: ActivityLog): string {
+  const { message, link } = describeNotification(activity);
+  return link ? `${message}\n${appUrl(link)}` : message;
+}
+
+function settingsFooter(): string {
+  return `You can change which emails you get under Settings: ${appUrl("/settings")}`;
+}
+
+// Emails the notification to each target who has email notifications on and an address on file.
+// The targets are the users who still want it, after their event switches were applied.
+export async function mailNotification({ log: activity, targetUserIds }: RecordedActivity): Promise<void> {
+  for (const userId of targetUserIds) {
+    try {
+      const user = await storage.getUser(userId);
+      if (!user?.email || !(await storage.getNotificationPreferences(userId)).emailNotifications) continue;
+
+      await mailer.send({
+        to: user.email,
+        subject: describeNotification(activity).message,
+        text: [`Hello ${user.name},`, "", notificationText(activity), "", settingsFooter()].join("\n"),
+      });
+    } catch (err) {
+      console.error(`Could not email notification ${activity.id} to user ${userId}:`, err);
+    }
+  }
+}
+
+async function mailDailySummary(user: User & { email: string }, since: Date): Promise<boolean> {
+  const unread = (await storage.getUnreadNotifications(user.id))
+    .filter((activity) => new Date(activity.timestamp) > since);
+  if (unread.length === 0) return false;
+
+  await mailer.send({
+    to: user.email,
+    subject: `Your SolarFund summary: ${unread.length} unread notification${unread.length === 1 ? "" : "s"}`,
+    text: [
+      `Hello ${user.name},`,
+      "",
+      "Here is what happened in the last day that you have not read yet:",
+      "",
+      ...unread.map((activity) => `- ${notificationText(activity).replace("\n", "\n  ")}`),
+      "",
+      settingsFooter(),
+    ].join("\n"),
+  });
+  return true;
+}
+
+// Mails everyone who wants the daily summary their unread notifications of the day before now;
+// users with nothing unread get no email. Returns how many summaries went out.
+export async function sendDailySummaries(now = new Date()): Promise<number> {
+  const since = new Date(now.getTime() - DAY_MS);
+  let sent = 0;
+  for (const user of await storage.getDailySummaryRecipients()) {
+    try {
+      if (user.email && (await mailDailySummary({ ...user, email: user.email }, since))) sent++;
+    } catch (err) {
+      console.error(`Could not send the daily summary to user ${user.id}:`, err);
+    }
+  }
+  return sent;
+}
+
+function msUntilSummaryHour(now = new Date()): number {
+  const next = new Date(now);
+  next.setHours(DAILY_SUMMARY_HOUR, 0, 0, 0);
+  if (next <= now) next.setDate(next.getDate() + 1);
+  return next.getTime() - now.getTime();
+}
+
+export function setupNotificationMail() {
+  auditEvents.on("recorded", (activity) => void mailNotification(activity));
+
+  const scheduleSummaries = () => {
+    setTimeout(async () => {
+      try {
+        await sendDailySummaries();
+      } catch (err) {
+        console.error("Could not send the daily summaries:", err);
+      }
+      scheduleSummaries();
+    }, msUntilSummaryHour());
+  };
+  scheduleSummaries();
+}
@@ -0,0 +1,145 @@
+// server/policy.ts
+
+import { storage, type ExpenseScope } from "./storage";
+import {
+  ActivityLog,
+  Client,
+  Expense,
+  ExpenseStatus,
+  Project,
+  SessionToken,
+  UserRole,
+  UserRoleType,
+} from "@shared/schema";
+
+export type Actor = {
+  id: number;
+  role: UserRoleType;
+};
+
+// Row-level access rules. Admins and managers see everything; everyone else is scoped by their
+// project assignments, the clients they own and the records they created themselves.
+export const policy = {
+  isReviewer(actor: Actor): boolean {
+    return actor.role === UserRole.ADMIN || actor.role === UserRole.MANAGER;
+  },
+
+  // Per-user listings (a user's expenses, projects, clients or activity) are for that user and reviewers
+  canViewUserRecords(actor: Actor, userId: number): boolean {
+    return this.isReviewer(actor) || actor.id === userId;
+  },
+
+  // Admins remove accounts; nobody removes their own, so the last admin cannot lock everyone out
+  canDeleteUser(actor: Actor, userId: number): boolean {
+    return actor.role === UserRole.ADMIN && actor.id !== userId;
+  },
+
+  // Users end their own sessions; admins anyone's
+  canRevokeSession(actor: Actor, session: SessionToken): boolean {
+    return actor.role === UserRole.ADMIN || session.userId === actor.id;
+  },
+
+  async canViewClient(actor: Actor, client: Client): Promise<boolean> {
+    if (this.isReviewer(actor) || client.createdById === actor.id) return true;
+    if (actor.role === UserRole.SALESPERSON) return false;
+
+    // Other roles may see the clients of projects they work on
+    const assigned = await storage.getProjectsAssignedToUser(actor.id);
+    return assigned.some((project) => project.clientId === client.id);
+  },
+
+  // Reviewers manage every client; salespeople the clients they own
+  canManageClient(actor: Actor, client: Client): boolean {
+    if (this.isReviewer(actor)) return true;
+    return actor.role === UserRole.SALESPERSON && client.createdById === actor.id;
+  },
+
+  async canViewProject(actor: Actor, project: Project): Promise<boolean> {
+    const [visible] = await this.filterProjects(actor, [project]);
+    return !!visible;
+  },
+
+  async filterProjects(actor: Actor, projects: Project[]): Promise<Project[]> {
+    if (this.isReviewer(actor)) return projects;
+
+    const assignedIds = new Set((await storage.getProjectsAssignedToUser(actor.id)).map((project) => project.id));
+    const ownClientIds = actor.role === UserRole.SALESPERSON
+      ? new Set((await storage.getClientsBySalesperson(actor.id)).map((client) => client.id))
+      : new Set<number>();
+
+    return projects.filter((project) =>
+      project.createdById === actor.id || assignedIds.has(project.id) || ownClientIds.has(project.clientId)
+    );
+  },
+
+  async filterClients(actor: Actor, clients: Client[]): Promise<Client[]> {
+    const visible = await Promise.all(clients.map((client) => this.canViewClient(actor, client)));
+    return clients.filter((_, index) => visible[index]);
+  },
+
+  // Employees only ever see their own expenses; other roles see those of projects they can see
+  async canViewExpense(actor: Actor, expense: Expense): Promise<boolean> {
+    if (this.isReviewer(actor) || expense.submittedById === actor.id) return true;
+    if (actor.role === UserRole.EMPLOYEE) return false;
+
+    const project = await storage.getProject(expense.projectId);
+    return !!project && this.canViewProject(actor, project);
+  },
+
+  async filterExpenses(actor: Actor, expenses: Expense[]): Promise<Expense[]> {
+    if (this.isReviewer(actor)) return expenses;
+    if (actor.role === UserRole.EMPLOYEE) {
+      return expenses.filter((expense) => expense.submittedById === actor.id);
+    }
+
+    const projects = await storage.getProjects();
+    const visibleProjectIds = new Set((await this.filterProjects(actor, projects)).map((project) => project.id));
+    return expenses.filter((expense) =>
+      expense.submittedById === actor.id || visibleProjectIds.has(expense.projectId)
+    );
+  },
+
+  // Reviewers manage every project; salespeople only the ones they created
+  canManageProject(actor: Actor, project: Project): boolean {
+    if (this.isReviewer(actor)) return true;
+    return actor.role === UserRole.SALESPERSON && project.createdById === actor.id;
+  },
+
+  // The same rule as filterExpenses, in a form storage can apply while querying
+  async expenseScope(actor: Actor): Promise<ExpenseScope> {
+    if (this.isReviewer(actor)) return null;
+    if (actor.role === UserRole.EMPLOYEE) {
+      return { submittedById: actor.id, projectIds: [] };
+    }
+
+    const projects = await this.filterProjects(actor, await storage.getProjects());
+    return { submittedById: actor.id, projectIds: projects.map((project) => project.id) };
+  },
+
+  // Reviewers and the submitter may change receipts only while the expense is pending; once it is
+  // decided, its receipts stay the ones the decision was made on
+  canModifyExpense(actor: Actor, expense: Expense): boolean {
+    if (expense.status !== ExpenseStatus.PENDING) return false;
+    return this.isReviewer(actor) || actor.id === expense.submittedById;
+  },
+
+  // A log is visible to its author, and otherwise follows the project it belongs to.
+  // Employees only see their own entries, since project logs carry other people's expenses.
+  async canViewActivityLog(actor: Actor, log: ActivityLog): Promise<boolean> {
+    const [visible] = await this.filterActivityLogs(actor, [log]);
+    return !!visible;
+  },
+
+  async filterActivityLogs(actor: Actor, logs: ActivityLog[]): Promise<ActivityLog[]> {
+    if (this.isReviewer(actor)) return logs;
+    if (actor.role === UserRole.EMPLOYEE) {
+      return logs.filter((log) => log.userId === actor.id);
+    }
+
+    const projects = await storage.getProjects();
+    const visibleProjectIds = new Set((await this.filterProjects(actor, projects)).map((project) => project.id));
+    return logs.filter((log) =>
+      log.userId === actor.id || (log.projectId !== null && visibleProjectIds.has(log.projectId))
+    );
+  },
+};
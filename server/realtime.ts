@@ -0,0 +1,100 @@
+// server/realtime.ts
+
+import type { IncomingMessage, Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { RealtimeEvent, UserRole, UserRoleType } from "@shared/schema";
+import { auditEvents, RecordedActivity } from "./audit";
+import { sessionEvents } from "./storage";
+import { sessionService } from "./services/sessionService";
+import { DecodedToken, verifyAccessToken } from "../utils/jwt";
+import { log } from "./vite";
+
+type Connection = {
+  socket: WebSocket;
+  userId: number;
+  role: UserRoleType;
+  sessionId: string;
+};
+
+// Roles that may read the full activity log (mirrors GET /api/activity-logs)
+const ACTIVITY_ROLES: UserRoleType[] = [UserRole.ADMIN, UserRole.MANAGER];
+
+const connections = new Set<Connection>();
+
+// Browsers cannot set an Authorization header on a WebSocket, so the access token comes in the query string.
+// As on the API, the token only counts while its session is open.
+async function authenticate(req: IncomingMessage): Promise<DecodedToken | undefined> {
+  const url = new URL(req.url ?? "", "http://localhost");
+  const token = url.searchParams.get("token");
+  if (!token) return undefined;
+
+  let decoded: DecodedToken;
+  try {
+    decoded = verifyAccessToken(token);
+  } catch {
+    return undefined;
+  }
+  return (await sessionService.getActiveSession(decoded.sid, decoded.id)) ? decoded : undefined;
+}
+
+function send(connection: Connection, event: RealtimeEvent) {
+  if (connection.socket.readyState === WebSocket.OPEN) {
+    connection.socket.send(JSON.stringify(event));
+  }
+}
+
+function closeEndedSessions(sessionIds: string[]) {
+  for (const connection of connections) {
+    if (sessionIds.includes(connection.sessionId)) {
+      connection.socket.close(1008, "Session ended");
+    }
+  }
+}
+
+function publish({ log: activityLog, targetUserIds }: RecordedActivity) {
+  for (const connection of connections) {
+    if (targetUserIds.includes(connection.userId)) {
+      send(connection, { type: "notification", log: activityLog });
+    }
+    if (ACTIVITY_ROLES.includes(connection.role)) {
+      send(connection, { type: "activity", log: activityLog });
+    }
+  }
+}
+
+export function setupRealtime(server: Server) {
+  const wss = new WebSocketServer({ server, path: "/ws" });
+
+  wss.on("connection", async (socket, req) => {
+    let decoded: DecodedToken | undefined;
+    try {
+      decoded = await authenticate(req);
+    } catch (err) {
+      console.error("Could not check the session of a realtime connection:", err);
+    }
+    if (!decoded) {
+      socket.close(1008, "Invalid or expired access token");
+      return;
+    }
+    // The client may have gone while the session was looked up
+    if (socket.readyState !== WebSocket.OPEN) return;
+
+    const connection: Connection = { socket, userId: decoded.id, role: decoded.role, sessionId: decoded.sid };
+    connections.add(connection);
+
+    // Drop the socket when the access token expires; the client reconnects with a fresh one
+    const expiryTimer = setTimeout(
+      () => socket.close(1008, "Access token expired"),
+      decoded.exp * 1000 - Date.now(),
+    );
+
+    socket.on("close", () => {
+      clearTimeout(expiryTimer);
+      connections.delete(connection);
+    });
+  });
+
+  auditEvents.on("recorded", publish);
+  sessionEvents.on("ended", closeEndedSessions);
+  log("realtime updates available on /ws");
+}
@@ -0,0 +1,49 @@
+// server/receiptStore.ts
+
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { Readable } from "stream";
+
+// Where receipt file contents are kept. Metadata lives in the expense_receipts table;
+// the store only deals in opaque keys so it can be swapped for object storage later.
+export interface ReceiptStore {
+  save(data: Buffer, extension: string): Promise<string>;
+  open(key: string): Promise<Readable>;
+  remove(key: string): Promise<void>;
+}
+
+// Keeps receipts as flat files in one directory on the local disk
+export class LocalDiskReceiptStore implements ReceiptStore {
+  constructor(private readonly directory: string) {}
+
+  private resolve(key: string): string {
+    // Keys are generated here, but never let one escape the receipt directory
+    const filePath = path.resolve(this.directory, path.basename(key));
+    if (path.dirname(filePath) !== path.resolve(this.directory)) {
+      throw new Error(`Invalid receipt key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async save(data: Buffer, extension: string): Promise<string> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const key = `${randomUUID()}${extension}`;
+    await fs.promises.writeFile(this.resolve(key), data, { flag: "wx" });
+    return key;
+  }
+
+  async open(key: string): Promise<Readable> {
+    const filePath = this.resolve(key);
+    await fs.promises.access(filePath, fs.constants.R_OK);
+    return fs.createReadStream(filePath);
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
+
+export const receiptStore: ReceiptStore = new LocalDiskReceiptStore(
+  process.env.RECEIPT_UPLOAD_DIR || path.resolve(process.cwd(), "uploads", "receipts"),
+);
@@ -8,15 +8,28 @@ import { projectController } from '../controllers/projectController';
 import { expenseController } from '../controllers/expenseController';
 import { activityLogController } from '../controllers/activityLogController';
 import { analyticsController } from '../controllers/analyticsController';  // Import analytics controller
+import { receiptController } from '../controllers/receiptController';
+import { approvalRuleController } from '../controllers/approvalRuleController';
+import { exportController } from '../controllers/exportController';
+import { exchangeRateController } from '../controllers/exchangeRateController';
+import { invitationController } from '../controllers/invitationController';
+import { passwordResetController } from '../controllers/passwordResetController';
+import { sessionController } from '../controllers/sessionController';
+import { twoFactorController } from '../controllers/twoFactorController';
 import { authMiddleware } from '../middleware/authMiddleware';
+import { requireActivityLogAccess, requireClientAccess, requireExpenseAccess, requireProjectAccess, requireReceiptChangeAccess, requireSelfOrReviewer } from '../middleware/policyMiddleware';
+import { csvUpload, receiptUpload } from '../middleware/uploadMiddleware';
 import { UserRole } from '../../shared/schema';
 import { notificationController } from 'server/controllers/notificationController';
 
 const router = express.Router();
 
 // Auth routes (no authentication required)
-router.post('/register', authController.register);
-router.post('/login', authController.login);
+router.post('/register', authController.register); // Off unless PUBLIC_REGISTRATION=true, and then only for employees
+router.post('/login', authController.login); // Answers with a two-factor challenge instead of tokens when a code is needed
+router.post('/login/two-factor', authController.loginTwoFactor); // Challenge plus an authenticator or recovery code
+router.post('/login/two-factor/setup', authController.beginTwoFactorSetup); // Enrollment for roles that require two-factor
+router.post('/login/two-factor/enable', authController.enableTwoFactor); // Confirms enrollment and finishes the sign-in
 router.post('/refresh', authController.refresh);
 router.post('/logout', authController.logout);
 
@@ -24,47 +37,134 @@ router.post('/logout', authController.logout);
 router.get('/users/:id', authMiddleware(), userController.getUser); // Any authenticated user can get other user info
 router.get('/users', authMiddleware(), userController.getAllUsers);
 router.post('/users', authMiddleware([UserRole.ADMIN]), userController.createUser); // Only admins can create users
-router.delete('/users/:id', authMiddleware(), userController.deleteUser);
+router.delete('/users/:id', authMiddleware([UserRole.ADMIN]), userController.deleteUser); // Only admins can delete users, and never themselves
+router.get('/users/:id/sessions', authMiddleware([UserRole.ADMIN]), sessionController.getUserSessions); // A user's signed-in devices
+router.delete('/users/:id/sessions', authMiddleware([UserRole.ADMIN]), sessionController.revokeUserSessions); // Signs a user out everywhere
+
+router.delete('/users/:id/two-factor', authMiddleware([UserRole.ADMIN]), twoFactorController.resetUser); // For a lost authenticator
+router.post('/users/:id/password-reset', authMiddleware([UserRole.ADMIN]), passwordResetController.sendResetLink); // Emails the link, or returns it without an address on file
+
+// Two-factor routes for the signed-in user
+router.get('/two-factor', authMiddleware(), twoFactorController.getStatus);
+router.post('/two-factor/setup', authMiddleware(), twoFactorController.beginSetup); // A new secret and otpauth URI
+router.post('/two-factor/enable', authMiddleware(), twoFactorController.enable); // Needs the first code; returns recovery codes
+router.post('/two-factor/recovery-codes', authMiddleware(), twoFactorController.regenerateRecoveryCodes); // Replaces all of them
+router.post('/two-factor/disable', authMiddleware(), twoFactorController.disable); // Not when the user's role requires it
+router.get('/two-factor/policy', authMiddleware([UserRole.ADMIN]), twoFactorController.getPolicy); // Roles that must use two-factor
+router.put('/two-factor/policy', authMiddleware([UserRole.ADMIN]), twoFactorController.setPolicy);
+
+// Session routes, one session per signed-in device
+router.get('/sessions', authMiddleware(), sessionController.getSessions); // The current user's devices
+router.delete('/sessions/:id', authMiddleware(), sessionController.revokeSession); // Own sessions; admins any
+
+// Invitation routes; accepting one is how new users join
+router.get('/invitations', authMiddleware([UserRole.ADMIN]), invitationController.getInvitations);
+router.post('/invitations', authMiddleware([UserRole.ADMIN]), invitationController.createInvitation); // Returns the token for the invite link once
+router.delete('/invitations/:id', authMiddleware([UserRole.ADMIN]), invitationController.revokeInvitation); // Pending invitations only
+router.get('/invitations/:token', invitationController.getInvitationPreview); // No authentication: the token is the credential
+router.post('/invitations/:token/accept', invitationController.acceptInvitation); // No authentication: sets the new user's name and password
+
+// Password reset routes; the emailed token is the credential
+router.post('/forgot-password', passwordResetController.forgotPassword); // Same answer for unknown addresses
+router.get('/password-reset/:token', passwordResetController.getReset);
+router.post('/password-reset/:token', passwordResetController.resetPassword); // Signs the user out on every device
+
+// Profile routes, always for the signed-in user
+router.get('/profile', authMiddleware(), userController.getProfile);
+router.patch('/profile', authMiddleware(), userController.updateProfile); // Name and email
+router.post('/profile/password', authMiddleware(), userController.changePassword); // Needs the current password
 
 // Client routes
-router.get('/clients/:id', authMiddleware(), clientController.getClient); // Any authenticated user can get a client by ID
+router.get('/clients/:id', authMiddleware(), requireClientAccess('id'), clientController.getClient); // Reviewers, the owning salesperson and people working on the client's projects
 router.get('/clients', authMiddleware([UserRole.ADMIN, UserRole.MANAGER]), clientController.getClients); // Only admins and managers can list all clients
-router.get('/clients/salesperson/:salesPersonId', authMiddleware([UserRole.ADMIN, UserRole.MANAGER, UserRole.SALESPERSON]), clientController.getClientsBySalesperson); // Admins, managers, and salespeople can list clients by salesperson
+router.get('/clients/salesperson/:salesPersonId', authMiddleware([UserRole.ADMIN, UserRole.MANAGER, UserRole.SALESPERSON]), requireSelfOrReviewer('salesPersonId'), clientController.getClientsBySalesperson); // Salespeople can only list their own clients
 router.post('/clients/create', authMiddleware([UserRole.ADMIN, UserRole.MANAGER, UserRole.SALESPERSON]), clientController.createClient); // Admins, managers, and salespeople can create clients
+router.patch('/clients/:id', authMiddleware([UserRole.ADMIN, UserRole.MANAGER, UserRole.SALESPERSON]), clientController.updateClient); // Admins and managers can edit any client; salespeople the clients they own
+router.post('/clients/:id/transfer', authMiddleware([UserRole.ADMIN, UserRole.MANAGER, UserRole.SALESPERSON]), clientController.transferClient); // Owners and reviewers can hand a client to another salesperson
+router.post('/clients/:id/deactivate', authMiddleware([UserRole.ADMIN, UserRole.MANAGER, UserRole.SALESPERSON]), clientController.deactivateClient); // Owners and reviewers can deactivate a client
+router.post('/clients/:id/reactivate', authMiddleware([UserRole.ADMIN, UserRole.MANAGER, UserRole.SALESPERSON]), clientController.reactivateClient); // Owners and reviewers can reactivate a client
+router.post('/clients/:id/merge', authMiddleware([UserRole.ADMIN, UserRole.MANAGER]), clientController.mergeClient); // Only admins and managers can merge duplicate clients, since they may have different owners
 
 // Project routes
-router.get('/projects/:id', authMiddleware(), projectController.getProject); // Any authenticated user can get a project by ID
-router.get('/projects', authMiddleware(), projectController.getProjects); // Any authenticated user can get all projects
-router.get('/projects/user/:userId', authMiddleware(), projectController.getProjectsByUser); // Any authenticated user can get projects created by user ID
-router.get('/projects/client/:clientId', authMiddleware(), projectController.getProjectsByClient); // Any authenticated user can get projects by client ID
-router.post('/projects/create', authMiddleware([UserRole.ADMIN, UserRole.MANAGER, UserRole.SALESPERSON]), projectController.createProject); // Admins, managers, and salespeople can create projects
+router.get('/projects/export', authMiddleware(), exportController.exportProjects); // CSV or XLSX of the projects the user can see, with approved spend
+router.get('/projects/budget-forecasts', authMiddleware(), projectController.getBudgetForecasts); // Spend and run-out forecasts for the live projects the user can see
+router.get('/projects/:id', authMiddleware(), requireProjectAccess('id'), projectController.getProject); // Reviewers, the project team and the client's salesperson
+router.get('/projects', authMiddleware(), projectController.getProjects); // Lists only the projects the user can see
+router.get('/projects/user/:userId', authMiddleware(), requireSelfOrReviewer(), projectController.getProjectsByUser); // Users can list their own projects; reviewers anyone's
+router.get('/projects/client/:clientId', authMiddleware(), requireClientAccess(), projectController.getProjectsByClient); // Lists the client's projects the user can see
+router.post('/projects/create', authMiddleware([UserRole.ADMIN, UserRole.MANAGER, UserRole.SALESPERSON]), projectController.createProject); // Admins and managers can create projects; salespeople only for their own clients
 router.patch('/projects/:id/status', authMiddleware([UserRole.ADMIN, UserRole.MANAGER]), projectController.updateProjectStatus); // Only admins and managers can update project status
-router.get('/projects/assigned/:userId', authMiddleware(), projectController.getAssignedProjects);
+router.patch('/projects/:id', authMiddleware([UserRole.ADMIN, UserRole.MANAGER, UserRole.SALESPERSON]), projectController.updateProject); // Admins and managers can edit any project; salespeople the projects they created
+router.get('/projects/:id/budget-revisions', authMiddleware(), requireProjectAccess('id'), projectController.getBudgetRevisions); // Anyone who can see the project can see its budget history
+router.get('/projects/:id/budget-forecast', authMiddleware(), requireProjectAccess('id'), projectController.getBudgetForecast); // Anyone who can see the project can see where its spending is heading
+router.post('/projects/:id/budget-revisions', authMiddleware([UserRole.ADMIN, UserRole.MANAGER, UserRole.SALESPERSON]), projectController.reviseBudget); // Same as editing: reviewers, or the salesperson who created the project
+router.get('/projects/:id/category-budgets', authMiddleware(), requireProjectAccess('id'), projectController.getCategoryBudgets); // Anyone who can see the project can see its budget by category
+router.post('/projects/:id/category-budgets', authMiddleware([UserRole.ADMIN, UserRole.MANAGER, UserRole.SALESPERSON]), projectController.setCategoryBudgets); // Same as editing: reviewers, or the salesperson who created the project
+router.get('/projects/:id/category-budgets/check', authMiddleware(), requireProjectAccess('id'), projectController.checkCategoryBudget); // Anyone who can submit to the project can check an expense against its category line
+router.post('/projects/:id/archive', authMiddleware([UserRole.ADMIN, UserRole.MANAGER]), projectController.archiveProject); // Only admins and managers can archive projects
+router.post('/projects/:id/unarchive', authMiddleware([UserRole.ADMIN, UserRole.MANAGER]), projectController.unarchiveProject); // Only admins and managers can restore archived projects
+router.delete('/projects/:id', authMiddleware([UserRole.ADMIN]), projectController.deleteProject); // Only admins can delete projects, and only those without expenses
+router.get('/projects/:id/assignments', authMiddleware(), requireProjectAccess('id'), projectController.getProjectAssignments); // Anyone who can see the project can see its team and past members
+router.post('/projects/:id/assignments', authMiddleware([UserRole.ADMIN, UserRole.MANAGER]), projectController.assignUser); // Only admins and managers can add team members
+router.delete('/projects/:id/assignments/:assignmentId', authMiddleware([UserRole.ADMIN, UserRole.MANAGER]), projectController.removeAssignment); // Only admins and managers can remove team members; the assignment is kept as history
+router.get('/projects/assigned/:userId', authMiddleware(), requireSelfOrReviewer(), projectController.getAssignedProjects); // Users can list their own assignments; reviewers anyone's
 
 // Expense routes
-router.get('/expenses/:id', authMiddleware(), expenseController.getExpense); // Any authenticated user can get an expense by ID
-router.get('/expenses', authMiddleware([UserRole.ADMIN, UserRole.MANAGER]), expenseController.getExpenses); // Only admins and managers can get all expenses
-router.get('/expenses/project/:projectId', authMiddleware(), expenseController.getExpensesByProject); // Any authenticated user can get expenses by project ID
-router.get('/expenses/user/:userId', authMiddleware(), expenseController.getExpensesByUser); // Any authenticated user can get expenses submitted by a specific user
+router.get('/expenses/export', authMiddleware(), exportController.exportExpenses); // CSV or XLSX of every expense matching the listing's filters that the user can see
+router.get('/expenses/:id', authMiddleware(), requireExpenseAccess(), expenseController.getExpense); // Reviewers, the submitter and (except employees) the project team
+router.get('/expenses', authMiddleware(), expenseController.getExpenses); // Filtered, sorted and paged; each user only gets the expenses they can see
+router.get('/expenses/project/:projectId', authMiddleware(), requireProjectAccess(), expenseController.getExpensesByProject); // Same query options as /expenses, limited to the project; employees only see their own
+router.get('/expenses/user/:userId', authMiddleware(), requireSelfOrReviewer(), expenseController.getExpensesByUser); // Users can list their own expenses; reviewers anyone's
 router.get('/expenses/status/:status', authMiddleware([UserRole.ADMIN, UserRole.MANAGER]), expenseController.getExpensesByStatus); // Only admins and managers can get expenses by status
-router.post('/expenses/create', authMiddleware(), expenseController.createExpense); // Any authenticated user can create an expense
-router.patch('/expenses/:id/status', authMiddleware([UserRole.ADMIN, UserRole.MANAGER]), expenseController.updateExpenseStatus); // Only admins and managers can update expense status
+router.post('/expenses/create', authMiddleware(), expenseController.createExpense); // Any authenticated user can submit an expense to a project they can see
+router.post('/expenses/import/preview', authMiddleware(), csvUpload, expenseController.previewImport); // Checks a CSV row by row without saving anything
+router.post('/expenses/import', authMiddleware(), expenseController.importExpenses); // Submits the confirmed rows in one transaction, to projects the user can see
+router.patch('/expenses/:id/status', authMiddleware([UserRole.ADMIN, UserRole.MANAGER]), expenseController.updateExpenseStatus); // Only the approver role of the current approval step (or an admin) can decide it
+router.post('/expenses/bulk-review', authMiddleware([UserRole.ADMIN, UserRole.MANAGER]), expenseController.bulkReviewExpenses); // One decision for many expenses, all or none; each must be at a step the reviewer may decide
+router.get('/expenses/:id/approvals', authMiddleware(), expenseController.getApprovalSteps); // Reviewers, the submitter and the project team can see the approval timeline
+router.patch('/expenses/:id', authMiddleware(), expenseController.editExpense); // Only the submitter can edit a pending expense
+router.post('/expenses/:id/resubmit', authMiddleware(), expenseController.resubmitExpense); // Only the submitter can resubmit a rejected expense
+router.post('/expenses/:id/withdraw', authMiddleware(), expenseController.withdrawExpense); // Only the submitter can withdraw a pending expense
+router.get('/expenses/:id/versions', authMiddleware(), expenseController.getExpenseVersions); // Reviewers, the submitter and the project team can see the change history
+
+// Approval rule routes
+router.get('/approval-rules', authMiddleware([UserRole.ADMIN, UserRole.MANAGER]), approvalRuleController.getApprovalRules); // Admins and managers can see the approval policy
+router.post('/approval-rules', authMiddleware([UserRole.ADMIN]), approvalRuleController.createApprovalRule); // Only admins can change the approval policy
+router.delete('/approval-rules/:id', authMiddleware([UserRole.ADMIN]), approvalRuleController.deleteApprovalRule); // Only admins can change the approval policy
+
+// Exchange rate routes
+router.get('/exchange-rates', authMiddleware(), exchangeRateController.getExchangeRates); // Any authenticated user can see the rates their money is converted at
+router.post('/exchange-rates', authMiddleware([UserRole.ADMIN]), exchangeRateController.saveExchangeRate); // Only admins can add or change a rate
+router.post('/exchange-rates/import', authMiddleware([UserRole.ADMIN]), csvUpload, exchangeRateController.importExchangeRates); // Only admins can upload rates, all or none
+router.delete('/exchange-rates/:currency', authMiddleware([UserRole.ADMIN]), exchangeRateController.deleteExchangeRate); // Only admins can remove a rate, and only one no project or expense uses
+
+// Receipt routes
+router.get('/expenses/:id/receipts', authMiddleware(), receiptController.getReceipts); // Reviewers, the submitter and the project team can list receipts
+router.post('/expenses/:id/receipts', authMiddleware(), requireReceiptChangeAccess(), receiptUpload, receiptController.uploadReceipts); // Reviewers or the submitter can attach receipts while the expense is pending
+router.get('/receipts/:id/file', authMiddleware(), receiptController.getReceiptFile); // Streams the file to anyone who can see the expense
+router.delete('/receipts/:id', authMiddleware(), receiptController.deleteReceipt); // Reviewers or the submitter can remove receipts while the expense is pending
 
 // Activity Log routes
-router.get('/activity-logs/:id', authMiddleware(), activityLogController.getActivityLog); // Any authenticated user can get an activity log by ID
+router.get('/activity-logs/:id', authMiddleware(), requireActivityLogAccess(), activityLogController.getActivityLog); // The author, reviewers and those who can see the log's project
 router.get('/activity-logs', authMiddleware([UserRole.ADMIN, UserRole.MANAGER]), activityLogController.getActivityLogs); // Only admins and managers can get all activity logs
-router.get('/activity-logs/project/:projectId', authMiddleware(), activityLogController.getActivityLogsByProject); // Any authenticated user can get activity logs for a specific project
-router.get('/activity-logs/user/:userId', authMiddleware(), activityLogController.getActivityLogsByUser); // Any authenticated user can get activity logs for a specific user
+router.get('/activity-logs/project/:projectId', authMiddleware(), requireProjectAccess(), activityLogController.getActivityLogsByProject); // Lists the project's logs the user can see
+router.get('/activity-logs/user/:userId', authMiddleware(), requireSelfOrReviewer(), activityLogController.getActivityLogsByUser); // Users can list their own activity; reviewers anyone's
 router.post('/activity-logs', authMiddleware([UserRole.ADMIN, UserRole.MANAGER]), activityLogController.createActivityLog); // Only admins and managers can create activity logs
 
 // Notification routes
-router.get('/notifications', authMiddleware(), notificationController.getUnreadNotifications);
+router.get('/notifications', authMiddleware(), notificationController.getUnreadNotifications); // Unread notifications targeted at the current user
+router.post('/notifications/read-all', authMiddleware(), notificationController.markAllNotificationsRead);
+router.post('/notifications/:id/read', authMiddleware(), notificationController.markNotificationRead);
+router.get('/notifications/preferences', authMiddleware(), notificationController.getPreferences); // The current user's settings, or the defaults
+router.put('/notifications/preferences', authMiddleware(), notificationController.savePreferences); // Replaces all five settings at once
 
 // Analytics routes
 router.get('/analytics/total-budget-vs-spent', authMiddleware([UserRole.ADMIN, UserRole.MANAGER]), analyticsController.getTotalBudgetVsSpent); // Only admins and managers can access analytics
+router.get('/analytics/category-budget-vs-spent', authMiddleware([UserRole.ADMIN, UserRole.MANAGER]), analyticsController.getCategoryBudgetVsSpent); // Only admins and managers can access analytics
 router.get('/analytics/monthly-spending-trends', authMiddleware([UserRole.ADMIN, UserRole.MANAGER]), analyticsController.getMonthlySpendingTrends); // Only admins and managers can access analytics
 router.get('/analytics/spending-by-category', authMiddleware([UserRole.ADMIN, UserRole.MANAGER]), analyticsController.getSpendingByCategory); // Only admins and managers can access analytics
 router.get('/analytics/expense-approval-rates', authMiddleware([UserRole.ADMIN, UserRole.MANAGER]), analyticsController.getExpenseApprovalRates); // Only admins and managers can access analytics
 router.get('/analytics/spending-by-employee', authMiddleware([UserRole.ADMIN, UserRole.MANAGER]), analyticsController.getSpendingByEmployee); // Only admins and managers can access analytics
+router.get('/analytics/:dataset/export', authMiddleware([UserRole.ADMIN, UserRole.MANAGER]), exportController.exportAnalytics); // Any analytics dataset as CSV or XLSX; only admins and managers
 
 export default router;
\ No newline at end of file
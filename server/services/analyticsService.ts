@@ -1,26 +1,31 @@
 // server/services/analyticsService.ts
 
-import { EmployeeSpending, ExpenseApprovalRate, MonthlySpending, ProjectBudgetComparison, SpendingCategory } from "@shared/schema";
+import { CategoryBudgetComparison, EmployeeSpending, ExpenseApprovalRate, MonthlySpending, ProjectBudgetComparison, REPORTING_CURRENCY, SpendingCategory } from "@shared/schema";
 import { storage } from "../storage";
 
+// Money is converted into reportingCurrency; project budgets also stay in the project's own currency
 export const analyticsService = {
-  async getTotalBudgetVsSpent(dateRange?: string): Promise<ProjectBudgetComparison[]> {
-    return storage.getTotalBudgetVsSpent(dateRange);
+  async getTotalBudgetVsSpent(dateRange?: string, reportingCurrency = REPORTING_CURRENCY): Promise<ProjectBudgetComparison[]> {
+    return storage.getTotalBudgetVsSpent(dateRange, reportingCurrency);
   },
 
-  async getMonthlySpendingTrends(): Promise<MonthlySpending[]> {
-    return storage.getMonthlySpendingTrends();
+  async getCategoryBudgetVsSpent(reportingCurrency = REPORTING_CURRENCY): Promise<CategoryBudgetComparison[]> {
+    return storage.getCategoryBudgetVsSpent(undefined, reportingCurrency);
   },
 
-  async getSpendingByCategory(): Promise<SpendingCategory[]> {
-    return storage.getSpendingByCategory();
+  async getMonthlySpendingTrends(reportingCurrency = REPORTING_CURRENCY): Promise<MonthlySpending[]> {
+    return storage.getMonthlySpendingTrends(reportingCurrency);
+  },
+
+  async getSpendingByCategory(reportingCurrency = REPORTING_CURRENCY): Promise<SpendingCategory[]> {
+    return storage.getSpendingByCategory(reportingCurrency);
   },
 
   async getExpenseApprovalRates(): Promise<ExpenseApprovalRate[]> {
     return storage.getExpenseApprovalRates();
   },
 
-  async getSpendingByEmployee(): Promise<EmployeeSpending[]> {
-    return storage.getSpendingByEmployee();
+  async getSpendingByEmployee(reportingCurrency = REPORTING_CURRENCY): Promise<EmployeeSpending[]> {
+    return storage.getSpendingByEmployee(reportingCurrency);
   },
-};
\ No newline at end of file
+};
@@ -0,0 +1,80 @@
+// server/services/approvalPolicyService.ts
+
+import { storage } from "../storage";
+import { currencyService } from "./currencyService";
+import {
+  ApprovalRequirement,
+  ApprovalRule,
+  ApprovalStepStatus,
+  Expense,
+  ExpenseApprovalStep,
+  InsertApprovalRule,
+  UserRole,
+  UserRoleType,
+  REPORTING_CURRENCY,
+} from "@shared/schema";
+
+// Used when no rule matches, which keeps the old behaviour of a single reviewer sign-off
+const DEFAULT_APPROVAL_CHAIN: ApprovalRequirement[] = [{ level: 1, approverRole: UserRole.MANAGER }];
+
+// Project and category rules win over global ones; a rule for both wins over either
+function specificity(rule: ApprovalRule): number {
+  return (rule.projectId !== null ? 2 : 0) + (rule.category !== null ? 1 : 0);
+}
+
+export const approvalPolicyService = {
+  async getApprovalRules(): Promise<ApprovalRule[]> {
+    return storage.getApprovalRules();
+  },
+
+  async createApprovalRule(rule: InsertApprovalRule): Promise<ApprovalRule> {
+    return storage.createApprovalRule(rule);
+  },
+
+  async deleteApprovalRule(id: number): Promise<void> {
+    return storage.deleteApprovalRule(id);
+  },
+
+  // Works out the sign-offs an expense needs, ordered by level. Rule thresholds are in the
+  // reporting currency, so the amount is converted before it is compared.
+  async resolveChain(expense: { projectId: number; category: string; amount: number; currency?: string }): Promise<ApprovalRequirement[]> {
+    const rules = (await storage.getApprovalRules()).filter(
+      (rule) =>
+        (rule.projectId === null || rule.projectId === expense.projectId) &&
+        (rule.category === null || rule.category === expense.category),
+    );
+    if (rules.length === 0) return DEFAULT_APPROVAL_CHAIN;
+
+    const scope = Math.max(...rules.map(specificity));
+    const amount = await currencyService.convert(expense.amount, expense.currency ?? REPORTING_CURRENCY, REPORTING_CURRENCY);
+    const levels = new Map<number, UserRoleType>();
+    rules
+      .filter((rule) => specificity(rule) === scope && amount > rule.minAmount)
+      .sort((a, b) => a.level - b.level || b.minAmount - a.minAmount)
+      .forEach((rule) => {
+        if (!levels.has(rule.level)) levels.set(rule.level, rule.approverRole);
+      });
+
+    const chain = Array.from(levels, ([level, approverRole]) => ({ level, approverRole }));
+    return chain.length > 0 ? chain : DEFAULT_APPROVAL_CHAIN;
+  },
+
+  // The step waiting for a decision: the lowest pending level of the latest round
+  currentStep(steps: ExpenseApprovalStep[]): ExpenseApprovalStep | undefined {
+    if (steps.length === 0) return undefined;
+    const round = Math.max(...steps.map((step) => step.round));
+    const roundSteps = steps.filter((step) => step.round === round);
+    if (roundSteps.some((step) => step.status === ApprovalStepStatus.REJECTED)) return undefined;
+
+    return roundSteps
+      .filter((step) => step.status === ApprovalStepStatus.PENDING)
+      .sort((a, b) => a.level - b.level)[0];
+  },
+
+  // Admins may sign off any step; everyone else only steps for their own role. Nobody decides on
+  // an expense they submitted themselves.
+  canApprove(reviewer: { id: number; role: UserRoleType }, expense: Pick<Expense, "submittedById">, step: ExpenseApprovalStep): boolean {
+    if (reviewer.id === expense.submittedById) return false;
+    return reviewer.role === UserRole.ADMIN || reviewer.role === step.approverRole;
+  },
+};
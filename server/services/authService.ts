@@ -2,18 +2,82 @@ import { storage } from "../storage";
 import {
   generateAccessToken,
   generateRefreshToken,
+  generateTwoFactorChallenge,
   verifyRefreshToken,
+  verifyTwoFactorChallenge,
 } from "../../utils/jwt";
+import { TWO_FACTOR_CHALLENGE_ATTEMPTS, twoFactorService } from "./twoFactorService";
+import { randomUUID } from "crypto";
 import { z } from "zod";
-import { userLoginSchema, userRegisterSchema } from "@shared/schema";
-import { hashPassword } from "../../utils/session";
+import { SessionDevice, TwoFactorChallenge, TwoFactorLogin, TwoFactorSetup, User, UserRole, userLoginSchema, userRegisterSchema } from "@shared/schema";
+import { hashPassword, hashToken } from "../../utils/session";
 
 const REFRESH_TOKEN_EXPIRY_DAYS = parseInt(process.env.REFRESH_TOKEN_EXPIRY_DAYS || "7", 10);
 
+function refreshExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+}
+
 type LoginInput = z.infer<typeof userLoginSchema>;
 type RegisterInput = z.infer<typeof userRegisterSchema>;
+type SessionTokens = { accessToken: string; refreshToken: string };
+type PasswordLoginResult = SessionTokens | { twoFactor: "required" | "setup"; challengeToken: string };
+
+// Opens a session for the device and issues its first pair of tokens
+async function openSession(user: User, device: SessionDevice): Promise<SessionTokens> {
+  const sessionId = randomUUID();
+  const accessToken = generateAccessToken(user, sessionId);
+  const refreshToken = generateRefreshToken(user, sessionId);
+  await storage.createSession({
+    id: sessionId,
+    userId: user.id,
+    tokenHash: hashToken(refreshToken),
+    ...device,
+    expiresAt: refreshExpiry(),
+  });
+  return { accessToken, refreshToken };
+}
+
+async function issueTwoFactorChallenge(userId: number): Promise<string> {
+  const challenge = await twoFactorService.createChallenge(userId);
+  return generateTwoFactorChallenge(userId, challenge.id);
+}
+
+// The challenge behind a token and its user; an expired, forged or finished challenge means starting again
+async function openChallenge(challengeToken: string): Promise<{ challenge: TwoFactorChallenge; user: User }> {
+  let payload: { id: number; jti: string };
+  try {
+    payload = verifyTwoFactorChallenge(challengeToken);
+  } catch {
+    throw new Error("The sign-in has expired; start again");
+  }
+  const challenge = payload.jti ? await storage.getTwoFactorChallenge(payload.jti) : undefined;
+  if (!challenge || challenge.userId !== payload.id || challenge.usedAt) {
+    throw new Error("The sign-in has expired; start again");
+  }
+  if (challenge.attempts >= TWO_FACTOR_CHALLENGE_ATTEMPTS) {
+    throw new Error("Too many codes were tried; start again");
+  }
+  const user = await storage.getUser(challenge.userId);
+  if (!user) {
+    throw new Error("The sign-in has expired; start again");
+  }
+  return { challenge, user };
+}
+
+// A wrong code counts against the challenge and towards the user's lockout; a right one uses the challenge up
+async function tryChallengeCode<T>(challengeToken: string, checkCode: (user: User) => Promise<T>): Promise<{ user: User; result: T }> {
+  const { challenge, user } = await openChallenge(challengeToken);
+  const result = await twoFactorService.tryCode(challenge, () => checkCode(user));
+  return { user, result };
+}
 
 export const authService = {
+  // Read on every call so the setting can be changed without touching the code
+  isPublicRegistrationEnabled(): boolean {
+    return process.env.PUBLIC_REGISTRATION === "true";
+  },
+
   async register(data: RegisterInput) {
     // Debugging log to verify username check
     console.log(`🔍 Checking for existing user with username: ${data.username}`);
@@ -29,73 +93,94 @@ export const authService = {
     // const hashedPassword = await hashPassword(data.password);
     const hashedPassword = await hashPassword(data.password);
 
-    const { confirmPassword, ...sanitized } = data;
+    // Whatever the request says, self-registered users start at the lowest role
     return storage.createUser({
-      ...sanitized,
-      password: hashedPassword
+      username: data.username,
+      name: data.name,
+      password: hashedPassword,
+      role: UserRole.EMPLOYEE,
     });
   },
 
-  async login(data: LoginInput) {
+  // Each sign-in opens a separate session, so other devices stay signed in. Users with two-factor
+  // on, or whose role requires it, get a challenge for the second step instead of tokens.
+  async login(data: LoginInput, device: SessionDevice): Promise<PasswordLoginResult> {
     const user = await storage.verifyUser(data.username, data.password);
 
     if (!user) {
       throw new Error("[login-service] Invalid credentials");
     }
 
-    const accessToken = generateAccessToken(user);
-    const refreshToken = generateRefreshToken(user);
+    if (await twoFactorService.isEnabled(user.id)) {
+      return { twoFactor: "required", challengeToken: await issueTwoFactorChallenge(user.id) };
+    }
+    if (await twoFactorService.isRequiredFor(user.role)) {
+      return { twoFactor: "setup", challengeToken: await issueTwoFactorChallenge(user.id) };
+    }
+    return openSession(user, device);
+  },
 
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + REFRESH_TOKEN_EXPIRY_DAYS);
-    await storage.updateRefreshToken(user.id, refreshToken, expiresAt);
+  async completeTwoFactorLogin({ challengeToken, code }: TwoFactorLogin, device: SessionDevice): Promise<SessionTokens> {
+    const { user } = await tryChallengeCode(challengeToken, async (user) => {
+      if (!(await twoFactorService.verify(user.id, code))) {
+        throw new Error("That code is not valid");
+      }
+    });
+    return openSession(user, device);
+  },
+
+  // Enrollment during sign-in, for users whose role requires two-factor before they have it
+  async beginTwoFactorSetupAtLogin(challengeToken: string): Promise<TwoFactorSetup> {
+    const { user } = await openChallenge(challengeToken);
+    return twoFactorService.beginSetup(user);
+  },
 
-    return { accessToken, refreshToken };
+  async enableTwoFactorAtLogin({ challengeToken, code }: TwoFactorLogin, device: SessionDevice): Promise<SessionTokens & { recoveryCodes: string[] }> {
+    const { user, result: recoveryCodes } = await tryChallengeCode(challengeToken, (user) => twoFactorService.enable(user.id, code));
+    return { ...(await openSession(user, device)), recoveryCodes };
   },
 
-  async refresh(refreshToken: string) {
+  // Rotates the session's refresh token. A token that is no longer the session's current one has
+  // been used before, so someone else may hold the session: it is revoked on every device.
+  async refresh(refreshToken: string, device: SessionDevice) {
     try {
-      console.log("[refresh] Incoming token:", refreshToken);
-  
-      const payload = verifyRefreshToken(refreshToken); // includes id, username, name, role
-      console.log("[refresh] Verified payload:", payload);
-  
-      const dbSession = await storage.getSessionTokenByUserId(payload.id);
-      console.log("[refresh] Session token from DB:", dbSession);
-  
-      if (!dbSession) {
+      const payload = verifyRefreshToken(refreshToken); // includes id, username, name, role, sid
+
+      const session = await storage.getSession(payload.sid);
+      if (!session || session.userId !== payload.id) {
         throw new Error("[DB] No session found for user");
       }
-  
-      if (dbSession.refreshToken !== refreshToken) {
-        throw new Error("[DB] Refresh token mismatch");
+      if (session.revokedAt) {
+        throw new Error("[DB] Session has been revoked");
       }
-  
-      if (new Date(dbSession.expiresAt) < new Date()) {
+      if (new Date(session.expiresAt) < new Date()) {
         throw new Error("[DB] Refresh token expired");
       }
-  
+
+      const tokenHash = hashToken(refreshToken);
+      if (session.tokenHash !== tokenHash) {
+        await storage.revokeSession(session.id);
+        console.warn(`[refresh] Reused refresh token for session ${session.id} of user ${session.userId}; session revoked`);
+        throw new Error("[DB] Refresh token reuse detected");
+      }
+
       // 🔍 Fetch full user details for token generation
       const user = await storage.getUser(payload.id);
       if (!user) {
         throw new Error("[refresh-service] User not found");
       }
-  
-      const userData = {
-        id: user.id,
-        username: user.username,
-        name: user.name,
-        role: user.role,
-      };
-  
-      // 🔁 Generate new refresh token and update DB
-      const newRefreshToken = generateRefreshToken(userData);
-      await storage.updateRefreshToken(user.id, newRefreshToken, new Date(Date.now() + REFRESH_TOKEN_EXPIRY_DAYS * 24 * 60 * 60 * 1000));
-      console.log("[refresh] Refresh token updated in DB.");
-  
+
+      // 🔁 Generate new refresh token and update DB; losing a race with the same token counts as reuse
+      const newRefreshToken = generateRefreshToken(user, session.id);
+      const rotated = await storage.rotateSession(session.id, tokenHash, hashToken(newRefreshToken), refreshExpiry(), device);
+      if (!rotated) {
+        await storage.revokeSession(session.id);
+        throw new Error("[DB] Refresh token reuse detected");
+      }
+
       // 🔐 Generate new access token
-      const accessToken = generateAccessToken(userData);
-  
+      const accessToken = generateAccessToken(user, session.id);
+
       return {
         accessToken,
         refreshToken: newRefreshToken,
@@ -105,11 +190,18 @@ export const authService = {
       throw new Error("[authService] Refresh token error: " + error.message);
     }
   },
-  
-  
-  async logout(refreshToken: string) {
-    await storage.deleteRefreshToken(refreshToken);
-  },
 
-  
+  // Ends the cookie's session; a missing or unreadable cookie has nothing to end
+  async logout(refreshToken: string | undefined) {
+    if (!refreshToken) return;
+    try {
+      const payload = verifyRefreshToken(refreshToken);
+      const session = await storage.getSession(payload.sid);
+      if (session?.tokenHash === hashToken(refreshToken)) {
+        await storage.revokeSession(session.id);
+      }
+    } catch (error: any) {
+      console.warn("[authService] Logout with an invalid refresh token:", error.message);
+    }
+  },
 };
@@ -0,0 +1,139 @@
+// server/services/budgetService.ts
+
+import { storage } from "../storage";
+import {
+  BudgetForecast, CategoryBudgetCheck, CategoryBudgetCheckQuery, CategoryBudgetComparison, CategoryBudgetLine,
+  Expense, ExpenseStatus, Project,
+} from "@shared/schema";
+import { convert, rateTable, sumConverted, type RateTable } from "../currency";
+import { addMoney, subtractMoney, sumMoney } from "@shared/money";
+import { audit } from "../audit";
+import { notificationService } from "./notificationService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// The burn rate looks at this many days of recent spending, or the project's life if shorter
+const BURN_RATE_WINDOW_DAYS = 90;
+
+function isCommitted(expense: Expense): boolean {
+  return expense.status === ExpenseStatus.APPROVED || expense.status === ExpenseStatus.PENDING;
+}
+
+// Expenses may be paid in other currencies than their project's
+function sumAmounts(expenses: Expense[], project: Project, rates: RateTable): number {
+  return sumConverted(expenses, project.currency, rates);
+}
+
+export const budgetService = {
+  async getForecast(project: Project, now = new Date()): Promise<BudgetForecast> {
+    const expenses = await storage.getExpensesByProject(project.id);
+    const rates = rateTable(await storage.getExchangeRates());
+    const approved = sumAmounts(expenses.filter((expense) => expense.status === ExpenseStatus.APPROVED), project, rates);
+    const pending = sumAmounts(expenses.filter((expense) => expense.status === ExpenseStatus.PENDING), project, rates);
+    const committed = addMoney(approved, pending);
+
+    const windowStart = new Date(Math.max(
+      now.getTime() - BURN_RATE_WINDOW_DAYS * DAY_MS,
+      new Date(project.startDate).getTime(),
+    ));
+    const windowDays = Math.max(1, (now.getTime() - windowStart.getTime()) / DAY_MS);
+    const recentSpend = sumAmounts(expenses.filter((expense) =>
+      isCommitted(expense) && new Date(expense.createdAt) >= windowStart), project, rates);
+    const dailyBurnRate = recentSpend / windowDays;
+
+    const remaining = Math.max(0, subtractMoney(project.budget, committed));
+    const daysRemaining = dailyBurnRate > 0 ? Math.floor(remaining / dailyBurnRate) : null;
+
+    return {
+      projectId: project.id,
+      projectName: project.name,
+      currency: project.currency,
+      budget: project.budget,
+      approved,
+      pending,
+      committed,
+      percentCommitted: project.budget > 0 ? (committed / project.budget) * 100 : 0,
+      dailyBurnRate,
+      daysRemaining,
+      exhaustionDate: daysRemaining === null ? null : new Date(now.getTime() + daysRemaining * DAY_MS).toISOString(),
+      thresholds: [...project.budgetAlertThresholds].sort((a, b) => a - b),
+      alerts: await storage.getProjectBudgetAlerts(project.id),
+    };
+  },
+
+  async getForecasts(projects: Project[]): Promise<BudgetForecast[]> {
+    return Promise.all(projects.map((project) => this.getForecast(project)));
+  },
+
+  // Records and announces every threshold the project's committed spend has reached. Each
+  // threshold fires once per budget figure, so revising the budget re-arms them.
+  async checkThresholds(projectId: number, actorId: number): Promise<void> {
+    const project = await storage.getProject(projectId);
+    if (!project || project.archivedAt || project.budget <= 0) return;
+
+    const forecast = await this.getForecast(project);
+    const reached = forecast.thresholds.filter((threshold) => forecast.percentCommitted >= threshold);
+    const alerted = new Set(forecast.alerts
+      .filter((alert) => alert.budget === project.budget)
+      .map((alert) => alert.threshold));
+    const newlyReached = reached.filter((threshold) => !alerted.has(threshold));
+    if (newlyReached.length === 0) return;
+
+    const managerIds = await notificationService.getProjectManagerIds(project.id);
+    for (const threshold of newlyReached) {
+      await storage.recordProjectBudgetAlert(
+        { projectId: project.id, threshold, budget: project.budget, committed: forecast.committed },
+        audit.budgetThresholdReached(actorId, project, managerIds),
+      );
+    }
+  },
+
+  async getCategoryBreakdown(projectId: number): Promise<CategoryBudgetComparison[]> {
+    return storage.getCategoryBudgetVsSpent(projectId);
+  },
+
+  // The lines may leave part of the budget unallocated but may not promise more than the whole
+  async setCategoryBudgets(project: Project, lines: CategoryBudgetLine[], actorId: number): Promise<CategoryBudgetComparison[]> {
+    if (project.archivedAt) {
+      throw new Error("Archived projects cannot be re-budgeted");
+    }
+    const allocated = sumMoney(lines.map((line) => line.amount));
+    if (allocated > project.budget) {
+      throw new Error(`Category budgets add up to ${allocated}, more than the project budget of ${project.budget}`);
+    }
+    await storage.replaceProjectCategoryBudgets(project.id, lines, audit.projectUpdated(actorId));
+    return this.getCategoryBreakdown(project.id);
+  },
+
+  // How an expense would leave its category line, in the project's currency. Returns null when
+  // the category has no line, since unbudgeted categories are never over budget.
+  async checkCategoryBudget(project: Project, check: CategoryBudgetCheckQuery): Promise<CategoryBudgetCheck | null> {
+    const lines = await storage.getProjectCategoryBudgets(project.id);
+    const line = lines.find((candidate) => candidate.category === check.category);
+    if (!line) return null;
+
+    const rates = rateTable(await storage.getExchangeRates());
+    const expenses = await storage.getExpensesByProject(project.id);
+    const committed = sumAmounts(expenses.filter((expense) =>
+      isCommitted(expense) && expense.category === check.category && expense.id !== check.expenseId), project, rates);
+    const projected = addMoney(committed, convert(check.amount, check.currency ?? project.currency, project.currency, rates));
+
+    return {
+      category: check.category,
+      currency: project.currency,
+      budget: line.amount,
+      committed,
+      projected,
+      overBy: Math.max(0, subtractMoney(projected, line.amount)),
+    };
+  },
+
+  // Alerts are a side effect of the change that triggered them; failing to send one must not
+  // fail that change, which has already been saved
+  async checkThresholdsSafely(projectId: number, actorId: number): Promise<void> {
+    try {
+      await this.checkThresholds(projectId, actorId);
+    } catch (error) {
+      console.error(`Failed to check budget thresholds for project ${projectId}:`, error);
+    }
+  },
+};
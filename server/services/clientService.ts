@@ -1,15 +1,18 @@
 // server/services/clientService.ts
 
 import { storage } from "../storage";
-import { Client, InsertClient } from "@shared/schema";
+import { audit } from "../audit";
+import { Client, ClientUpdate, InsertClient, UserRole } from "@shared/schema";
 
 export const clientService = {
   async getClient(id: number): Promise<Client | undefined> {
     return storage.getClient(id);
   },
 
-  async getClients(): Promise<Client[]> {
-    return storage.getClients();
+  // Deactivated and merged clients are left out unless asked for
+  async getClients(includeInactive = false): Promise<Client[]> {
+    const clients = await storage.getClients();
+    return includeInactive ? clients : clients.filter((client) => !client.deactivatedAt);
   },
 
   async getClientsBySalesperson(salesPersonId: number): Promise<Client[]> {
@@ -20,4 +23,67 @@ export const clientService = {
     // Add any business logic or validation here before creating the client
     return storage.createClient(client);
   },
-};
\ No newline at end of file
+
+  async updateClient(client: Client, changes: ClientUpdate, updatedById: number): Promise<Client> {
+    if (client.mergedIntoId) {
+      throw new Error("Merged clients cannot be edited");
+    }
+    return storage.updateClient(client.id, changes, audit.clientUpdated(updatedById));
+  },
+
+  // Hands the client to another salesperson or reviewer; employees cannot own clients
+  async transferClient(client: Client, newOwnerId: number, transferredById: number): Promise<Client> {
+    if (client.mergedIntoId) {
+      throw new Error("Merged clients cannot be transferred");
+    }
+    if (client.createdById === newOwnerId) {
+      throw new Error("The client already belongs to this user");
+    }
+    const newOwner = await storage.getUser(newOwnerId);
+    if (!newOwner) {
+      throw new Error("User not found");
+    }
+    if (newOwner.role === UserRole.EMPLOYEE) {
+      throw new Error("Clients can only be owned by salespeople, managers or admins");
+    }
+    return storage.updateClient(
+      client.id,
+      { createdById: newOwner.id },
+      audit.clientTransferred(transferredById, client.createdById),
+    );
+  },
+
+  async deactivateClient(client: Client, deactivatedById: number): Promise<Client> {
+    if (client.deactivatedAt) {
+      throw new Error("Client is already deactivated");
+    }
+    return storage.updateClient(client.id, { deactivatedAt: new Date() }, audit.clientUpdated(deactivatedById));
+  },
+
+  async reactivateClient(client: Client, reactivatedById: number): Promise<Client> {
+    if (client.mergedIntoId) {
+      throw new Error("Merged clients cannot be reactivated");
+    }
+    if (!client.deactivatedAt) {
+      throw new Error("Client is already active");
+    }
+    return storage.updateClient(client.id, { deactivatedAt: null }, audit.clientUpdated(reactivatedById));
+  },
+
+  // Moves every project of the duplicate onto the surviving client and retires the duplicate
+  async mergeClients(source: Client, target: Client, mergedById: number): Promise<Client> {
+    if (source.id === target.id) {
+      throw new Error("A client cannot be merged into itself");
+    }
+    if (source.mergedIntoId) {
+      throw new Error(`${source.name} has already been merged`);
+    }
+    if (source.deactivatedAt) {
+      throw new Error(`${source.name} is deactivated; reactivate it before merging`);
+    }
+    if (target.deactivatedAt) {
+      throw new Error("Clients can only be merged into an active client");
+    }
+    return storage.mergeClients(source.id, target.id, audit.clientMerged(mergedById, source));
+  },
+};
@@ -0,0 +1,99 @@
+// server/services/currencyService.ts
+
+import { ExchangeRate, ExchangeRateForm, REPORTING_CURRENCY, currencyCodeSchema, exchangeRateFormSchema } from "@shared/schema";
+import { storage } from "../storage";
+import { readCsv } from "../csvReader";
+import { convert, rateTable } from "../currency";
+
+const EXCHANGE_RATE_IMPORT_MAX_ROWS = 500;
+
+// Accepts "Currency"/"Code" and "Rate" columns in any case
+function column(headers: string[], names: string[]): string | undefined {
+  return headers.find((header) => names.includes(header.toLowerCase().replace(/[\s_-]/g, "")));
+}
+
+export const currencyService = {
+  async getExchangeRates(): Promise<ExchangeRate[]> {
+    return storage.getExchangeRates();
+  },
+
+  // The currencies money can be recorded in: the reporting currency and every one with a rate
+  async getSupportedCurrencies(): Promise<string[]> {
+    const rates = await storage.getExchangeRates();
+    return [REPORTING_CURRENCY, ...rates.map((rate) => rate.currency)];
+  },
+
+  // Money may only be recorded in a currency it can be converted from
+  async assertSupported(currency: string): Promise<void> {
+    if (currency === REPORTING_CURRENCY) return;
+    const rates = await storage.getExchangeRates();
+    if (!rates.some((rate) => rate.currency === currency)) {
+      throw new Error(`${currency} has no exchange rate yet; an admin must add one before it can be used`);
+    }
+  },
+
+  // Normalises a currency code from a request and checks it can be converted
+  async parseCurrency(value: unknown): Promise<string> {
+    const parsed = currencyCodeSchema.safeParse(String(value));
+    if (!parsed.success) {
+      throw new Error(parsed.error.issues[0].message);
+    }
+    await this.assertSupported(parsed.data);
+    return parsed.data;
+  },
+
+  // Reads an optional ?currency= to report in, defaulting to the reporting currency
+  async resolveReportingCurrency(value: unknown): Promise<string> {
+    if (value === undefined || value === "") return REPORTING_CURRENCY;
+    return this.parseCurrency(value);
+  },
+
+  async convert(amount: number, from: string, to: string): Promise<number> {
+    return convert(amount, from, to, rateTable(await storage.getExchangeRates()));
+  },
+
+  async saveExchangeRate(rate: ExchangeRateForm, updatedById: number): Promise<ExchangeRate> {
+    const [saved] = await storage.saveExchangeRates([{ ...rate, updatedById }]);
+    return saved;
+  },
+
+  // Adds or replaces every rate in the file. All rows are checked first and one bad row saves nothing.
+  async importExchangeRates(csv: string, updatedById: number): Promise<ExchangeRate[]> {
+    const records = await readCsv(csv, EXCHANGE_RATE_IMPORT_MAX_ROWS);
+    if (records.length === 0) {
+      throw new Error("The file has no rows to import");
+    }
+    const headers = Object.keys(records[0].values);
+    const currencyColumn = column(headers, ["currency", "code", "currencycode"]);
+    const rateColumn = column(headers, ["rate", "exchangerate"]);
+    if (!currencyColumn || !rateColumn) {
+      throw new Error("The file needs a Currency and a Rate column");
+    }
+
+    const rates = new Map<string, ExchangeRateForm>();
+    for (const { line, values } of records) {
+      const parsed = exchangeRateFormSchema.safeParse({
+        currency: values[currencyColumn],
+        rate: values[rateColumn] === "" ? NaN : Number(values[rateColumn]),
+      });
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        throw new Error(`Row ${line}: ${issue.path[0] === "rate" && issue.code === "invalid_type" ? "Rate must be a number" : issue.message}`);
+      }
+      if (rates.has(parsed.data.currency)) {
+        throw new Error(`Row ${line}: ${parsed.data.currency} appears more than once`);
+      }
+      rates.set(parsed.data.currency, parsed.data);
+    }
+
+    return storage.saveExchangeRates(Array.from(rates.values(), (rate) => ({ ...rate, updatedById })));
+  },
+
+  // A rate still used by a project or an expense is needed to convert it
+  async deleteExchangeRate(currency: string): Promise<ExchangeRate | undefined> {
+    if (await storage.isCurrencyInUse(currency)) {
+      throw new Error(`${currency} is used by projects or expenses, so its rate cannot be removed`);
+    }
+    return storage.deleteExchangeRate(currency);
+  },
+};
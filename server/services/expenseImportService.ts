@@ -0,0 +1,165 @@
+// server/services/expenseImportService.ts
+
+import {
+  Expense, ExpenseImportPreview, ExpenseImportPreviewRow, ExpenseImportRow, ExpenseStatus, Project,
+  EXPENSE_IMPORT_MAX_ROWS, expenseImportRowSchema,
+} from "@shared/schema";
+import { storage, type NewExpense } from "../storage";
+import { policy, type Actor } from "../policy";
+import { audit } from "../audit";
+import { readCsv } from "../csvReader";
+import { approvalPolicyService } from "./approvalPolicyService";
+import { budgetService } from "./budgetService";
+import { currencyService } from "./currencyService";
+import { notificationService } from "./notificationService";
+import { projectService } from "./projectService";
+
+type ImportField = "project" | "projectId" | "description" | "amount" | "currency" | "category";
+
+// Header spellings accepted for each field, compared without case, spaces or underscores
+const HEADER_ALIASES: Record<string, ImportField> = {
+  project: "project",
+  projectname: "project",
+  projectid: "projectId",
+  description: "description",
+  amount: "amount",
+  currency: "currency",
+  category: "category",
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[\s_-]/g, "");
+}
+
+// Which CSV header feeds each field; the first matching column wins
+function mapColumns(headers: string[]): Partial<Record<ImportField, string>> {
+  const columns: Partial<Record<ImportField, string>> = {};
+  for (const header of headers) {
+    const field = HEADER_ALIASES[normalizeHeader(header)];
+    if (field && !columns[field]) columns[field] = header;
+  }
+  if (!columns.project && !columns.projectId) {
+    throw new Error("The file needs a Project or Project ID column");
+  }
+  for (const field of ["description", "amount", "category"] as const) {
+    if (!columns[field]) {
+      throw new Error(`The file needs a ${field.charAt(0).toUpperCase() + field.slice(1)} column`);
+    }
+  }
+  return columns;
+}
+
+// Accepts amounts the way spreadsheets print them, e.g. "$1,250.00"
+function parseAmount(value: string): number {
+  const cleaned = value.replace(/[$€£,\s]/g, "");
+  return cleaned === "" ? NaN : Number(cleaned);
+}
+
+// The projects the actor may submit to, looked up by ID or by case-insensitive name
+async function projectResolver(actor: Actor) {
+  const projects = await policy.filterProjects(actor, await projectService.getProjects(undefined, true));
+  const byId = new Map(projects.map((project) => [project.id, project]));
+  const byName = new Map<string, Project[]>();
+  for (const project of projects) {
+    const key = project.name.trim().toLowerCase();
+    byName.set(key, [...(byName.get(key) ?? []), project]);
+  }
+
+  return (reference: { id?: number; name?: string }): { project?: Project; error?: string } => {
+    if (reference.id !== undefined) {
+      if (!Number.isInteger(reference.id)) return { error: "Project ID must be a whole number" };
+      const project = byId.get(reference.id);
+      return project ? { project } : { error: `Project #${reference.id} does not exist or you cannot see it` };
+    }
+    const name = reference.name?.trim() ?? "";
+    if (!name) return { error: "Project is required" };
+    const matches = byName.get(name.toLowerCase()) ?? [];
+    if (matches.length === 0) return { error: `No project named "${name}" that you can see` };
+    if (matches.length > 1) return { error: `More than one project is named "${name}"; use a Project ID column instead` };
+    return { project: matches[0] };
+  };
+}
+
+function checkProject(project: Project): string | undefined {
+  return project.archivedAt ? `Project "${project.name}" is archived and does not accept new expenses` : undefined;
+}
+
+export const expenseImportService = {
+  // Reads the CSV and reports, row by row, what would be imported and what is wrong. Nothing is written.
+  async previewImport(actor: Actor, csv: string): Promise<ExpenseImportPreview> {
+    const records = await readCsv(csv, EXPENSE_IMPORT_MAX_ROWS);
+    if (records.length === 0) {
+      throw new Error("The file has no rows to import");
+    }
+    const columns = mapColumns(Object.keys(records[0].values));
+    const resolveProject = await projectResolver(actor);
+    const supported = new Set(await currencyService.getSupportedCurrencies());
+
+    const rows: ExpenseImportPreviewRow[] = records.map(({ line, values }) => {
+      const errors: string[] = [];
+      const idCell = columns.projectId ? values[columns.projectId] : "";
+      const { project, error } = resolveProject(idCell
+        ? { id: Number(idCell) }
+        : { name: columns.project ? values[columns.project] : undefined });
+      if (error) errors.push(error);
+      const archived = project && checkProject(project);
+      if (archived) errors.push(archived);
+
+      const parsed = expenseImportRowSchema.safeParse({
+        projectId: project?.id ?? 0,
+        description: values[columns.description!],
+        amount: parseAmount(values[columns.amount!]),
+        // A blank or missing currency means the project's
+        currency: (columns.currency && values[columns.currency]) || project?.currency,
+        category: values[columns.category!]?.toLowerCase(),
+      });
+      if (!parsed.success) {
+        for (const issue of parsed.error.issues) {
+          // A missing project has already been reported above
+          if (issue.path[0] === "projectId") continue;
+          errors.push(issue.path[0] === "amount" && issue.code === "invalid_type" ? "Amount must be a number" : issue.message);
+        }
+      } else if (parsed.data.currency && !supported.has(parsed.data.currency)) {
+        errors.push(`${parsed.data.currency} has no exchange rate yet`);
+      }
+
+      return { line, values, expense: errors.length === 0 && parsed.success ? parsed.data : null, errors };
+    });
+
+    const validCount = rows.filter((row) => row.expense).length;
+    return { rows, validCount, errorCount: rows.length - validCount };
+  },
+
+  // Submits the confirmed rows in one transaction. Every row is checked again, since the preview
+  // may be stale, and a single bad row stops the whole import.
+  async importExpenses(actor: Actor, rows: ExpenseImportRow[]): Promise<Expense[]> {
+    const resolveProject = await projectResolver(actor);
+    const newExpenses: NewExpense[] = [];
+
+    for (const [index, row] of rows.entries()) {
+      const { project, error } = resolveProject({ id: row.projectId });
+      const problem = error ?? checkProject(project!);
+      if (problem) {
+        throw new Error(`Row ${index + 1}: ${problem}`);
+      }
+
+      const currency = row.currency ?? project!.currency;
+      try {
+        await currencyService.assertSupported(currency);
+      } catch (err: any) {
+        throw new Error(`Row ${index + 1}: ${err.message}`);
+      }
+
+      const expense = { ...row, currency, status: ExpenseStatus.PENDING, submittedById: actor.id };
+      const approvalChain = await approvalPolicyService.resolveChain(expense);
+      const approverIds = await notificationService.getApproverIds(expense.projectId, approvalChain[0].approverRole);
+      newExpenses.push({ expense, approvalChain, audit: audit.expenseSubmitted(approverIds) });
+    }
+
+    const created = await storage.createExpenses(newExpenses);
+    for (const projectId of new Set(created.map((expense) => expense.projectId))) {
+      await budgetService.checkThresholdsSafely(projectId, actor.id);
+    }
+    return created;
+  },
+};
@@ -1,18 +1,23 @@
 // server/services/expenseService.ts
 
-import { storage } from "../storage";
-import { Expense, InsertExpense, ExpenseStatusType } from "@shared/schema";
+import { storage, type ApprovalDecision } from "../storage";
+import { Expense, ExpenseQuery, ExpensePage, InsertExpense, ExpenseEdit, ExpenseVersion, ExpenseChangeType, ExpenseStatus, ExpenseStatusType, ExpenseApprovalStep, ApprovalStepStatus, UserRoleType, BulkReviewResult, BulkReviewItemResult } from "@shared/schema";
+import { audit } from "../audit";
+import { notificationService } from "./notificationService";
+import { approvalPolicyService } from "./approvalPolicyService";
+import { budgetService } from "./budgetService";
+import { currencyService } from "./currencyService";
+import { Actor, policy } from "../policy";
 
 export const expenseService = {
   async getExpense(id: number): Promise<Expense | undefined> {
     return storage.getExpense(id);
   },
-  async getExpenses(): Promise<Expense[]> {
-    return storage.getExpenses();
-  },
-
-  async getExpensesByProject(projectId: number): Promise<Expense[]> {
-    return storage.getExpensesByProject(projectId);
+  // One page of the expenses the actor may see that match the query. The total is in the
+  // project's currency when the query is for one project, else in the reporting currency.
+  async queryExpenses(actor: Actor, query: ExpenseQuery): Promise<ExpensePage> {
+    const project = query.projectId === undefined ? undefined : await storage.getProject(query.projectId);
+    return storage.queryExpenses(query, await policy.expenseScope(actor), project?.currency);
   },
 
   async getExpensesByUser(userId: number): Promise<Expense[]> {
@@ -24,11 +29,155 @@ export const expenseService = {
   },
 
   async createExpense(expense: InsertExpense): Promise<Expense> {
-    // Add any business logic or validation here before creating the expense
-    return storage.createExpense(expense);
+    if (expense.currency !== undefined) {
+      expense = { ...expense, currency: await currencyService.parseCurrency(expense.currency) };
+    }
+    const approvalChain = await approvalPolicyService.resolveChain(expense);
+    const approverIds = await notificationService.getApproverIds(expense.projectId, approvalChain[0].approverRole);
+    const created = await storage.createExpense(expense, approvalChain, audit.expenseSubmitted(approverIds));
+    await budgetService.checkThresholdsSafely(created.projectId, expense.submittedById);
+    return created;
+  },
+
+  // Expenses submitted before approval chains existed get one the first time it is needed
+  async getApprovalSteps(expense: Expense): Promise<ExpenseApprovalStep[]> {
+    const steps = await storage.getApprovalSteps(expense.id);
+    if (steps.length > 0 || expense.status !== ExpenseStatus.PENDING) return steps;
+    return storage.startApprovalRound(expense.id, await approvalPolicyService.resolveChain(expense));
+  },
+
+  // Whether the user may decide the step the expense is currently waiting on
+  async canReviewExpense(user: { id: number; role: UserRoleType }, expense: Expense): Promise<boolean> {
+    if (expense.status !== ExpenseStatus.PENDING) return false;
+    const step = approvalPolicyService.currentStep(await this.getApprovalSteps(expense));
+    return !!step && approvalPolicyService.canApprove(user, expense, step);
+  },
+
+  // Decides the current approval step. A rejection or the last approval settles the expense;
+  // any other approval hands it on to the next level.
+  async reviewExpense(expense: Expense, status: ExpenseStatusType, reviewer: { id: number; role: UserRoleType }, feedback?: string): Promise<Expense> {
+    const { step, decision, reviewedById, expenseStatus, audit } = await this.planReview(expense, status, reviewer, feedback);
+    return storage.reviewApprovalStep(step, decision, reviewedById, feedback, expenseStatus, audit);
+  },
+
+  // Applies one decision to many expenses in a single transaction. Every expense is checked
+  // first; if any of them cannot be reviewed, nothing changes and the results say why.
+  async bulkReviewExpenses(expenseIds: number[], status: ExpenseStatusType, reviewer: Actor, feedback?: string): Promise<BulkReviewResult> {
+    const ids = Array.from(new Set(expenseIds));
+    const decisions: ApprovalDecision[] = [];
+    const results: BulkReviewItemResult[] = [];
+
+    for (const expenseId of ids) {
+      const expense = await storage.getExpense(expenseId);
+      if (!expense || !(await policy.canViewExpense(reviewer, expense))) {
+        results.push({ expenseId, success: false, message: "Expense not found" });
+        continue;
+      }
+      try {
+        decisions.push(await this.planReview(expense, status, reviewer, feedback));
+        results.push({ expenseId, success: true });
+      } catch (err: any) {
+        results.push({ expenseId, success: false, message: err.message });
+      }
+    }
+
+    if (results.some((result) => !result.success)) {
+      return { applied: false, results };
+    }
+
+    const reviewed = await storage.reviewApprovalSteps(decisions);
+    return {
+      applied: true,
+      results: reviewed.map((expense) => ({ expenseId: expense.id, success: true, status: expense.status })),
+    };
+  },
+
+  // Works out what deciding the current step means, without writing anything
+  async planReview(expense: Expense, status: ExpenseStatusType, reviewer: { id: number; role: UserRoleType }, feedback?: string): Promise<ApprovalDecision> {
+    if (expense.status !== ExpenseStatus.PENDING) {
+      throw new Error("Only pending expenses can be reviewed");
+    }
+    if (status !== ExpenseStatus.APPROVED && status !== ExpenseStatus.REJECTED) {
+      throw new Error("Status must be approved or rejected");
+    }
+
+    const steps = await this.getApprovalSteps(expense);
+    const step = approvalPolicyService.currentStep(steps);
+    if (!step || !approvalPolicyService.canApprove(reviewer, expense, step)) {
+      throw new Error("You cannot review the current approval step");
+    }
+    const review = { step, reviewedById: reviewer.id, feedback };
+
+    if (status === ExpenseStatus.REJECTED) {
+      return { ...review, decision: ApprovalStepStatus.REJECTED, expenseStatus: ExpenseStatus.REJECTED, audit: audit.expenseReviewed(reviewer.id) };
+    }
+
+    const nextStep = steps.find((candidate) =>
+      candidate.round === step.round && candidate.level > step.level && candidate.status === ApprovalStepStatus.PENDING
+    );
+    if (!nextStep) {
+      return { ...review, decision: ApprovalStepStatus.APPROVED, expenseStatus: ExpenseStatus.APPROVED, audit: audit.expenseReviewed(reviewer.id) };
+    }
+
+    const nextApproverIds = await notificationService.getApproverIds(expense.projectId, nextStep.approverRole);
+    return { ...review, decision: ApprovalStepStatus.APPROVED, expenseStatus: null, audit: audit.expenseApprovalAdvanced(reviewer.id, nextApproverIds) };
+  },
+
+  // Edits restart the approval chain, since earlier sign-offs were for different figures
+  async editExpense(expense: Expense, editorId: number, changes: ExpenseEdit): Promise<Expense> {
+    if (expense.status !== ExpenseStatus.PENDING) {
+      throw new Error("Only pending expenses can be edited");
+    }
+    if (changes.currency) {
+      await currencyService.assertSupported(changes.currency);
+    }
+    const approvalChain = await approvalPolicyService.resolveChain({ ...expense, ...changes });
+    const approverIds = await notificationService.getApproverIds(expense.projectId, approvalChain[0].approverRole);
+    const updated = await storage.updateExpense(expense.id, ExpenseStatus.PENDING, changes, editorId, ExpenseChangeType.EDITED, approvalChain, audit.expenseUpdated(editorId, approverIds));
+    await budgetService.checkThresholdsSafely(updated.projectId, editorId);
+    return updated;
+  },
+
+  // Puts a rejected expense back in the review queue; the rejection stays in the version history
+  async resubmitExpense(expense: Expense, submitterId: number, changes: ExpenseEdit): Promise<Expense> {
+    if (expense.status !== ExpenseStatus.REJECTED) {
+      throw new Error("Only rejected expenses can be resubmitted");
+    }
+    if (changes.currency) {
+      await currencyService.assertSupported(changes.currency);
+    }
+    const approvalChain = await approvalPolicyService.resolveChain({ ...expense, ...changes });
+    const approverIds = await notificationService.getApproverIds(expense.projectId, approvalChain[0].approverRole);
+    const resubmitted = await storage.updateExpense(
+      expense.id,
+      ExpenseStatus.REJECTED,
+      { ...changes, status: ExpenseStatus.PENDING, reviewedById: null, feedback: null },
+      submitterId,
+      ExpenseChangeType.RESUBMITTED,
+      approvalChain,
+      audit.expenseSubmitted(approverIds),
+    );
+    await budgetService.checkThresholdsSafely(resubmitted.projectId, submitterId);
+    return resubmitted;
+  },
+
+  async withdrawExpense(expense: Expense, submitterId: number): Promise<Expense> {
+    if (expense.status !== ExpenseStatus.PENDING) {
+      throw new Error("Only pending expenses can be withdrawn");
+    }
+    const managerIds = await notificationService.getProjectManagerIds(expense.projectId);
+    return storage.updateExpense(
+      expense.id,
+      ExpenseStatus.PENDING,
+      { status: ExpenseStatus.WITHDRAWN },
+      submitterId,
+      ExpenseChangeType.WITHDRAWN,
+      null,
+      audit.expenseUpdated(submitterId, managerIds),
+    );
   },
 
-  async updateExpenseStatus(id: number, status: string, reviewedById?: number, feedback?: string): Promise<Expense> {
-    return storage.updateExpenseStatus(id, status, reviewedById, feedback);
+  async getExpenseVersions(expenseId: number): Promise<ExpenseVersion[]> {
+    return storage.getExpenseVersions(expenseId);
   },
 };
\ No newline at end of file
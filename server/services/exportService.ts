@@ -0,0 +1,190 @@
+// server/services/exportService.ts
+
+import { CurrencyAmount, Expense, ExpenseQuery, Project } from "@shared/schema";
+import { subtractMoney } from "@shared/money";
+import { storage } from "../storage";
+import { policy, type Actor } from "../policy";
+import { ExportColumn } from "../export";
+import { expenseService } from "./expenseService";
+import { projectService } from "./projectService";
+import { analyticsService } from "./analyticsService";
+
+// Exports read expenses in pages of this size rather than all at once
+const EXPORT_BATCH_SIZE = 500;
+
+export type ProjectExportFilters = {
+  search?: string;
+  // A project status, or "archived" for archived projects only
+  status?: string;
+  dateRange?: string;
+};
+
+export type ExpenseExportRow = Expense & { projectName: string; submittedByName: string };
+
+export type ProjectExportRow = Project & { clientName: string; spent: number };
+
+// Looks names up once per export instead of once per row
+function nameLookup<T extends { id: number; name: string }>(
+  load: (id: number) => Promise<T | undefined>,
+): (id: number) => Promise<string> {
+  const names = new Map<number, string>();
+  return async (id) => {
+    if (!names.has(id)) {
+      names.set(id, (await load(id))?.name ?? `#${id}`);
+    }
+    return names.get(id)!;
+  };
+}
+
+export const expenseExportColumns: ExportColumn<ExpenseExportRow>[] = [
+  { header: "ID", value: (row) => row.id, width: 8 },
+  { header: "Date", value: (row) => row.createdAt, width: 20 },
+  { header: "Project", value: (row) => row.projectName, width: 28 },
+  { header: "Submitted By", value: (row) => row.submittedByName, width: 22 },
+  { header: "Description", value: (row) => row.description, width: 40 },
+  { header: "Category", value: (row) => row.category },
+  { header: "Amount", value: (row) => row.amount, width: 14 },
+  { header: "Currency", value: (row) => row.currency },
+  { header: "Status", value: (row) => row.status, width: 14 },
+  { header: "Feedback", value: (row) => row.feedback, width: 40 },
+];
+
+export const projectExportColumns: ExportColumn<ProjectExportRow>[] = [
+  { header: "ID", value: (row) => row.id, width: 8 },
+  { header: "Project", value: (row) => row.name, width: 28 },
+  { header: "Client", value: (row) => row.clientName, width: 28 },
+  { header: "Status", value: (row) => row.status, width: 14 },
+  { header: "Start Date", value: (row) => row.startDate, width: 20 },
+  { header: "Currency", value: (row) => row.currency },
+  { header: "Budget", value: (row) => row.budget, width: 14 },
+  { header: "Approved Spend", value: (row) => row.spent, width: 16 },
+  { header: "Remaining", value: (row) => subtractMoney(row.budget, row.spent), width: 14 },
+  { header: "Archived At", value: (row) => row.archivedAt, width: 20 },
+];
+
+type AnalyticsExportOptions = {
+  dateRange?: string;
+  // The currency money is converted into
+  currency: string;
+};
+
+type AnalyticsExport = {
+  filename: string;
+  columns: ExportColumn<any>[];
+  load: (options: AnalyticsExportOptions) => Promise<object[]>;
+};
+
+// One entry per /api/analytics dataset, keyed by its path segment
+export const analyticsExports: Record<string, AnalyticsExport> = {
+  "total-budget-vs-spent": {
+    filename: "budget-vs-spent",
+    columns: [
+      { header: "Project", value: (row) => row.project, width: 28 },
+      { header: "Currency", value: (row) => row.currency },
+      { header: "Budget", value: (row) => row.budget },
+      { header: "Spent", value: (row) => row.spent },
+      { header: "Remaining", value: (row) => subtractMoney(row.budget, row.spent) },
+      { header: "Reporting Currency", value: (row) => row.reportingCurrency, width: 20 },
+      { header: "Reporting Budget", value: (row) => row.reportingBudget, width: 18 },
+      { header: "Reporting Spent", value: (row) => row.reportingSpent, width: 18 },
+    ],
+    load: ({ dateRange, currency }) => analyticsService.getTotalBudgetVsSpent(dateRange, currency),
+  },
+  "category-budget-vs-spent": {
+    filename: "category-budget-vs-spent",
+    columns: [
+      { header: "Project", value: (row) => row.project, width: 28 },
+      { header: "Category", value: (row) => row.category },
+      { header: "Currency", value: (row) => row.currency },
+      { header: "Budget", value: (row) => (row.budgeted ? row.budget : null) },
+      { header: "Approved", value: (row) => row.spent },
+      { header: "Pending", value: (row) => row.pending },
+      { header: "Remaining", value: (row) => (row.budgeted ? subtractMoney(row.budget, row.spent, row.pending) : null) },
+    ],
+    load: ({ currency }) => analyticsService.getCategoryBudgetVsSpent(currency),
+  },
+  "monthly-spending-trends": {
+    filename: "monthly-spending",
+    columns: [
+      { header: "Month", value: (row) => row.month },
+      { header: "Equipment", value: (row) => row.equipment },
+      { header: "Labor", value: (row) => row.labor },
+      { header: "Transport", value: (row) => row.transport },
+      { header: "Currency", value: (row) => row.currency },
+    ],
+    load: ({ currency }) => analyticsService.getMonthlySpendingTrends(currency),
+  },
+  "spending-by-category": {
+    filename: "spending-by-category",
+    columns: [
+      { header: "Category", value: (row) => row.category },
+      { header: "Amount", value: (row) => row.amount },
+      { header: "Currency", value: (row) => row.currency },
+      {
+        header: "Original Amounts",
+        value: (row) => (row.original as CurrencyAmount[]).map((money) => `${money.amount} ${money.currency}`).join("; "),
+        width: 30,
+      },
+    ],
+    load: ({ currency }) => analyticsService.getSpendingByCategory(currency),
+  },
+  "expense-approval-rates": {
+    filename: "approval-rates",
+    columns: [
+      { header: "Status", value: (row) => row.status },
+      { header: "Count", value: (row) => row.count },
+    ],
+    load: () => analyticsService.getExpenseApprovalRates(),
+  },
+  "spending-by-employee": {
+    filename: "spending-by-employee",
+    columns: [
+      { header: "Employee ID", value: (row) => row.employeeId },
+      { header: "Employee", value: (row) => row.employeeName, width: 28 },
+      { header: "Amount", value: (row) => row.amount },
+      { header: "Currency", value: (row) => row.currency },
+    ],
+    load: ({ currency }) => analyticsService.getSpendingByEmployee(currency),
+  },
+};
+
+export const exportService = {
+  // Every expense matching the query that the actor can see, in the query's order, page by page
+  async *expenseRows(actor: Actor, query: ExpenseQuery): AsyncGenerator<ExpenseExportRow[]> {
+    const projectName = nameLookup((id) => storage.getProject(id));
+    const userName = nameLookup((id) => storage.getUser(id));
+
+    for (let page = 1; ; page++) {
+      const result = await expenseService.queryExpenses(actor, { ...query, page, pageSize: EXPORT_BATCH_SIZE });
+      const rows: ExpenseExportRow[] = [];
+      for (const expense of result.items) {
+        rows.push({
+          ...expense,
+          projectName: await projectName(expense.projectId),
+          submittedByName: await userName(expense.submittedById),
+        });
+      }
+      yield rows;
+      if (page * EXPORT_BATCH_SIZE >= result.total) return;
+    }
+  },
+
+  // The project list as the actor sees it on screen, with approved spend per project
+  async projectRows(actor: Actor, filters: ProjectExportFilters): Promise<ProjectExportRow[]> {
+    const showArchived = filters.status === "archived";
+    const visible = await policy.filterProjects(actor, await projectService.getProjects(filters.dateRange, showArchived));
+    const search = filters.search?.toLowerCase();
+    const projects = visible.filter((project) =>
+      (!search || project.name.toLowerCase().includes(search)) &&
+      (showArchived ? !!project.archivedAt : !filters.status || filters.status === "all" || project.status === filters.status)
+    );
+
+    const spent = await storage.getApprovedSpendByProject();
+    const clientName = nameLookup((id) => storage.getClient(id));
+    const rows: ProjectExportRow[] = [];
+    for (const project of projects) {
+      rows.push({ ...project, clientName: await clientName(project.clientId), spent: spent.get(project.id) ?? 0 });
+    }
+    return rows;
+  },
+};
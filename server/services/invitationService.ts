@@ -0,0 +1,80 @@
+// server/services/invitationService.ts
+
+import { randomBytes } from "crypto";
+import { AcceptInvitation, Invitation, InvitationForm, InvitationPreview, User } from "@shared/schema";
+import { storage } from "../storage";
+import { audit } from "../audit";
+import { hashPassword, hashToken } from "../../utils/session";
+
+const INVITATION_EXPIRY_DAYS = parseInt(process.env.INVITATION_EXPIRY_DAYS || "7", 10);
+
+export const invitationService = {
+  // Newest first, without the token hashes
+  async getInvitations(): Promise<Omit<Invitation, "tokenHash">[]> {
+    const invitations = await storage.getInvitations();
+    return invitations.map(({ tokenHash, ...invitation }) => invitation);
+  },
+
+  async getInvitation(id: number): Promise<Invitation | undefined> {
+    return storage.getInvitation(id);
+  },
+
+  async getInvitationByToken(token: string): Promise<Invitation | undefined> {
+    return storage.getInvitationByTokenHash(hashToken(token));
+  },
+
+  // The token is returned this once, for the invite link, and cannot be recovered afterwards
+  async createInvitation(form: InvitationForm, invitedById: number): Promise<{ invitation: Invitation; token: string }> {
+    if (await storage.getUserByEmail(form.email)) {
+      throw new Error("Someone with that email address already has an account");
+    }
+    if (form.projectId !== undefined) {
+      const project = await storage.getProject(form.projectId);
+      if (!project) {
+        throw new Error("Project not found");
+      }
+      if (project.archivedAt) {
+        throw new Error("Archived projects cannot change their team");
+      }
+    }
+
+    const token = randomBytes(32).toString("base64url");
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + INVITATION_EXPIRY_DAYS);
+    const invitation = await storage.createInvitation({
+      tokenHash: hashToken(token),
+      email: form.email,
+      role: form.role,
+      projectId: form.projectId ?? null,
+      invitedById,
+      expiresAt,
+    });
+    return { invitation, token };
+  },
+
+  async revokeInvitation(id: number): Promise<Invitation> {
+    return storage.revokeInvitation(id);
+  },
+
+  async getPreview(invitation: Invitation): Promise<InvitationPreview> {
+    const project = invitation.projectId !== null ? await storage.getProject(invitation.projectId) : undefined;
+    return {
+      email: invitation.email,
+      role: invitation.role,
+      projectName: project?.name ?? null,
+      expiresAt: invitation.expiresAt,
+    };
+  },
+
+  // Expects a pending invitation; the storage call refuses it if that changed in the meantime
+  async acceptInvitation(invitation: Invitation, { username, name, password }: AcceptInvitation): Promise<User> {
+    if (await storage.getUserByUsername(username)) {
+      throw new Error("Username already exists");
+    }
+    return storage.acceptInvitation(
+      invitation.id,
+      { username, name, password: await hashPassword(password), role: invitation.role },
+      (user) => audit.userAssigned(invitation.invitedById, user),
+    );
+  },
+};
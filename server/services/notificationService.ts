@@ -1,5 +1,6 @@
 // server/services/notificationService.ts
 import { storage } from "../storage";
+import { NotificationPreferences, UserRole, UserRoleType } from "@shared/schema";
 
 export const notificationService = {
   async getUnreadNotifications(userId: number) {
@@ -9,5 +10,38 @@ export const notificationService = {
       console.error("Error fetching unread notifications from storage:", error);
       throw new Error("Failed to fetch unread notifications");
     }
-  }
-};
\ No newline at end of file
+  },
+
+  // Returns false when the notification was never addressed to the user
+  async markNotificationRead(userId: number, activityLogId: number): Promise<boolean> {
+    return storage.markNotificationRead(userId, activityLogId);
+  },
+
+  async markAllNotificationsRead(userId: number): Promise<void> {
+    return storage.markAllNotificationsRead(userId);
+  },
+
+  async getPreferences(userId: number): Promise<NotificationPreferences> {
+    return storage.getNotificationPreferences(userId);
+  },
+
+  async savePreferences(userId: number, preferences: NotificationPreferences): Promise<NotificationPreferences> {
+    return storage.saveNotificationPreferences(userId, preferences);
+  },
+
+  // Managers assigned to the project; every manager when the project has none assigned yet
+  async getProjectManagerIds(projectId: number): Promise<number[]> {
+    const assigned = await storage.getUsersAssignedToProject(projectId, UserRole.MANAGER);
+    const managers = assigned.length > 0 ? assigned : await storage.getUsersByRole(UserRole.MANAGER);
+    return managers.map((manager) => manager.id);
+  },
+
+  // Who can sign off an approval step for the given role on the project
+  async getApproverIds(projectId: number, approverRole: UserRoleType): Promise<number[]> {
+    if (approverRole === UserRole.MANAGER) {
+      return this.getProjectManagerIds(projectId);
+    }
+    const approvers = await storage.getUsersByRole(approverRole);
+    return approvers.map((approver) => approver.id);
+  },
+};
@@ -0,0 +1,74 @@
+// server/services/passwordResetService.ts
+
+import { randomBytes } from "crypto";
+import { PasswordResetToken, User } from "@shared/schema";
+import { storage } from "../storage";
+import { appUrl, mailer } from "../mailer";
+import { hashPassword, hashToken } from "../../utils/session";
+
+const PASSWORD_RESET_EXPIRY_MINUTES = parseInt(process.env.PASSWORD_RESET_EXPIRY_MINUTES || "60", 10);
+
+async function issueToken(user: User, requestedById: number | null): Promise<{ token: string; expiresAt: Date }> {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + PASSWORD_RESET_EXPIRY_MINUTES * 60 * 1000);
+  await storage.createPasswordResetToken({ userId: user.id, tokenHash: hashToken(token), requestedById, expiresAt });
+  return { token, expiresAt };
+}
+
+async function mailResetLink(user: User & { email: string }, token: string, requestedBy?: User) {
+  const reason = requestedBy
+    ? `${requestedBy.name} sent you this link to choose a new password for your SolarFund account (${user.username}).`
+    : `Someone asked to reset the password of your SolarFund account (${user.username}). If it was not you, ignore this email; your password stays as it is.`;
+  await mailer.send({
+    to: user.email,
+    subject: "Reset your SolarFund password",
+    text: [
+      `Hello ${user.name},`,
+      "",
+      reason,
+      "",
+      `Choose a new password here within ${PASSWORD_RESET_EXPIRY_MINUTES} minutes:`,
+      appUrl(`/reset-password/${token}`),
+      "",
+      "The link works once. Setting a new password signs you out on every device.",
+    ].join("\n"),
+  });
+}
+
+export const passwordResetService = {
+  // Answers the same whether or not the address has an account, so the form cannot be used to find
+  // out who has one. The mail goes out in the background for the same reason: a reply that waits for
+  // it would be slower for real accounts.
+  async requestReset(email: string): Promise<void> {
+    const user = await storage.getUserByEmail(email);
+    if (!user?.email) return;
+
+    const { token } = await issueToken(user, null);
+    mailResetLink({ ...user, email: user.email }, token).catch((err) => {
+      console.error(`Could not send the password reset email for user ${user.id}:`, err);
+    });
+  },
+
+  // An admin's reset for someone who cannot ask themselves. Without an email address on file the
+  // link is handed back for the admin to pass on.
+  async sendResetLink(user: User, requestedBy: User): Promise<{ emailed: true } | { emailed: false; token: string; expiresAt: Date }> {
+    const { token, expiresAt } = await issueToken(user, requestedBy.id);
+    if (!user.email) {
+      return { emailed: false, token, expiresAt };
+    }
+    await mailResetLink({ ...user, email: user.email }, token, requestedBy);
+    return { emailed: true };
+  },
+
+  async getTokenByValue(token: string): Promise<PasswordResetToken | undefined> {
+    return storage.getPasswordResetTokenByHash(hashToken(token));
+  },
+
+  async resetPassword(resetToken: PasswordResetToken, password: string): Promise<User> {
+    const user = await storage.resetPassword(resetToken.id, await hashPassword(password));
+    if (!user) {
+      throw new Error("This link has already been used or has expired");
+    }
+    return user;
+  },
+};
@@ -1,7 +1,13 @@
 // server/services/projectService.ts
 
 import { storage } from "../storage";
-import { Project, InsertProject, UserRoleType } from "@shared/schema";
+import {
+  Project, InsertProject, ProjectUpdate, BudgetRevision, ProjectBudgetRevision, BudgetForecast, UserRoleType,
+  ProjectAssignment, ProjectAssignmentForm, ProjectStatusType,
+} from "@shared/schema";
+import { audit } from "../audit";
+import { budgetService } from "./budgetService";
+import { currencyService } from "./currencyService";
 
 export const projectService = {
    // Projects table 
@@ -9,8 +15,10 @@ export const projectService = {
     return storage.getProject(id);
   },
 
-  async getProjects(dateRange?: string): Promise<Project[]> {
-    return storage.getProjects(dateRange);
+  // Archived projects are left out unless asked for
+  async getProjects(dateRange?: string, includeArchived = false): Promise<Project[]> {
+    const projects = await storage.getProjects(dateRange);
+    return includeArchived ? projects : projects.filter((project) => !project.archivedAt);
   },
   
   async getProjectsByUser(userId: number, userRole: UserRoleType): Promise<Project[]> {
@@ -21,17 +29,116 @@ export const projectService = {
     return storage.getProjectsByClient(clientId);
   },
 
+  // The currency is fixed at creation, since the budget and its history are recorded in it
   async createProject(project: InsertProject): Promise<Project> {
-    // Add any business logic or validation here before creating the project
-    return storage.createProject(project);
+    if (project.currency) {
+      project = { ...project, currency: await currencyService.parseCurrency(project.currency) };
+    }
+    return storage.createProject(project, audit.projectCreated());
   },
 
-  async updateProjectStatus(id: number, status: string): Promise<Project> {
-    return storage.updateProjectStatus(id, status);
+  async updateProjectStatus(id: number, status: ProjectStatusType, updatedById: number): Promise<Project> {
+    const team = await storage.getUsersAssignedToProject(id);
+    return storage.updateProjectStatus(id, status, audit.projectStatusChanged(updatedById, team.map((member) => member.id)));
+  },
+
+  async updateProject(id: number, changes: ProjectUpdate, updatedById: number): Promise<Project> {
+    const updated = await storage.updateProject(id, changes, audit.projectUpdated(updatedById));
+    if (changes.budgetAlertThresholds) {
+      await budgetService.checkThresholdsSafely(id, updatedById);
+    }
+    return updated;
+  },
+
+  async reviseBudget(project: Project, revision: BudgetRevision, revisedById: number): Promise<Project> {
+    if (project.archivedAt) {
+      throw new Error("Archived projects cannot be re-budgeted");
+    }
+    const revised = await storage.reviseProjectBudget(
+      project.id,
+      { budget: revision.budget, reason: revision.reason, effectiveDate: revision.effectiveDate ?? new Date() },
+      revisedById,
+      audit.projectUpdated(revisedById),
+    );
+    await budgetService.checkThresholdsSafely(project.id, revisedById);
+    return revised;
+  },
+
+  async getBudgetRevisions(projectId: number): Promise<ProjectBudgetRevision[]> {
+    return storage.getProjectBudgetRevisions(projectId);
+  },
+
+  async getBudgetForecast(project: Project): Promise<BudgetForecast> {
+    return budgetService.getForecast(project);
+  },
+
+  // Forecasts for the live projects in the list; archived projects no longer spend
+  async getBudgetForecasts(projects: Project[]): Promise<BudgetForecast[]> {
+    return budgetService.getForecasts(projects.filter((project) => !project.archivedAt));
+  },
+
+  async archiveProject(project: Project, archivedById: number): Promise<Project> {
+    if (project.archivedAt) {
+      throw new Error("Project is already archived");
+    }
+    return storage.updateProject(project.id, { archivedAt: new Date() }, audit.projectUpdated(archivedById));
+  },
+
+  async unarchiveProject(project: Project, unarchivedById: number): Promise<Project> {
+    if (!project.archivedAt) {
+      throw new Error("Project is not archived");
+    }
+    return storage.updateProject(project.id, { archivedAt: null }, audit.projectUpdated(unarchivedById));
+  },
+
+  // Projects with expenses keep their history and can only be archived
+  async hasExpenses(projectId: number): Promise<boolean> {
+    const expenses = await storage.getExpensesByProject(projectId);
+    return expenses.length > 0;
+  },
+
+  async deleteProject(id: number, deletedById: number): Promise<Project> {
+    return storage.deleteProject(id, audit.projectDeleted(deletedById));
   },
 
   // Project Assignments table 
   async getAssignedProjects(userId: number): Promise<Project[]> {
     return storage.getProjectsAssignedToUser(userId);
   },
+
+  // Current members and past ones, oldest assignment first
+  async getProjectAssignments(projectId: number): Promise<ProjectAssignment[]> {
+    return storage.getProjectAssignments(projectId);
+  },
+
+  async getProjectAssignment(id: number): Promise<ProjectAssignment | undefined> {
+    return storage.getProjectAssignment(id);
+  },
+
+  async assignUser(project: Project, form: ProjectAssignmentForm, assignedById: number): Promise<ProjectAssignment> {
+    if (project.archivedAt) {
+      throw new Error("Archived projects cannot change their team");
+    }
+    const user = await storage.getUser(form.userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+    const assignments = await storage.getProjectAssignments(project.id);
+    if (assignments.some((assignment) => assignment.userId === user.id && !assignment.removedAt)) {
+      throw new Error(`${user.name} is already on this project's team`);
+    }
+
+    return storage.createProjectAssignment(
+      { projectId: project.id, userId: user.id, projectRole: form.projectRole, assignedBy: assignedById },
+      audit.userAssigned(assignedById, user),
+    );
+  },
+
+  async removeAssignment(assignment: ProjectAssignment, removedById: number): Promise<ProjectAssignment> {
+    const user = await storage.getUser(assignment.userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+    return storage.removeProjectAssignment(assignment.id, removedById, audit.userRemoved(removedById, user));
+  },
 };
\ No newline at end of file
@@ -0,0 +1,89 @@
+// server/services/receiptService.ts
+
+import path from "path";
+import type { Readable } from "stream";
+import { storage } from "../storage";
+import { receiptStore } from "../receiptStore";
+import { ExpenseReceipt, RECEIPT_MAX_BYTES, RECEIPT_MIME_TYPES } from "@shared/schema";
+
+type ReceiptMimeType = typeof RECEIPT_MIME_TYPES[number];
+
+export type ReceiptUpload = {
+  originalName: string;
+  buffer: Buffer;
+};
+
+const EXTENSIONS: Record<ReceiptMimeType, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/webp": ".webp",
+  "application/pdf": ".pdf",
+};
+
+// Identify the file from its leading bytes; the client-supplied content type is not trusted
+function detectMimeType(data: Buffer): ReceiptMimeType | undefined {
+  if (data.subarray(0, 5).toString("latin1") === "%PDF-") return "application/pdf";
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return "image/png";
+  if (data.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff]))) return "image/jpeg";
+  if (data.subarray(0, 4).toString("latin1") === "RIFF" && data.subarray(8, 12).toString("latin1") === "WEBP") return "image/webp";
+  return undefined;
+}
+
+export const receiptService = {
+  async getReceipt(id: number): Promise<ExpenseReceipt | undefined> {
+    return storage.getExpenseReceipt(id);
+  },
+
+  async getReceipts(expenseId: number): Promise<ExpenseReceipt[]> {
+    return storage.getExpenseReceipts(expenseId);
+  },
+
+  async uploadReceipts(expenseId: number, uploadedById: number, files: ReceiptUpload[]): Promise<ExpenseReceipt[]> {
+    if (files.length === 0) {
+      throw new Error("No receipt files were uploaded");
+    }
+
+    // Validate every file before writing any of them
+    const accepted = files.map((file) => {
+      const fileName = path.basename(file.originalName).slice(0, 255) || "receipt";
+      if (file.buffer.length > RECEIPT_MAX_BYTES) {
+        throw new Error(`${fileName} is larger than ${RECEIPT_MAX_BYTES / (1024 * 1024)} MB`);
+      }
+
+      const mimeType = detectMimeType(file.buffer);
+      if (!mimeType) {
+        throw new Error(`${fileName} is not a JPEG, PNG, WebP or PDF file`);
+      }
+      return { fileName, mimeType, buffer: file.buffer };
+    });
+
+    const storageKeys: string[] = [];
+    try {
+      for (const file of accepted) {
+        storageKeys.push(await receiptStore.save(file.buffer, EXTENSIONS[file.mimeType]));
+      }
+
+      return await storage.createExpenseReceipts(accepted.map((file, index) => ({
+        expenseId,
+        fileName: file.fileName,
+        mimeType: file.mimeType,
+        size: file.buffer.length,
+        storageKey: storageKeys[index],
+        uploadedById,
+      })));
+    } catch (error) {
+      // Don't leave orphaned files behind when the upload fails part way
+      await Promise.all(storageKeys.map((key) => receiptStore.remove(key)));
+      throw error;
+    }
+  },
+
+  async openReceipt(receipt: ExpenseReceipt): Promise<Readable> {
+    return receiptStore.open(receipt.storageKey);
+  },
+
+  async deleteReceipt(receipt: ExpenseReceipt): Promise<void> {
+    await storage.deleteExpenseReceipt(receipt.id);
+    await receiptStore.remove(receipt.storageKey);
+  },
+};
@@ -0,0 +1,38 @@
+// server/services/sessionService.ts
+
+import { SessionSummary, SessionToken } from "@shared/schema";
+import { storage } from "../storage";
+
+export const sessionService = {
+  // The user's signed-in devices, without token hashes; current marks the one asking
+  async getSessions(userId: number, currentSessionId?: string): Promise<SessionSummary[]> {
+    const sessions = await storage.getActiveSessions(userId);
+    return sessions.map(({ tokenHash, ...session }) => ({ ...session, current: session.id === currentSessionId }));
+  },
+
+  async getSession(id: string): Promise<SessionToken | undefined> {
+    return storage.getSession(id);
+  },
+
+  // The session an access token was issued for, while it is still open; signing a device out ends
+  // its access token too, without waiting for the token to run out
+  async getActiveSession(id: string, userId: number): Promise<SessionToken | undefined> {
+    const session = await storage.getSession(id);
+    if (!session || session.userId !== userId || session.revokedAt || new Date(session.expiresAt) <= new Date()) {
+      return undefined;
+    }
+    return session;
+  },
+
+  // Signs the device out: its access token stops working and it cannot refresh again
+  async revokeSession(id: string): Promise<void> {
+    const revoked = await storage.revokeSession(id);
+    if (!revoked) {
+      throw new Error("This session has already ended");
+    }
+  },
+
+  async revokeUserSessions(userId: number): Promise<number> {
+    return storage.revokeUserSessions(userId);
+  },
+};
@@ -0,0 +1,154 @@
+// server/services/twoFactorService.ts
+
+import { randomBytes, randomUUID } from "crypto";
+import { TwoFactorChallenge, TwoFactorSetup, TwoFactorStatus, User, UserRoleType } from "@shared/schema";
+import { storage } from "../storage";
+import { generateTotpSecret, provisioningUri, verifyTotp } from "../totp";
+import { hashToken } from "../../utils/session";
+import { TWO_FACTOR_CHALLENGE_EXPIRY_MINUTES } from "../../utils/jwt";
+
+const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || "SolarFund";
+const RECOVERY_CODE_COUNT = 10;
+// Each challenge allows a few tries at the code; wrong codes across challenges lock the user out for a while
+export const TWO_FACTOR_CHALLENGE_ATTEMPTS = 5;
+const TWO_FACTOR_LOCKOUT_ATTEMPTS = 10;
+const TWO_FACTOR_LOCKOUT_MINUTES = 15;
+
+// Ten hex characters in two groups, e.g. "3f9a1-c04be"; compared without case, spaces or dashes
+function generateRecoveryCode(): string {
+  const hex = randomBytes(5).toString("hex");
+  return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+}
+
+function hashRecoveryCode(code: string): string {
+  return hashToken(code.toLowerCase().replace(/[\s-]/g, ""));
+}
+
+function issueRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+export const twoFactorService = {
+  async isRequiredFor(role: UserRoleType): Promise<boolean> {
+    return (await storage.getTwoFactorRequiredRoles()).includes(role);
+  },
+
+  async isEnabled(userId: number): Promise<boolean> {
+    return !!(await storage.getTwoFactorCredential(userId))?.enabledAt;
+  },
+
+  async getStatus(user: Pick<User, "id" | "role">): Promise<TwoFactorStatus> {
+    const enabled = await this.isEnabled(user.id);
+    return {
+      enabled,
+      required: await this.isRequiredFor(user.role),
+      recoveryCodesRemaining: enabled ? await storage.countUnusedRecoveryCodes(user.id) : 0,
+    };
+  },
+
+  // Starts over with a new secret each time, so a QR code that was seen by someone else can be discarded
+  async beginSetup(user: Pick<User, "id" | "username" | "email">): Promise<TwoFactorSetup> {
+    if (await this.isEnabled(user.id)) {
+      throw new Error("Two-factor authentication is already on");
+    }
+    const secret = generateTotpSecret();
+    await storage.saveTwoFactorSecret(user.id, secret);
+    return { secret, otpauthUri: provisioningUri(secret, user.email ?? user.username, TWO_FACTOR_ISSUER) };
+  },
+
+  // The first code proves the app was set up correctly; returns the recovery codes, shown this once
+  async enable(userId: number, code: string): Promise<string[]> {
+    const credential = await storage.getTwoFactorCredential(userId);
+    if (!credential) {
+      throw new Error("Start the two-factor setup first");
+    }
+    if (credential.enabledAt) {
+      throw new Error("Two-factor authentication is already on");
+    }
+    const step = verifyTotp(credential.secret, code);
+    if (step === undefined) {
+      throw new Error("That code is not valid; check the time on your device and try again");
+    }
+    const { codes, hashes } = issueRecoveryCodes();
+    await storage.enableTwoFactor(userId, step, hashes);
+    return codes;
+  },
+
+  // Accepts a current authenticator code once, or an unused recovery code
+  async verify(userId: number, code: string): Promise<boolean> {
+    const credential = await storage.getTwoFactorCredential(userId);
+    if (!credential?.enabledAt) return false;
+
+    const step = verifyTotp(credential.secret, code);
+    if (step !== undefined) {
+      return storage.useTwoFactorStep(userId, step);
+    }
+    return storage.useRecoveryCode(userId, hashRecoveryCode(code));
+  },
+
+  async createChallenge(userId: number): Promise<TwoFactorChallenge> {
+    return storage.createTwoFactorChallenge({
+      id: randomUUID(),
+      userId,
+      expiresAt: new Date(Date.now() + TWO_FACTOR_CHALLENGE_EXPIRY_MINUTES * 60 * 1000),
+    });
+  },
+
+  // Counts the code against the challenge and the user's recent failures before checkCode looks at it,
+  // which throws for a wrong code; a right one uses the challenge up.
+  async tryCode<T>(challenge: TwoFactorChallenge, checkCode: () => Promise<T>): Promise<T> {
+    const since = new Date(Date.now() - TWO_FACTOR_LOCKOUT_MINUTES * 60 * 1000);
+    if ((await storage.countFailedTwoFactorAttempts(challenge.userId, since)) >= TWO_FACTOR_LOCKOUT_ATTEMPTS) {
+      console.warn(`[two-factor] Code for user ${challenge.userId} refused after too many wrong codes`);
+      throw new Error(`Too many wrong codes; try again in ${TWO_FACTOR_LOCKOUT_MINUTES} minutes`);
+    }
+    if (!(await storage.claimTwoFactorAttempt(challenge.id, TWO_FACTOR_CHALLENGE_ATTEMPTS))) {
+      throw new Error("Too many codes were tried; start again");
+    }
+    const result = await checkCode();
+    if (!(await storage.useTwoFactorChallenge(challenge.id))) {
+      throw new Error("The sign-in has expired; start again");
+    }
+    return result;
+  },
+
+  // For changes a signed-in user makes; a wrong code counts towards the same lockout as at sign-in
+  async confirmCode(userId: number, code: string): Promise<void> {
+    const challenge = await this.createChallenge(userId);
+    await this.tryCode(challenge, async () => {
+      if (!(await this.verify(userId, code))) {
+        throw new Error("That code is not valid");
+      }
+    });
+  },
+
+  async regenerateRecoveryCodes(userId: number, code: string): Promise<string[]> {
+    await this.confirmCode(userId, code);
+    const { codes, hashes } = issueRecoveryCodes();
+    await storage.replaceRecoveryCodes(userId, hashes);
+    return codes;
+  },
+
+  // Users may switch it off only when their role does not require it
+  async disable(user: Pick<User, "id" | "role">, code: string): Promise<void> {
+    if (await this.isRequiredFor(user.role)) {
+      throw new Error("Your role requires two-factor authentication");
+    }
+    await this.confirmCode(user.id, code);
+    await storage.disableTwoFactor(user.id);
+  },
+
+  // For a lost authenticator without recovery codes; the user enrolls again at their next sign-in if required
+  async reset(userId: number): Promise<void> {
+    await storage.disableTwoFactor(userId);
+  },
+
+  async getRequiredRoles(): Promise<UserRoleType[]> {
+    return storage.getTwoFactorRequiredRoles();
+  },
+
+  async setRequiredRoles(roles: UserRoleType[], updatedById: number): Promise<UserRoleType[]> {
+    return storage.setTwoFactorRequiredRoles(Array.from(new Set(roles)), updatedById);
+  },
+};
@@ -1,7 +1,8 @@
 // server/services/userService.ts
 
 import { storage } from "../storage";
-import { InsertUser, User } from "@shared/schema";
+import { InsertUser, PasswordChange, ProfileUpdate, User } from "@shared/schema";
+import { hashPassword } from "../../utils/session";
 
 export const userService = {
   async getUser(id: number): Promise<User | undefined> {
@@ -19,5 +20,26 @@ export const userService = {
 
   async deleteUser (userId: number): Promise<void> {
     return storage.deleteUser(userId);
-  } 
+  },
+
+  async updateProfile(userId: number, profile: ProfileUpdate): Promise<User> {
+    const owner = await storage.getUserByEmail(profile.email);
+    if (owner && owner.id !== userId) {
+      throw new Error("That email address is already in use");
+    }
+    return storage.updateUserProfile(userId, profile);
+  },
+
+  // The current password is checked the same way as at login before the new one is hashed and saved.
+  // Every other session of the user ends, so a stolen one does not outlive the change.
+  async changePassword(userId: number, sessionId: string, { currentPassword, newPassword }: PasswordChange): Promise<void> {
+    const user = await storage.getUser(userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+    if (!(await storage.verifyUser(user.username, currentPassword))) {
+      throw new Error("Current password is incorrect");
+    }
+    await storage.changePassword(userId, await hashPassword(newPassword), sessionId);
+  },
 };
\ No newline at end of file
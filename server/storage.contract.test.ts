@@ -0,0 +1,716 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ApprovalStepStatus, DEFAULT_NOTIFICATION_PREFERENCES, ExpenseCategory, ExpenseStatus, ProjectStatus, UserRole, expenseQuerySchema,
+  type Client, type Expense, type Project, type User,
+} from "@shared/schema";
+import { hashPassword } from "../utils/session";
+import { audit } from "./audit";
+import { DatabaseStorage, MemStorage, sessionEvents, type IStorage } from "./storage";
+
+// The behaviour every IStorage must share. The cases only look at records they create themselves,
+// so they also run against a database that already holds data.
+function storageContract(createStorage: () => IStorage) {
+  const storage = createStorage();
+  // Keeps usernames and descriptions unique across runs against the same database
+  const run = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+  let admin: User;
+  let manager: User;
+  let employee: User;
+  let client: Client;
+  let project: Project;
+
+  const createUser = async (name: string, role: User["role"], password = "secret") =>
+    storage.createUser({ username: `${name}-${run}`, password: await hashPassword(password), name, role });
+
+  const createProject = (name: string, overrides: Partial<Parameters<IStorage["createProject"]>[0]> = {}) =>
+    storage.createProject({
+      name: `${name} ${run}`,
+      clientId: client.id,
+      status: ProjectStatus.IN_PROGRESS,
+      startDate: new Date(),
+      budget: 1000,
+      createdById: admin.id,
+      ...overrides,
+    });
+
+  const createExpense = (amount: number, status: Expense["status"] = ExpenseStatus.PENDING, description = "Fuel") =>
+    storage.createExpense({
+      projectId: project.id,
+      amount,
+      description: `${description} ${run}`,
+      category: ExpenseCategory.TRANSPORT,
+      status,
+      submittedById: employee.id,
+    });
+
+  before(async () => {
+    admin = await createUser("Contract Admin", UserRole.ADMIN);
+    manager = await createUser("Contract Manager", UserRole.MANAGER);
+    employee = await createUser("Contract Employee", UserRole.EMPLOYEE);
+    client = await storage.createClient({
+      name: `Contract Client ${run}`, contactPerson: "Pat", contactEmail: "pat@example.com", contactPhone: "555-0100", createdById: admin.id,
+    });
+    project = await createProject("Contract Project");
+  });
+
+  describe("users", () => {
+    it("never hands out password hashes", async () => {
+      assert.equal("password" in admin, false);
+      assert.deepEqual(await storage.getUser(admin.id), admin);
+      assert.deepEqual(await storage.getUserByUsername(admin.username), admin);
+      assert.ok((await storage.getAllUsers()).every((user) => !("password" in user)));
+    });
+
+    it("lists users overall and by role", async () => {
+      assert.ok((await storage.getAllUsers()).some((user) => user.id === employee.id));
+      const managers = await storage.getUsersByRole(UserRole.MANAGER);
+      assert.ok(managers.some((user) => user.id === manager.id));
+      assert.ok(!managers.some((user) => user.id === employee.id));
+    });
+
+    it("verifies passwords", async () => {
+      assert.equal((await storage.verifyUser(admin.username, "secret"))?.id, admin.id);
+      assert.equal(await storage.verifyUser(admin.username, "wrong"), undefined);
+      assert.equal(await storage.verifyUser(`nobody-${run}`, "secret"), undefined);
+    });
+
+    it("deletes users nothing refers to", async () => {
+      const temporary = await createUser("Contract Temporary", UserRole.EMPLOYEE);
+      await storage.deleteUser(temporary.id);
+      assert.equal(await storage.getUser(temporary.id), undefined);
+    });
+
+    it("refuses to delete users that are still referenced", async () => {
+      const submitter = await createUser("Contract Submitter", UserRole.EMPLOYEE);
+      await storage.createExpense({
+        projectId: project.id, amount: 1, description: `Referenced ${run}`, category: ExpenseCategory.OTHER,
+        status: ExpenseStatus.PENDING, submittedById: submitter.id,
+      });
+      await assert.rejects(storage.deleteUser(submitter.id));
+      assert.ok(await storage.getUser(submitter.id));
+    });
+
+    it("updates profiles and keeps email addresses unique", async () => {
+      assert.equal(employee.email, null);
+      const email = `employee-${run}@example.com`;
+      const updated = await storage.updateUserProfile(employee.id, { name: "Contract Employee", email });
+      assert.equal(updated.email, email);
+      assert.equal("password" in updated, false);
+      assert.equal((await storage.getUserByEmail(email))?.id, employee.id);
+      assert.equal(await storage.getUserByEmail(`nobody-${run}@example.com`), undefined);
+      await assert.rejects(storage.updateUserProfile(manager.id, { name: "Contract Manager", email }));
+    });
+
+    it("replaces passwords", async () => {
+      const user = await createUser("Contract Password", UserRole.EMPLOYEE);
+      await storage.updateUserPassword(user.id, await hashPassword("changed"));
+      assert.equal((await storage.verifyUser(user.username, "changed"))?.id, user.id);
+      assert.equal(await storage.verifyUser(user.username, "secret"), undefined);
+    });
+  });
+
+  describe("sessions", () => {
+    const openSession = (user: User, label: string) =>
+      storage.createSession({
+        id: `${label}-${run}`, userId: user.id, tokenHash: `${label}-hash-${run}`,
+        userAgent: `Agent ${label}`, ipAddress: "127.0.0.1", expiresAt: new Date(Date.now() + 60_000),
+      });
+
+    it("keeps one session per device", async () => {
+      const user = await createUser("Contract Sessions", UserRole.EMPLOYEE);
+      const laptop = await openSession(user, "laptop");
+      const phone = await openSession(user, "phone");
+      await storage.createSession({ id: `old-${run}`, userId: user.id, tokenHash: `old-hash-${run}`, expiresAt: new Date(Date.now() - 1000) });
+
+      const rotated = await storage.rotateSession(laptop.id, laptop.tokenHash, `laptop-next-${run}`, laptop.expiresAt, { userAgent: "Agent laptop", ipAddress: "10.0.0.1" });
+      assert.equal(rotated?.tokenHash, `laptop-next-${run}`);
+      assert.equal(rotated?.ipAddress, "10.0.0.1");
+      assert.deepEqual((await storage.getActiveSessions(user.id)).map((session) => session.id), [laptop.id, phone.id]);
+      assert.equal((await storage.getSession(phone.id))?.userAgent, "Agent phone");
+    });
+
+    it("rotates only from the current token and not after revoking", async () => {
+      const user = await createUser("Contract Rotation", UserRole.EMPLOYEE);
+      const session = await openSession(user, "rotation");
+      assert.ok(await storage.rotateSession(session.id, session.tokenHash, `rotation-2-${run}`, session.expiresAt, { userAgent: null, ipAddress: null }));
+      assert.equal(await storage.rotateSession(session.id, session.tokenHash, `rotation-3-${run}`, session.expiresAt, { userAgent: null, ipAddress: null }), undefined);
+
+      assert.ok((await storage.revokeSession(session.id))?.revokedAt);
+      assert.equal(await storage.revokeSession(session.id), undefined);
+      assert.equal(await storage.rotateSession(session.id, `rotation-2-${run}`, `rotation-4-${run}`, session.expiresAt, { userAgent: null, ipAddress: null }), undefined);
+      assert.deepEqual(await storage.getActiveSessions(user.id), []);
+    });
+
+    it("ends the other sessions when the password changes", async () => {
+      const user = await createUser("Contract Password Change", UserRole.EMPLOYEE);
+      const current = await openSession(user, "password-current");
+      const other = await openSession(user, "password-other");
+
+      const ended: string[] = [];
+      const listener = (sessionIds: string[]) => void ended.push(...sessionIds);
+      sessionEvents.on("ended", listener);
+      try {
+        await storage.changePassword(user.id, await hashPassword("changed"), current.id);
+      } finally {
+        sessionEvents.off("ended", listener);
+      }
+      assert.deepEqual(ended, [other.id]);
+      assert.deepEqual((await storage.getActiveSessions(user.id)).map((session) => session.id), [current.id]);
+      assert.equal((await storage.verifyUser(user.username, "changed"))?.id, user.id);
+    });
+
+    it("revokes every session of a user", async () => {
+      const user = await createUser("Contract Sign Out", UserRole.EMPLOYEE);
+      await openSession(user, "sign-out-1");
+      await openSession(user, "sign-out-2");
+      assert.equal(await storage.revokeUserSessions(user.id), 2);
+      assert.equal(await storage.revokeUserSessions(user.id), 0);
+      assert.deepEqual(await storage.getActiveSessions(user.id), []);
+    });
+
+    it("announces the sessions it ends", async () => {
+      const user = await createUser("Contract Ended", UserRole.EMPLOYEE);
+      const single = await openSession(user, "ended-single");
+      const first = await openSession(user, "ended-first");
+      const second = await openSession(user, "ended-second");
+      const deleted = await openSession(user, "ended-deleted");
+
+      const ended: string[] = [];
+      const listener = (sessionIds: string[]) => void ended.push(...sessionIds);
+      sessionEvents.on("ended", listener);
+      try {
+        await storage.revokeSession(single.id);
+        await storage.revokeSession(single.id);
+        assert.deepEqual(ended, [single.id]);
+
+        await storage.revokeUserSessions(user.id);
+        assert.deepEqual(ended.slice(1).sort(), [deleted.id, first.id, second.id].sort());
+
+        ended.length = 0;
+        await storage.deleteUser(user.id);
+        assert.deepEqual(ended.sort(), [deleted.id, first.id, second.id, single.id].sort());
+      } finally {
+        sessionEvents.off("ended", listener);
+      }
+    });
+  });
+
+  describe("password resets", () => {
+    const issue = (user: User, label: string, expiresInMs = 60_000) =>
+      storage.createPasswordResetToken({ userId: user.id, tokenHash: `${label}-reset-${run}`, expiresAt: new Date(Date.now() + expiresInMs) });
+
+    it("sets the password once, uses up every link and signs out every session", async () => {
+      const user = await createUser("Contract Reset", UserRole.EMPLOYEE, "old-password");
+      const first = await issue(user, "first");
+      const second = await issue(user, "second");
+      await storage.createSession({ id: `reset-${run}`, userId: user.id, tokenHash: `reset-session-${run}`, expiresAt: new Date(Date.now() + 60_000) });
+      assert.equal((await storage.getPasswordResetTokenByHash(first.tokenHash))?.id, first.id);
+
+      assert.equal((await storage.resetPassword(second.id, await hashPassword("new-password")))?.id, user.id);
+      assert.ok(await storage.verifyUser(user.username, "new-password"));
+      assert.equal(await storage.verifyUser(user.username, "old-password"), undefined);
+      assert.deepEqual(await storage.getActiveSessions(user.id), []);
+
+      assert.equal(await storage.resetPassword(second.id, await hashPassword("again")), undefined);
+      assert.equal(await storage.resetPassword(first.id, await hashPassword("again")), undefined);
+      assert.ok((await storage.getPasswordResetTokenByHash(first.tokenHash))?.usedAt);
+    });
+
+    it("deletes users with sessions and reset links", async () => {
+      const requester = await createUser("Contract Reset Admin", UserRole.ADMIN);
+      const user = await createUser("Contract Reset Deleted", UserRole.EMPLOYEE);
+      const other = await createUser("Contract Reset Other", UserRole.EMPLOYEE);
+      const own = await storage.createPasswordResetToken({ userId: user.id, tokenHash: `own-reset-${run}`, requestedById: requester.id, expiresAt: new Date(Date.now() + 60_000) });
+      const sent = await storage.createPasswordResetToken({ userId: other.id, tokenHash: `sent-reset-${run}`, requestedById: requester.id, expiresAt: new Date(Date.now() + 60_000) });
+      await storage.createSession({ id: `deleted-${run}`, userId: user.id, tokenHash: `deleted-session-${run}`, expiresAt: new Date(Date.now() + 60_000) });
+
+      await storage.deleteUser(user.id);
+      assert.equal(await storage.getUser(user.id), undefined);
+      assert.equal(await storage.getSession(`deleted-${run}`), undefined);
+      assert.equal(await storage.getPasswordResetTokenByHash(own.tokenHash), undefined);
+
+      await storage.deleteUser(requester.id);
+      assert.equal((await storage.getPasswordResetTokenByHash(sent.tokenHash))?.requestedById, null);
+      assert.ok(await storage.resetPassword(sent.id, await hashPassword("after-admin-left")));
+    });
+
+    it("refuses an expired link", async () => {
+      const user = await createUser("Contract Expired Reset", UserRole.EMPLOYEE, "kept-password");
+      const expired = await issue(user, "expired", -1000);
+      assert.equal(await storage.resetPassword(expired.id, await hashPassword("new-password")), undefined);
+      assert.ok(await storage.verifyUser(user.username, "kept-password"));
+    });
+  });
+
+  describe("two-factor", () => {
+    it("keeps the secret until enrollment and each code step once", async () => {
+      const user = await createUser("Contract Two Factor", UserRole.EMPLOYEE);
+      await storage.saveTwoFactorSecret(user.id, "FIRSTSECRET");
+      assert.equal((await storage.saveTwoFactorSecret(user.id, "SECONDSECRET")).secret, "SECONDSECRET");
+
+      const enabled = await storage.enableTwoFactor(user.id, 100, [`a-${run}`, `b-${run}`]);
+      assert.ok(enabled.enabledAt);
+      assert.equal(enabled.lastUsedStep, 100);
+      await assert.rejects(storage.saveTwoFactorSecret(user.id, "THIRDSECRET"));
+      assert.equal((await storage.getTwoFactorCredential(user.id))?.secret, "SECONDSECRET");
+
+      assert.equal(await storage.useTwoFactorStep(user.id, 100), false);
+      assert.equal(await storage.useTwoFactorStep(user.id, 101), true);
+      assert.equal(await storage.useTwoFactorStep(user.id, 101), false);
+    });
+
+    it("uses each recovery code once and forgets everything on disable", async () => {
+      const user = await createUser("Contract Recovery", UserRole.EMPLOYEE);
+      await storage.saveTwoFactorSecret(user.id, "RECOVERYSECRET");
+      await storage.enableTwoFactor(user.id, 1, [`c-${run}`, `d-${run}`]);
+
+      assert.equal(await storage.useRecoveryCode(user.id, `c-${run}`), true);
+      assert.equal(await storage.useRecoveryCode(user.id, `c-${run}`), false);
+      assert.equal(await storage.countUnusedRecoveryCodes(user.id), 1);
+
+      await storage.replaceRecoveryCodes(user.id, [`e-${run}`, `f-${run}`, `g-${run}`]);
+      assert.equal(await storage.useRecoveryCode(user.id, `d-${run}`), false);
+      assert.equal(await storage.countUnusedRecoveryCodes(user.id), 3);
+
+      await storage.disableTwoFactor(user.id);
+      assert.equal(await storage.getTwoFactorCredential(user.id), undefined);
+      assert.equal(await storage.countUnusedRecoveryCodes(user.id), 0);
+    });
+
+    it("counts the codes tried against a challenge until it is used", async () => {
+      const user = await createUser("Contract Challenge", UserRole.EMPLOYEE);
+      const since = new Date(Date.now() - 60 * 1000);
+      const expiresAt = new Date(Date.now() + 5 * 60 * 1000);
+      const failed = await storage.createTwoFactorChallenge({ id: `failed-${run}`, userId: user.id, expiresAt });
+      assert.equal(failed.attempts, 0);
+
+      assert.equal((await storage.claimTwoFactorAttempt(failed.id, 2))?.attempts, 1);
+      assert.equal((await storage.claimTwoFactorAttempt(failed.id, 2))?.attempts, 2);
+      assert.equal(await storage.claimTwoFactorAttempt(failed.id, 2), undefined);
+
+      const passed = await storage.createTwoFactorChallenge({ id: `passed-${run}`, userId: user.id, expiresAt });
+      await storage.claimTwoFactorAttempt(passed.id, 2);
+      assert.equal(await storage.countFailedTwoFactorAttempts(user.id, since), 3);
+      assert.equal(await storage.useTwoFactorChallenge(passed.id), true);
+      assert.equal(await storage.useTwoFactorChallenge(passed.id), false);
+      assert.equal(await storage.claimTwoFactorAttempt(passed.id, 2), undefined);
+      assert.ok((await storage.getTwoFactorChallenge(passed.id))?.usedAt);
+      assert.equal(await storage.countFailedTwoFactorAttempts(user.id, since), 2);
+
+      const expired = await storage.createTwoFactorChallenge({ id: `expired-${run}`, userId: user.id, expiresAt: since });
+      assert.equal(await storage.claimTwoFactorAttempt(expired.id, 2), undefined);
+      assert.equal(await storage.useTwoFactorChallenge(expired.id), false);
+
+      await storage.deleteUser(user.id);
+      assert.equal(await storage.getTwoFactorChallenge(failed.id), undefined);
+    });
+
+    it("replaces the roles that require two-factor", async () => {
+      const before = await storage.getTwoFactorRequiredRoles();
+      try {
+        await storage.setTwoFactorRequiredRoles([UserRole.ADMIN, UserRole.MANAGER], admin.id);
+        assert.deepEqual([...(await storage.getTwoFactorRequiredRoles())].sort(), [UserRole.ADMIN, UserRole.MANAGER]);
+        assert.deepEqual(await storage.setTwoFactorRequiredRoles([UserRole.MANAGER], admin.id), [UserRole.MANAGER]);
+      } finally {
+        await storage.setTwoFactorRequiredRoles(before, admin.id);
+      }
+    });
+  });
+
+  describe("clients", () => {
+    it("finds clients by their salesperson", async () => {
+      const owned = await storage.getClientsBySalesperson(admin.id);
+      assert.deepEqual(owned.map((owner) => owner.id), [client.id]);
+    });
+
+    it("updates client details", async () => {
+      const renamed = await storage.updateClient(client.id, { name: `Renamed Client ${run}` });
+      assert.equal(renamed.name, `Renamed Client ${run}`);
+      assert.equal((await storage.getClient(client.id))?.name, `Renamed Client ${run}`);
+    });
+
+    it("merges a duplicate into another client", async () => {
+      const duplicate = await storage.createClient({
+        name: `Duplicate ${run}`, contactPerson: "Pat", contactEmail: "pat@example.com", contactPhone: "555-0100", createdById: admin.id,
+      });
+      const moved = await createProject("Duplicate's Project", { clientId: duplicate.id });
+      await storage.mergeClients(duplicate.id, client.id);
+
+      assert.equal((await storage.getProject(moved.id))?.clientId, client.id);
+      const retired = await storage.getClient(duplicate.id);
+      assert.equal(retired?.mergedIntoId, client.id);
+      assert.ok(retired?.deactivatedAt);
+      assert.deepEqual(await storage.getProjectsByClient(duplicate.id), []);
+
+      await assert.rejects(storage.mergeClients(client.id, duplicate.id), (err: any) => err.status === 409);
+      await assert.rejects(storage.mergeClients(duplicate.id, client.id), (err: any) => err.status === 409);
+      assert.equal((await storage.getProject(moved.id))?.clientId, client.id);
+      assert.equal((await storage.getClient(client.id))?.mergedIntoId, null);
+    });
+  });
+
+  describe("projects", () => {
+    it("filters projects by start date", async () => {
+      const old = await createProject("Old Project", { startDate: new Date("2001-01-01") });
+      const recent = (await storage.getProjects("30")).map((candidate) => candidate.id);
+      assert.ok(recent.includes(project.id));
+      assert.ok(!recent.includes(old.id));
+      assert.ok((await storage.getProjects("all")).some((candidate) => candidate.id === old.id));
+    });
+
+    it("keeps a trail of budget revisions", async () => {
+      const revised = await createProject("Revised Project");
+      await storage.reviseProjectBudget(revised.id, { budget: 1200.5, reason: "More panels", effectiveDate: new Date() }, manager.id);
+
+      assert.equal((await storage.getProject(revised.id))?.budget, 1200.5);
+      const revisions = await storage.getProjectBudgetRevisions(revised.id);
+      assert.deepEqual(revisions.map(({ previousBudget, newBudget }) => [previousBudget, newBudget]), [[null, 1000], [1000, 1200.5]]);
+      assert.equal(revisions[1].revisedById, manager.id);
+    });
+
+    it("replaces category budget lines", async () => {
+      const split = await createProject("Split Project");
+      await storage.replaceProjectCategoryBudgets(split.id, [
+        { category: ExpenseCategory.LABOR, amount: 400 },
+        { category: ExpenseCategory.EQUIPMENT, amount: 300 },
+      ]);
+      const lines = await storage.replaceProjectCategoryBudgets(split.id, [{ category: ExpenseCategory.LABOR, amount: 450 }]);
+      assert.deepEqual(lines.map(({ category, amount }) => ({ category, amount })), [{ category: ExpenseCategory.LABOR, amount: 450 }]);
+    });
+
+    it("records each budget alert once per budget figure", async () => {
+      const alert = { projectId: project.id, threshold: 75, budget: 1000, committed: 760 };
+      assert.ok(await storage.recordProjectBudgetAlert(alert));
+      assert.equal(await storage.recordProjectBudgetAlert({ ...alert, committed: 800 }), undefined);
+      assert.ok(await storage.recordProjectBudgetAlert({ ...alert, budget: 2000 }));
+      assert.equal((await storage.getProjectBudgetAlerts(project.id)).length, 2);
+    });
+
+    it("deletes projects without expenses", async () => {
+      const doomed = await createProject("Doomed Project");
+      await storage.deleteProject(doomed.id);
+      assert.equal(await storage.getProject(doomed.id), undefined);
+      assert.deepEqual(await storage.getProjectBudgetRevisions(doomed.id), []);
+    });
+  });
+
+  describe("project assignments", () => {
+    it("keeps removed members in the history only", async () => {
+      const assignment = await storage.createProjectAssignment({
+        userId: employee.id, projectId: project.id, assignedBy: manager.id, projectRole: UserRole.EMPLOYEE,
+      });
+      assert.ok((await storage.getProjectsAssignedToUser(employee.id)).some((assigned) => assigned.id === project.id));
+      assert.deepEqual((await storage.getUsersAssignedToProject(project.id, UserRole.EMPLOYEE)).map((user) => user.id), [employee.id]);
+
+      await storage.removeProjectAssignment(assignment.id, manager.id);
+      assert.ok(!(await storage.getProjectsAssignedToUser(employee.id)).some((assigned) => assigned.id === project.id));
+      const [history] = await storage.getProjectAssignments(project.id);
+      assert.equal(history.removedBy, manager.id);
+      assert.ok(history.removedAt);
+      await assert.rejects(storage.removeProjectAssignment(assignment.id, manager.id));
+    });
+  });
+
+  describe("invitations", () => {
+    const invite = (label: string, overrides: Partial<Parameters<IStorage["createInvitation"]>[0]> = {}) =>
+      storage.createInvitation({
+        tokenHash: `${label}-${run}`,
+        email: `${label}-${run}@example.com`,
+        role: UserRole.EMPLOYEE,
+        invitedById: admin.id,
+        expiresAt: new Date(Date.now() + 60_000),
+        ...overrides,
+      });
+    const account = async (label: string) =>
+      ({ username: `invited-${label}-${run}`, name: `Invited ${label}`, password: await hashPassword("secret"), role: UserRole.EMPLOYEE });
+
+    it("creates the invited user and their project membership once", async () => {
+      const invitedProject = await createProject("Invited Project");
+      const invitation = await invite("invited-manager", { role: UserRole.MANAGER, projectId: invitedProject.id });
+      assert.equal((await storage.getInvitationByTokenHash(invitation.tokenHash))?.id, invitation.id);
+
+      const user = await storage.acceptInvitation(invitation.id, await account("manager"), (user) => audit.userAssigned(admin.id, user));
+      assert.equal(user.role, UserRole.MANAGER);
+      assert.equal(user.email, invitation.email);
+      assert.equal("password" in user, false);
+      assert.equal((await storage.verifyUser(user.username, "secret"))?.id, user.id);
+
+      const accepted = await storage.getInvitation(invitation.id);
+      assert.ok(accepted?.acceptedAt);
+      assert.equal(accepted?.acceptedUserId, user.id);
+      const [membership] = await storage.getProjectAssignments(invitedProject.id);
+      assert.equal(membership.userId, user.id);
+      assert.equal(membership.projectRole, UserRole.MANAGER);
+      assert.equal(membership.assignedBy, admin.id);
+      assert.ok((await storage.getUnreadNotifications(user.id)).some((log) => log.projectId === invitedProject.id));
+
+      await assert.rejects(storage.acceptInvitation(invitation.id, await account("manager-again")));
+      assert.equal(await storage.getUserByUsername(`invited-manager-again-${run}`), undefined);
+    });
+
+    it("refuses revoked and expired invitations", async () => {
+      const revoked = await storage.revokeInvitation((await invite("invited-revoked")).id);
+      assert.ok(revoked.revokedAt);
+      await assert.rejects(storage.revokeInvitation(revoked.id));
+      await assert.rejects(storage.acceptInvitation(revoked.id, await account("revoked")));
+
+      const expired = await invite("invited-expired", { expiresAt: new Date(Date.now() - 1000) });
+      await assert.rejects(storage.acceptInvitation(expired.id, await account("expired")));
+      await assert.rejects(storage.revokeInvitation(expired.id));
+      assert.equal(await storage.getUserByUsername(`invited-expired-${run}`), undefined);
+    });
+
+    it("deletes invited users and the admins who invited them", async () => {
+      const inviter = await createUser("Contract Inviter", UserRole.ADMIN);
+      const invitation = await invite("invited-deleted", { invitedById: inviter.id });
+      const pending = await invite("invited-pending", { invitedById: inviter.id });
+      const kept = await invite("invited-kept");
+      const user = await storage.acceptInvitation(invitation.id, await account("deleted"));
+      const other = await storage.acceptInvitation(kept.id, await account("kept"));
+
+      await storage.deleteUser(other.id);
+      assert.equal(await storage.getUser(other.id), undefined);
+      assert.equal((await storage.getInvitation(kept.id))?.acceptedUserId, null);
+      assert.ok((await storage.getInvitation(kept.id))?.acceptedAt);
+
+      await storage.deleteUser(user.id);
+      await storage.deleteUser(inviter.id);
+      assert.equal(await storage.getUser(inviter.id), undefined);
+      assert.equal(await storage.getInvitation(invitation.id), undefined);
+      assert.equal(await storage.getInvitation(pending.id), undefined);
+    });
+  });
+
+  describe("expenses", () => {
+    it("versions every change", async () => {
+      const expense = await createExpense(25);
+      await storage.updateExpense(expense.id, ExpenseStatus.PENDING, { amount: 30.25, description: `Diesel ${run}` }, employee.id, "edited", null);
+
+      const versions = await storage.getExpenseVersions(expense.id);
+      assert.deepEqual(versions.map(({ version, changeType, amount }) => [version, changeType, amount]), [[1, "submitted", 25], [2, "edited", 30.25]]);
+      assert.equal((await storage.getExpense(expense.id))?.description, `Diesel ${run}`);
+    });
+
+    it("refuses an update when the expense no longer has the expected status", async () => {
+      const expense = await createExpense(25, ExpenseStatus.APPROVED);
+      await assert.rejects(
+        storage.updateExpense(expense.id, ExpenseStatus.PENDING, { status: ExpenseStatus.WITHDRAWN }, employee.id, "withdrawn", null),
+        (err: any) => err.status === 409,
+      );
+
+      assert.equal((await storage.getExpense(expense.id))?.status, ExpenseStatus.APPROVED);
+      assert.equal((await storage.getExpenseVersions(expense.id)).length, 1);
+    });
+
+    it("filters, sorts, pages and totals expense queries", async () => {
+      for (const amount of [10, 20, 30]) await createExpense(amount, ExpenseStatus.PENDING, "Paged");
+      const query = (params: Record<string, unknown>) =>
+        storage.queryExpenses(expenseQuerySchema.parse({ search: `Paged ${run}`, ...params }), null);
+
+      const firstPage = await query({ sortBy: "amount", sortOrder: "asc", pageSize: 2 });
+      assert.deepEqual(firstPage.items.map((expense) => expense.amount), [10, 20]);
+      assert.equal(firstPage.total, 3);
+      assert.equal(firstPage.totalAmount, 60);
+      assert.deepEqual((await query({ sortBy: "amount", sortOrder: "asc", pageSize: 2, page: 2 })).items.map((expense) => expense.amount), [30]);
+      assert.equal((await query({ currency: "usd", minAmount: 15, maxAmount: 25 })).total, 1);
+      assert.equal((await query({ currency: "EUR", minAmount: 15, maxAmount: 25 })).total, 0);
+      assert.equal(expenseQuerySchema.safeParse({ minAmount: 15 }).success, false);
+      assert.equal((await storage.queryExpenses(expenseQuerySchema.parse({ search: `Paged ${run}` }), { submittedById: admin.id, projectIds: [] })).total, 0);
+    });
+
+    it("finds expenses by status within a date range", async () => {
+      const rejected = await createExpense(5, ExpenseStatus.REJECTED);
+      const recent = await storage.getExpensesByStatus(ExpenseStatus.REJECTED, "30");
+      assert.ok(recent.some((expense) => expense.id === rejected.id));
+      assert.ok(!(await storage.getExpensesByStatus(ExpenseStatus.APPROVED)).some((expense) => expense.id === rejected.id));
+    });
+
+    it("decides each approval step once", async () => {
+      const expense = await createExpense(40);
+      const [step] = await storage.startApprovalRound(expense.id, [{ level: 1, approverRole: UserRole.MANAGER }]);
+      assert.equal(step.status, ApprovalStepStatus.PENDING);
+
+      const approved = await storage.reviewApprovalStep(step, ApprovalStepStatus.APPROVED, manager.id, undefined, ExpenseStatus.APPROVED);
+      assert.equal(approved.status, ExpenseStatus.APPROVED);
+      assert.equal(approved.reviewedById, manager.id);
+      await assert.rejects(
+        storage.reviewApprovalStep(step, ApprovalStepStatus.REJECTED, admin.id, "No", ExpenseStatus.REJECTED),
+        /already been decided/,
+      );
+      assert.equal((await storage.getExpense(expense.id))?.status, ExpenseStatus.APPROVED);
+    });
+
+    it("leaves the approval step pending when the expense was withdrawn meanwhile", async () => {
+      const expense = await createExpense(45);
+      const [step] = await storage.startApprovalRound(expense.id, [{ level: 1, approverRole: UserRole.MANAGER }]);
+      await storage.updateExpense(expense.id, ExpenseStatus.PENDING, { status: ExpenseStatus.WITHDRAWN }, employee.id, "withdrawn", null);
+
+      await assert.rejects(
+        storage.reviewApprovalStep(step, ApprovalStepStatus.APPROVED, manager.id, undefined, ExpenseStatus.APPROVED),
+        /no longer pending/,
+      );
+      assert.equal((await storage.getExpense(expense.id))?.status, ExpenseStatus.WITHDRAWN);
+      assert.equal((await storage.getApprovalSteps(expense.id))[0].status, ApprovalStepStatus.PENDING);
+    });
+  });
+
+  describe("notifications", () => {
+    it("notifies audit targets until they read the entry", async () => {
+      const expense = await storage.createExpense({
+        projectId: project.id, amount: 12, description: `Notified ${run}`, category: ExpenseCategory.LABOR,
+        status: ExpenseStatus.PENDING, submittedById: employee.id,
+      }, [], audit.expenseSubmitted([manager.id]));
+
+      const [log] = (await storage.getUnreadNotifications(manager.id))
+        .filter((candidate) => (candidate.details as { id?: number } | null)?.id === expense.id);
+      assert.ok(log);
+      assert.equal(await storage.markNotificationRead(employee.id, log.id), false);
+      assert.equal(await storage.markNotificationRead(manager.id, log.id), true);
+      assert.ok(!(await storage.getUnreadNotifications(manager.id)).some((candidate) => candidate.id === log.id));
+    });
+
+    it("saves notification preferences over the defaults", async () => {
+      const user = await createUser("Contract Preferences", UserRole.MANAGER);
+      assert.deepEqual(await storage.getNotificationPreferences(user.id), DEFAULT_NOTIFICATION_PREFERENCES);
+
+      const quiet = { ...DEFAULT_NOTIFICATION_PREFERENCES, newExpenseSubmission: false, dailySummary: true };
+      assert.deepEqual(await storage.saveNotificationPreferences(user.id, quiet), quiet);
+      assert.deepEqual(await storage.getNotificationPreferences(user.id), quiet);
+      const silent = { ...quiet, emailNotifications: false };
+      await storage.saveNotificationPreferences(user.id, silent);
+      assert.deepEqual(await storage.getNotificationPreferences(user.id), silent);
+
+      // Saved preferences do not keep a user from being deleted
+      await storage.deleteUser(user.id);
+      assert.equal(await storage.getUser(user.id), undefined);
+    });
+
+    it("finds the users who want a daily summary and have an address for it", async () => {
+      const reader = await createUser("Contract Summary", UserRole.EMPLOYEE);
+      const unreachable = await createUser("Contract Summary Without Email", UserRole.EMPLOYEE);
+      const uninterested = await createUser("Contract No Summary", UserRole.EMPLOYEE);
+      await storage.updateUserProfile(reader.id, { name: reader.name, email: `summary-${run}@example.com` });
+      await storage.updateUserProfile(uninterested.id, { name: uninterested.name, email: `no-summary-${run}@example.com` });
+      for (const user of [reader, unreachable]) {
+        await storage.saveNotificationPreferences(user.id, { ...DEFAULT_NOTIFICATION_PREFERENCES, dailySummary: true });
+      }
+
+      const recipients = (await storage.getDailySummaryRecipients()).map((user) => user.id);
+      assert.ok(recipients.includes(reader.id));
+      assert.ok(!recipients.includes(unreachable.id));
+      assert.ok(!recipients.includes(uninterested.id));
+    });
+
+    it("leaves out targets who switched the notification off", async () => {
+      const quiet = await createUser("Contract Quiet", UserRole.MANAGER);
+      await storage.saveNotificationPreferences(quiet.id, { ...DEFAULT_NOTIFICATION_PREFERENCES, newExpenseSubmission: false });
+      const expense = await storage.createExpense({
+        projectId: project.id, amount: 13, description: `Filtered ${run}`, category: ExpenseCategory.LABOR,
+        status: ExpenseStatus.PENDING, submittedById: employee.id,
+      }, [], audit.expenseSubmitted([manager.id, quiet.id]));
+
+      const isThisExpense = (candidate: { details: unknown }) => (candidate.details as { id?: number } | null)?.id === expense.id;
+      assert.ok((await storage.getUnreadNotifications(manager.id)).some(isThisExpense));
+      assert.ok(!(await storage.getUnreadNotifications(quiet.id)).some(isThisExpense));
+    });
+  });
+
+  describe("exchange rates", () => {
+    it("adds, replaces and removes rates", async () => {
+      await storage.saveExchangeRates([{ currency: "XTS", rate: 2, updatedById: admin.id }]);
+      await storage.saveExchangeRates([{ currency: "XTS", rate: 3, updatedById: manager.id }]);
+      const saved = (await storage.getExchangeRates()).filter((rate) => rate.currency === "XTS");
+      assert.deepEqual(saved.map(({ rate, updatedById }) => ({ rate, updatedById })), [{ rate: 3, updatedById: manager.id }]);
+
+      assert.equal((await storage.deleteExchangeRate("XTS"))?.rate, 3);
+      assert.equal(await storage.deleteExchangeRate("XTS"), undefined);
+      assert.equal(await storage.isCurrencyInUse("XTS"), false);
+      assert.equal(await storage.isCurrencyInUse(project.currency), true);
+    });
+  });
+
+  describe("analytics", () => {
+    let reported: Project;
+    let submitter: User;
+
+    before(async () => {
+      submitter = await createUser("Contract Analyst", UserRole.EMPLOYEE);
+      reported = await createProject("Reported Project");
+      const expenses: [number, Expense["status"], Expense["category"]][] = [
+        [100.1, ExpenseStatus.APPROVED, ExpenseCategory.TRANSPORT],
+        [0.2, ExpenseStatus.APPROVED, ExpenseCategory.TRANSPORT],
+        [50, ExpenseStatus.PENDING, ExpenseCategory.TRANSPORT],
+        [75, ExpenseStatus.REJECTED, ExpenseCategory.LABOR],
+      ];
+      for (const [amount, status, category] of expenses) {
+        await storage.createExpense({
+          projectId: reported.id, amount, description: `Reported ${run}`, category, status, submittedById: submitter.id,
+        });
+      }
+      await storage.replaceProjectCategoryBudgets(reported.id, [{ category: ExpenseCategory.TRANSPORT, amount: 200 }]);
+    });
+
+    it("compares budgets with approved spending", async () => {
+      const row = (await storage.getTotalBudgetVsSpent("30")).find((comparison) => comparison.project === reported.name);
+      assert.deepEqual(
+        row && { budget: row.budget, spent: row.spent, reportingSpent: row.reportingSpent },
+        { budget: 1000, spent: 100.3, reportingSpent: 100.3 },
+      );
+      assert.equal((await storage.getApprovedSpendByProject()).get(reported.id), 100.3);
+    });
+
+    it("leaves out projects that started before the date range", async () => {
+      const old = await createProject("Old Reported Project", { startDate: new Date("2001-01-01") });
+      const names = (await storage.getTotalBudgetVsSpent("90")).map((comparison) => comparison.project);
+      assert.ok(names.includes(reported.name));
+      assert.ok(!names.includes(old.name));
+    });
+
+    it("breaks spending down by category budget line", async () => {
+      const rows = await storage.getCategoryBudgetVsSpent(reported.id);
+      assert.deepEqual(
+        rows.map(({ category, budget, budgeted, spent, pending }) => ({ category, budget, budgeted, spent, pending })),
+        [{ category: ExpenseCategory.TRANSPORT, budget: 200, budgeted: true, spent: 100.3, pending: 50 }],
+      );
+    });
+
+    it("totals approved spending per employee", async () => {
+      const row = (await storage.getSpendingByEmployee()).find((spending) => spending.employeeId === submitter.id);
+      assert.equal(row?.amount, 100.3);
+    });
+
+    it("includes this month's spending in the trends", async () => {
+      const month = new Date().toLocaleString("en-US", { month: "short" });
+      const trend = (await storage.getMonthlySpendingTrends()).find((row) => row.month === month);
+      assert.ok(trend && trend.transport >= 150.3);
+    });
+
+    it("counts expenses per decision", async () => {
+      const rates = await storage.getExpenseApprovalRates();
+      const labels = rates.map((rate) => rate.status);
+      assert.equal(new Set(labels).size, labels.length);
+      for (const status of ["Pending", "Approved", "Rejected"] as const) {
+        const count = rates.find((rate) => rate.status === status)?.count;
+        assert.equal(typeof count, "number");
+        assert.ok(count! >= 1);
+      }
+    });
+  });
+}
+
+describe("MemStorage", () => {
+  storageContract(() => new MemStorage({ seed: false }));
+});
+
+// Point DATABASE_URL at a disposable database: the cases add rows and leave them behind.
+// Without it only MemStorage is checked and none of the SQL in DatabaseStorage runs, so run
+// `npm run db:push` and then `npm test` against a database before shipping storage changes.
+describe("DatabaseStorage", { skip: !process.env.DATABASE_URL && "DATABASE_URL is not set, so the Postgres queries were not run" }, () => {
+  storageContract(() => new DatabaseStorage());
+
+  after(async () => {
+    const { pool } = await import("./db");
+    await pool.end();
+  });
+});
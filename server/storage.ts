@@ -1,21 +1,213 @@
 import {
-  SessionToken, sessionToken, User, InsertUser, users,
-  Client, InsertClient, clients,
-  Project, InsertProject, projects,
-  Expense, InsertExpense, expenses,
+  SessionToken, InsertSessionToken, SessionDevice, sessionToken, User, InsertUser, ProfileUpdate, users,
+  Invitation, InsertInvitation, InvitationStatus, invitationStatus, invitations,
+  NotificationPreferences, DEFAULT_NOTIFICATION_PREFERENCES, notificationPreferences,
+  TwoFactorCredential, twoFactorCredentials, twoFactorRecoveryCodes, twoFactorRequiredRoles,
+  TwoFactorChallenge, InsertTwoFactorChallenge, twoFactorChallenges,
+  PasswordResetToken, InsertPasswordResetToken, passwordResetTokens,
+  Client, InsertClient, ClientUpdate, clients,
+  Project, InsertProject, ProjectUpdate, projects,
+  ProjectBudgetRevision, projectBudgetRevisions,
+  ProjectBudgetAlert, InsertProjectBudgetAlert, projectBudgetAlerts, DEFAULT_BUDGET_ALERT_THRESHOLDS,
+  ProjectCategoryBudget, CategoryBudgetLine, CategoryBudgetComparison, ExpenseCategory, projectCategoryBudgets,
+  ExchangeRate, InsertExchangeRate, CurrencyAmount, REPORTING_CURRENCY, exchangeRates,
+  Expense, InsertExpense, ExpenseQuery, ExpensePage, expenses,
+  ExpenseVersion, ExpenseEdit, ExpenseChangeType, ExpenseChangeTypeType, expenseVersions,
+  ExpenseReceipt, InsertExpenseReceipt, expenseReceipts,
+  ApprovalRule, InsertApprovalRule, approvalRules,
+  ExpenseApprovalStep, ApprovalRequirement, ApprovalStepStatus, ApprovalStepStatusType, expenseApprovalSteps,
   ActivityLog, InsertActivityLog, activityLogs,
   ExpenseStatus, UserRole, UserRoleType, ExpenseCategoryType,
   activityLogTargets,
   notificationReads,
   ActivityAction,
-  projectAssignments,
+  projectAssignments, InsertProjectAssignment,
 } from "@shared/schema";
-import { eq, sql, gte, and, inArray } from 'drizzle-orm';
-import type { ProjectStatusType, ExpenseStatusType, InternalUser, SpendingCategory, MonthlySpending, ProjectBudgetComparison, InsertActivityLogTarget, ActivityLogDetails, ExpenseApprovalRate, EmployeeSpending } from "@shared/schema";
+import { eq, ne, sql, gte, lte, and, or, inArray, isNull, isNotNull, asc, desc, ilike, type SQL } from 'drizzle-orm';
+import type { ProjectStatusType, ExpenseStatusType, InternalUser, SpendingCategory, MonthlySpending, ProjectBudgetComparison, InsertActivityLogTarget, ActivityLogTarget, ExpenseApprovalRate, EmployeeSpending, ProjectAssignment } from "@shared/schema";
 import session from "express-session";
+import { convert, rateTable, sumConverted, type RateTable } from "./currency";
+import { addMoney } from "@shared/money";
 import createMemoryStore from "memorystore";
 import { comparePasswords } from "../utils/session"
 import { getFromDate } from "../utils/getFromDate"
+import { auditEvents, notifiedUserIds, type AuditBuilder, type AuditEntry, type RecordedActivity } from "./audit";
+import { EventEmitter } from "events";
+
+// Emitted with the ids of sessions that were revoked or deleted, once that is committed, so the
+// sockets opened with their access tokens can be closed
+export const sessionEvents = new EventEmitter<{ ended: [sessionIds: string[]] }>();
+
+// Thrown when a row changed between the caller's checks and the write, so nothing was written;
+// status is the HTTP status the API answers with
+export class ConflictError extends Error {
+  readonly status = 409;
+}
+
+const EXPENSE_CHANGED_MESSAGE = "The expense was changed by someone else; reload it and try again";
+const CLIENTS_CHANGED_MESSAGE = "One of the clients was merged or deactivated meanwhile; reload them and try again";
+
+type DbTransaction = Parameters<Parameters<typeof import('./db')['db']['transaction']>[0]>[0];
+
+// Submitter edits plus the workflow fields a resubmission or withdrawal resets
+export type ExpenseChanges = ExpenseEdit & Partial<Pick<Expense, "status" | "reviewedById" | "feedback">>;
+
+// An expense to insert with its approval chain and audit entry, for writing several at once
+export type NewExpense = {
+  expense: InsertExpense;
+  approvalChain: ApprovalRequirement[];
+  audit?: AuditBuilder<Expense>;
+};
+
+// A reviewer's decision on one approval step. expenseStatus settles the expense; null leaves it
+// pending for the next level.
+export type ApprovalDecision = {
+  step: ExpenseApprovalStep;
+  decision: ApprovalStepStatusType;
+  reviewedById: number;
+  feedback: string | undefined;
+  expenseStatus: ExpenseStatusType | null;
+  audit?: AuditBuilder<Expense>;
+};
+
+// The expenses a user may list: their own plus those of the given projects.
+// null means no restriction.
+export type ExpenseScope = {
+  submittedById: number;
+  projectIds: number[];
+} | null;
+
+// Contact details plus the ownership and deactivation fields
+export type ClientChanges = ClientUpdate & Partial<Pick<Client, "createdById" | "deactivatedAt">>;
+
+// Editable project details plus the archive flag
+export type ProjectChanges = ProjectUpdate & Partial<Pick<Project, "archivedAt">>;
+
+// A new budget figure and the reason for it
+export type BudgetChange = {
+  budget: number;
+  reason: string;
+  effectiveDate: Date;
+};
+
+// The part of an expense that is copied into each version
+function expenseSnapshot(expense: Expense) {
+  return {
+    amount: expense.amount,
+    currency: expense.currency,
+    description: expense.description,
+    category: expense.category,
+    receiptUrl: expense.receiptUrl,
+    status: expense.status,
+    reviewedById: expense.reviewedById,
+    feedback: expense.feedback,
+  };
+}
+
+// A project's budget against its approved spending (already in the project's currency), with
+// both also converted into the reporting currency
+function budgetComparison(project: Project, spent: number, reportingCurrency: string, rates: RateTable): ProjectBudgetComparison {
+  return {
+    project: project.name,
+    currency: project.currency,
+    budget: project.budget,
+    spent,
+    reportingCurrency,
+    reportingBudget: convert(project.budget, project.currency, reportingCurrency, rates),
+    reportingSpent: convert(spent, project.currency, reportingCurrency, rates),
+  };
+}
+
+// Approved or pending spending of one project on one category, in one currency
+type CategorySpend = {
+  projectId: number;
+  category: ExpenseCategoryType;
+  status: ExpenseStatusType;
+  currency: string;
+  total: number;
+};
+
+// One row per project and category that has a budget line or any spending, in category order.
+// Spending is converted into each project's currency.
+function categoryComparisons(
+  projectList: Project[],
+  lines: ProjectCategoryBudget[],
+  spend: CategorySpend[],
+  reportingCurrency: string,
+  rates: RateTable,
+): CategoryBudgetComparison[] {
+  const byId = new Map(projectList.map((project) => [project.id, project]));
+  const rows = new Map<string, CategoryBudgetComparison>();
+  const row = (projectId: number, category: ExpenseCategoryType) => {
+    const key = `${projectId}:${category}`;
+    if (!rows.has(key)) {
+      const project = byId.get(projectId)!;
+      rows.set(key, {
+        ...budgetComparison({ ...project, budget: 0 }, 0, reportingCurrency, rates),
+        projectId,
+        category,
+        budgeted: false,
+        pending: 0,
+      });
+    }
+    return rows.get(key)!;
+  };
+
+  for (const line of lines) {
+    if (!byId.has(line.projectId)) continue;
+    Object.assign(row(line.projectId, line.category), { budget: line.amount, budgeted: true });
+  }
+  for (const { projectId, category, status, currency, total } of spend) {
+    const project = byId.get(projectId);
+    if (!project) continue;
+    const amount = convert(total, currency, project.currency, rates);
+    const comparison = row(projectId, category);
+    if (status === ExpenseStatus.APPROVED) comparison.spent = addMoney(comparison.spent, amount);
+    if (status === ExpenseStatus.PENDING) comparison.pending = addMoney(comparison.pending, amount);
+  }
+
+  const categoryOrder: string[] = Object.values(ExpenseCategory);
+  return Array.from(rows.values())
+    .map((comparison) => ({
+      ...comparison,
+      reportingBudget: convert(comparison.budget, comparison.currency, reportingCurrency, rates),
+      reportingSpent: convert(comparison.spent, comparison.currency, reportingCurrency, rates),
+    }))
+    .sort((a, b) => a.projectId - b.projectId || categoryOrder.indexOf(a.category) - categoryOrder.indexOf(b.category));
+}
+
+// Adds amounts into per-key, per-currency totals, e.g. spending per category
+function addToTotals<K>(totals: Map<K, Map<string, number>>, key: K, currency: string, amount: number) {
+  const byCurrency = totals.get(key) ?? new Map<string, number>();
+  byCurrency.set(currency, addMoney(byCurrency.get(currency) ?? 0, amount));
+  totals.set(key, byCurrency);
+}
+
+function currencyAmounts(byCurrency: Map<string, number>): CurrencyAmount[] {
+  return Array.from(byCurrency, ([currency, amount]) => ({ currency, amount }));
+}
+
+// The monthly trend chart follows these categories only
+const TREND_CATEGORIES = [ExpenseCategory.EQUIPMENT, ExpenseCategory.LABOR, ExpenseCategory.TRANSPORT] as const;
+
+function isTrendCategory(category: ExpenseCategoryType): category is typeof TREND_CATEGORIES[number] {
+  return (TREND_CATEGORIES as readonly string[]).includes(category);
+}
+
+function approvalRateLabel(status: ExpenseStatusType): ExpenseApprovalRate['status'] {
+  return status === ExpenseStatus.PENDING ? 'Pending' :
+    status === ExpenseStatus.APPROVED ? 'Approved' : 'Rejected';
+}
+
+// Replacing a chain nobody has acted on keeps its round; once anyone has decided, a new round starts
+function nextApprovalRound(steps: ExpenseApprovalStep[]): { round: number; replacesCurrent: boolean } {
+  if (steps.length === 0) return { round: 1, replacesCurrent: false };
+  const round = Math.max(...steps.map((step) => step.round));
+  const undecided = steps
+    .filter((step) => step.round === round)
+    .every((step) => step.status === ApprovalStepStatus.PENDING);
+  return undecided ? { round, replacesCurrent: true } : { round: round + 1, replacesCurrent: false };
+}
 
 // Interface for all storage operations
 export interface IStorage {
@@ -25,39 +217,115 @@ export interface IStorage {
   // Transformation function
   toSafeUser(user: InternalUser): User;
 
-  // Session Token Operation
-  getSessionTokenByUserId(userId: number): Promise<SessionToken | undefined>;
-  updateRefreshToken(userId: number, refreshToken: string, expiresAt: Date): Promise<void>;
-  deleteRefreshToken(refreshToken: string): Promise<void>;
+  // Session operations; each session is one signed-in device
+  createSession(session: InsertSessionToken): Promise<SessionToken>;
+  getSession(id: string): Promise<SessionToken | undefined>;
+  // Sessions that are neither revoked nor expired, most recently used first
+  getActiveSessions(userId: number): Promise<SessionToken[]>;
+  // Swaps in the next refresh token only while currentTokenHash is still the session's; undefined otherwise
+  rotateSession(id: string, currentTokenHash: string, nextTokenHash: string, expiresAt: Date, device: SessionDevice): Promise<SessionToken | undefined>;
+  // Undefined when there is no such session or it was already revoked
+  revokeSession(id: string): Promise<SessionToken | undefined>;
+  // Returns how many sessions were still open
+  revokeUserSessions(userId: number): Promise<number>;
 
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  // Expects the address lowercased, as it is stored
+  getUserByEmail(email: string): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>;
+  getUsersByRole(role: UserRoleType): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
+  // Fails while anything still refers to the user, as the database's foreign keys do
+  deleteUser(userId: number): Promise<void>;
   verifyUser(username: string, password: string): Promise<User | undefined>;
+  updateUserProfile(userId: number, profile: ProfileUpdate): Promise<User>;
+  // Takes the already hashed password
+  updateUserPassword(userId: number, hashedPassword: string): Promise<void>;
+  // Sets the already hashed password and revokes every session of the user except keptSessionId,
+  // the one the change was made from
+  changePassword(userId: number, hashedPassword: string, keptSessionId: string): Promise<void>;
+
+  // Password reset operations
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  // Uses up an unused, unexpired token: sets the already hashed password, marks every outstanding token
+  // of the user used and revokes all their sessions. Undefined if the token was used or expired meanwhile.
+  resetPassword(tokenId: number, hashedPassword: string): Promise<User | undefined>;
+
+  // Invitation operations
+  getInvitations(): Promise<Invitation[]>;
+  getInvitation(id: number): Promise<Invitation | undefined>;
+  getInvitationByTokenHash(tokenHash: string): Promise<Invitation | undefined>;
+  createInvitation(invitation: InsertInvitation): Promise<Invitation>;
+  // Only a pending invitation can be revoked
+  revokeInvitation(id: number): Promise<Invitation>;
+  // Uses up a pending invitation: creates the account with the invited email and role and, for an
+  // invitation to a project, its membership. Fails if the invitation was accepted, revoked or expired meanwhile.
+  acceptInvitation(id: number, account: InsertUser, audit?: (user: User) => AuditBuilder<ProjectAssignment>): Promise<User>;
   
   // Client operations
   getClient(id: number): Promise<Client | undefined>;
   getClients(): Promise<Client[]>;
   getClientsBySalesperson(salesPersonId: number): Promise<Client[]>;
   createClient(client: InsertClient): Promise<Client>;
+  updateClient(id: number, changes: ClientChanges, audit?: AuditBuilder<Client>): Promise<Client>;
+  mergeClients(sourceId: number, targetId: number, audit?: AuditBuilder<Client>): Promise<Client>;
   
   // Project operations
   getProject(id: number): Promise<Project | undefined>;
-  getProjects(): Promise<Project[]>;
+  // dateRange ("30", "90", "180", "ytd" or "all") limits projects by start date
+  getProjects(dateRange?: string): Promise<Project[]>;
   getProjectsByUser(userId: number, userRole: string): Promise<Project[]>;
   getProjectsByClient(clientId: number): Promise<Project[]>;
-  createProject(project: InsertProject): Promise<Project>;
-  updateProjectStatus(id: number, status: string): Promise<Project>;
+  createProject(project: InsertProject, audit?: AuditBuilder<Project>): Promise<Project>;
+  updateProjectStatus(id: number, status: ProjectStatusType, audit?: AuditBuilder<Project>): Promise<Project>;
+  updateProject(id: number, changes: ProjectChanges, audit?: AuditBuilder<Project>): Promise<Project>;
+  reviseProjectBudget(id: number, change: BudgetChange, revisedById: number, audit?: AuditBuilder<Project>): Promise<Project>;
+  getProjectBudgetRevisions(projectId: number): Promise<ProjectBudgetRevision[]>;
+  getProjectCategoryBudgets(projectId: number): Promise<ProjectCategoryBudget[]>;
+  // Swaps the project's category lines for the given ones; audited as a change to the project
+  replaceProjectCategoryBudgets(projectId: number, lines: CategoryBudgetLine[], audit?: AuditBuilder<Project>): Promise<ProjectCategoryBudget[]>;
+  getProjectBudgetAlerts(projectId: number): Promise<ProjectBudgetAlert[]>;
+  // Records a crossed threshold once per budget figure; returns undefined if it was already recorded
+  recordProjectBudgetAlert(alert: InsertProjectBudgetAlert, audit?: AuditBuilder<ProjectBudgetAlert>): Promise<ProjectBudgetAlert | undefined>;
+  deleteProject(id: number, audit?: AuditBuilder<Project>): Promise<Project>;
+  getUsersAssignedToProject(projectId: number, projectRole?: UserRoleType): Promise<User[]>;
+  getProjectsAssignedToUser(userId: number): Promise<Project[]>;
+  getProjectAssignment(id: number): Promise<ProjectAssignment | undefined>;
+  getProjectAssignments(projectId: number): Promise<ProjectAssignment[]>;
+  createProjectAssignment(assignment: InsertProjectAssignment, audit?: AuditBuilder<ProjectAssignment>): Promise<ProjectAssignment>;
+  removeProjectAssignment(id: number, removedById: number, audit?: AuditBuilder<ProjectAssignment>): Promise<ProjectAssignment>;
   
   // Expense operations
   getExpense(id: number): Promise<Expense | undefined>;
   getExpenses(): Promise<Expense[]>;
   getExpensesByProject(projectId: number): Promise<Expense[]>;
   getExpensesByUser(userId: number): Promise<Expense[]>;
-  getExpensesByStatus(status: string): Promise<Expense[]>;
-  createExpense(expense: InsertExpense): Promise<Expense>;
-  updateExpenseStatus(id: number, status: string, reviewedById?: number, feedback?: string): Promise<Expense>;
+  getExpensesByStatus(status: ExpenseStatusType, dateRange?: string): Promise<Expense[]>;
+  // totalAmount is converted into totalCurrency
+  queryExpenses(query: ExpenseQuery, scope: ExpenseScope, totalCurrency?: string): Promise<ExpensePage>;
+  createExpense(expense: InsertExpense, approvalChain?: ApprovalRequirement[], audit?: AuditBuilder<Expense>): Promise<Expense>;
+  createExpenses(newExpenses: NewExpense[]): Promise<Expense[]>;
+  // Writes only while the expense still has expectedStatus, otherwise throws a ConflictError
+  updateExpense(id: number, expectedStatus: ExpenseStatusType, changes: ExpenseChanges, changedById: number, changeType: ExpenseChangeTypeType, approvalChain: ApprovalRequirement[] | null, audit?: AuditBuilder<Expense>): Promise<Expense>;
+  getExpenseVersions(expenseId: number): Promise<ExpenseVersion[]>;
+
+  // Approval operations
+  getApprovalRules(): Promise<ApprovalRule[]>;
+  createApprovalRule(rule: InsertApprovalRule): Promise<ApprovalRule>;
+  deleteApprovalRule(id: number): Promise<void>;
+  getApprovalSteps(expenseId: number): Promise<ExpenseApprovalStep[]>;
+  startApprovalRound(expenseId: number, approvalChain: ApprovalRequirement[]): Promise<ExpenseApprovalStep[]>;
+  reviewApprovalStep(step: ExpenseApprovalStep, decision: ApprovalStepStatusType, reviewedById: number, feedback: string | undefined, expenseStatus: ExpenseStatusType | null, audit?: AuditBuilder<Expense>): Promise<Expense>;
+  reviewApprovalSteps(decisions: ApprovalDecision[]): Promise<Expense[]>;
+
+  // Expense receipt operations
+  getExpenseReceipt(id: number): Promise<ExpenseReceipt | undefined>;
+  getExpenseReceipts(expenseId: number): Promise<ExpenseReceipt[]>;
+  createExpenseReceipts(receipts: InsertExpenseReceipt[]): Promise<ExpenseReceipt[]>;
+  deleteExpenseReceipt(id: number): Promise<void>;
   
   // Activity log operations
   getActivityLog(id: number): Promise<ActivityLog | undefined>;
@@ -68,15 +336,61 @@ export interface IStorage {
   assignActivityLogTargets(targets: InsertActivityLogTarget[]): Promise<void>;
   
   // Notification Read operations
-  markNotificationRead(userId: number, activityLogId: number): Promise<void>;
+  markNotificationRead(userId: number, activityLogId: number): Promise<boolean>;
+  markAllNotificationsRead(userId: number): Promise<void>;
   getUnreadNotifications(userId: number): Promise<ActivityLog[]>;
 
-  // Analytics operations
-  getTotalBudgetVsSpent(): Promise<ProjectBudgetComparison[]>;
-  getMonthlySpendingTrends(): Promise<MonthlySpending[]>;
-  getSpendingByCategory(): Promise<SpendingCategory[]>;
+  // Notification preference operations; users who never saved theirs get the defaults
+  getNotificationPreferences(userId: number): Promise<NotificationPreferences>;
+  saveNotificationPreferences(userId: number, preferences: NotificationPreferences): Promise<NotificationPreferences>;
+  // Users who switched the daily summary on and have an email address to send it to
+  getDailySummaryRecipients(): Promise<User[]>;
+
+  // Two-factor operations
+  getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined>;
+  // Starts, or restarts, an enrollment with a new secret; refused while two-factor is on
+  saveTwoFactorSecret(userId: number, secret: string): Promise<TwoFactorCredential>;
+  // Turns two-factor on with the step of the confirming code, replacing any recovery codes
+  enableTwoFactor(userId: number, step: number, recoveryCodeHashes: string[]): Promise<TwoFactorCredential>;
+  // Records the step of an accepted code; false if that step or a later one was already used
+  useTwoFactorStep(userId: number, step: number): Promise<boolean>;
+  replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  // Uses up an unused recovery code; false if the user has none with that hash
+  useRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  countUnusedRecoveryCodes(userId: number): Promise<number>;
+  // Removes the secret and the recovery codes
+  disableTwoFactor(userId: number): Promise<void>;
+  getTwoFactorRequiredRoles(): Promise<UserRoleType[]>;
+  // Replaces the whole list
+  setTwoFactorRequiredRoles(roles: UserRoleType[], updatedById: number): Promise<UserRoleType[]>;
+  createTwoFactorChallenge(challenge: InsertTwoFactorChallenge): Promise<TwoFactorChallenge>;
+  getTwoFactorChallenge(id: string): Promise<TwoFactorChallenge | undefined>;
+  // Counts one more code against an unused, unexpired challenge; undefined once it has had maxAttempts
+  claimTwoFactorAttempt(id: string, maxAttempts: number): Promise<TwoFactorChallenge | undefined>;
+  // Marks the challenge used; false if it already was or has expired
+  useTwoFactorChallenge(id: string): Promise<boolean>;
+  // Codes tried against the user's challenges created since then that did not end in a sign-in
+  countFailedTwoFactorAttempts(userId: number, since: Date): Promise<number>;
+
+  // Exchange rate operations
+  getExchangeRates(): Promise<ExchangeRate[]>;
+  // Adds new currencies and replaces the rates of known ones
+  saveExchangeRates(rates: InsertExchangeRate[]): Promise<ExchangeRate[]>;
+  deleteExchangeRate(currency: string): Promise<ExchangeRate | undefined>;
+  // Whether any project or expense is recorded in the currency
+  isCurrencyInUse(currency: string): Promise<boolean>;
+
+  // Analytics operations. Money is converted into the reporting currency unless noted.
+  // dateRange limits projects by start date and their spending by submission date.
+  getTotalBudgetVsSpent(dateRange?: string, reportingCurrency?: string): Promise<ProjectBudgetComparison[]>;
+  getMonthlySpendingTrends(reportingCurrency?: string): Promise<MonthlySpending[]>;
+  getSpendingByCategory(reportingCurrency?: string): Promise<SpendingCategory[]>;
   getExpenseApprovalRates(): Promise<ExpenseApprovalRate[]>;
-  getSpendingByEmployee(): Promise<EmployeeSpending[]>;
+  getSpendingByEmployee(reportingCurrency?: string): Promise<EmployeeSpending[]>;
+  // Approved spending per project id, in each project's own currency
+  getApprovedSpendByProject(): Promise<Map<number, number>>;
+  // Category budget against approved and pending spending, for one project or all of them
+  getCategoryBudgetVsSpent(projectId?: number, reportingCurrency?: string): Promise<CategoryBudgetComparison[]>;
 }
 
 // In-memory implementation
@@ -87,7 +401,24 @@ export class MemStorage implements IStorage {
   private projects: Map<number, Project>;
   private expenses: Map<number, Expense>;
   private activityLogs: Map<number, ActivityLog>;
+  private projectAssignments: Map<number, ProjectAssignment> = new Map();
+  private expenseReceipts: Map<number, ExpenseReceipt> = new Map();
+  private expenseVersions: ExpenseVersion[] = [];
+  private approvalRules: Map<number, ApprovalRule> = new Map();
+  private approvalSteps: ExpenseApprovalStep[] = [];
+  private budgetRevisions: ProjectBudgetRevision[] = [];
+  private budgetAlerts: ProjectBudgetAlert[] = [];
+  private categoryBudgets: ProjectCategoryBudget[] = [];
+  private exchangeRates: Map<string, ExchangeRate> = new Map();
+  private activityLogTargets: ActivityLogTarget[] = [];
   private readNotifications: { userId: number; activityLogId: number }[] = [];
+  private notificationPreferences: Map<number, NotificationPreferences> = new Map();
+  private invitations: Map<number, Invitation> = new Map();
+  private passwordResetTokens: Map<number, PasswordResetToken> = new Map();
+  private twoFactorCredentials: Map<number, TwoFactorCredential> = new Map();
+  private twoFactorChallenges: Map<string, TwoFactorChallenge> = new Map();
+  private recoveryCodes: { id: number; userId: number; codeHash: string; usedAt: Date | null }[] = [];
+  private twoFactorRequiredRoles: Set<UserRoleType> = new Set();
   private currentUserId: number;
   private currentClientId: number;
   private currentProjectId: number;
@@ -101,16 +432,9 @@ export class MemStorage implements IStorage {
     const { password, ...User } = user;
     return User;
   }
-  private findSessionByUserId(userId: number): SessionToken | undefined {
-    for (const token of this.sessionTokens.values()) {
-      if (token.userId === userId) {
-        return token;
-      }
-    }
-    return undefined;
-  }
   
-  constructor() {
+  // seed fills the store with demo users, clients, projects and expenses
+  constructor({ seed = true }: { seed?: boolean } = {}) {
     this.sessionTokens = new Map();
     this.users = new Map();
     this.clients = new Map();
@@ -130,7 +454,7 @@ export class MemStorage implements IStorage {
     });
     
     // Seed the database with initial data
-    this.seedData();
+    if (seed) this.seedData();
   }
   
  
@@ -356,33 +680,62 @@ export class MemStorage implements IStorage {
     });
   }
 
-  async getSessionTokenByUserId(userId: number): Promise<SessionToken | undefined> {
-    return this.findSessionByUserId(userId);
+  // Session operations
+  async createSession(insertSession: InsertSessionToken): Promise<SessionToken> {
+    const now = new Date();
+    const session: SessionToken = {
+      id: insertSession.id,
+      userId: insertSession.userId,
+      tokenHash: insertSession.tokenHash,
+      userAgent: insertSession.userAgent ?? null,
+      ipAddress: insertSession.ipAddress ?? null,
+      createdAt: now,
+      lastUsedAt: now,
+      expiresAt: insertSession.expiresAt,
+      revokedAt: null,
+    };
+    this.sessionTokens.set(session.id, session);
+    return session;
   }
 
-  // 🔄 Update OR insert session
-  async updateRefreshToken(userId: number, refreshToken: string, expiresAt: Date): Promise<void> {
-    const existing = this.findSessionByUserId(userId);
+  async getSession(id: string): Promise<SessionToken | undefined> {
+    return this.sessionTokens.get(id);
+  }
 
-    if (existing) {
-      // Delete the old session using its refreshToken as key
-      this.sessionTokens.delete(existing.refreshToken);
-    }
+  async getActiveSessions(userId: number): Promise<SessionToken[]> {
+    const now = new Date();
+    return Array.from(this.sessionTokens.values())
+      .filter((session) => session.userId === userId && !session.revokedAt && session.expiresAt > now)
+      .sort((a, b) => b.lastUsedAt.getTime() - a.lastUsedAt.getTime());
+  }
 
-    const newSession: SessionToken = {
-      id: this.generateId(), // or any ID generator you use
-      userId,
-      refreshToken,
-      createdAt: new Date(),
-      expiresAt,
-    };
+  async rotateSession(id: string, currentTokenHash: string, nextTokenHash: string, expiresAt: Date, device: SessionDevice): Promise<SessionToken | undefined> {
+    const session = this.sessionTokens.get(id);
+    if (!session || session.revokedAt || session.tokenHash !== currentTokenHash) {
+      return undefined;
+    }
+    const rotated: SessionToken = { ...session, ...device, tokenHash: nextTokenHash, lastUsedAt: new Date(), expiresAt };
+    this.sessionTokens.set(id, rotated);
+    return rotated;
+  }
 
-    this.sessionTokens.set(refreshToken, newSession);
+  async revokeSession(id: string): Promise<SessionToken | undefined> {
+    const session = this.sessionTokens.get(id);
+    if (!session || session.revokedAt) {
+      return undefined;
+    }
+    const revoked: SessionToken = { ...session, revokedAt: new Date() };
+    this.sessionTokens.set(id, revoked);
+    sessionEvents.emit("ended", [id]);
+    return revoked;
   }
 
-  // Delete by refreshToken
-  async deleteRefreshToken(refreshToken: string): Promise<void> {
-    this.sessionTokens.delete(refreshToken);
+  async revokeUserSessions(userId: number): Promise<number> {
+    const open = Array.from(this.sessionTokens.values()).filter((session) => session.userId === userId && !session.revokedAt);
+    for (const session of open) {
+      await this.revokeSession(session.id);
+    }
+    return open.length;
   }
 
 
@@ -399,13 +752,65 @@ export class MemStorage implements IStorage {
     return user ? this.toSafeUser(user) : undefined;
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const user = Array.from(this.users.values()).find((user) => user.email === email);
+    return user ? this.toSafeUser(user) : undefined;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).map((user) => this.toSafeUser(user));
+  }
+
+  async getUsersByRole(role: UserRoleType): Promise<User[]> {
+    return Array.from(this.users.values())
+      .filter((user) => user.role === role)
+      .map((user) => this.toSafeUser(user));
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentUserId++;
-    const user: InternalUser = { ...insertUser, id, role: insertUser.role as UserRoleType};
+    const user: InternalUser = { ...insertUser, id, role: insertUser.role as UserRoleType, email: null };
     this.users.set(id, user);
     return this.toSafeUser(user);
   }
 
+  async deleteUser(userId: number): Promise<void> {
+    const referenced =
+      Array.from(this.clients.values()).some((client) => client.createdById === userId) ||
+      Array.from(this.expenses.values()).some((expense) => expense.submittedById === userId || expense.reviewedById === userId) ||
+      Array.from(this.projectAssignments.values()).some((assignment) => assignment.userId === userId || assignment.assignedBy === userId || assignment.removedBy === userId);
+    if (referenced) {
+      throw new Error(`User with id ${userId} is still referenced and cannot be deleted`);
+    }
+    // The invitations an admin sent go with them; the one a user joined through stays, without the link to them
+    for (const invitation of Array.from(this.invitations.values())) {
+      if (invitation.invitedById === userId) {
+        this.invitations.delete(invitation.id);
+      } else if (invitation.acceptedUserId === userId) {
+        this.invitations.set(invitation.id, { ...invitation, acceptedUserId: null });
+      }
+    }
+    // Their sessions and reset links go too; links an admin sent to others keep working without the admin
+    const sessionIds = Array.from(this.sessionTokens.values())
+      .filter((session) => session.userId === userId)
+      .map((session) => session.id);
+    for (const sessionId of sessionIds) this.sessionTokens.delete(sessionId);
+    for (const token of Array.from(this.passwordResetTokens.values())) {
+      if (token.userId === userId) {
+        this.passwordResetTokens.delete(token.id);
+      } else if (token.requestedById === userId) {
+        this.passwordResetTokens.set(token.id, { ...token, requestedById: null });
+      }
+    }
+    for (const challenge of Array.from(this.twoFactorChallenges.values())) {
+      if (challenge.userId === userId) this.twoFactorChallenges.delete(challenge.id);
+    }
+    this.notificationPreferences.delete(userId);
+    await this.disableTwoFactor(userId);
+    this.users.delete(userId);
+    if (sessionIds.length > 0) sessionEvents.emit("ended", sessionIds);
+  }
+
   async verifyUser(username: string, password: string): Promise<User | undefined> {
     const user = Array.from(this.users.values()).find(u => u.username === username);
 
@@ -426,6 +831,143 @@ export class MemStorage implements IStorage {
     return undefined; // Invalid password
   }
 
+  async updateUserProfile(userId: number, profile: ProfileUpdate): Promise<User> {
+    const user = this.users.get(userId);
+    if (!user) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+    // Mirrors the unique constraint on users.email
+    if (Array.from(this.users.values()).some((other) => other.id !== userId && other.email === profile.email)) {
+      throw new Error("That email address is already in use");
+    }
+    const updated: InternalUser = { ...user, ...profile };
+    this.users.set(userId, updated);
+    return this.toSafeUser(updated);
+  }
+
+  async updateUserPassword(userId: number, hashedPassword: string): Promise<void> {
+    const user = this.users.get(userId);
+    if (!user) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+    this.users.set(userId, { ...user, password: hashedPassword });
+  }
+
+  async changePassword(userId: number, hashedPassword: string, keptSessionId: string): Promise<void> {
+    await this.updateUserPassword(userId, hashedPassword);
+    const revokedAt = new Date();
+    const ended = Array.from(this.sessionTokens.values())
+      .filter((session) => session.userId === userId && !session.revokedAt && session.id !== keptSessionId);
+    for (const session of ended) {
+      this.sessionTokens.set(session.id, { ...session, revokedAt });
+    }
+    if (ended.length > 0) sessionEvents.emit("ended", ended.map((session) => session.id));
+  }
+
+  // Password reset operations
+  async createPasswordResetToken(insertToken: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const token: PasswordResetToken = {
+      id: this.generateId(),
+      userId: insertToken.userId,
+      tokenHash: insertToken.tokenHash,
+      requestedById: insertToken.requestedById ?? null,
+      createdAt: new Date(),
+      expiresAt: insertToken.expiresAt,
+      usedAt: null,
+    };
+    this.passwordResetTokens.set(token.id, token);
+    return token;
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    return Array.from(this.passwordResetTokens.values()).find((token) => token.tokenHash === tokenHash);
+  }
+
+  async resetPassword(tokenId: number, hashedPassword: string): Promise<User | undefined> {
+    const token = this.passwordResetTokens.get(tokenId);
+    if (!token || token.usedAt || token.expiresAt <= new Date()) {
+      return undefined;
+    }
+    const usedAt = new Date();
+    for (const outstanding of Array.from(this.passwordResetTokens.values())) {
+      if (outstanding.userId === token.userId && !outstanding.usedAt) {
+        this.passwordResetTokens.set(outstanding.id, { ...outstanding, usedAt });
+      }
+    }
+    await this.updateUserPassword(token.userId, hashedPassword);
+    await this.revokeUserSessions(token.userId);
+    return this.getUser(token.userId);
+  }
+
+  // Invitation operations
+  async getInvitations(): Promise<Invitation[]> {
+    return Array.from(this.invitations.values()).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getInvitation(id: number): Promise<Invitation | undefined> {
+    return this.invitations.get(id);
+  }
+
+  async getInvitationByTokenHash(tokenHash: string): Promise<Invitation | undefined> {
+    return Array.from(this.invitations.values()).find((invitation) => invitation.tokenHash === tokenHash);
+  }
+
+  async createInvitation(insertInvitation: InsertInvitation): Promise<Invitation> {
+    const invitation: Invitation = {
+      id: this.generateId(),
+      tokenHash: insertInvitation.tokenHash,
+      email: insertInvitation.email,
+      role: insertInvitation.role,
+      projectId: insertInvitation.projectId ?? null,
+      invitedById: insertInvitation.invitedById,
+      createdAt: new Date(),
+      expiresAt: insertInvitation.expiresAt,
+      acceptedAt: null,
+      acceptedUserId: null,
+      revokedAt: null,
+    };
+    this.invitations.set(invitation.id, invitation);
+    return invitation;
+  }
+
+  async revokeInvitation(id: number): Promise<Invitation> {
+    const invitation = this.invitations.get(id);
+    if (!invitation) {
+      throw new Error(`Invitation with id ${id} not found`);
+    }
+    if (invitationStatus(invitation) !== InvitationStatus.PENDING) {
+      throw new Error("Only a pending invitation can be revoked");
+    }
+    const revoked: Invitation = { ...invitation, revokedAt: new Date() };
+    this.invitations.set(id, revoked);
+    return revoked;
+  }
+
+  async acceptInvitation(id: number, account: InsertUser, audit?: (user: User) => AuditBuilder<ProjectAssignment>): Promise<User> {
+    const invitation = this.invitations.get(id);
+    if (!invitation || invitationStatus(invitation) !== InvitationStatus.PENDING) {
+      throw new Error("This invitation is no longer valid");
+    }
+    // Mirrors the unique constraints on users.username and users.email
+    if (Array.from(this.users.values()).some((user) => user.username === account.username)) {
+      throw new Error("Username already exists");
+    }
+    if (Array.from(this.users.values()).some((user) => user.email === invitation.email)) {
+      throw new Error("That email address is already in use");
+    }
+
+    const created = await this.createUser({ ...account, role: invitation.role });
+    const user = await this.updateUserProfile(created.id, { name: created.name, email: invitation.email });
+    this.invitations.set(id, { ...invitation, acceptedAt: new Date(), acceptedUserId: user.id });
+    if (invitation.projectId !== null) {
+      await this.createProjectAssignment(
+        { projectId: invitation.projectId, userId: user.id, projectRole: invitation.role, assignedBy: invitation.invitedById },
+        audit?.(user),
+      );
+    }
+    return user;
+  }
+
 
   // Client operations
   async getClient(id: number): Promise<Client | undefined> {
@@ -444,18 +986,48 @@ export class MemStorage implements IStorage {
 
   async createClient(insertClient: InsertClient): Promise<Client> {
     const id = this.currentClientId++;
-    const client: Client = { ...insertClient, id, contactEmail: insertClient.contactEmail, contactPhone: insertClient.contactPhone};
+    const client: Client = { ...insertClient, id, contactEmail: insertClient.contactEmail, contactPhone: insertClient.contactPhone, deactivatedAt: null, mergedIntoId: null };
     this.clients.set(id, client);
     return client;
   }
 
+  async updateClient(id: number, changes: ClientChanges, audit?: AuditBuilder<Client>): Promise<Client> {
+    const client = this.clients.get(id);
+    if (!client) {
+      throw new Error(`Client with id ${id} not found`);
+    }
+    const updatedClient: Client = { ...client, ...changes };
+    this.clients.set(id, updatedClient);
+    if (audit) await this.recordActivity(audit(updatedClient));
+    return updatedClient;
+  }
+
+  // Moves the source's projects to the target and retires the source as a pointer to it
+  async mergeClients(sourceId: number, targetId: number, audit?: AuditBuilder<Client>): Promise<Client> {
+    const source = this.clients.get(sourceId);
+    const target = this.clients.get(targetId);
+    if (!source || !target) {
+      throw new Error("Client not found");
+    }
+    if (source.mergedIntoId || source.deactivatedAt || target.mergedIntoId || target.deactivatedAt) {
+      throw new ConflictError(CLIENTS_CHANGED_MESSAGE);
+    }
+    for (const [projectId, project] of this.projects) {
+      if (project.clientId === sourceId) this.projects.set(projectId, { ...project, clientId: targetId });
+    }
+    this.clients.set(sourceId, { ...source, deactivatedAt: new Date(), mergedIntoId: targetId });
+    if (audit) await this.recordActivity(audit(target));
+    return target;
+  }
+
   // Project operations
   async getProject(id: number): Promise<Project | undefined> {
     return this.projects.get(id);
   }
 
-  async getProjects(): Promise<Project[]> {
-    return Array.from(this.projects.values());
+  async getProjects(dateRange?: string): Promise<Project[]> {
+    const fromDate = getFromDate(dateRange);
+    return Array.from(this.projects.values()).filter((project) => !fromDate || project.startDate >= fromDate);
   }
 
   async getProjectsByUser(userId: number, userRole: string): Promise<Project[]> {
@@ -473,23 +1045,200 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async createProject(insertProject: InsertProject): Promise<Project> {
+  async getUsersAssignedToProject(projectId: number, projectRole?: UserRoleType): Promise<User[]> {
+    const assigned: User[] = [];
+    for (const assignment of this.projectAssignments.values()) {
+      if (assignment.projectId !== projectId || assignment.removedAt) continue;
+      if (projectRole && assignment.projectRole !== projectRole) continue;
+      const user = this.users.get(assignment.userId);
+      if (user) assigned.push(this.toSafeUser(user));
+    }
+    return assigned;
+  }
+
+  async getProjectsAssignedToUser(userId: number): Promise<Project[]> {
+    const projectIds = new Set(
+      Array.from(this.projectAssignments.values())
+        .filter((assignment) => assignment.userId === userId && !assignment.removedAt)
+        .map((assignment) => assignment.projectId)
+    );
+    return Array.from(this.projects.values()).filter((project) => projectIds.has(project.id));
+  }
+
+  async getProjectAssignment(id: number): Promise<ProjectAssignment | undefined> {
+    return this.projectAssignments.get(id);
+  }
+
+  async getProjectAssignments(projectId: number): Promise<ProjectAssignment[]> {
+    return Array.from(this.projectAssignments.values())
+      .filter((assignment) => assignment.projectId === projectId)
+      .sort((a, b) => a.assignedAt.getTime() - b.assignedAt.getTime());
+  }
+
+  async createProjectAssignment(insertAssignment: InsertProjectAssignment, audit?: AuditBuilder<ProjectAssignment>): Promise<ProjectAssignment> {
+    const assignment: ProjectAssignment = {
+      id: this.generateId(),
+      userId: insertAssignment.userId,
+      projectId: insertAssignment.projectId,
+      assignedBy: insertAssignment.assignedBy,
+      projectRole: (insertAssignment.projectRole as UserRoleType | undefined) ?? null,
+      assignedAt: new Date(),
+      removedAt: null,
+      removedBy: null,
+    };
+    this.projectAssignments.set(assignment.id, assignment);
+    if (audit) await this.recordActivity(audit(assignment));
+    return assignment;
+  }
+
+  async removeProjectAssignment(id: number, removedById: number, audit?: AuditBuilder<ProjectAssignment>): Promise<ProjectAssignment> {
+    const assignment = this.projectAssignments.get(id);
+    if (!assignment) {
+      throw new Error(`Assignment with id ${id} not found`);
+    }
+    if (assignment.removedAt) {
+      throw new Error("This member has already been removed");
+    }
+    const removed: ProjectAssignment = { ...assignment, removedAt: new Date(), removedBy: removedById };
+    this.projectAssignments.set(id, removed);
+    if (audit) await this.recordActivity(audit(removed));
+    return removed;
+  }
+
+  async createProject(insertProject: InsertProject, audit?: AuditBuilder<Project>): Promise<Project> {
     const id = this.currentProjectId++;
-    const project: Project = { ...insertProject, id, status: insertProject.status as ProjectStatusType };
+    const project: Project = {
+      ...insertProject,
+      id,
+      status: insertProject.status as ProjectStatusType,
+      archivedAt: null,
+      budgetAlertThresholds: DEFAULT_BUDGET_ALERT_THRESHOLDS,
+      currency: insertProject.currency ?? REPORTING_CURRENCY,
+    };
     this.projects.set(id, project);
+    this.budgetRevisions.push({
+      id: this.generateId(),
+      projectId: id,
+      previousBudget: null,
+      newBudget: project.budget,
+      reason: "Initial budget",
+      effectiveDate: project.startDate,
+      revisedById: project.createdById,
+      createdAt: new Date(),
+    });
+    if (audit) await this.recordActivity(audit(project));
     return project;
   }
 
-  async updateProjectStatus(id: number, status: string): Promise<Project> {
+  async updateProjectStatus(id: number, status: ProjectStatusType, audit?: AuditBuilder<Project>): Promise<Project> {
+    const project = this.projects.get(id);
+    if (!project) {
+      throw new Error(`Project with id ${id} not found`);
+    }
+    const updatedProject = { ...project, status };
+    this.projects.set(id, updatedProject);
+    if (audit) await this.recordActivity(audit(updatedProject));
+    return updatedProject;
+  }
+
+  async updateProject(id: number, changes: ProjectChanges, audit?: AuditBuilder<Project>): Promise<Project> {
+    const project = this.projects.get(id);
+    if (!project) {
+      throw new Error(`Project with id ${id} not found`);
+    }
+    const updatedProject: Project = { ...project, ...changes };
+    this.projects.set(id, updatedProject);
+    if (audit) await this.recordActivity(audit(updatedProject));
+    return updatedProject;
+  }
+
+  async reviseProjectBudget(id: number, change: BudgetChange, revisedById: number, audit?: AuditBuilder<Project>): Promise<Project> {
     const project = this.projects.get(id);
     if (!project) {
       throw new Error(`Project with id ${id} not found`);
     }
-    const updatedProject = { ...project, status: status as ProjectStatusType };
+    this.budgetRevisions.push({
+      id: this.generateId(),
+      projectId: id,
+      previousBudget: project.budget,
+      newBudget: change.budget,
+      reason: change.reason,
+      effectiveDate: change.effectiveDate,
+      revisedById,
+      createdAt: new Date(),
+    });
+    const updatedProject: Project = { ...project, budget: change.budget };
     this.projects.set(id, updatedProject);
+    if (audit) await this.recordActivity(audit(updatedProject));
     return updatedProject;
   }
 
+  async getProjectBudgetRevisions(projectId: number): Promise<ProjectBudgetRevision[]> {
+    return this.budgetRevisions
+      .filter((revision) => revision.projectId === projectId)
+      .sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime() || a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getProjectCategoryBudgets(projectId: number): Promise<ProjectCategoryBudget[]> {
+    return this.categoryBudgets.filter((line) => line.projectId === projectId);
+  }
+
+  async replaceProjectCategoryBudgets(projectId: number, lines: CategoryBudgetLine[], audit?: AuditBuilder<Project>): Promise<ProjectCategoryBudget[]> {
+    const project = this.projects.get(projectId);
+    if (!project) {
+      throw new Error(`Project with id ${projectId} not found`);
+    }
+    this.categoryBudgets = [
+      ...this.categoryBudgets.filter((line) => line.projectId !== projectId),
+      ...lines.map((line) => ({ ...line, id: this.generateId(), projectId })),
+    ];
+    if (audit) await this.recordActivity(audit(project));
+    return this.getProjectCategoryBudgets(projectId);
+  }
+
+  async getProjectBudgetAlerts(projectId: number): Promise<ProjectBudgetAlert[]> {
+    return this.budgetAlerts
+      .filter((alert) => alert.projectId === projectId)
+      .sort((a, b) => a.triggeredAt.getTime() - b.triggeredAt.getTime());
+  }
+
+  async recordProjectBudgetAlert(alert: InsertProjectBudgetAlert, audit?: AuditBuilder<ProjectBudgetAlert>): Promise<ProjectBudgetAlert | undefined> {
+    const recorded = this.budgetAlerts.some((existing) =>
+      existing.projectId === alert.projectId && existing.threshold === alert.threshold && existing.budget === alert.budget);
+    if (recorded) return undefined;
+
+    const newAlert: ProjectBudgetAlert = { ...alert, id: this.generateId(), triggeredAt: alert.triggeredAt ?? new Date() };
+    this.budgetAlerts.push(newAlert);
+    if (audit) await this.recordActivity(audit(newAlert));
+    return newAlert;
+  }
+
+  // Detaches the project's history and removes what only makes sense with the project
+  async deleteProject(id: number, audit?: AuditBuilder<Project>): Promise<Project> {
+    const project = this.projects.get(id);
+    if (!project) {
+      throw new Error(`Project with id ${id} not found`);
+    }
+    if (Array.from(this.expenses.values()).some((expense) => expense.projectId === id)) {
+      throw new Error("Projects with expenses cannot be deleted");
+    }
+    for (const [assignmentId, assignment] of this.projectAssignments) {
+      if (assignment.projectId === id) this.projectAssignments.delete(assignmentId);
+    }
+    for (const [ruleId, rule] of this.approvalRules) {
+      if (rule.projectId === id) this.approvalRules.delete(ruleId);
+    }
+    for (const log of this.activityLogs.values()) {
+      if (log.projectId === id) log.projectId = null;
+    }
+    this.budgetRevisions = this.budgetRevisions.filter((revision) => revision.projectId !== id);
+    this.budgetAlerts = this.budgetAlerts.filter((alert) => alert.projectId !== id);
+    this.categoryBudgets = this.categoryBudgets.filter((line) => line.projectId !== id);
+    this.projects.delete(id);
+    if (audit) await this.recordActivity(audit(project));
+    return project;
+  }
+
   // Expense operations
   async getExpense(id: number): Promise<Expense | undefined> {
     return this.expenses.get(id);
@@ -511,33 +1260,218 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async getExpensesByStatus(status: ExpenseStatusType): Promise<Expense[]> {
-      return Array.from(this.expenses.values()).filter(
-        (expense) => expense.status === status,
-      );
-    }
+  async queryExpenses(query: ExpenseQuery, scope: ExpenseScope, totalCurrency = REPORTING_CURRENCY): Promise<ExpensePage> {
+    const search = query.search?.toLowerCase();
+    const matching = Array.from(this.expenses.values()).filter((expense) =>
+      (!scope || expense.submittedById === scope.submittedById || scope.projectIds.includes(expense.projectId)) &&
+      (!query.status || expense.status === query.status) &&
+      (!query.category || expense.category === query.category) &&
+      (!query.projectId || expense.projectId === query.projectId) &&
+      (!query.submittedById || expense.submittedById === query.submittedById) &&
+      (!query.from || expense.createdAt >= query.from) &&
+      (!query.to || expense.createdAt <= query.to) &&
+      (!query.currency || expense.currency === query.currency) &&
+      (query.minAmount === undefined || expense.amount >= query.minAmount) &&
+      (query.maxAmount === undefined || expense.amount <= query.maxAmount) &&
+      (!search || expense.description.toLowerCase().includes(search))
+    );
+
+    const direction = query.sortOrder === "asc" ? 1 : -1;
+    matching.sort((a, b) => {
+      const left = a[query.sortBy];
+      const right = b[query.sortBy];
+      const order = left < right ? -1 : left > right ? 1 : a.id - b.id;
+      return order * direction;
+    });
+
+    const start = (query.page - 1) * query.pageSize;
+    return {
+      items: matching.slice(start, start + query.pageSize),
+      total: matching.length,
+      totalAmount: sumConverted(matching, totalCurrency, rateTable(await this.getExchangeRates())),
+      totalCurrency,
+      page: query.page,
+      pageSize: query.pageSize,
+    };
+  }
+
+  async getExpensesByStatus(status: ExpenseStatusType, dateRange?: string): Promise<Expense[]> {
+    const fromDate = getFromDate(dateRange);
+    return Array.from(this.expenses.values()).filter(
+      (expense) => expense.status === status && (!fromDate || expense.createdAt >= fromDate),
+    );
+  }
 
-  async createExpense(insertExpense: InsertExpense): Promise<Expense> {
+  async createExpense(insertExpense: InsertExpense, approvalChain: ApprovalRequirement[] = [], audit?: AuditBuilder<Expense>): Promise<Expense> {
     const id = this.currentExpenseId++;
     const createdAt = new Date();
-    const expense: Expense = { ...insertExpense, id, createdAt, status: insertExpense.status as ExpenseStatusType, category: insertExpense.category as ExpenseCategoryType, receiptUrl: insertExpense.receiptUrl ?? null, reviewedById: insertExpense.reviewedById ?? null, feedback: insertExpense.feedback ?? null };
+    const expense: Expense = { ...insertExpense, id, createdAt, status: insertExpense.status as ExpenseStatusType, category: insertExpense.category as ExpenseCategoryType, currency: insertExpense.currency ?? REPORTING_CURRENCY, receiptUrl: insertExpense.receiptUrl ?? null, reviewedById: insertExpense.reviewedById ?? null, feedback: insertExpense.feedback ?? null };
     this.expenses.set(id, expense);
+    this.recordExpenseVersion(expense, expense.submittedById, ExpenseChangeType.SUBMITTED);
+    if (approvalChain.length > 0) await this.startApprovalRound(id, approvalChain);
+    if (audit) await this.recordActivity(audit(expense));
     return expense;
   }
 
-  async updateExpenseStatus(id: number, status: string, reviewedById?: number, feedback?: string): Promise<Expense> {
+  async createExpenses(newExpenses: NewExpense[]): Promise<Expense[]> {
+    const created: Expense[] = [];
+    for (const { expense, approvalChain, audit } of newExpenses) {
+      created.push(await this.createExpense(expense, approvalChain, audit));
+    }
+    return created;
+  }
+
+  async updateExpense(id: number, expectedStatus: ExpenseStatusType, changes: ExpenseChanges, changedById: number, changeType: ExpenseChangeTypeType, approvalChain: ApprovalRequirement[] | null, audit?: AuditBuilder<Expense>): Promise<Expense> {
     const expense = this.expenses.get(id);
     if (!expense) {
       throw new Error(`Expense with id ${id} not found`);
     }
-    const updatedExpense = { 
-      ...expense, 
-      status, 
-      ...(reviewedById && { reviewedById }),
-      ...(feedback && { feedback })
+    if (expense.status !== expectedStatus) {
+      throw new ConflictError(EXPENSE_CHANGED_MESSAGE);
+    }
+    const updatedExpense: Expense = { ...expense, ...changes };
+    this.expenses.set(id, updatedExpense);
+    this.recordExpenseVersion(updatedExpense, changedById, changeType);
+    if (approvalChain) await this.startApprovalRound(id, approvalChain);
+    if (audit) await this.recordActivity(audit(updatedExpense));
+    return updatedExpense;
+  }
+
+  async getExpenseVersions(expenseId: number): Promise<ExpenseVersion[]> {
+    return this.expenseVersions
+      .filter((version) => version.expenseId === expenseId)
+      .sort((a, b) => a.version - b.version);
+  }
+
+  private recordExpenseVersion(expense: Expense, changedById: number, changeType: ExpenseChangeTypeType) {
+    const version = this.expenseVersions.filter((v) => v.expenseId === expense.id).length + 1;
+    this.expenseVersions.push({
+      id: this.generateId(),
+      expenseId: expense.id,
+      version,
+      changeType,
+      changedById,
+      ...expenseSnapshot(expense),
+      createdAt: new Date(),
+    });
+  }
+
+  // Approval operations
+  async getApprovalRules(): Promise<ApprovalRule[]> {
+    return Array.from(this.approvalRules.values()).sort((a, b) => a.level - b.level);
+  }
+
+  async createApprovalRule(insertRule: InsertApprovalRule): Promise<ApprovalRule> {
+    const id = this.generateId();
+    const rule: ApprovalRule = {
+      ...insertRule,
+      id,
+      projectId: insertRule.projectId ?? null,
+      category: (insertRule.category ?? null) as ExpenseCategoryType | null,
+      approverRole: insertRule.approverRole as UserRoleType,
+      minAmount: insertRule.minAmount ?? 0,
+      createdAt: new Date(),
     };
-    this.expenses.set(id, updatedExpense as Expense);
-    return updatedExpense as Expense;
+    this.approvalRules.set(id, rule);
+    return rule;
+  }
+
+  async deleteApprovalRule(id: number): Promise<void> {
+    this.approvalRules.delete(id);
+  }
+
+  async getApprovalSteps(expenseId: number): Promise<ExpenseApprovalStep[]> {
+    return this.approvalSteps
+      .filter((step) => step.expenseId === expenseId)
+      .sort((a, b) => a.round - b.round || a.level - b.level);
+  }
+
+  async startApprovalRound(expenseId: number, approvalChain: ApprovalRequirement[]): Promise<ExpenseApprovalStep[]> {
+    const { round, replacesCurrent } = nextApprovalRound(await this.getApprovalSteps(expenseId));
+    if (replacesCurrent) {
+      this.approvalSteps = this.approvalSteps.filter((step) => step.expenseId !== expenseId || step.round !== round);
+    }
+    this.approvalSteps.push(...approvalChain.map((requirement) => ({
+      id: this.generateId(),
+      expenseId,
+      round,
+      ...requirement,
+      status: ApprovalStepStatus.PENDING,
+      reviewedById: null,
+      feedback: null,
+      reviewedAt: null,
+      createdAt: new Date(),
+    })));
+    return this.getApprovalSteps(expenseId);
+  }
+
+  async reviewApprovalStep(step: ExpenseApprovalStep, decision: ApprovalStepStatusType, reviewedById: number, feedback: string | undefined, expenseStatus: ExpenseStatusType | null, audit?: AuditBuilder<Expense>): Promise<Expense> {
+    const expense = this.expenses.get(step.expenseId);
+    if (!expense) {
+      throw new Error(`Expense with id ${step.expenseId} not found`);
+    }
+    const current = this.approvalSteps.find((existing) => existing.id === step.id);
+    if (current?.status !== ApprovalStepStatus.PENDING) {
+      throw new Error(`The approval step of expense ${step.expenseId} has already been decided`);
+    }
+    if (expense.status !== ExpenseStatus.PENDING) {
+      throw new ConflictError(`Expense ${step.expenseId} is no longer pending`);
+    }
+    this.approvalSteps = this.approvalSteps.map((existing) =>
+      existing.id === step.id
+        ? { ...existing, status: decision, reviewedById, feedback: feedback || null, reviewedAt: new Date() }
+        : existing
+    );
+
+    let updatedExpense = expense;
+    if (expenseStatus) {
+      updatedExpense = { ...expense, status: expenseStatus, reviewedById, feedback: feedback || null };
+      this.expenses.set(expense.id, updatedExpense);
+      this.recordExpenseVersion(updatedExpense, reviewedById, ExpenseChangeType.REVIEWED);
+    }
+    if (audit) await this.recordActivity(audit(updatedExpense));
+    return updatedExpense;
+  }
+
+  async reviewApprovalSteps(decisions: ApprovalDecision[]): Promise<Expense[]> {
+    // Check every step first so a stale one leaves all of them untouched
+    for (const { step } of decisions) {
+      const current = this.approvalSteps.find((existing) => existing.id === step.id);
+      if (current?.status !== ApprovalStepStatus.PENDING) {
+        throw new Error(`The approval step of expense ${step.expenseId} has already been decided`);
+      }
+      if (this.expenses.get(step.expenseId)?.status !== ExpenseStatus.PENDING) {
+        throw new ConflictError(`Expense ${step.expenseId} is no longer pending`);
+      }
+    }
+    const reviewed: Expense[] = [];
+    for (const { step, decision, reviewedById, feedback, expenseStatus, audit } of decisions) {
+      reviewed.push(await this.reviewApprovalStep(step, decision, reviewedById, feedback, expenseStatus, audit));
+    }
+    return reviewed;
+  }
+
+  // Expense receipt operations
+  async getExpenseReceipt(id: number): Promise<ExpenseReceipt | undefined> {
+    return this.expenseReceipts.get(id);
+  }
+
+  async getExpenseReceipts(expenseId: number): Promise<ExpenseReceipt[]> {
+    return Array.from(this.expenseReceipts.values()).filter(
+      (receipt) => receipt.expenseId === expenseId,
+    );
+  }
+
+  async createExpenseReceipts(receipts: InsertExpenseReceipt[]): Promise<ExpenseReceipt[]> {
+    return receipts.map((insertReceipt) => {
+      const receipt: ExpenseReceipt = { ...insertReceipt, id: this.generateId(), uploadedAt: new Date() };
+      this.expenseReceipts.set(receipt.id, receipt);
+      return receipt;
+    });
+  }
+
+  async deleteExpenseReceipt(id: number): Promise<void> {
+    this.expenseReceipts.delete(id);
   }
 
   // Activity log operations
@@ -561,21 +1495,16 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async createActivityLog(insertLog: {
-    userId: number;
-    projectId: number;
-    action: ActivityAction;
-    details: ActivityLogDetails;
-  }): Promise<ActivityLog> {
+  async createActivityLog(insertLog: InsertActivityLog): Promise<ActivityLog> {
     const id = this.currentActivityLogId++;
     const timestamp = new Date();
   
     const log: ActivityLog = {
       id,
       userId: insertLog.userId,
-      projectId: insertLog.projectId,
+      projectId: insertLog.projectId ?? null,
       action: insertLog.action,
-      details: insertLog.details,
+      details: insertLog.details ?? null,
       timestamp
     };
   
@@ -584,99 +1513,301 @@ export class MemStorage implements IStorage {
   }
   
   async assignActivityLogTargets(targets: InsertActivityLogTarget[]): Promise<void> {
-    console.warn("assignActivityLogTargets not fully implemented in MemStorage");
+    for (const target of targets) {
+      this.activityLogTargets.push({ ...target, id: this.generateId() });
+    }
   }
 
+  private async recordActivity(entry: AuditEntry): Promise<ActivityLog> {
+    const log = await this.createActivityLog(entry.log);
+    const targetUserIds = notifiedUserIds(entry, this.notificationPreferences);
+    await this.assignActivityLogTargets(
+      targetUserIds.map((targetUserId) => ({ activityLogId: log.id, targetUserId }))
+    );
+    auditEvents.emit("recorded", { log, targetUserIds });
+    return log;
+  }
 
-  // Notification Read operations
-  async markNotificationRead(userId: number, activityLogId: number): Promise<void> {
-    console.warn("markNotificationRead not fully implemented in MemStorage");
+  private isNotificationTarget(userId: number, activityLogId: number): boolean {
+    return this.activityLogTargets.some(
+      (t) => t.targetUserId === userId && t.activityLogId === activityLogId
+    );
   }
 
-  async getUnreadNotifications(userId: number): Promise<ActivityLog[]> {
-    const unread: ActivityLog[] = [];
-    this.activityLogs.forEach((log) => {
-      if (
-        // Check if the log is unread by the user
-        !this.readNotifications.some(
-          (n) => n.userId === userId && n.activityLogId === log.id
-        ) &&
-        // Check if the log is relevant to the user (either the userId matches or the details include the userId)
-        (log.userId === userId || (log.details && log.details.id === userId))
-      ) {
-        unread.push(log);
-      }
-    });
-    return unread;
+  private isNotificationRead(userId: number, activityLogId: number): boolean {
+    return this.readNotifications.some(
+      (n) => n.userId === userId && n.activityLogId === activityLogId
+    );
   }
 
-  // Analytics operations
-  async getTotalBudgetVsSpent(): Promise<ProjectBudgetComparison[]> {
-    const result: { project: string; budget: number; spent: number }[] = [];
-    
-    for (const project of this.projects.values()) {
-      const expenses = await this.getExpensesByProject(project.id);
-      const spent = expenses
-        .filter(e => e.status === ExpenseStatus.APPROVED)
-        .reduce((total, expense) => total + expense.amount, 0);
-      
-      result.push({
-        project: project.name,
-        budget: project.budget,
-        spent: spent
-      });
+  // Notification Read operations
+  async markNotificationRead(userId: number, activityLogId: number): Promise<boolean> {
+    if (!this.isNotificationTarget(userId, activityLogId)) {
+      return false;
     }
-    
-    return result;
+    if (!this.isNotificationRead(userId, activityLogId)) {
+      this.readNotifications.push({ userId, activityLogId });
+    }
+    return true;
   }
 
-  async getMonthlySpendingTrends(): Promise<MonthlySpending[]> {
-    // Mock data for demonstration - in a real app this would aggregate actual expenses
-    return [
-      { month: 'Jan', equipment: 45000, labor: 30000, transport: 12000 },
-      { month: 'Feb', equipment: 52000, labor: 35000, transport: 15000 },
-      { month: 'Mar', equipment: 48000, labor: 28000, transport: 10000 },
-      { month: 'Apr', equipment: 58000, labor: 32000, transport: 14000 },
-      { month: 'May', equipment: 63000, labor: 38000, transport: 16000 },
-      { month: 'Jun', equipment: 70000, labor: 42000, transport: 18000 }
-    ];
+  async markAllNotificationsRead(userId: number): Promise<void> {
+    for (const log of await this.getUnreadNotifications(userId)) {
+      this.readNotifications.push({ userId, activityLogId: log.id });
+    }
   }
 
-  async getSpendingByCategory(): Promise<SpendingCategory[]> {
-    const approvedExpenses = Array.from(this.expenses.values())
-      .filter(expense => expense.status === ExpenseStatus.APPROVED);
-    
-    const categoryMap = new Map<string, number>();
-    
-    for (const expense of approvedExpenses) {
-      const currentAmount = categoryMap.get(expense.category) || 0;
-      categoryMap.set(expense.category, currentAmount + expense.amount);
+  async getUnreadNotifications(userId: number): Promise<ActivityLog[]> {
+    return Array.from(this.activityLogs.values())
+      .filter((log) => this.isNotificationTarget(userId, log.id) && !this.isNotificationRead(userId, log.id))
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+
+  // Notification preference operations
+  async getNotificationPreferences(userId: number): Promise<NotificationPreferences> {
+    return { ...(this.notificationPreferences.get(userId) ?? DEFAULT_NOTIFICATION_PREFERENCES) };
+  }
+
+  async saveNotificationPreferences(userId: number, preferences: NotificationPreferences): Promise<NotificationPreferences> {
+    if (!this.users.has(userId)) {
+      throw new Error(`User with id ${userId} not found`);
     }
-    
-    return Array.from(categoryMap.entries()).map(([category, amount]) => ({
-      category,
-      amount
-    })) as SpendingCategory[];
+    this.notificationPreferences.set(userId, { ...preferences });
+    return { ...preferences };
+  }
+
+  async getDailySummaryRecipients(): Promise<User[]> {
+    return Array.from(this.users.values())
+      .filter((user) => user.email && this.notificationPreferences.get(user.id)?.dailySummary)
+      .map((user) => this.toSafeUser(user));
+  }
+
+  // Two-factor operations
+  async getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined> {
+    return this.twoFactorCredentials.get(userId);
+  }
+
+  async saveTwoFactorSecret(userId: number, secret: string): Promise<TwoFactorCredential> {
+    if (!this.users.has(userId)) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+    if (this.twoFactorCredentials.get(userId)?.enabledAt) {
+      throw new Error("Two-factor authentication is already on");
+    }
+    const credential: TwoFactorCredential = { userId, secret, enabledAt: null, lastUsedStep: null, createdAt: new Date() };
+    this.twoFactorCredentials.set(userId, credential);
+    return credential;
+  }
+
+  async enableTwoFactor(userId: number, step: number, recoveryCodeHashes: string[]): Promise<TwoFactorCredential> {
+    const credential = this.twoFactorCredentials.get(userId);
+    if (!credential) {
+      throw new Error("Two-factor enrollment has not been started");
+    }
+    const enabled: TwoFactorCredential = { ...credential, enabledAt: new Date(), lastUsedStep: step };
+    this.twoFactorCredentials.set(userId, enabled);
+    await this.replaceRecoveryCodes(userId, recoveryCodeHashes);
+    return enabled;
+  }
+
+  async useTwoFactorStep(userId: number, step: number): Promise<boolean> {
+    const credential = this.twoFactorCredentials.get(userId);
+    if (!credential || (credential.lastUsedStep !== null && credential.lastUsedStep >= step)) {
+      return false;
+    }
+    this.twoFactorCredentials.set(userId, { ...credential, lastUsedStep: step });
+    return true;
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    this.recoveryCodes = this.recoveryCodes.filter((code) => code.userId !== userId);
+    for (const codeHash of codeHashes) {
+      this.recoveryCodes.push({ id: this.generateId(), userId, codeHash, usedAt: null });
+    }
+  }
+
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const code = this.recoveryCodes.find((code) => code.userId === userId && code.codeHash === codeHash && !code.usedAt);
+    if (!code) return false;
+    code.usedAt = new Date();
+    return true;
+  }
+
+  async countUnusedRecoveryCodes(userId: number): Promise<number> {
+    return this.recoveryCodes.filter((code) => code.userId === userId && !code.usedAt).length;
+  }
+
+  async disableTwoFactor(userId: number): Promise<void> {
+    this.twoFactorCredentials.delete(userId);
+    this.recoveryCodes = this.recoveryCodes.filter((code) => code.userId !== userId);
+  }
+
+  async getTwoFactorRequiredRoles(): Promise<UserRoleType[]> {
+    return Array.from(this.twoFactorRequiredRoles);
+  }
+
+  async setTwoFactorRequiredRoles(roles: UserRoleType[], updatedById: number): Promise<UserRoleType[]> {
+    this.twoFactorRequiredRoles = new Set(roles);
+    return Array.from(this.twoFactorRequiredRoles);
+  }
+
+  async createTwoFactorChallenge(insertChallenge: InsertTwoFactorChallenge): Promise<TwoFactorChallenge> {
+    const challenge: TwoFactorChallenge = {
+      id: insertChallenge.id,
+      userId: insertChallenge.userId,
+      attempts: insertChallenge.attempts ?? 0,
+      createdAt: insertChallenge.createdAt ?? new Date(),
+      expiresAt: insertChallenge.expiresAt,
+      usedAt: insertChallenge.usedAt ?? null,
+    };
+    this.twoFactorChallenges.set(challenge.id, challenge);
+    return { ...challenge };
+  }
+
+  async getTwoFactorChallenge(id: string): Promise<TwoFactorChallenge | undefined> {
+    const challenge = this.twoFactorChallenges.get(id);
+    return challenge && { ...challenge };
+  }
+
+  async claimTwoFactorAttempt(id: string, maxAttempts: number): Promise<TwoFactorChallenge | undefined> {
+    const challenge = this.twoFactorChallenges.get(id);
+    if (!challenge || challenge.usedAt || challenge.expiresAt <= new Date() || challenge.attempts >= maxAttempts) {
+      return undefined;
+    }
+    const claimed = { ...challenge, attempts: challenge.attempts + 1 };
+    this.twoFactorChallenges.set(id, claimed);
+    return { ...claimed };
+  }
+
+  async useTwoFactorChallenge(id: string): Promise<boolean> {
+    const challenge = this.twoFactorChallenges.get(id);
+    if (!challenge || challenge.usedAt || challenge.expiresAt <= new Date()) {
+      return false;
+    }
+    this.twoFactorChallenges.set(id, { ...challenge, usedAt: new Date() });
+    return true;
+  }
+
+  async countFailedTwoFactorAttempts(userId: number, since: Date): Promise<number> {
+    return Array.from(this.twoFactorChallenges.values())
+      .filter((challenge) => challenge.userId === userId && !challenge.usedAt && challenge.createdAt >= since)
+      .reduce((total, challenge) => total + challenge.attempts, 0);
+  }
+
+  // Exchange rate operations
+  async getExchangeRates(): Promise<ExchangeRate[]> {
+    return Array.from(this.exchangeRates.values()).sort((a, b) => a.currency.localeCompare(b.currency));
+  }
+
+  async saveExchangeRates(rates: InsertExchangeRate[]): Promise<ExchangeRate[]> {
+    return rates.map((rate) => {
+      const saved: ExchangeRate = { ...rate, updatedAt: new Date() };
+      this.exchangeRates.set(saved.currency, saved);
+      return saved;
+    });
+  }
+
+  async deleteExchangeRate(currency: string): Promise<ExchangeRate | undefined> {
+    const rate = this.exchangeRates.get(currency);
+    this.exchangeRates.delete(currency);
+    return rate;
+  }
+
+  async isCurrencyInUse(currency: string): Promise<boolean> {
+    return Array.from(this.projects.values()).some((project) => project.currency === currency) ||
+      Array.from(this.expenses.values()).some((expense) => expense.currency === currency);
+  }
+
+  // Analytics operations
+  async getTotalBudgetVsSpent(dateRange?: string, reportingCurrency = REPORTING_CURRENCY): Promise<ProjectBudgetComparison[]> {
+    const rates = rateTable(await this.getExchangeRates());
+    const fromDate = getFromDate(dateRange);
+    return (await this.getProjects(dateRange)).map((project) => {
+      const approved = Array.from(this.expenses.values()).filter((expense) =>
+        expense.projectId === project.id &&
+        expense.status === ExpenseStatus.APPROVED &&
+        (!fromDate || expense.createdAt >= fromDate));
+      return budgetComparison(project, sumConverted(approved, project.currency, rates), reportingCurrency, rates);
+    });
+  }
+
+  async getApprovedSpendByProject(): Promise<Map<number, number>> {
+    const rates = rateTable(await this.getExchangeRates());
+    const spent = new Map<number, number>();
+    for (const expense of this.expenses.values()) {
+      const project = this.projects.get(expense.projectId);
+      if (project && expense.status === ExpenseStatus.APPROVED) {
+        const amount = convert(expense.amount, expense.currency, project.currency, rates);
+        spent.set(expense.projectId, addMoney(spent.get(expense.projectId) ?? 0, amount));
+      }
+    }
+    return spent;
+  }
+
+  async getCategoryBudgetVsSpent(projectId?: number, reportingCurrency = REPORTING_CURRENCY): Promise<CategoryBudgetComparison[]> {
+    const projectList = projectId === undefined
+      ? Array.from(this.projects.values())
+      : [this.projects.get(projectId)].filter((project): project is Project => project !== undefined);
+    const committed = [ExpenseStatus.APPROVED, ExpenseStatus.PENDING] as ExpenseStatusType[];
+    const spend: CategorySpend[] = Array.from(this.expenses.values())
+      .filter((expense) => committed.includes(expense.status))
+      .map((expense) => ({
+        projectId: expense.projectId,
+        category: expense.category,
+        status: expense.status,
+        currency: expense.currency,
+        total: expense.amount,
+      }));
+    const rates = rateTable(await this.getExchangeRates());
+    return categoryComparisons(projectList, this.categoryBudgets, spend, reportingCurrency, rates);
+  }
+
+  async getMonthlySpendingTrends(reportingCurrency = REPORTING_CURRENCY): Promise<MonthlySpending[]> {
+    const rates = rateTable(await this.getExchangeRates());
+    const trendsMap = new Map<string, MonthlySpending>();
+    const byDate = Array.from(this.expenses.values()).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    for (const expense of byDate) {
+      if (!isTrendCategory(expense.category)) continue;
+      // Same labels as Postgres' to_char(..., 'Mon'), so months of different years share a row
+      const month = expense.createdAt.toLocaleString("en-US", { month: "short" });
+      if (!trendsMap.has(month)) {
+        trendsMap.set(month, { month, equipment: 0, labor: 0, transport: 0, currency: reportingCurrency });
+      }
+      const trend = trendsMap.get(month)!;
+      trend[expense.category] = addMoney(trend[expense.category], convert(expense.amount, expense.currency, reportingCurrency, rates));
+    }
+
+    return Array.from(trendsMap.values());
+  }
+
+  async getSpendingByCategory(reportingCurrency = REPORTING_CURRENCY): Promise<SpendingCategory[]> {
+    const rates = rateTable(await this.getExchangeRates());
+    const totals = new Map<ExpenseCategoryType, Map<string, number>>();
+    for (const expense of this.expenses.values()) {
+      if (expense.status === ExpenseStatus.APPROVED) {
+        addToTotals(totals, expense.category, expense.currency, expense.amount);
+      }
+    }
+
+    return Array.from(totals, ([category, byCurrency]) => {
+      const original = currencyAmounts(byCurrency);
+      return { category, amount: sumConverted(original, reportingCurrency, rates), currency: reportingCurrency, original };
+    });
   }
 
   async getExpenseApprovalRates(): Promise<ExpenseApprovalRate[]> {
-    const pendingCount = Array.from(this.expenses.values())
-      .filter(e => e.status === ExpenseStatus.PENDING).length;
-    
-    const approvedCount = Array.from(this.expenses.values())
-      .filter(e => e.status === ExpenseStatus.APPROVED).length;
-    
-    const rejectedCount = Array.from(this.expenses.values())
-      .filter(e => e.status === ExpenseStatus.REJECTED).length;
-    
-    return [
-      { status: 'Pending', count: pendingCount },
-      { status: 'Approved', count: approvedCount },
-      { status: 'Rejected', count: rejectedCount }
-    ];
+    const counts = new Map<ExpenseStatusType, number>();
+    for (const expense of this.expenses.values()) {
+      // Withdrawn expenses were never decided on
+      if (expense.status === ExpenseStatus.WITHDRAWN) continue;
+      counts.set(expense.status, (counts.get(expense.status) ?? 0) + 1);
+    }
+    return Array.from(counts, ([status, count]) => ({ status: approvalRateLabel(status), count }));
   }
 
-  async getSpendingByEmployee(): Promise<EmployeeSpending[]> {
+  async getSpendingByEmployee(reportingCurrency = REPORTING_CURRENCY): Promise<EmployeeSpending[]> {
+    const rates = rateTable(await this.getExchangeRates());
     const result = new Map<number, number>();
   
     const approvedExpenses = Array.from(this.expenses.values())
@@ -685,7 +1816,7 @@ export class MemStorage implements IStorage {
     // Calculate total approved expenses per employee
     for (const expense of approvedExpenses) {
       const currentTotal = result.get(expense.submittedById) || 0;
-      result.set(expense.submittedById, currentTotal + expense.amount);
+      result.set(expense.submittedById, addMoney(currentTotal, convert(expense.amount, expense.currency, reportingCurrency, rates)));
     }
   
     // Prepare final results with employee details
@@ -697,6 +1828,7 @@ export class MemStorage implements IStorage {
           employeeId: user.id,
           employeeName: user.name,
           amount,
+          currency: reportingCurrency,
         });
       }
     }
@@ -728,62 +1860,90 @@ export class DatabaseStorage implements IStorage {
     });
   }
   
-  // Session Token Operation
-  async getSessionTokenByUserId(userId: number): Promise<SessionToken | undefined> {
+  // Session operations
+  async createSession(session: InsertSessionToken): Promise<SessionToken> {
     const { db } = await import('./db');
-    const [token] = await db
-      .select()
-      .from(sessionToken)
-      .where(eq(sessionToken.userId, userId));
-    return token;
+    const [created] = await db.insert(sessionToken).values(session).returning();
+    return created;
   }
-  
-  async updateRefreshToken(userId: number, newToken: string, expiresAt: Date): Promise<void> {
+
+  async getSession(id: string): Promise<SessionToken | undefined> {
     const { db } = await import('./db');
-  
-    const [existingSession] = await db
+    const [session] = await db.select().from(sessionToken).where(eq(sessionToken.id, id));
+    return session;
+  }
+
+  async getActiveSessions(userId: number): Promise<SessionToken[]> {
+    const { db } = await import('./db');
+    return db
       .select()
       .from(sessionToken)
-      .where(eq(sessionToken.userId, userId));
-  
-    if (existingSession) {
-      // Update the existing session
-      await db
-        .update(sessionToken)
-        .set({ refreshToken: newToken, expiresAt })
-        .where(eq(sessionToken.userId, userId));
-    } else {
-      // Insert a new session
-      await db.insert(sessionToken).values({
-        userId,
-        refreshToken: newToken,
-        expiresAt,
-      });
-    }
+      .where(and(eq(sessionToken.userId, userId), isNull(sessionToken.revokedAt), gte(sessionToken.expiresAt, new Date())))
+      .orderBy(desc(sessionToken.lastUsedAt));
+  }
+
+  async rotateSession(id: string, currentTokenHash: string, nextTokenHash: string, expiresAt: Date, device: SessionDevice): Promise<SessionToken | undefined> {
+    const { db } = await import('./db');
+    // Conditional on the current hash, so of two refreshes racing with one token only the first wins
+    const [rotated] = await db
+      .update(sessionToken)
+      .set({ ...device, tokenHash: nextTokenHash, lastUsedAt: new Date(), expiresAt })
+      .where(and(eq(sessionToken.id, id), eq(sessionToken.tokenHash, currentTokenHash), isNull(sessionToken.revokedAt)))
+      .returning();
+    return rotated;
+  }
+
+  async revokeSession(id: string): Promise<SessionToken | undefined> {
+    const { db } = await import('./db');
+    const [revoked] = await db
+      .update(sessionToken)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(sessionToken.id, id), isNull(sessionToken.revokedAt)))
+      .returning();
+    if (revoked) sessionEvents.emit("ended", [revoked.id]);
+    return revoked;
   }
-  
 
-  async deleteRefreshToken(refreshToken: string): Promise<void> {
+  async revokeUserSessions(userId: number): Promise<number> {
     const { db } = await import('./db');
-    await db.delete(sessionToken).where(eq(sessionToken.refreshToken, refreshToken)); // Use sessionToken table and refreshToken field
+    const revoked = await db
+      .update(sessionToken)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(sessionToken.userId, userId), isNull(sessionToken.revokedAt)))
+      .returning({ id: sessionToken.id });
+    if (revoked.length > 0) sessionEvents.emit("ended", revoked.map((session) => session.id));
+    return revoked.length;
   }
   
   // User operations
   async getUser(id: number): Promise<User | undefined> {
     const { db } = await import('./db');
     const [user] = await db.select().from(users).where(eq(users.id, id));
-    return user;
+    return user ? this.toSafeUser(user) : undefined;
   }
 
   async getAllUsers(): Promise<User[]>{
     const { db } = await import('./db');
-    return db.select().from(users);
+    const rows = await db.select().from(users);
+    return rows.map((user) => this.toSafeUser(user));
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
     const { db } = await import('./db');
     const [user] = await db.select().from(users).where(eq(users.username, username));
-    return user;
+    return user ? this.toSafeUser(user) : undefined;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const { db } = await import('./db');
+    const [user] = await db.select().from(users).where(eq(users.email, email));
+    return user ? this.toSafeUser(user) : undefined;
+  }
+
+  async getUsersByRole(role: UserRoleType): Promise<User[]> {
+    const { db } = await import('./db');
+    const rows = await db.select().from(users).where(eq(users.role, role));
+    return rows.map((user) => this.toSafeUser(user));
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
@@ -797,14 +1957,31 @@ export class DatabaseStorage implements IStorage {
       name: users.name,
       username: users.username,
       role: users.role,
+      email: users.email,
     });
     return user;
   }
 
+  // Saved notification preferences belong to the user and go with them
   async deleteUser(userId: number): Promise<void> { 
     const { db } = await import('./db');
     
-    await db.delete(users).where(eq(users.id, userId));
+    const sessionIds = await db.transaction(async (tx) => {
+      await tx.delete(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.delete(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId));
+      await tx.delete(twoFactorChallenges).where(eq(twoFactorChallenges.userId, userId));
+      // The invitations an admin sent go with them; the one a user joined through stays, without the link to them
+      await tx.delete(invitations).where(eq(invitations.invitedById, userId));
+      await tx.update(invitations).set({ acceptedUserId: null }).where(eq(invitations.acceptedUserId, userId));
+      // Their sessions and reset links go too; links an admin sent to others keep working without the admin
+      const sessions = await tx.delete(sessionToken).where(eq(sessionToken.userId, userId)).returning({ id: sessionToken.id });
+      await tx.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, userId));
+      await tx.update(passwordResetTokens).set({ requestedById: null }).where(eq(passwordResetTokens.requestedById, userId));
+      await tx.delete(users).where(eq(users.id, userId));
+      return sessions.map((session) => session.id);
+    });
+    if (sessionIds.length > 0) sessionEvents.emit("ended", sessionIds);
   }
 
   async verifyUser(username: string, password: string): Promise<User | undefined> {   
@@ -824,6 +2001,172 @@ export class DatabaseStorage implements IStorage {
       return undefined; // Invalid password    
   }
 
+  async updateUserProfile(userId: number, profile: ProfileUpdate): Promise<User> {
+    const { db } = await import('./db');
+    const [user] = await db.update(users).set(profile).where(eq(users.id, userId)).returning();
+    if (!user) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+    return this.toSafeUser(user);
+  }
+
+  async updateUserPassword(userId: number, hashedPassword: string): Promise<void> {
+    const { db } = await import('./db');
+    const [user] = await db.update(users).set({ password: hashedPassword }).where(eq(users.id, userId)).returning({ id: users.id });
+    if (!user) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+  }
+
+  async changePassword(userId: number, hashedPassword: string, keptSessionId: string): Promise<void> {
+    const { db } = await import('./db');
+    const sessionIds = await db.transaction(async (tx) => {
+      const [user] = await tx.update(users).set({ password: hashedPassword }).where(eq(users.id, userId)).returning({ id: users.id });
+      if (!user) {
+        throw new Error(`User with id ${userId} not found`);
+      }
+      const revoked = await tx
+        .update(sessionToken)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(sessionToken.userId, userId), ne(sessionToken.id, keptSessionId), isNull(sessionToken.revokedAt)))
+        .returning({ id: sessionToken.id });
+      return revoked.map((session) => session.id);
+    });
+    if (sessionIds.length > 0) sessionEvents.emit("ended", sessionIds);
+  }
+
+  // Password reset operations
+  async createPasswordResetToken(insertToken: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const { db } = await import('./db');
+    const [token] = await db.insert(passwordResetTokens).values(insertToken).returning();
+    return token;
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const { db } = await import('./db');
+    const [token] = await db.select().from(passwordResetTokens).where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async resetPassword(tokenId: number, hashedPassword: string): Promise<User | undefined> {
+    const { db } = await import('./db');
+
+    const reset = await db.transaction(async (tx) => {
+      // Claiming the token first means a link clicked twice sets the password once
+      const [token] = await tx
+        .update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(eq(passwordResetTokens.id, tokenId), isNull(passwordResetTokens.usedAt), sql`${passwordResetTokens.expiresAt} > now()`))
+        .returning();
+      if (!token) {
+        return undefined;
+      }
+
+      await tx
+        .update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(eq(passwordResetTokens.userId, token.userId), isNull(passwordResetTokens.usedAt)));
+      const [user] = await tx.update(users).set({ password: hashedPassword }).where(eq(users.id, token.userId)).returning();
+      const revoked = await tx
+        .update(sessionToken)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(sessionToken.userId, token.userId), isNull(sessionToken.revokedAt)))
+        .returning({ id: sessionToken.id });
+      return { user: this.toSafeUser(user), sessionIds: revoked.map((session) => session.id) };
+    });
+    if (reset && reset.sessionIds.length > 0) sessionEvents.emit("ended", reset.sessionIds);
+    return reset?.user;
+  }
+
+  // Invitation operations
+  async getInvitations(): Promise<Invitation[]> {
+    const { db } = await import('./db');
+    return db.select().from(invitations).orderBy(desc(invitations.createdAt));
+  }
+
+  async getInvitation(id: number): Promise<Invitation | undefined> {
+    const { db } = await import('./db');
+    const [invitation] = await db.select().from(invitations).where(eq(invitations.id, id));
+    return invitation;
+  }
+
+  async getInvitationByTokenHash(tokenHash: string): Promise<Invitation | undefined> {
+    const { db } = await import('./db');
+    const [invitation] = await db.select().from(invitations).where(eq(invitations.tokenHash, tokenHash));
+    return invitation;
+  }
+
+  async createInvitation(invitation: InsertInvitation): Promise<Invitation> {
+    const { db } = await import('./db');
+    const [created] = await db.insert(invitations).values(invitation).returning();
+    return created;
+  }
+
+  async revokeInvitation(id: number): Promise<Invitation> {
+    const { db } = await import('./db');
+    const [revoked] = await db
+      .update(invitations)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(invitations.id, id), this.isPendingInvitation()))
+      .returning();
+    if (!revoked) {
+      throw new Error("Only a pending invitation can be revoked");
+    }
+    return revoked;
+  }
+
+  async acceptInvitation(id: number, account: InsertUser, audit?: (user: User) => AuditBuilder<ProjectAssignment>): Promise<User> {
+    const { db } = await import('./db');
+    let recorded: RecordedActivity | undefined;
+
+    const user = await db.transaction(async (tx) => {
+      // Claiming the invitation first means two people racing on one link create one account
+      const [invitation] = await tx
+        .update(invitations)
+        .set({ acceptedAt: new Date() })
+        .where(and(eq(invitations.id, id), this.isPendingInvitation()))
+        .returning();
+      if (!invitation) {
+        throw new Error("This invitation is no longer valid");
+      }
+
+      const [user] = await tx.insert(users).values({
+        ...account,
+        role: invitation.role,
+        email: invitation.email,
+      }).returning({
+        id: users.id,
+        name: users.name,
+        username: users.username,
+        role: users.role,
+        email: users.email,
+      });
+      await tx.update(invitations).set({ acceptedUserId: user.id }).where(eq(invitations.id, id));
+
+      if (invitation.projectId !== null) {
+        const [assignment] = await tx.insert(projectAssignments).values({
+          projectId: invitation.projectId,
+          userId: user.id,
+          projectRole: invitation.role,
+          assignedBy: invitation.invitedById,
+        }).returning();
+        if (audit) recorded = await this.recordActivity(tx, audit(user)(assignment));
+      }
+      return user;
+    });
+
+    if (recorded) auditEvents.emit("recorded", recorded);
+    return user;
+  }
+
+  private isPendingInvitation(): SQL {
+    return and(
+      isNull(invitations.acceptedAt),
+      isNull(invitations.revokedAt),
+      sql`${invitations.expiresAt} > now()`,
+    )!;
+  }
+
   // Client operations
   async getClient(id: number): Promise<Client | undefined> {
     const { db } = await import('./db');
@@ -847,6 +2190,40 @@ export class DatabaseStorage implements IStorage {
     return newClient;
   }
 
+  async updateClient(id: number, changes: ClientChanges, audit?: AuditBuilder<Client>): Promise<Client> {
+    return this.auditedTransaction(async (tx) => {
+      const [updatedClient] = await tx
+        .update(clients)
+        .set(changes)
+        .where(eq(clients.id, id))
+        .returning();
+      return updatedClient;
+    }, audit);
+  }
+
+  // Moves the source's projects to the target and retires the source as a pointer to it
+  async mergeClients(sourceId: number, targetId: number, audit?: AuditBuilder<Client>): Promise<Client> {
+    return this.auditedTransaction(async (tx) => {
+      const [source] = await tx
+        .update(clients)
+        .set({ deactivatedAt: new Date(), mergedIntoId: targetId })
+        .where(and(eq(clients.id, sourceId), isNull(clients.mergedIntoId), isNull(clients.deactivatedAt)))
+        .returning();
+      // Locking the target means a merge the other way round waits for this one and then finds the
+      // target retired, so two clients can never end up merged into each other
+      const [target] = await tx
+        .select()
+        .from(clients)
+        .where(and(eq(clients.id, targetId), isNull(clients.mergedIntoId), isNull(clients.deactivatedAt)))
+        .for("update");
+      if (!source || !target) {
+        throw new ConflictError(CLIENTS_CHANGED_MESSAGE);
+      }
+      await tx.update(projects).set({ clientId: targetId }).where(eq(projects.clientId, sourceId));
+      return target;
+    }, audit);
+  }
+
   // Project operations
   async getProject(id: number): Promise<Project | undefined> {
     const { db } = await import('./db');
@@ -883,28 +2260,152 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(projects).where(eq(projects.clientId, clientId));
   }
   
-  async createProject(project: InsertProject): Promise<Project> {
-    const { db } = await import('./db');
-    const [newProject] = await db.insert(projects).values({...project, status: project.status as ProjectStatusType}).returning();
-    return newProject;
+  async createProject(project: InsertProject, audit?: AuditBuilder<Project>): Promise<Project> {
+    return this.auditedTransaction(async (tx) => {
+      const [newProject] = await tx.insert(projects).values({...project, status: project.status as ProjectStatusType}).returning();
+      await tx.insert(projectBudgetRevisions).values({
+        projectId: newProject.id,
+        previousBudget: null,
+        newBudget: newProject.budget,
+        reason: "Initial budget",
+        effectiveDate: newProject.startDate,
+        revisedById: newProject.createdById,
+      });
+      return newProject;
+    }, audit);
   }
   
-  async updateProjectStatus(id: number, status: string): Promise<Project> {
+  async updateProjectStatus(id: number, status: ProjectStatusType, audit?: AuditBuilder<Project>): Promise<Project> {
+    return this.auditedTransaction(async (tx) => {
+      const [updatedProject] = await tx
+      .update(projects)
+      .set({ status })
+      .where(eq(projects.id, id))
+      .returning();
+      return updatedProject;
+    }, audit);
+  }
+
+  async updateProject(id: number, changes: ProjectChanges, audit?: AuditBuilder<Project>): Promise<Project> {
+    return this.auditedTransaction(async (tx) => {
+      const [updatedProject] = await tx
+        .update(projects)
+        .set(changes)
+        .where(eq(projects.id, id))
+        .returning();
+      return updatedProject;
+    }, audit);
+  }
+
+  async reviseProjectBudget(id: number, change: BudgetChange, revisedById: number, audit?: AuditBuilder<Project>): Promise<Project> {
+    return this.auditedTransaction(async (tx) => {
+      // Lock the row so concurrent revisions record the right previous budget
+      const [project] = await tx.select().from(projects).where(eq(projects.id, id)).for("update");
+      if (!project) return project;
+
+      await tx.insert(projectBudgetRevisions).values({
+        projectId: id,
+        previousBudget: project.budget,
+        newBudget: change.budget,
+        reason: change.reason,
+        effectiveDate: change.effectiveDate,
+        revisedById,
+      });
+      const [updatedProject] = await tx
+        .update(projects)
+        .set({ budget: change.budget })
+        .where(eq(projects.id, id))
+        .returning();
+      return updatedProject;
+    }, audit);
+  }
+
+  async getProjectBudgetRevisions(projectId: number): Promise<ProjectBudgetRevision[]> {
     const { db } = await import('./db');
-    const [updatedProject] = await db
-    .update(projects)
-    .set({ status: status as ProjectStatusType })
-    .where(eq(projects.id, id))
-    .returning();
-    return updatedProject;
+    return db
+      .select()
+      .from(projectBudgetRevisions)
+      .where(eq(projectBudgetRevisions.projectId, projectId))
+      .orderBy(projectBudgetRevisions.effectiveDate, projectBudgetRevisions.createdAt);
+  }
+
+  async getProjectCategoryBudgets(projectId: number): Promise<ProjectCategoryBudget[]> {
+    const { db } = await import('./db');
+    return db.select().from(projectCategoryBudgets).where(eq(projectCategoryBudgets.projectId, projectId));
+  }
+
+  async replaceProjectCategoryBudgets(projectId: number, lines: CategoryBudgetLine[], audit?: AuditBuilder<Project>): Promise<ProjectCategoryBudget[]> {
+    await this.auditedTransaction(async (tx) => {
+      const [project] = await tx.select().from(projects).where(eq(projects.id, projectId)).for("update");
+      if (!project) {
+        throw new Error(`Project with id ${projectId} not found`);
+      }
+      await tx.delete(projectCategoryBudgets).where(eq(projectCategoryBudgets.projectId, projectId));
+      if (lines.length > 0) {
+        await tx.insert(projectCategoryBudgets).values(lines.map((line) => ({ ...line, projectId })));
+      }
+      return project;
+    }, audit);
+    return this.getProjectCategoryBudgets(projectId);
+  }
+
+  async getProjectBudgetAlerts(projectId: number): Promise<ProjectBudgetAlert[]> {
+    const { db } = await import('./db');
+    return db
+      .select()
+      .from(projectBudgetAlerts)
+      .where(eq(projectBudgetAlerts.projectId, projectId))
+      .orderBy(projectBudgetAlerts.triggeredAt);
+  }
+
+  async recordProjectBudgetAlert(alert: InsertProjectBudgetAlert, audit?: AuditBuilder<ProjectBudgetAlert>): Promise<ProjectBudgetAlert | undefined> {
+    // The unique key makes concurrent checks race harmlessly: only the first insert returns a row,
+    // and only that one is audited
+    return this.auditedTransaction(async (tx) => {
+      const [newAlert] = await tx.insert(projectBudgetAlerts).values(alert).onConflictDoNothing().returning();
+      return newAlert;
+    }, audit);
+  }
+
+  // Detaches the project's history and removes what only makes sense with the project.
+  // The expenses foreign key still refuses the delete if an expense slipped in meanwhile.
+  async deleteProject(id: number, audit?: AuditBuilder<Project>): Promise<Project> {
+    return this.auditedTransaction(async (tx) => {
+      await tx.update(activityLogs).set({ projectId: null }).where(eq(activityLogs.projectId, id));
+      await tx.delete(projectAssignments).where(eq(projectAssignments.projectId, id));
+      await tx.delete(approvalRules).where(eq(approvalRules.projectId, id));
+      await tx.delete(projectBudgetRevisions).where(eq(projectBudgetRevisions.projectId, id));
+      await tx.delete(projectBudgetAlerts).where(eq(projectBudgetAlerts.projectId, id));
+      await tx.delete(projectCategoryBudgets).where(eq(projectCategoryBudgets.projectId, id));
+      const [deletedProject] = await tx.delete(projects).where(eq(projects.id, id)).returning();
+      return deletedProject;
+    }, audit);
   }
   
   
   
   // Project Assigning Operation  
+  async getUsersAssignedToProject(projectId: number, projectRole?: UserRoleType): Promise<User[]> {
+    const { db } = await import('./db');
+    const conditions = [eq(projectAssignments.projectId, projectId), isNull(projectAssignments.removedAt)];
+    if (projectRole) {
+      conditions.push(eq(projectAssignments.projectRole, projectRole));
+    }
+
+    const rows = await db
+      .select({ user: users })
+      .from(projectAssignments)
+      .innerJoin(users, eq(projectAssignments.userId, users.id))
+      .where(and(...conditions));
+    return rows.map((row) => this.toSafeUser(row.user));
+  }
+
   async getProjectsAssignedToUser(userId: number): Promise<Project[]> {
     const { db } = await import('./db');
-    const assignedProjectIds = await db.select({ projectId: projectAssignments.projectId }).from(projectAssignments).where(eq(projectAssignments.userId, userId));
+    const assignedProjectIds = await db
+      .select({ projectId: projectAssignments.projectId })
+      .from(projectAssignments)
+      .where(and(eq(projectAssignments.userId, userId), isNull(projectAssignments.removedAt)));
 
     if (assignedProjectIds.length === 0) {
       return []; 
@@ -913,6 +2414,46 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(projects).where(inArray(projects.id, projectIds));
   }
 
+  async getProjectAssignment(id: number): Promise<ProjectAssignment | undefined> {
+    const { db } = await import('./db');
+    const [assignment] = await db.select().from(projectAssignments).where(eq(projectAssignments.id, id));
+    return assignment;
+  }
+
+  async getProjectAssignments(projectId: number): Promise<ProjectAssignment[]> {
+    const { db } = await import('./db');
+    return db
+      .select()
+      .from(projectAssignments)
+      .where(eq(projectAssignments.projectId, projectId))
+      .orderBy(projectAssignments.assignedAt);
+  }
+
+  async createProjectAssignment(assignment: InsertProjectAssignment, audit?: AuditBuilder<ProjectAssignment>): Promise<ProjectAssignment> {
+    return this.auditedTransaction(async (tx) => {
+      const [newAssignment] = await tx
+        .insert(projectAssignments)
+        .values({ ...assignment, projectRole: assignment.projectRole as UserRoleType | null | undefined })
+        .returning();
+      return newAssignment;
+    }, audit);
+  }
+
+  async removeProjectAssignment(id: number, removedById: number, audit?: AuditBuilder<ProjectAssignment>): Promise<ProjectAssignment> {
+    return this.auditedTransaction(async (tx) => {
+      // Only a current membership can be ended, so two concurrent removals record one event
+      const [removed] = await tx
+        .update(projectAssignments)
+        .set({ removedAt: new Date(), removedBy: removedById })
+        .where(and(eq(projectAssignments.id, id), isNull(projectAssignments.removedAt)))
+        .returning();
+      if (!removed) {
+        throw new Error("This member has already been removed");
+      }
+      return removed;
+    }, audit);
+  }
+
 
 
   // Expense operations
@@ -937,6 +2478,56 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(expenses).where(eq(expenses.submittedById, userId));
   }
 
+  async queryExpenses(query: ExpenseQuery, scope: ExpenseScope, totalCurrency = REPORTING_CURRENCY): Promise<ExpensePage> {
+    const { db } = await import('./db');
+    const conditions: (SQL | undefined)[] = [];
+
+    if (scope) {
+      conditions.push(scope.projectIds.length > 0
+        ? or(eq(expenses.submittedById, scope.submittedById), inArray(expenses.projectId, scope.projectIds))
+        : eq(expenses.submittedById, scope.submittedById));
+    }
+    if (query.status) conditions.push(eq(expenses.status, query.status));
+    if (query.category) conditions.push(eq(expenses.category, query.category));
+    if (query.projectId) conditions.push(eq(expenses.projectId, query.projectId));
+    if (query.submittedById) conditions.push(eq(expenses.submittedById, query.submittedById));
+    if (query.from) conditions.push(gte(expenses.createdAt, query.from));
+    if (query.to) conditions.push(lte(expenses.createdAt, query.to));
+    if (query.currency) conditions.push(eq(expenses.currency, query.currency));
+    if (query.minAmount !== undefined) conditions.push(gte(expenses.amount, query.minAmount));
+    if (query.maxAmount !== undefined) conditions.push(lte(expenses.amount, query.maxAmount));
+    if (query.search) {
+      // Treat the search as plain text, not as a LIKE pattern
+      const escaped = query.search.replace(/[\\%_]/g, (char) => `\\${char}`);
+      conditions.push(ilike(expenses.description, `%${escaped}%`));
+    }
+    const where = and(...conditions);
+
+    const totals = await db
+      .select({
+        currency: expenses.currency,
+        count: sql<number>`count(*)::int`,
+        amount: sql<number>`coalesce(sum(${expenses.amount}), 0)`.mapWith(expenses.amount),
+      })
+      .from(expenses)
+      .where(where)
+      .groupBy(expenses.currency);
+    const total = totals.reduce((count, row) => count + row.count, 0);
+    const totalAmount = sumConverted(totals, totalCurrency, rateTable(await this.getExchangeRates()));
+
+    // The id tie-breaker keeps pages stable when many rows share the sort value
+    const order = query.sortOrder === "asc" ? asc : desc;
+    const items = await db
+      .select()
+      .from(expenses)
+      .where(where)
+      .orderBy(order(expenses[query.sortBy]), order(expenses.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+
+    return { items, total, totalAmount, totalCurrency, page: query.page, pageSize: query.pageSize };
+  }
+
   async getExpensesByStatus(status: ExpenseStatusType, dateRange?:string): Promise<Expense[]> {
     const { db } = await import('./db');
     const fromDate = getFromDate(dateRange);
@@ -950,26 +2541,209 @@ export class DatabaseStorage implements IStorage {
       .where(dateCondition ? and(statusCondition, dateCondition) : statusCondition);
   }
 
-  async createExpense(expense: InsertExpense): Promise<Expense> {
+  async createExpense(expense: InsertExpense, approvalChain: ApprovalRequirement[] = [], audit?: AuditBuilder<Expense>): Promise<Expense> {
+    return this.auditedTransaction((tx) => this.insertExpense(tx, expense, approvalChain), audit);
+  }
+
+  // All or nothing: one transaction for every expense and its audit entry
+  async createExpenses(newExpenses: NewExpense[]): Promise<Expense[]> {
     const { db } = await import('./db');
-    const [newExpense] = await db.insert(expenses).values({...expense, category: expense.category as ExpenseCategoryType, status: expense.status as ExpenseStatusType}).returning();
+    const recorded: RecordedActivity[] = [];
+
+    const created = await db.transaction(async (tx) => {
+      const rows: Expense[] = [];
+      for (const { expense, approvalChain, audit } of newExpenses) {
+        const newExpense = await this.insertExpense(tx, expense, approvalChain);
+        if (audit) {
+          const entry = audit(newExpense);
+          recorded.push(await this.recordActivity(tx, entry));
+        }
+        rows.push(newExpense);
+      }
+      return rows;
+    });
+
+    for (const activity of recorded) auditEvents.emit("recorded", activity);
+    return created;
+  }
+
+  private async insertExpense(tx: DbTransaction, expense: InsertExpense, approvalChain: ApprovalRequirement[]): Promise<Expense> {
+    const [newExpense] = await tx.insert(expenses).values({...expense, category: expense.category as ExpenseCategoryType, status: expense.status as ExpenseStatusType}).returning();
+    await this.recordExpenseVersion(tx, newExpense, newExpense.submittedById, ExpenseChangeType.SUBMITTED);
+    if (approvalChain.length > 0) await this.insertApprovalRound(tx, newExpense.id, approvalChain);
     return newExpense;
   }
 
-  async updateExpenseStatus(id: number, status: string, reviewedById?: number, feedback?: string): Promise<Expense> {
+  async updateExpense(id: number, expectedStatus: ExpenseStatusType, changes: ExpenseChanges, changedById: number, changeType: ExpenseChangeTypeType, approvalChain: ApprovalRequirement[] | null, audit?: AuditBuilder<Expense>): Promise<Expense> {
+    return this.auditedTransaction(async (tx) => {
+      const [updatedExpense] = await tx
+        .update(expenses)
+        .set(changes)
+        .where(and(eq(expenses.id, id), eq(expenses.status, expectedStatus)))
+        .returning();
+      if (!updatedExpense) {
+        throw new ConflictError(EXPENSE_CHANGED_MESSAGE);
+      }
+      await this.recordExpenseVersion(tx, updatedExpense, changedById, changeType);
+      if (approvalChain) await this.insertApprovalRound(tx, id, approvalChain);
+      return updatedExpense;
+    }, audit);
+  }
+
+  async getExpenseVersions(expenseId: number): Promise<ExpenseVersion[]> {
     const { db } = await import('./db');
-    const [updatedExpense] = await db
+    return db.select().from(expenseVersions).where(eq(expenseVersions.expenseId, expenseId)).orderBy(expenseVersions.version);
+  }
+
+  private async recordExpenseVersion(tx: DbTransaction, expense: Expense, changedById: number, changeType: ExpenseChangeTypeType): Promise<void> {
+    const [{ latest }] = await tx
+      .select({ latest: sql<number>`COALESCE(MAX(${expenseVersions.version}), 0)` })
+      .from(expenseVersions)
+      .where(eq(expenseVersions.expenseId, expense.id));
+
+    await tx.insert(expenseVersions).values({
+      expenseId: expense.id,
+      version: Number(latest) + 1,
+      changeType,
+      changedById,
+      ...expenseSnapshot(expense),
+    });
+  }
+
+  // Approval operations
+  async getApprovalRules(): Promise<ApprovalRule[]> {
+    const { db } = await import('./db');
+    return db.select().from(approvalRules).orderBy(approvalRules.level);
+  }
+
+  async createApprovalRule(rule: InsertApprovalRule): Promise<ApprovalRule> {
+    const { db } = await import('./db');
+    const [newRule] = await db.insert(approvalRules).values({
+      ...rule,
+      category: rule.category as ExpenseCategoryType | null | undefined,
+      approverRole: rule.approverRole as UserRoleType,
+    }).returning();
+    return newRule;
+  }
+
+  async deleteApprovalRule(id: number): Promise<void> {
+    const { db } = await import('./db');
+    await db.delete(approvalRules).where(eq(approvalRules.id, id));
+  }
+
+  async getApprovalSteps(expenseId: number): Promise<ExpenseApprovalStep[]> {
+    const { db } = await import('./db');
+    return db
+      .select()
+      .from(expenseApprovalSteps)
+      .where(eq(expenseApprovalSteps.expenseId, expenseId))
+      .orderBy(expenseApprovalSteps.round, expenseApprovalSteps.level);
+  }
+
+  async startApprovalRound(expenseId: number, approvalChain: ApprovalRequirement[]): Promise<ExpenseApprovalStep[]> {
+    const { db } = await import('./db');
+    await db.transaction((tx) => this.insertApprovalRound(tx, expenseId, approvalChain));
+    return this.getApprovalSteps(expenseId);
+  }
+
+  async reviewApprovalStep(step: ExpenseApprovalStep, decision: ApprovalStepStatusType, reviewedById: number, feedback: string | undefined, expenseStatus: ExpenseStatusType | null, audit?: AuditBuilder<Expense>): Promise<Expense> {
+    return this.auditedTransaction(
+      (tx) => this.applyApprovalDecision(tx, { step, decision, reviewedById, feedback, expenseStatus }),
+      audit,
+    );
+  }
+
+  // All or nothing: if any step has been decided in the meantime, none of the decisions are kept
+  async reviewApprovalSteps(decisions: ApprovalDecision[]): Promise<Expense[]> {
+    const { db } = await import('./db');
+    const recorded: RecordedActivity[] = [];
+
+    const reviewed = await db.transaction(async (tx) => {
+      const rows: Expense[] = [];
+      for (const decision of decisions) {
+        const expense = await this.applyApprovalDecision(tx, decision);
+        if (decision.audit) {
+          const entry = decision.audit(expense);
+          recorded.push(await this.recordActivity(tx, entry));
+        }
+        rows.push(expense);
+      }
+      return rows;
+    });
+
+    for (const activity of recorded) auditEvents.emit("recorded", activity);
+    return reviewed;
+  }
+
+  private async applyApprovalDecision(tx: DbTransaction, { step, decision, reviewedById, feedback, expenseStatus }: ApprovalDecision): Promise<Expense> {
+    // Only a still-pending step can be decided, so two reviewers racing on it cannot both win
+    const [decided] = await tx
+      .update(expenseApprovalSteps)
+      .set({ status: decision, reviewedById, feedback: feedback || null, reviewedAt: new Date() })
+      .where(and(eq(expenseApprovalSteps.id, step.id), eq(expenseApprovalSteps.status, ApprovalStepStatus.PENDING)))
+      .returning();
+    if (!decided) {
+      throw new Error(`The approval step of expense ${step.expenseId} has already been decided`);
+    }
+
+    // The expense may have been withdrawn or edited away from this round since the step was read
+    const stillPending = and(eq(expenses.id, step.expenseId), eq(expenses.status, ExpenseStatus.PENDING));
+    if (!expenseStatus) {
+      const [expense] = await tx.select().from(expenses).where(stillPending).for("update");
+      if (!expense) {
+        throw new ConflictError(`Expense ${step.expenseId} is no longer pending`);
+      }
+      return expense;
+    }
+
+    const [updatedExpense] = await tx
       .update(expenses)
-      .set({
-       status: status as ExpenseStatusType,
-       reviewedById: reviewedById || null,
-       feedback: feedback || null
-      })
-      .where(eq(expenses.id, id))
+      .set({ status: expenseStatus, reviewedById, feedback: feedback || null })
+      .where(stillPending)
       .returning();
+    if (!updatedExpense) {
+      throw new ConflictError(`Expense ${step.expenseId} is no longer pending`);
+    }
+    await this.recordExpenseVersion(tx, updatedExpense, reviewedById, ExpenseChangeType.REVIEWED);
     return updatedExpense;
   }
 
+  private async insertApprovalRound(tx: DbTransaction, expenseId: number, approvalChain: ApprovalRequirement[]): Promise<void> {
+    const steps = await tx.select().from(expenseApprovalSteps).where(eq(expenseApprovalSteps.expenseId, expenseId));
+    const { round, replacesCurrent } = nextApprovalRound(steps);
+    if (replacesCurrent) {
+      await tx
+        .delete(expenseApprovalSteps)
+        .where(and(eq(expenseApprovalSteps.expenseId, expenseId), eq(expenseApprovalSteps.round, round)));
+    }
+    await tx.insert(expenseApprovalSteps).values(
+      approvalChain.map((requirement) => ({ expenseId, round, ...requirement }))
+    );
+  }
+
+  // Expense receipt operations
+  async getExpenseReceipt(id: number): Promise<ExpenseReceipt | undefined> {
+    const { db } = await import('./db');
+    const [receipt] = await db.select().from(expenseReceipts).where(eq(expenseReceipts.id, id));
+    return receipt;
+  }
+
+  async getExpenseReceipts(expenseId: number): Promise<ExpenseReceipt[]> {
+    const { db } = await import('./db');
+    return db.select().from(expenseReceipts).where(eq(expenseReceipts.expenseId, expenseId)).orderBy(expenseReceipts.uploadedAt);
+  }
+
+  async createExpenseReceipts(receipts: InsertExpenseReceipt[]): Promise<ExpenseReceipt[]> {
+    if (receipts.length === 0) return [];
+    const { db } = await import('./db');
+    return db.insert(expenseReceipts).values(receipts).returning();
+  }
+
+  async deleteExpenseReceipt(id: number): Promise<void> {
+    const { db } = await import('./db');
+    await db.delete(expenseReceipts).where(eq(expenseReceipts.id, id));
+  }
+
   // Activity log operations
   async getActivityLog(id: number): Promise<ActivityLog | undefined> {
     const { db } = await import('./db');
@@ -999,37 +2773,336 @@ export class DatabaseStorage implements IStorage {
     return newLog;  
   }
 
+  // Runs a mutation and its audit entry in one transaction, then announces the entry once committed
+  private async auditedTransaction<T>(mutate: (tx: DbTransaction) => Promise<T>, audit?: AuditBuilder<T>): Promise<T> {
+    const { db } = await import('./db');
+    let recorded: RecordedActivity | undefined;
+
+    const result = await db.transaction(async (tx) => {
+      const record = await mutate(tx);
+      if (audit && record) {
+        const entry = audit(record);
+        recorded = await this.recordActivity(tx, entry);
+      }
+      return record;
+    });
+
+    if (recorded) auditEvents.emit("recorded", recorded);
+    return result;
+  }
+
+  // Writes an audit entry on the caller's transaction so it commits or rolls back with the mutation.
+  // Targets who switched this kind of notification off are left out.
+  private async recordActivity(tx: DbTransaction, entry: AuditEntry): Promise<RecordedActivity> {
+    const [newLog] = await tx.insert(activityLogs).values(entry.log).returning();
+    const saved = entry.targetUserIds.length === 0 ? [] : await tx
+      .select()
+      .from(notificationPreferences)
+      .where(inArray(notificationPreferences.userId, entry.targetUserIds));
+    const targetUserIds = notifiedUserIds(entry, new Map(saved.map(({ userId, updatedAt, ...preferences }) => [userId, preferences])));
+    if (targetUserIds.length > 0) {
+      await tx.insert(activityLogTargets).values(
+        targetUserIds.map((targetUserId) => ({ activityLogId: newLog.id, targetUserId }))
+      );
+    }
+    return { log: newLog, targetUserIds };
+  }
+
   async assignActivityLogTargets(targets: InsertActivityLogTarget[]): Promise<void> {
+    if (targets.length === 0) return;
     const { db } = await import('./db');
     await db.insert(activityLogTargets).values(targets);
   }
 
   // Notification Read operations
-  async markNotificationRead(userId: number, activityLogId: number): Promise<void> {
+  async markNotificationRead(userId: number, activityLogId: number): Promise<boolean> {
     const { db } = await import('./db');
-    await db.insert(notificationReads).values({ userId, activityLogId });
+    const [target] = await db
+      .select()
+      .from(activityLogTargets)
+      .where(and(eq(activityLogTargets.activityLogId, activityLogId), eq(activityLogTargets.targetUserId, userId)));
+
+    if (!target) {
+      return false;
+    }
+
+    const [existing] = await db
+      .select()
+      .from(notificationReads)
+      .where(and(eq(notificationReads.activityLogId, activityLogId), eq(notificationReads.userId, userId)));
+
+    if (!existing) {
+      await db.insert(notificationReads).values({ userId, activityLogId });
+    }
+    return true;
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<void> {
+    const { db } = await import('./db');
+    const unread = await this.getUnreadNotifications(userId);
+    if (unread.length === 0) return;
+
+    await db.insert(notificationReads).values(
+      unread.map((log) => ({ userId, activityLogId: log.id }))
+    );
   }
 
   async getUnreadNotifications(userId: number): Promise<ActivityLog[]> {
     const { db } = await import('./db');
-    const { sql } = await import('drizzle-orm');
   
     const result = await db
-      .select()
-      .from(activityLogs)
+      .select({ log: activityLogs })
+      .from(activityLogTargets)
+      .innerJoin(activityLogs, eq(activityLogTargets.activityLogId, activityLogs.id))
       .leftJoin(
         notificationReads,
-        sql`${activityLogs.id} = ${notificationReads.activityLogId} AND ${notificationReads.userId} = ${userId}`
+        and(eq(notificationReads.activityLogId, activityLogs.id), eq(notificationReads.userId, userId))
       )
-      .where(sql`${notificationReads.id} IS NULL`);
+      .where(and(eq(activityLogTargets.targetUserId, userId), isNull(notificationReads.id)))
+      .orderBy(desc(activityLogs.timestamp));
     
-    return result.map(row => row.activity_logs);
+    return result.map(row => row.log);
+  }
+
+  // Notification preference operations
+  async getNotificationPreferences(userId: number): Promise<NotificationPreferences> {
+    const { db } = await import('./db');
+    const [saved] = await db.select().from(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+    if (!saved) return { ...DEFAULT_NOTIFICATION_PREFERENCES };
+    const { userId: _userId, updatedAt, ...preferences } = saved;
+    return preferences;
+  }
+
+  async saveNotificationPreferences(userId: number, preferences: NotificationPreferences): Promise<NotificationPreferences> {
+    const { db } = await import('./db');
+    const [saved] = await db
+      .insert(notificationPreferences)
+      .values({ ...preferences, userId, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { ...preferences, updatedAt: new Date() },
+      })
+      .returning();
+    const { userId: _userId, updatedAt, ...stored } = saved;
+    return stored;
+  }
+
+  async getDailySummaryRecipients(): Promise<User[]> {
+    const { db } = await import('./db');
+    const rows = await db
+      .select({ user: users })
+      .from(users)
+      .innerJoin(notificationPreferences, eq(notificationPreferences.userId, users.id))
+      .where(and(eq(notificationPreferences.dailySummary, true), isNotNull(users.email)));
+    return rows.map((row) => this.toSafeUser(row.user));
+  }
+
+  // Two-factor operations
+  async getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined> {
+    const { db } = await import('./db');
+    const [credential] = await db.select().from(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId));
+    return credential;
+  }
+
+  async saveTwoFactorSecret(userId: number, secret: string): Promise<TwoFactorCredential> {
+    const { db } = await import('./db');
+    // A pending enrollment is replaced; an enabled one is left alone
+    const [credential] = await db
+      .insert(twoFactorCredentials)
+      .values({ userId, secret })
+      .onConflictDoUpdate({
+        target: twoFactorCredentials.userId,
+        set: { secret, lastUsedStep: null, createdAt: new Date() },
+        setWhere: isNull(twoFactorCredentials.enabledAt),
+      })
+      .returning();
+    if (!credential) {
+      throw new Error("Two-factor authentication is already on");
+    }
+    return credential;
+  }
+
+  async enableTwoFactor(userId: number, step: number, recoveryCodeHashes: string[]): Promise<TwoFactorCredential> {
+    const { db } = await import('./db');
+    return db.transaction(async (tx) => {
+      const [enabled] = await tx
+        .update(twoFactorCredentials)
+        .set({ enabledAt: new Date(), lastUsedStep: step })
+        .where(eq(twoFactorCredentials.userId, userId))
+        .returning();
+      if (!enabled) {
+        throw new Error("Two-factor enrollment has not been started");
+      }
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.insert(twoFactorRecoveryCodes).values(recoveryCodeHashes.map((codeHash) => ({ userId, codeHash })));
+      return enabled;
+    });
+  }
+
+  async useTwoFactorStep(userId: number, step: number): Promise<boolean> {
+    const { db } = await import('./db');
+    // Conditional, so one code presented twice at once is accepted once
+    const [used] = await db
+      .update(twoFactorCredentials)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(twoFactorCredentials.userId, userId),
+        or(isNull(twoFactorCredentials.lastUsedStep), sql`${twoFactorCredentials.lastUsedStep} < ${step}`),
+      ))
+      .returning({ userId: twoFactorCredentials.userId });
+    return !!used;
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    const { db } = await import('./db');
+    await db.transaction(async (tx) => {
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      if (codeHashes.length > 0) {
+        await tx.insert(twoFactorRecoveryCodes).values(codeHashes.map((codeHash) => ({ userId, codeHash })));
+      }
+    });
+  }
+
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const { db } = await import('./db');
+    const [used] = await db
+      .update(twoFactorRecoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(twoFactorRecoveryCodes.userId, userId),
+        eq(twoFactorRecoveryCodes.codeHash, codeHash),
+        isNull(twoFactorRecoveryCodes.usedAt),
+      ))
+      .returning({ id: twoFactorRecoveryCodes.id });
+    return !!used;
+  }
+
+  async countUnusedRecoveryCodes(userId: number): Promise<number> {
+    const { db } = await import('./db');
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(twoFactorRecoveryCodes)
+      .where(and(eq(twoFactorRecoveryCodes.userId, userId), isNull(twoFactorRecoveryCodes.usedAt)));
+    return count;
+  }
+
+  async disableTwoFactor(userId: number): Promise<void> {
+    const { db } = await import('./db');
+    await db.transaction(async (tx) => {
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.delete(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId));
+    });
+  }
+
+  async getTwoFactorRequiredRoles(): Promise<UserRoleType[]> {
+    const { db } = await import('./db');
+    const rows = await db.select({ role: twoFactorRequiredRoles.role }).from(twoFactorRequiredRoles);
+    return rows.map((row) => row.role);
+  }
+
+  async setTwoFactorRequiredRoles(roles: UserRoleType[], updatedById: number): Promise<UserRoleType[]> {
+    const { db } = await import('./db');
+    await db.transaction(async (tx) => {
+      await tx.delete(twoFactorRequiredRoles);
+      if (roles.length > 0) {
+        await tx.insert(twoFactorRequiredRoles).values(roles.map((role) => ({ role, updatedById })));
+      }
+    });
+    return roles;
+  }
+
+  async createTwoFactorChallenge(insertChallenge: InsertTwoFactorChallenge): Promise<TwoFactorChallenge> {
+    const { db } = await import('./db');
+    const [challenge] = await db.insert(twoFactorChallenges).values(insertChallenge).returning();
+    return challenge;
+  }
+
+  async getTwoFactorChallenge(id: string): Promise<TwoFactorChallenge | undefined> {
+    const { db } = await import('./db');
+    const [challenge] = await db.select().from(twoFactorChallenges).where(eq(twoFactorChallenges.id, id));
+    return challenge;
+  }
+
+  async claimTwoFactorAttempt(id: string, maxAttempts: number): Promise<TwoFactorChallenge | undefined> {
+    const { db } = await import('./db');
+    // Conditional, so codes sent at once cannot get past the limit together
+    const [challenge] = await db
+      .update(twoFactorChallenges)
+      .set({ attempts: sql`${twoFactorChallenges.attempts} + 1` })
+      .where(and(
+        eq(twoFactorChallenges.id, id),
+        isNull(twoFactorChallenges.usedAt),
+        sql`${twoFactorChallenges.expiresAt} > now()`,
+        sql`${twoFactorChallenges.attempts} < ${maxAttempts}`,
+      ))
+      .returning();
+    return challenge;
+  }
+
+  async useTwoFactorChallenge(id: string): Promise<boolean> {
+    const { db } = await import('./db');
+    const [used] = await db
+      .update(twoFactorChallenges)
+      .set({ usedAt: new Date() })
+      .where(and(eq(twoFactorChallenges.id, id), isNull(twoFactorChallenges.usedAt), sql`${twoFactorChallenges.expiresAt} > now()`))
+      .returning({ id: twoFactorChallenges.id });
+    return !!used;
+  }
+
+  async countFailedTwoFactorAttempts(userId: number, since: Date): Promise<number> {
+    const { db } = await import('./db');
+    const [{ total }] = await db
+      .select({ total: sql<number>`coalesce(sum(${twoFactorChallenges.attempts}), 0)::int` })
+      .from(twoFactorChallenges)
+      .where(and(
+        eq(twoFactorChallenges.userId, userId),
+        isNull(twoFactorChallenges.usedAt),
+        gte(twoFactorChallenges.createdAt, since),
+      ));
+    return total;
+  }
+
+  // Exchange rate operations
+  async getExchangeRates(): Promise<ExchangeRate[]> {
+    const { db } = await import('./db');
+    return db.select().from(exchangeRates).orderBy(asc(exchangeRates.currency));
+  }
+
+  async saveExchangeRates(rates: InsertExchangeRate[]): Promise<ExchangeRate[]> {
+    const { db } = await import('./db');
+    if (rates.length === 0) return [];
+    return db
+      .insert(exchangeRates)
+      .values(rates.map((rate) => ({ ...rate, updatedAt: new Date() })))
+      .onConflictDoUpdate({
+        target: exchangeRates.currency,
+        set: {
+          rate: sql`excluded.rate`,
+          updatedById: sql`excluded.updated_by_id`,
+          updatedAt: sql`excluded.updated_at`,
+        },
+      })
+      .returning();
+  }
+
+  async deleteExchangeRate(currency: string): Promise<ExchangeRate | undefined> {
+    const { db } = await import('./db');
+    const [rate] = await db.delete(exchangeRates).where(eq(exchangeRates.currency, currency)).returning();
+    return rate;
+  }
+
+  async isCurrencyInUse(currency: string): Promise<boolean> {
+    const { db } = await import('./db');
+    const [project] = await db.select({ id: projects.id }).from(projects).where(eq(projects.currency, currency)).limit(1);
+    if (project) return true;
+    const [expense] = await db.select({ id: expenses.id }).from(expenses).where(eq(expenses.currency, currency)).limit(1);
+    return !!expense;
   }
-  
 
   // Analytics operations
-  async getTotalBudgetVsSpent(dateRange?: string): Promise<ProjectBudgetComparison[]> {
+  async getTotalBudgetVsSpent(dateRange?: string, reportingCurrency = REPORTING_CURRENCY): Promise<ProjectBudgetComparison[]> {
     const { db } = await import('./db');
+    const rates = rateTable(await this.getExchangeRates());
     const fromDate = getFromDate(dateRange);
     const allProjects = fromDate
       ? await db.select().from(projects).where(gte(projects.startDate, fromDate))
@@ -1052,31 +3125,78 @@ export class DatabaseStorage implements IStorage {
         .from(expenses)
         .where(and(...conditions));
   
-      const spent = projectExpenses.reduce((total, expense) => total + expense.amount, 0);
+      const spent = sumConverted(projectExpenses, project.currency, rates);
   
-      result.push({
-        project: project.name,
-        budget: project.budget,
-        spent
-      });
+      result.push(budgetComparison(project, spent, reportingCurrency, rates));
     }
   
     return result;
   }
 
-  async getMonthlySpendingTrends(): Promise<MonthlySpending[]> {
+  async getApprovedSpendByProject(): Promise<Map<number, number>> {
+    const { db } = await import('./db');
+    const rates = rateTable(await this.getExchangeRates());
+    const rows = await db
+      .select({
+        projectId: expenses.projectId,
+        projectCurrency: projects.currency,
+        currency: expenses.currency,
+        spent: sql<number>`coalesce(sum(${expenses.amount}), 0)`.mapWith(expenses.amount),
+      })
+      .from(expenses)
+      .innerJoin(projects, eq(expenses.projectId, projects.id))
+      .where(eq(expenses.status, ExpenseStatus.APPROVED))
+      .groupBy(expenses.projectId, projects.currency, expenses.currency);
+
+    const spent = new Map<number, number>();
+    for (const row of rows) {
+      const amount = convert(row.spent, row.currency, row.projectCurrency, rates);
+      spent.set(row.projectId, addMoney(spent.get(row.projectId) ?? 0, amount));
+    }
+    return spent;
+  }
+
+  async getCategoryBudgetVsSpent(projectId?: number, reportingCurrency = REPORTING_CURRENCY): Promise<CategoryBudgetComparison[]> {
+    const { db } = await import('./db');
+    const projectList = projectId === undefined
+      ? await db.select().from(projects)
+      : await db.select().from(projects).where(eq(projects.id, projectId));
+    const lines = projectId === undefined
+      ? await db.select().from(projectCategoryBudgets)
+      : await db.select().from(projectCategoryBudgets).where(eq(projectCategoryBudgets.projectId, projectId));
+
+    const committed = inArray(expenses.status, [ExpenseStatus.APPROVED, ExpenseStatus.PENDING]);
+    const spend = await db
+      .select({
+        projectId: expenses.projectId,
+        category: expenses.category,
+        status: expenses.status,
+        currency: expenses.currency,
+        total: sql<number>`coalesce(sum(${expenses.amount}), 0)`.mapWith(expenses.amount),
+      })
+      .from(expenses)
+      .where(projectId === undefined ? committed : and(committed, eq(expenses.projectId, projectId)))
+      .groupBy(expenses.projectId, expenses.category, expenses.status, expenses.currency);
+
+    return categoryComparisons(projectList, lines, spend, reportingCurrency, rateTable(await this.getExchangeRates()));
+  }
+
+  async getMonthlySpendingTrends(reportingCurrency = REPORTING_CURRENCY): Promise<MonthlySpending[]> {
     const { db } = await import('./db');
     const { sql } = await import('drizzle-orm');
+    const rates = rateTable(await this.getExchangeRates());
     const rows = await db
       .select({
         month: sql<string>`to_char(${expenses.createdAt}, 'Mon')`.as('month'),
         category: expenses.category,
-        total: sql<number>`SUM(${expenses.amount})`.as('total'),
+        currency: expenses.currency,
+        total: sql<number>`SUM(${expenses.amount})`.mapWith(expenses.amount).as('total'),
       })
       .from(expenses)
       .groupBy(
         sql`to_char(${expenses.createdAt}, 'Mon')`,
-        expenses.category
+        expenses.category,
+        expenses.currency
       )
       .orderBy(sql`MIN(${expenses.createdAt})`);
 
@@ -1084,7 +3204,8 @@ export class DatabaseStorage implements IStorage {
 
     for (const row of rows) {
       const month = row.month;
-      const category = row.category as 'equipment' | 'labor' | 'transport';
+      const category = row.category;
+      if (!isTrendCategory(category)) continue;
 
       if (!trendsMap.has(month)) {
         trendsMap.set(month, {
@@ -1092,29 +3213,41 @@ export class DatabaseStorage implements IStorage {
           equipment: 0,
           labor: 0,
           transport: 0,
+          currency: reportingCurrency,
         });
       }
 
-      trendsMap.get(month)![category] = Number(row.total);
+      const trend = trendsMap.get(month)!;
+      trend[category] = addMoney(trend[category], convert(row.total, row.currency, reportingCurrency, rates));
     }
 
     return Array.from(trendsMap.values());
   }
 
-  async getSpendingByCategory(): Promise<SpendingCategory[]> {
+  async getSpendingByCategory(reportingCurrency = REPORTING_CURRENCY): Promise<SpendingCategory[]> {
     const { db } = await import('./db');
     const { sql } = await import('drizzle-orm');
+    const rates = rateTable(await this.getExchangeRates());
     
     const result = await db
       .select({
         category: expenses.category,
-        amount: sql<number>`SUM(${expenses.amount})`,
+        currency: expenses.currency,
+        amount: sql<number>`SUM(${expenses.amount})`.mapWith(expenses.amount),
       })
       .from(expenses)
       .where(eq(expenses.status, ExpenseStatus.APPROVED))
-      .groupBy(expenses.category);
+      .groupBy(expenses.category, expenses.currency);
+
+    const totals = new Map<ExpenseCategoryType, Map<string, number>>();
+    for (const row of result) {
+      addToTotals(totals, row.category, row.currency, row.amount);
+    }
     
-    return result;
+    return Array.from(totals, ([category, byCurrency]) => {
+      const original = currencyAmounts(byCurrency);
+      return { category, amount: sumConverted(original, reportingCurrency, rates), currency: reportingCurrency, original };
+    });
   }
 
   async getExpenseApprovalRates(): Promise<ExpenseApprovalRate[]> {
@@ -1124,30 +3257,38 @@ export class DatabaseStorage implements IStorage {
     const stats = await db
       .select({
         status: expenses.status,
-        count: sql<number>`COUNT(*)`,
+        count: sql<number>`COUNT(*)::int`,
       })
       .from(expenses)
+      .where(ne(expenses.status, ExpenseStatus.WITHDRAWN)) // Withdrawn expenses were never decided on
       .groupBy(expenses.status);
     
     return stats.map(stat => ({
-      status: stat.status === ExpenseStatus.PENDING ? 'Pending' :
-              stat.status === ExpenseStatus.APPROVED ? 'Approved' : 'Rejected',
+      status: approvalRateLabel(stat.status),
       count: stat.count
     }));
   }
 
-  async getSpendingByEmployee(): Promise<EmployeeSpending[]> {
+  async getSpendingByEmployee(reportingCurrency = REPORTING_CURRENCY): Promise<EmployeeSpending[]> {
     const { db } = await import('./db');
     const { sql } = await import('drizzle-orm');
+    const rates = rateTable(await this.getExchangeRates());
   
-    const result = await db
+    const rows = await db
       .select({
         userId: expenses.submittedById,
-        amount: sql<number>`SUM(${expenses.amount})`,
+        currency: expenses.currency,
+        amount: sql<number>`SUM(${expenses.amount})`.mapWith(expenses.amount),
       })
       .from(expenses)
       .where(eq(expenses.status, ExpenseStatus.APPROVED))
-      .groupBy(expenses.submittedById);
+      .groupBy(expenses.submittedById, expenses.currency);
+
+    const totals = new Map<number, number>();
+    for (const row of rows) {
+      totals.set(row.userId, addMoney(totals.get(row.userId) ?? 0, convert(row.amount, row.currency, reportingCurrency, rates)));
+    }
+    const result = Array.from(totals, ([userId, amount]) => ({ userId, amount }));
   
     const finalResult: EmployeeSpending[] = [];
   
@@ -1162,6 +3303,7 @@ export class DatabaseStorage implements IStorage {
           employeeId: user.id,
           employeeName: user.name,
           amount: row.amount,
+          currency: reportingCurrency,
         });
       }
     }
@@ -1170,8 +3312,5 @@ export class DatabaseStorage implements IStorage {
   }
 }
 
-// For real database connections, use:
-export const storage = new DatabaseStorage();
-
-// For in-memory storage, use:
-// export const storage = new MemStorage();
+// STORAGE=memory runs on the in-memory store, seeded with demo data, for working without Postgres
+export const storage: IStorage = process.env.STORAGE === "memory" ? new MemStorage() : new DatabaseStorage();
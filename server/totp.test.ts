@@ -0,0 +1,41 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { base32Decode, base32Encode, generateTotpSecret, provisioningUri, timeStep, totpCode, verifyTotp } from "./totp";
+
+// The SHA1 key and vectors from RFC 6238, appendix B
+const rfcSecret = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("totp", () => {
+  it("round-trips base32", () => {
+    assert.equal(rfcSecret, "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    assert.equal(base32Decode(rfcSecret).toString(), "12345678901234567890");
+    assert.equal(base32Decode(generateTotpSecret()).length, 20);
+  });
+
+  it("matches the RFC 6238 test vectors", () => {
+    assert.equal(totpCode(rfcSecret, timeStep(new Date(59_000)), 8), "94287082");
+    assert.equal(totpCode(rfcSecret, timeStep(new Date(1_111_111_109_000)), 8), "07081804");
+    assert.equal(totpCode(rfcSecret, timeStep(new Date(20_000_000_000_000)), 8), "65353130");
+    assert.equal(totpCode(rfcSecret, timeStep(new Date(59_000))), "287082");
+  });
+
+  it("accepts codes from one step either side and nothing further", () => {
+    const now = new Date(1_111_111_109_000);
+    const step = timeStep(now);
+    assert.equal(verifyTotp(rfcSecret, totpCode(rfcSecret, step), now), step);
+    assert.equal(verifyTotp(rfcSecret, totpCode(rfcSecret, step - 1), now), step - 1);
+    assert.equal(verifyTotp(rfcSecret, totpCode(rfcSecret, step + 1), now), step + 1);
+    assert.equal(verifyTotp(rfcSecret, totpCode(rfcSecret, step - 2), now), undefined);
+    assert.equal(verifyTotp(rfcSecret, "12345", now), undefined);
+  });
+
+  it("builds an otpauth URI for authenticator apps", () => {
+    const uri = provisioningUri(rfcSecret, "ada@example.com", "Expense Tracker");
+    const [path, query] = uri.split("?");
+    assert.equal(decodeURIComponent(path), "otpauth://totp/Expense Tracker:ada@example.com");
+    const params = new URLSearchParams(query);
+    assert.equal(params.get("secret"), rfcSecret);
+    assert.equal(params.get("issuer"), "Expense Tracker");
+    assert.equal(params.get("digits"), "6");
+  });
+});
@@ -0,0 +1,85 @@
+// server/totp.ts
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// Time-based one-time passwords (RFC 6238) as authenticator apps expect them: HMAC-SHA1,
+// six digits and a new code every 30 seconds
+const PERIOD_SECONDS = 30;
+const DIGITS = 6;
+// Codes from one step either side are accepted, for clocks that drift and codes typed slowly
+const DRIFT_STEPS = 1;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+export function base32Decode(encoded: string): Buffer {
+  const clean = encoded.toUpperCase().replace(/=+$/, "").replace(/\s/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 secret");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// 160 bits, the key length RFC 4226 recommends for HMAC-SHA1
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+export function timeStep(now = new Date()): number {
+  return Math.floor(now.getTime() / 1000 / PERIOD_SECONDS);
+}
+
+export function totpCode(secret: string, step: number, digits = DIGITS): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** digits).toString().padStart(digits, "0");
+}
+
+// The time step the code belongs to, or undefined if it matches none near now. Callers record the
+// step so the same code cannot be used twice.
+export function verifyTotp(secret: string, code: string, now = new Date()): number | undefined {
+  const supplied = Buffer.from(code.replace(/\s/g, ""));
+  const current = timeStep(now);
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    const expected = Buffer.from(totpCode(secret, step));
+    if (supplied.length === expected.length && timingSafeEqual(supplied, expected)) {
+      return step;
+    }
+  }
+  return undefined;
+}
+
+// The otpauth:// URI authenticator apps read from a QR code or a tapped link
+export function provisioningUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({ secret, issuer, algorithm: "SHA1", digits: String(DIGITS), period: String(PERIOD_SECONDS) });
+  return `otpauth://totp/${label}?${params}`;
+}
@@ -0,0 +1,52 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  addMoney, fromMinorUnits, isWholeMinorUnits, multiplyMoney, roundMoney, subtractMoney, sumMoney, toDecimalString, toMinorUnits,
+} from "./money";
+import { expenses } from "./schema";
+
+describe("money", () => {
+  it("converts to and from whole minor units", () => {
+    assert.equal(toMinorUnits(19.99), 1999);
+    assert.equal(toMinorUnits(0.1 + 0.2), 30);
+    assert.equal(toMinorUnits(1.005), 101);
+    assert.equal(toMinorUnits(-1.005), -101);
+    assert.equal(toMinorUnits(1e-7), 0);
+    assert.equal(fromMinorUnits(1999), 19.99);
+    assert.equal(roundMoney(2.675), 2.68);
+  });
+
+  it("sums to the cent where floating point drifts", () => {
+    const dimes = Array<number>(10).fill(0.1);
+    assert.notEqual(dimes.reduce((total, amount) => total + amount, 0), 1);
+    assert.equal(sumMoney(dimes), 1);
+    assert.equal(addMoney(0.1, 0.2), 0.3);
+    assert.equal(sumMoney(Array<number>(1000).fill(19.99)), 19990);
+    assert.equal(sumMoney([]), 0);
+  });
+
+  it("subtracts and scales to the cent", () => {
+    assert.equal(subtractMoney(1000, 999.99), 0.01);
+    assert.equal(subtractMoney(100, 33.33, 33.33, 33.33), 0.01);
+    assert.equal(multiplyMoney(10.05, 1.1), 11.06);
+  });
+
+  it("tells whole cents from fractions of a cent", () => {
+    assert.ok(isWholeMinorUnits(0.07));
+    assert.ok(isWholeMinorUnits(12.5));
+    assert.ok(!isWholeMinorUnits(12.505));
+    assert.ok(!isWholeMinorUnits(Number.NaN));
+  });
+
+  it("writes the exact decimal the database stores", () => {
+    assert.equal(toDecimalString(1234.5), "1234.50");
+    assert.equal(toDecimalString(0.1 + 0.2), "0.30");
+    assert.equal(toDecimalString(0.05), "0.05");
+    assert.equal(toDecimalString(-7), "-7.00");
+  });
+
+  it("maps money columns to and from the driver", () => {
+    assert.equal(expenses.amount.mapToDriverValue(0.1 + 0.2), "0.30");
+    assert.equal(expenses.amount.mapFromDriverValue("19990.00"), 19990);
+  });
+});
@@ -0,0 +1,64 @@
+// Money travels as a number of major units (dollars, euros) but is never added up as one:
+// binary floating point cannot hold most cent values exactly, so 0.1 + 0.2 drifts away from
+// 0.30. Every sum, difference and conversion goes through integer minor units (cents) instead,
+// and the database stores amounts as exact decimals. All currencies are kept to two decimals.
+
+const MINOR_UNITS = 2;
+
+// Shifts the decimal point through the number's string form, so 1.005 becomes 100.5 and not
+// 100.49999999999999 as 1.005 * 100 would
+function shift(amount: number, places: number): number {
+  const [mantissa, exponent = "0"] = String(amount).split("e");
+  return Number(`${mantissa}e${Number(exponent) + places}`);
+}
+
+// Whole minor units, rounding half away from zero
+export function toMinorUnits(amount: number): number {
+  const minor = shift(Math.abs(amount), MINOR_UNITS);
+  return amount < 0 ? -Math.round(minor) : Math.round(minor);
+}
+
+export function fromMinorUnits(minor: number): number {
+  return shift(minor, -MINOR_UNITS);
+}
+
+export function roundMoney(amount: number): number {
+  return fromMinorUnits(toMinorUnits(amount));
+}
+
+// Whether the amount is a whole number of cents, e.g. 12.5 but not 12.505
+export function isWholeMinorUnits(amount: number): boolean {
+  return Number.isFinite(amount) && Number.isInteger(shift(amount, MINOR_UNITS));
+}
+
+export function sumMoney(amounts: Iterable<number>): number {
+  let minor = 0;
+  for (const amount of amounts) minor += toMinorUnits(amount);
+  return fromMinorUnits(minor);
+}
+
+export function addMoney(...amounts: number[]): number {
+  return sumMoney(amounts);
+}
+
+export function subtractMoney(amount: number, ...deductions: number[]): number {
+  return fromMinorUnits(toMinorUnits(amount) - toMinorUnits(sumMoney(deductions)));
+}
+
+// An amount scaled by a rate or share, rounded to the cent
+export function multiplyMoney(amount: number, factor: number): number {
+  return roundMoney(amount * factor);
+}
+
+// The exact decimal form the database stores, e.g. "1234.50"
+export function toDecimalString(amount: number): string {
+  const minor = toMinorUnits(amount);
+  const digits = String(Math.abs(minor)).padStart(MINOR_UNITS + 1, "0");
+  return `${minor < 0 ? "-" : ""}${digits.slice(0, -MINOR_UNITS)}.${digits.slice(-MINOR_UNITS)}`;
+}
+
+// Amounts without a currency are in the reporting currency. Rounding to the cent first keeps
+// Intl from rounding 1.005 (stored as 1.00499...) down.
+export function formatMoney(amount: number, currency = "USD"): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(roundMoney(amount));
+}
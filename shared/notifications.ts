@@ -0,0 +1,68 @@
+// What a notification says and where it leads, for the notification menu and for notification emails
+
+import { ActivityAction, ActivityLog, BudgetAlertLogDetails, Client, Expense, Project } from "./schema";
+import { formatMoney } from "./money";
+
+export type NotificationDescription = {
+  message: string;
+  // A path within the app, or null when there is nothing to open
+  link: string | null;
+};
+
+export function describeNotification(activity: ActivityLog): NotificationDescription {
+  const expense = activity.details as Expense;
+  let message: string;
+  let link: string | null = activity.projectId ? `/projects/${activity.projectId}` : null;
+
+  switch (activity.action) {
+    case ActivityAction.EXPENSE_SUBMITTED:
+      message = `New expense of ${formatMoney(expense.amount, expense.currency)} is waiting for review`;
+      link = `/expenses/${expense.id}`;
+      break;
+    case ActivityAction.EXPENSE_APPROVED:
+      message = `Your expense of ${formatMoney(expense.amount, expense.currency)} was approved`;
+      link = `/expenses/${expense.id}`;
+      break;
+    case ActivityAction.EXPENSE_REJECTED:
+      message = `Your expense of ${formatMoney(expense.amount, expense.currency)} was rejected`;
+      link = `/expenses/${expense.id}`;
+      break;
+    case ActivityAction.EXPENSE_UPDATED:
+      message = `Expense #${expense.id} was updated`;
+      link = `/expenses/${expense.id}`;
+      break;
+    case ActivityAction.USER_ASSIGNED:
+      message = "You were assigned to a project";
+      break;
+    case ActivityAction.USER_REMOVED:
+      message = "You were removed from a project";
+      break;
+    case ActivityAction.PROJECT_CREATED:
+      message = `Project ${(activity.details as Project).name} was created`;
+      break;
+    case ActivityAction.PROJECT_DELETED:
+      message = `Project ${(activity.details as Project).name} was deleted`;
+      break;
+    case ActivityAction.CLIENT_UPDATED:
+      message = `Client ${(activity.details as Client).name} was updated`;
+      link = `/clients/${(activity.details as Client).id}`;
+      break;
+    case ActivityAction.CLIENT_TRANSFERRED:
+      message = `Client ${(activity.details as Client).name} changed owner`;
+      link = `/clients/${(activity.details as Client).id}`;
+      break;
+    case ActivityAction.CLIENT_MERGED:
+      message = `Client ${(activity.details as Client).name} was merged into another client`;
+      link = `/clients/${(activity.details as Client).mergedIntoId}`;
+      break;
+    case ActivityAction.BUDGET_THRESHOLD_REACHED: {
+      const alert = activity.details as BudgetAlertLogDetails;
+      message = `Project ${alert.projectName} has committed ${alert.threshold}% of its budget`;
+      break;
+    }
+    default:
+      message = `Project ${(activity.details as Project).name} was updated`;
+  }
+
+  return { message, link };
+}
@@ -1,8 +1,9 @@
-import { pgTable, text, serial, integer, timestamp, doublePrecision, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, doublePrecision, json, unique, boolean, customType, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { InferInsertModel } from "drizzle-orm";
 
 import { z } from "zod";
+import { isWholeMinorUnits, toDecimalString } from "./money";
 
 // Enum values for roles
 export const UserRole = {
@@ -23,14 +24,43 @@ export const ProjectStatus = {
 
 export type ProjectStatusType = typeof ProjectStatus[keyof typeof ProjectStatus];
 
+// The kinds of notification a user can switch off, named after their notification preference
+export const NotificationTopic = {
+  NEW_EXPENSE_SUBMISSION: "newExpenseSubmission",
+  EXPENSE_STATUS_CHANGE: "expenseStatusChange",
+  PROJECT_STATUS_CHANGE: "projectStatusChange",
+} as const;
+
+export type NotificationTopicType = typeof NotificationTopic[keyof typeof NotificationTopic];
+
+// Money columns are exact decimals in the database and numbers of major units in code. Postgres
+// sums them exactly; see ./money for doing the same in JavaScript.
+const money = customType<{ data: number; driverData: string }>({
+  dataType: () => "numeric(14, 2)",
+  toDriver: (value) => toDecimalString(value),
+  fromDriver: (value) => Number(value),
+});
+
+// Amounts are kept to the cent, so extra decimals are refused rather than silently rounded
+function wholeCents(schema: z.ZodNumber) {
+  return schema.refine(isWholeMinorUnits, "Amounts cannot have more than two decimal places");
+}
+
 
 // Session Token model
+// One row per signed-in device. The refresh token rotates on every use and only the hash of the
+// current one is kept, so presenting an earlier token gives away that it was copied.
 export const sessionToken = pgTable("session_token", {
-  id: serial("id").primaryKey(),
+  // Random, and carried in the session's tokens as "sid"
+  id: text("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
-  refreshToken: text("refresh_token").notNull().unique(),
+  tokenHash: text("token_hash").notNull().unique(),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastUsedAt: timestamp("last_used_at").defaultNow().notNull(),
   expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
 });
 
 // User model
@@ -40,6 +70,71 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   name: text("name").notNull(),
   role: text("role").$type<UserRoleType>().notNull(),
+  // Optional, since accounts created before profiles had none; stored lowercased
+  email: text("email").unique(),
+});
+
+// One row per user who has saved their notification settings; everyone else gets the defaults.
+// The event switches pick the notifications; emailNotifications also sends each of them by email,
+// and dailySummary mails a list of the day's unread ones every morning.
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: integer("user_id").primaryKey().references(() => users.id),
+  emailNotifications: boolean("email_notifications").notNull().default(true),
+  newExpenseSubmission: boolean("new_expense_submission").notNull().default(true),
+  expenseStatusChange: boolean("expense_status_change").notNull().default(true),
+  projectStatusChange: boolean("project_status_change").notNull().default(true),
+  dailySummary: boolean("daily_summary").notNull().default(false),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// A user's authenticator secret. enabledAt stays null until the first code is confirmed, so an
+// abandoned enrollment never locks anyone out.
+export const twoFactorCredentials = pgTable("two_factor_credentials", {
+  userId: integer("user_id").primaryKey().references(() => users.id),
+  secret: text("secret").notNull(),
+  enabledAt: timestamp("enabled_at"),
+  // The last time step a code was accepted for; older and equal steps are refused as replays
+  lastUsedStep: integer("last_used_step"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Single-use codes for when the authenticator is lost; only their hashes are kept
+export const twoFactorRecoveryCodes = pgTable("two_factor_recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+});
+
+// Roles whose users must sign in with a second factor, chosen by admins
+export const twoFactorRequiredRoles = pgTable("two_factor_required_roles", {
+  role: text("role").$type<UserRoleType>().primaryKey(),
+  updatedById: integer("updated_by_id").notNull().references(() => users.id),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// The second step of a password sign-in. The id travels in the challenge token as its "jti", so each
+// token can finish one sign-in, and only for a few guesses at the code.
+export const twoFactorChallenges = pgTable("two_factor_challenges", {
+  id: text("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  // Codes tried against this challenge, counted before each is checked
+  attempts: integer("attempts").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+});
+
+// Single-use links for choosing a new password, mailed to the user. Only a hash of the token is kept;
+// requestedById is the admin who sent it, or null when the user asked for it.
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  tokenHash: text("token_hash").notNull().unique(),
+  requestedById: integer("requested_by_id").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
 });
 
 // Client model
@@ -49,7 +144,12 @@ export const clients = pgTable("clients", {
   contactPerson: text("contact_person").notNull(),
   contactEmail: text("contact_email").notNull(),
   contactPhone: text("contact_phone").notNull(),
+  // The owning salesperson; ownership can be handed over later
   createdById: integer("created_by_id").notNull().references(() => users.id),
+  // Deactivated clients keep their projects but take no new ones
+  deactivatedAt: timestamp("deactivated_at"),
+  // Set when this client was a duplicate folded into another one
+  mergedIntoId: integer("merged_into_id").references((): AnyPgColumn => clients.id),
 });
 
 // Project model
@@ -59,10 +159,68 @@ export const projects = pgTable("projects", {
   clientId: integer("client_id").notNull().references(() => clients.id),
   status: text("status").$type<ProjectStatusType>().notNull().default(ProjectStatus.IN_PROGRESS),
   startDate: timestamp("start_date").notNull(),
-  budget: doublePrecision("budget").notNull(),
+  budget: money("budget").notNull(),
   createdById: integer("created_by_id").notNull(),
+  archivedAt: timestamp("archived_at"),
+  // Percentages of the budget at which the project's managers are warned
+  budgetAlertThresholds: integer("budget_alert_thresholds").array().notNull().default([75, 90, 100]),
+  // ISO 4217 code of the budget and of the project's reports
+  currency: text("currency").notNull().default("USD"),
+});
+
+export const DEFAULT_BUDGET_ALERT_THRESHOLDS = [75, 90, 100];
+
+// Each threshold a project's committed spend (approved plus pending) has crossed. One row per
+// threshold and budget figure, so a revised budget re-arms the alerts.
+export const projectBudgetAlerts = pgTable("project_budget_alerts", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => projects.id),
+  threshold: integer("threshold").notNull(),
+  budget: money("budget").notNull(),
+  committed: money("committed").notNull(),
+  triggeredAt: timestamp("triggered_at").defaultNow().notNull(),
+}, (table) => [
+  unique("project_budget_alerts_once").on(table.projectId, table.threshold, table.budget),
+]);
+
+// The reporting currency. Budgets and expenses default to it, and every exchange rate is quoted in it.
+export const REPORTING_CURRENCY = "USD";
+
+// Locally maintained exchange rates: one unit of currency is worth rate units of REPORTING_CURRENCY.
+// The reporting currency itself has no row; its rate is always 1.
+export const exchangeRates = pgTable("exchange_rates", {
+  currency: text("currency").primaryKey(),
+  rate: doublePrecision("rate").notNull(),
+  updatedById: integer("updated_by_id").notNull().references(() => users.id),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// Optional split of a project's budget by expense category. Categories without a line are
+// unbudgeted: spending on them is reported but never warned about.
+export const projectCategoryBudgets = pgTable("project_category_budgets", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => projects.id),
+  category: text("category").$type<ExpenseCategoryType>().notNull(),
+  amount: money("amount").notNull(),
+}, (table) => [
+  unique("project_category_budgets_line").on(table.projectId, table.category),
+]);
+
+// Every change to a project's budget. projects.budget holds the latest figure; the revisions
+// keep the dated trail of how it got there and why.
+export const projectBudgetRevisions = pgTable("project_budget_revisions", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => projects.id),
+  previousBudget: money("previous_budget"),
+  newBudget: money("new_budget").notNull(),
+  reason: text("reason").notNull(),
+  effectiveDate: timestamp("effective_date").notNull(),
+  revisedById: integer("revised_by_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Removing someone from a project stamps removedAt instead of deleting the row, so the table
+// doubles as the team's assignment history. Only rows without removedAt are current members.
 export const projectAssignments = pgTable("project_assignments", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
@@ -70,8 +228,36 @@ export const projectAssignments = pgTable("project_assignments", {
   assignedAt: timestamp("assigned_at").defaultNow().notNull(),
   assignedBy: integer("assigned_by").notNull().references(() => users.id),
   projectRole: text("project_role").$type<UserRoleType>(),
+  removedAt: timestamp("removed_at"),
+  removedBy: integer("removed_by").references(() => users.id),
 });
 
+// Single-use invitations are the way in for new users. Only a hash of the token is kept; the
+// token itself is handed to the admin once, for the invite link.
+export const invitations = pgTable("invitations", {
+  id: serial("id").primaryKey(),
+  tokenHash: text("token_hash").notNull().unique(),
+  email: text("email").notNull(),
+  role: text("role").$type<UserRoleType>().notNull(),
+  // The project the new user joins on accepting, with their role as project role
+  projectId: integer("project_id").references(() => projects.id),
+  invitedById: integer("invited_by_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  acceptedUserId: integer("accepted_user_id").references(() => users.id),
+  revokedAt: timestamp("revoked_at"),
+});
+
+export const InvitationStatus = {
+  PENDING: "pending",
+  ACCEPTED: "accepted",
+  REVOKED: "revoked",
+  EXPIRED: "expired",
+} as const;
+
+export type InvitationStatusType = typeof InvitationStatus[keyof typeof InvitationStatus];
+
 // Expense categories
 export const ExpenseCategory = {
   EQUIPMENT: "equipment",
@@ -88,6 +274,7 @@ export const ExpenseStatus = {
   PENDING: "pending",
   APPROVED: "approved",
   REJECTED: "rejected",
+  WITHDRAWN: "withdrawn",
 } as const;
 
 export type ExpenseCategoryType = typeof ExpenseCategory[keyof typeof ExpenseCategory];
@@ -97,7 +284,9 @@ export type ExpenseStatusType = typeof ExpenseStatus[keyof typeof ExpenseStatus]
 export const expenses = pgTable("expenses", {
   id: serial("id").primaryKey(),
   projectId: integer("project_id").notNull().references(() => projects.id),  // Linked to projects table
-  amount: doublePrecision("amount").notNull(),
+  amount: money("amount").notNull(),
+  // The currency the amount was paid in, which need not be the project's
+  currency: text("currency").notNull().default("USD"),
   description: text("description").notNull(),
   category: text("category").$type<ExpenseCategoryType>().notNull(),
   receiptUrl: text("receipt_url"),
@@ -108,6 +297,88 @@ export const expenses = pgTable("expenses", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// What produced an expense version
+export const ExpenseChangeType = {
+  SUBMITTED: "submitted",
+  EDITED: "edited",
+  REVIEWED: "reviewed",
+  RESUBMITTED: "resubmitted",
+  WITHDRAWN: "withdrawn",
+} as const;
+
+export type ExpenseChangeTypeType = typeof ExpenseChangeType[keyof typeof ExpenseChangeType];
+
+// Snapshot of an expense after each change, so reviewers can compare submissions and
+// earlier rejection feedback survives a resubmission
+export const expenseVersions = pgTable("expense_versions", {
+  id: serial("id").primaryKey(),
+  expenseId: integer("expense_id").notNull().references(() => expenses.id),
+  version: integer("version").notNull(),
+  changeType: text("change_type").$type<ExpenseChangeTypeType>().notNull(),
+  changedById: integer("changed_by_id").notNull().references(() => users.id),
+  amount: money("amount").notNull(),
+  currency: text("currency").notNull().default("USD"),
+  description: text("description").notNull(),
+  category: text("category").$type<ExpenseCategoryType>().notNull(),
+  receiptUrl: text("receipt_url"),
+  status: text("status").$type<ExpenseStatusType>().notNull(),
+  reviewedById: integer("reviewed_by_id").references(() => users.id),
+  feedback: text("feedback"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Who has to sign off an expense. A rule applies once the expense amount exceeds minAmount, and rules
+// scoped to a project or category replace the global (unscoped) ones for matching expenses.
+export const approvalRules = pgTable("approval_rules", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").references(() => projects.id),
+  category: text("category").$type<ExpenseCategoryType>(),
+  level: integer("level").notNull(),
+  approverRole: text("approver_role").$type<UserRoleType>().notNull(),
+  minAmount: money("min_amount").notNull().default(0),
+  createdById: integer("created_by_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Enum values for approval step status
+export const ApprovalStepStatus = {
+  PENDING: "pending",
+  APPROVED: "approved",
+  REJECTED: "rejected",
+} as const;
+
+export type ApprovalStepStatusType = typeof ApprovalStepStatus[keyof typeof ApprovalStepStatus];
+
+// One sign-off in an expense's approval chain. Editing or resubmitting an expense starts a new round,
+// so earlier decisions stay on record.
+export const expenseApprovalSteps = pgTable("expense_approval_steps", {
+  id: serial("id").primaryKey(),
+  expenseId: integer("expense_id").notNull().references(() => expenses.id),
+  round: integer("round").notNull(),
+  level: integer("level").notNull(),
+  approverRole: text("approver_role").$type<UserRoleType>().notNull(),
+  status: text("status").$type<ApprovalStepStatusType>().notNull().default(ApprovalStepStatus.PENDING),
+  reviewedById: integer("reviewed_by_id").references(() => users.id),
+  feedback: text("feedback"),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Receipt files attached to an expense; the bytes live in the receipt store under storageKey
+export const expenseReceipts = pgTable("expense_receipts", {
+  id: serial("id").primaryKey(),
+  expenseId: integer("expense_id").notNull().references(() => expenses.id),
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  storageKey: text("storage_key").notNull().unique(),
+  uploadedById: integer("uploaded_by_id").notNull().references(() => users.id),
+  uploadedAt: timestamp("uploaded_at").defaultNow().notNull(),
+});
+
+export const RECEIPT_MIME_TYPES = ["image/jpeg", "image/png", "image/webp", "application/pdf"] as const;
+export const RECEIPT_MAX_BYTES = 10 * 1024 * 1024;
+export const RECEIPT_MAX_FILES = 5;
 
 export enum ActivityAction {
   // Expense-related
@@ -123,18 +394,31 @@ export enum ActivityAction {
   // Project status-related
   PROJECT_CREATED = "project_created",
   PROJECT_UPDATED = "project_updated",
+  PROJECT_DELETED = "project_deleted",
+
+  // Client-related
+  CLIENT_UPDATED = "client_updated",
+  CLIENT_TRANSFERRED = "client_transferred",
+  CLIENT_MERGED = "client_merged",
+
+  // Budget-related
+  BUDGET_THRESHOLD_REACHED = "budget_threshold_reached",
 }
 
 export type InternalUser  = typeof users.$inferSelect;
 export type User = Omit<InternalUser , 'password'>;
 export type Expense = typeof expenses.$inferSelect;
 export type Project = typeof projects.$inferSelect;
+export type Client = typeof clients.$inferSelect;
 
 export type ExpenseLogDetails = Expense;
 export type UserLogDetails = User;
 export type ProjectLogDetails = Project;
+export type ClientLogDetails = Client;
+export type ProjectBudgetAlert = typeof projectBudgetAlerts.$inferSelect;
+export type BudgetAlertLogDetails = ProjectBudgetAlert & { projectName: string };
 
-export type ActivityLogDetails = ExpenseLogDetails | UserLogDetails | ProjectLogDetails;
+export type ActivityLogDetails = ExpenseLogDetails | UserLogDetails | ProjectLogDetails | ClientLogDetails | BudgetAlertLogDetails;
 
 // Activity Log model
 export const activityLogs = pgTable("activity_logs", {
@@ -161,8 +445,11 @@ export const notificationReads = pgTable("notification_reads", {
 
 // insert schemas
 export const insertSessionTokenSchema = createInsertSchema(sessionToken).pick({
+  id: true,
   userId: true,
-  refreshToken: true,
+  tokenHash: true,
+  userAgent: true,
+  ipAddress: true,
   expiresAt: true,
 });
 
@@ -181,12 +468,30 @@ export const insertClientSchema = createInsertSchema(clients).pick({
   createdById: true
 });
 
-export const insertProjectSchema = createInsertSchema(projects).pick({
+// Contact details a client's owner can correct
+export const clientUpdateSchema = z.object({
+  name: z.string().min(1, "Client name is required"),
+  contactPerson: z.string().min(1, "Contact person is required"),
+  contactEmail: z.string().email("Invalid email address"),
+  contactPhone: z.string().min(1, "Phone number is required"),
+}).partial();
+
+export const clientTransferSchema = z.object({
+  createdById: z.number().int().positive(),
+});
+
+// The client named in the route absorbs the source client's projects
+export const clientMergeSchema = z.object({
+  sourceClientId: z.number().int().positive(),
+});
+
+export const insertProjectSchema = createInsertSchema(projects, { budget: wholeCents(z.number()) }).pick({
   name: true,
   clientId: true,
   status: true,
   startDate: true,
   budget: true,
+  currency: true,
   createdById: true,
 });
 
@@ -197,10 +502,11 @@ export const insertProjectAssignmentSchema = createInsertSchema(projectAssignmen
   projectRole: true,
 });
 
-export const insertExpenseSchema = createInsertSchema(expenses).pick({
+export const insertExpenseSchema = createInsertSchema(expenses, { amount: wholeCents(z.number()) }).pick({
   projectId: true,
   amount: true,
   description: true,
+  currency: true,
   category: true,
   receiptUrl: true,
   status: true,
@@ -209,6 +515,24 @@ export const insertExpenseSchema = createInsertSchema(expenses).pick({
   feedback: true,
 });
 
+export const insertApprovalRuleSchema = createInsertSchema(approvalRules, { minAmount: wholeCents(z.number()) }).pick({
+  projectId: true,
+  category: true,
+  level: true,
+  approverRole: true,
+  minAmount: true,
+  createdById: true,
+});
+
+export const insertExpenseReceiptSchema = createInsertSchema(expenseReceipts).pick({
+  expenseId: true,
+  fileName: true,
+  mimeType: true,
+  size: true,
+  storageKey: true,
+  uploadedById: true,
+});
+
 export const insertActivityLogSchema = createInsertSchema(activityLogs).pick({
   userId: true,
   projectId: true,
@@ -233,7 +557,56 @@ export const userLoginSchema = z.object({
   password: z.string().min(6, "Password must be at least 6 characters"),
 });
 
-export const userRegisterSchema = insertUserSchema.extend({
+// Open registration, when it is enabled, only ever creates employees, so there is no role to pick
+export const userRegisterSchema = insertUserSchema.omit({ role: true }).extend({
+  password: z.string().min(6, "Password must be at least 6 characters"),
+  confirmPassword: z.string(),
+}).refine(data => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+// Email addresses are compared and stored lowercased
+const emailAddressSchema = z.string().trim().toLowerCase().email("Please enter a valid email address");
+
+export const profileUpdateSchema = z.object({
+  name: z.string().trim().min(2, "Name must be at least 2 characters"),
+  email: emailAddressSchema,
+});
+
+export const invitationFormSchema = z.object({
+  email: emailAddressSchema,
+  role: z.enum([UserRole.ADMIN, UserRole.MANAGER, UserRole.SALESPERSON, UserRole.EMPLOYEE]),
+  projectId: z.number().int().positive().optional(),
+}).refine(data => data.role !== UserRole.ADMIN || data.projectId === undefined, {
+  message: "Admins already see every project, so they are not invited to one",
+  path: ["projectId"],
+});
+
+export const acceptInvitationSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters"),
+  name: z.string().trim().min(2, "Name must be at least 2 characters"),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+  confirmPassword: z.string(),
+}).refine(data => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+export const passwordChangeSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(6, "Password must be at least 6 characters"),
+  confirmPassword: z.string(),
+}).refine(data => data.newPassword === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+export const forgotPasswordSchema = z.object({
+  email: emailAddressSchema,
+});
+
+export const passwordResetSchema = z.object({
   password: z.string().min(6, "Password must be at least 6 characters"),
   confirmPassword: z.string(),
 }).refine(data => data.password === data.confirmPassword, {
@@ -241,32 +614,340 @@ export const userRegisterSchema = insertUserSchema.extend({
   path: ["confirmPassword"],
 });
 
-export const projectFormSchema = insertProjectSchema.extend({
-  budget: z.number().min(1, "Budget must be greater than 0"),
+// An authenticator code, or a recovery code in its place
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, "Enter the code from your authenticator app").max(32),
+});
+
+// The second login step, carrying the challenge the password step handed out
+export const twoFactorLoginSchema = twoFactorCodeSchema.extend({
+  challengeToken: z.string().min(1, "The sign-in has expired; start again"),
+});
+
+export const twoFactorPolicySchema = z.object({
+  roles: z.array(z.enum([UserRole.ADMIN, UserRole.MANAGER, UserRole.SALESPERSON, UserRole.EMPLOYEE])),
+});
+
+export const notificationPreferencesSchema = z.object({
+  emailNotifications: z.boolean(),
+  newExpenseSubmission: z.boolean(),
+  expenseStatusChange: z.boolean(),
+  projectStatusChange: z.boolean(),
+  dailySummary: z.boolean(),
+});
+
+// ISO 4217 codes such as USD or EUR
+export const currencyCodeSchema = z.string()
+  .transform((code) => code.trim().toUpperCase())
+  .pipe(z.string().regex(/^[A-Z]{3}$/, "Currency must be a three-letter code such as USD or EUR"));
+
+export const projectStatusSchema = z.enum(Object.values(ProjectStatus) as [ProjectStatusType, ...ProjectStatusType[]], {
+  errorMap: () => ({ message: `Status must be one of ${Object.values(ProjectStatus).join(", ")}` }),
+});
+
+export const projectStatusUpdateSchema = z.object({
+  status: projectStatusSchema,
+});
+
+// The server records the authenticated user as the creator. Dates arrive as JSON strings.
+export const projectFormSchema = insertProjectSchema.omit({ createdById: true }).extend({
+  name: z.string().trim().min(1, "Project name is required"),
+  clientId: z.number().int().positive(),
+  status: projectStatusSchema.default(ProjectStatus.IN_PROGRESS),
+  startDate: z.coerce.date().refine((date) => !isNaN(date.getTime()), "Start date must be a valid date"),
+  budget: wholeCents(z.number().min(1, "Budget must be greater than 0")),
+  currency: currencyCodeSchema.optional(),
+});
+
+export const exchangeRateFormSchema = z.object({
+  currency: currencyCodeSchema.refine((code) => code !== REPORTING_CURRENCY, `${REPORTING_CURRENCY} is the reporting currency and always has a rate of 1`),
+  rate: z.number().positive("Rate must be greater than 0"),
+});
+
+// Project details that can be edited after creation; the budget changes through revisions instead
+export const projectUpdateSchema = z.object({
+  name: z.string().min(1, "Project name is required"),
+  clientId: z.number().int().positive(),
+  startDate: z.coerce.date(),
+  budgetAlertThresholds: z.array(
+    z.number().int().min(1, "Thresholds are percentages above 0").max(500, "Thresholds are at most 500%"),
+  ).max(10, "Set at most 10 thresholds"),
+}).partial();
+
+// The project and the assigning user come from the route and the session
+export const projectAssignmentFormSchema = z.object({
+  userId: z.number().int().positive(),
+  projectRole: z.enum([UserRole.MANAGER, UserRole.SALESPERSON, UserRole.EMPLOYEE]),
+});
+
+export const budgetRevisionSchema = z.object({
+  budget: wholeCents(z.number().min(1, "Budget must be greater than 0")),
+  reason: z.string().min(3, "Reason must be at least 3 characters"),
+  effectiveDate: z.coerce.date().optional(),
+});
+
+const categoryBudgetLineSchema = z.object({
+  category: z.enum(Object.values(ExpenseCategory) as [ExpenseCategoryType, ...ExpenseCategoryType[]]),
+  amount: wholeCents(z.number().min(1, "Category budgets must be greater than 0")),
+});
+
+// Replaces all of a project's category lines; an empty list removes the breakdown
+export const categoryBudgetsSchema = z.object({
+  lines: z.array(categoryBudgetLineSchema).refine(
+    (lines) => new Set(lines.map((line) => line.category)).size === lines.length,
+    "Each category can have only one budget line",
+  ),
+});
+
+// Would an expense of this amount push its category line over budget? expenseId leaves out the
+// expense's current figures when it is being edited.
+export const categoryBudgetCheckSchema = z.object({
+  category: categoryBudgetLineSchema.shape.category,
+  amount: z.coerce.number().min(0),
+  // The expense's currency; the project's when left out
+  currency: currencyCodeSchema.optional(),
+  expenseId: z.coerce.number().int().optional(),
+});
+
+// What a submitter may set; the status, the submitter and the review fields are the server's to fill in
+export const expenseFormSchema = insertExpenseSchema.pick({
+  projectId: true,
+  amount: true,
+  description: true,
+  currency: true,
+  category: true,
+  receiptUrl: true,
+}).extend({
+  projectId: z.number().int().positive(),
+  amount: wholeCents(z.number().min(0.01, "Amount must be greater than 0")),
+  // Left out, the expense takes the project's currency
+  currency: currencyCodeSchema.optional(),
+  description: z.string().min(3, "Description must be at least 3 characters"),
+  category: z.enum(Object.values(ExpenseCategory) as [ExpenseCategoryType, ...ExpenseCategoryType[]]),
+});
+
+export const EXPENSE_IMPORT_MAX_BYTES = 1024 * 1024;
+export const EXPENSE_IMPORT_MAX_ROWS = 500;
+
+// One row of a CSV import once its project name has been resolved
+export const expenseImportRowSchema = expenseFormSchema.pick({
+  projectId: true,
+  amount: true,
+  currency: true,
+  description: true,
+  category: true,
+}).extend({
+  category: z.enum(Object.values(ExpenseCategory) as [ExpenseCategoryType, ...ExpenseCategoryType[]], {
+    errorMap: () => ({ message: `Category must be one of ${Object.values(ExpenseCategory).join(", ")}` }),
+  }),
+});
+
+// The rows the user confirmed after the preview
+export const expenseImportSchema = z.object({
+  rows: z.array(expenseImportRowSchema)
+    .min(1, "There are no rows to import")
+    .max(EXPENSE_IMPORT_MAX_ROWS, `Import at most ${EXPENSE_IMPORT_MAX_ROWS} rows at a time`),
 });
 
-export const expenseFormSchema = insertExpenseSchema.extend({
-  amount: z.number().min(0.01, "Amount must be greater than 0"),
+export const EXPENSE_SORT_FIELDS = ["createdAt", "amount", "description", "category", "status"] as const;
+
+// Filters, sort order and page for expense listings, read from the query string.
+// minAmount and maxAmount are in the chosen currency and only match expenses paid in it, since
+// comparing raw amounts across currencies is meaningless; either bound needs a currency.
+export const expenseQuerySchema = z.object({
+  status: z.enum(Object.values(ExpenseStatus) as [ExpenseStatusType, ...ExpenseStatusType[]]).optional(),
+  category: z.enum(Object.values(ExpenseCategory) as [ExpenseCategoryType, ...ExpenseCategoryType[]]).optional(),
+  projectId: z.coerce.number().int().positive().optional(),
+  submittedById: z.coerce.number().int().positive().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  currency: currencyCodeSchema.optional(),
+  minAmount: z.coerce.number().min(0).optional(),
+  maxAmount: z.coerce.number().min(0).optional(),
+  search: z.string().trim().min(1).max(200).optional(),
+  sortBy: z.enum(EXPENSE_SORT_FIELDS).default("createdAt"),
+  sortOrder: z.enum(["asc", "desc"]).default("desc"),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+}).refine(
+  (query) => query.currency !== undefined || (query.minAmount === undefined && query.maxAmount === undefined),
+  { message: "Choose a currency to filter by amount", path: ["currency"] },
+);
+
+// Fields the submitter may change when editing or resubmitting an expense
+export const expenseEditSchema = z.object({
+  amount: wholeCents(z.number().min(0.01, "Amount must be greater than 0")),
+  currency: currencyCodeSchema,
   description: z.string().min(3, "Description must be at least 3 characters"),
+  category: z.enum(Object.values(ExpenseCategory) as [ExpenseCategoryType, ...ExpenseCategoryType[]]),
+  receiptUrl: z.string().nullable(),
+}).partial();
+
+export const BULK_REVIEW_MAX_EXPENSES = 100;
+
+// One decision applied to many pending expenses
+export const bulkReviewSchema = z.object({
+  expenseIds: z.array(z.number().int().positive())
+    .min(1, "Select at least one expense")
+    .max(BULK_REVIEW_MAX_EXPENSES, `Review at most ${BULK_REVIEW_MAX_EXPENSES} expenses at a time`),
+  status: z.enum([ExpenseStatus.APPROVED, ExpenseStatus.REJECTED], {
+    errorMap: () => ({ message: "Status must be approved or rejected" }),
+  }),
+  feedback: z.string().optional(),
 });
 
+// Only reviewers can sit in an approval chain
+export const approvalRuleFormSchema = insertApprovalRuleSchema.omit({ createdById: true }).extend({
+  projectId: z.number().int().positive().nullable().optional(),
+  category: z.enum(Object.values(ExpenseCategory) as [ExpenseCategoryType, ...ExpenseCategoryType[]]).nullable().optional(),
+  level: z.number().int().min(1, "Level must be at least 1"),
+  approverRole: z.enum([UserRole.MANAGER, UserRole.ADMIN]),
+  minAmount: wholeCents(z.number().min(0, "Minimum amount cannot be negative")).default(0),
+});
 
 // Types for database operations
 export type InsertSessionToken = z.infer<typeof insertSessionTokenSchema>;
 export type SessionToken = typeof sessionToken.$inferSelect;
+// A session as its owner and admins see it; current marks the one making the request
+export type SessionSummary = Omit<SessionToken, "tokenHash"> & { current: boolean };
+// Where a sign-in or refresh came from
+export type SessionDevice = Pick<SessionToken, "userAgent" | "ipAddress">;
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type ProfileUpdate = z.infer<typeof profileUpdateSchema>;
+export type Invitation = typeof invitations.$inferSelect;
+export type InsertInvitation = InferInsertModel<typeof invitations>;
+export type InvitationForm = z.infer<typeof invitationFormSchema>;
+export type AcceptInvitation = z.infer<typeof acceptInvitationSchema>;
+// What the invite link shows before anyone has signed in
+export type InvitationPreview = Pick<Invitation, "email" | "role" | "expiresAt"> & { projectName: string | null };
+export type PasswordChange = z.infer<typeof passwordChangeSchema>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type InsertPasswordResetToken = InferInsertModel<typeof passwordResetTokens>;
+export type ForgotPassword = z.infer<typeof forgotPasswordSchema>;
+export type PasswordReset = z.infer<typeof passwordResetSchema>;
+export type TwoFactorCredential = typeof twoFactorCredentials.$inferSelect;
+export type TwoFactorChallenge = typeof twoFactorChallenges.$inferSelect;
+export type InsertTwoFactorChallenge = InferInsertModel<typeof twoFactorChallenges>;
+export type TwoFactorLogin = z.infer<typeof twoFactorLoginSchema>;
+export type TwoFactorPolicy = z.infer<typeof twoFactorPolicySchema>;
+export type TwoFactorStatus = { enabled: boolean; required: boolean; recoveryCodesRemaining: number };
+// What an authenticator app needs; otpauthUri is the content of the enrollment QR code
+export type TwoFactorSetup = { secret: string; otpauthUri: string };
+// A password sign-in either finishes, or asks for a code ("required") or for enrollment first ("setup")
+export type LoginResponse =
+  | { accessToken: string }
+  | { twoFactor: "required" | "setup"; challengeToken: string };
+export type NotificationPreferences = z.infer<typeof notificationPreferencesSchema>;
 
 export type InsertClient = z.infer<typeof insertClientSchema>;
-export type Client = typeof clients.$inferSelect;
+export type ClientUpdate = z.infer<typeof clientUpdateSchema>;
 
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 
+export type ProjectUpdate = z.infer<typeof projectUpdateSchema>;
+export type BudgetRevision = z.infer<typeof budgetRevisionSchema>;
+export type CategoryBudgetLine = z.infer<typeof categoryBudgetLineSchema>;
+export type CategoryBudgets = z.infer<typeof categoryBudgetsSchema>;
+export type CategoryBudgetCheckQuery = z.infer<typeof categoryBudgetCheckSchema>;
+export type ProjectBudgetRevision = typeof projectBudgetRevisions.$inferSelect;
+export type InsertProjectBudgetAlert = InferInsertModel<typeof projectBudgetAlerts>;
+export type ProjectCategoryBudget = typeof projectCategoryBudgets.$inferSelect;
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type InsertExchangeRate = InferInsertModel<typeof exchangeRates>;
+export type ExchangeRateForm = z.infer<typeof exchangeRateFormSchema>;
+
+// An amount in the currency it was recorded in, kept next to converted totals
+export type CurrencyAmount = {
+  currency: string;
+  amount: number;
+};
+
+// Where a project's spending is heading. committed is approved plus pending; the burn rate is the
+// committed spend per day over the recent window, and exhaustionDate is when it would use up the
+// budget at that rate (null when nothing has been spent recently).
+export type BudgetForecast = {
+  projectId: number;
+  projectName: string;
+  // Every figure is in the project's currency
+  currency: string;
+  budget: number;
+  approved: number;
+  pending: number;
+  committed: number;
+  percentCommitted: number;
+  dailyBurnRate: number;
+  daysRemaining: number | null;
+  exhaustionDate: string | null;
+  thresholds: number[];
+  alerts: ProjectBudgetAlert[];
+};
+
 export type InsertProjectAssignment = z.infer<typeof insertProjectAssignmentSchema>;
 export type ProjectAssignment = typeof projectAssignments.$inferSelect;
+export type ProjectAssignmentForm = z.infer<typeof projectAssignmentFormSchema>;
 
 export type InsertExpense = z.infer<typeof insertExpenseSchema>;
 
+export type ExpenseEdit = z.infer<typeof expenseEditSchema>;
+export type ExpenseQuery = z.infer<typeof expenseQuerySchema>;
+// What the client sends; defaults are filled in on the server
+export type ExpenseQueryParams = z.input<typeof expenseQuerySchema>;
+
+export type BulkReview = z.infer<typeof bulkReviewSchema>;
+
+// The outcome for one expense of a bulk review. status is the expense's status afterwards.
+export type BulkReviewItemResult = {
+  expenseId: number;
+  success: boolean;
+  status?: ExpenseStatusType;
+  message?: string;
+};
+
+// applied is false when any expense could not be reviewed; then none of them were changed
+export type BulkReviewResult = {
+  applied: boolean;
+  results: BulkReviewItemResult[];
+};
+
+export type ExpenseImportRow = z.infer<typeof expenseImportRowSchema>;
+
+// How one CSV line will be imported: the raw cells, the expense they resolve to, or why they cannot be
+export type ExpenseImportPreviewRow = {
+  line: number;
+  values: Record<string, string>;
+  expense: ExpenseImportRow | null;
+  errors: string[];
+};
+
+export type ExpenseImportPreview = {
+  rows: ExpenseImportPreviewRow[];
+  validCount: number;
+  errorCount: number;
+};
+
+// One page of a listing. total and totalAmount cover every matching row, not just this page.
+export type ExpensePage = {
+  items: Expense[];
+  total: number;
+  // The matching expenses' amounts converted into totalCurrency
+  totalAmount: number;
+  totalCurrency: string;
+  page: number;
+  pageSize: number;
+};
+export type ExpenseVersion = typeof expenseVersions.$inferSelect;
+
+export type InsertApprovalRule = z.infer<typeof insertApprovalRuleSchema>;
+export type ApprovalRule = typeof approvalRules.$inferSelect;
+
+export type ExpenseApprovalStep = typeof expenseApprovalSteps.$inferSelect;
+// A step the policy requires, before it is attached to an expense
+export type ApprovalRequirement = Pick<ExpenseApprovalStep, "level" | "approverRole">;
+
+export type InsertExpenseReceipt = z.infer<typeof insertExpenseReceiptSchema>;
+export type ExpenseReceipt = typeof expenseReceipts.$inferSelect;
+
 export type InsertActivityLog = InferInsertModel<typeof activityLogs>;
 export type ActivityLog = typeof activityLogs.$inferSelect;
 
@@ -278,24 +959,73 @@ export type NotificationRead = typeof notificationReads.$inferSelect;
 
 export type LoginCredentials = z.infer<typeof userLoginSchema>;
 
+// What users get until they save their own notification settings
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  emailNotifications: true,
+  newExpenseSubmission: true,
+  expenseStatusChange: true,
+  projectStatusChange: true,
+  dailySummary: false,
+};
+
+export function invitationStatus(invitation: Pick<Invitation, "acceptedAt" | "revokedAt" | "expiresAt">, now = new Date()): InvitationStatusType {
+  if (invitation.acceptedAt) return InvitationStatus.ACCEPTED;
+  if (invitation.revokedAt) return InvitationStatus.REVOKED;
+  return new Date(invitation.expiresAt) <= now ? InvitationStatus.EXPIRED : InvitationStatus.PENDING;
+}
+
+export function wantsNotification(preferences: NotificationPreferences, topic: NotificationTopicType): boolean {
+  return preferences[topic];
+}
+
 // Custom type 
 
+// budget and spent are in the project's currency; the reporting figures convert both so that
+// projects can be compared and added up
 export type ProjectBudgetComparison = {
   project: string;
+  currency: string;
   budget: number;
   spent: number;
+  reportingCurrency: string;
+  reportingBudget: number;
+  reportingSpent: number;
+};
+
+// Budget against actual for one category of one project. spent is approved spending, as in the
+// project-level comparison; budget is 0 when the category has no line (budgeted is false).
+export type CategoryBudgetComparison = ProjectBudgetComparison & {
+  projectId: number;
+  category: ExpenseCategoryType;
+  budgeted: boolean;
+  pending: number;
+};
+
+// The outcome of a category budget check; overBy is 0 while the line still has room
+export type CategoryBudgetCheck = {
+  category: ExpenseCategoryType;
+  // The project's currency, which every figure is in
+  currency: string;
+  budget: number;
+  committed: number;
+  projected: number;
+  overBy: number;
 };
 
 export type MonthlySpending = {
   month: string;
+  currency: string;
   equipment: number;
   labor: number;
   transport: number;
 };
 
+// amount is converted into currency; original keeps what was spent in each currency
 export type SpendingCategory = {
   category: ExpenseCategoryType;
   amount: number;
+  currency: string;
+  original: CurrencyAmount[];
 };
 
 export type ExpenseApprovalRate = {
@@ -307,4 +1037,12 @@ export type EmployeeSpending = {
   employeeId: number;
   employeeName: string;
   amount: number;
+  currency: string;
+};
+
+// Messages pushed over the /ws socket. "notification" goes to the users an activity log targets,
+// "activity" goes to everyone allowed to read the activity log.
+export type RealtimeEvent = {
+  type: "notification" | "activity";
+  log: ActivityLog;
 };
@@ -1,4 +1,5 @@
 import jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
 import dotenv from 'dotenv';
 import { UserRoleType } from "../shared/schema";
 
@@ -14,6 +15,7 @@ export interface DecodedToken {
   username: string;
   name: string;
   role: UserRoleType;
+  sid: string; // The session (signed-in device) the token belongs to
   exp: number; // Token expiration timestamp (in seconds since epoch)
   iat: number; // (Optional) Issued at timestamp
 }
@@ -23,13 +25,14 @@ export function generateAccessToken(user: {
   username: string;
   name: string;
   role: UserRoleType;
-}) {
+}, sessionId: string) {
   return jwt.sign(
     {
       id: user.id,
       username: user.username,
       name: user.name,
       role: user.role,
+      sid: sessionId,
     },
     JWT_SECRET,
     {
@@ -38,22 +41,25 @@ export function generateAccessToken(user: {
   );
 }
 
+// Every refresh token is unique, even two issued for one session within the same second
 export function generateRefreshToken(user: {
   id: number;
   username: string;
   name: string;
   role: UserRoleType;
-}) {
+}, sessionId: string) {
   return jwt.sign(
     {
       id: user.id,
       username: user.username,
       name: user.name,
       role: user.role,
+      sid: sessionId,
     },
     REFRESH_TOKEN_SECRET,
     {
       expiresIn: `${REFRESH_TOKEN_EXPIRY_DAYS}d`,
+      jwtid: randomUUID(),
     }
   );
 }
@@ -61,3 +67,24 @@ export function generateRefreshToken(user: {
 export function verifyRefreshToken(token: string): DecodedToken {
   return jwt.verify(token, REFRESH_TOKEN_SECRET) as DecodedToken;
 }
+
+export function verifyAccessToken(token: string): DecodedToken {
+  return jwt.verify(token, JWT_SECRET) as DecodedToken;
+}
+
+// Proves the password step of a two-factor sign-in. Signed with its own key, so it can never pass
+// as an access token, and short-lived, since it stands in for a password that was just typed. The
+// jti names the stored challenge, which keeps count of the codes tried and is used up by the sign-in.
+const TWO_FACTOR_CHALLENGE_SECRET = `${JWT_SECRET}:two-factor`;
+export const TWO_FACTOR_CHALLENGE_EXPIRY_MINUTES = 5;
+
+export function generateTwoFactorChallenge(userId: number, challengeId: string) {
+  return jwt.sign({ id: userId }, TWO_FACTOR_CHALLENGE_SECRET, {
+    expiresIn: `${TWO_FACTOR_CHALLENGE_EXPIRY_MINUTES}m`,
+    jwtid: challengeId,
+  });
+}
+
+export function verifyTwoFactorChallenge(token: string): { id: number; jti: string } {
+  return jwt.verify(token, TWO_FACTOR_CHALLENGE_SECRET) as { id: number; jti: string };
+}
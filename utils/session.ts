@@ -1,5 +1,5 @@
 // utils/session.ts
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { createHash, scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 
 const scryptAsync = promisify(scrypt);
@@ -10,18 +10,23 @@ export async function hashPassword(password: string) {
   return `${buf.toString("hex")}.${salt}`;
 }
 
+// For long random tokens (refresh tokens, invite links) a fast hash is enough to keep them
+// unusable if the table leaks, and it can be looked up directly
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
 
 export async function comparePasswords(supplied: string, stored: string) {
   console.log("$$ Stored password in DB:", stored);
+  const [hashed, salt] = stored.split(".");
 
-  // DEV MODE: Compare plain text directly
-  if (process.env.NODE_ENV === "development") {
+  // DEV MODE: Seeded passwords are plain text; changed and registered ones are hashed even here
+  if (process.env.NODE_ENV === "development" && (!hashed || !salt)) {
     console.warn("⚠️ Dev mode: comparing passwords as plain text");
     return supplied === stored;
   }
 
   // PROD MODE: Expect "hashed.salt" format  
-  const [hashed, salt] = stored.split(".");
   if (!hashed || !salt) throw new Error("Invalid stored password format");
   const hashedBuf = Buffer.from(hashed, "hex");
   const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;